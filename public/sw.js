@@ -0,0 +1,56 @@
+// Keeps the app shell and built assets on the device so the student pages open without a connection.
+// Learning data is not cached here: modules, quizzes and queued answers live in IndexedDB per student.
+const CACHE = "ai-learn-shell-v1";
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/favicon.ico"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirst(request, fallback) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallback ?? request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallback ?? request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy is never stale
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API responses belong to whoever is signed in, which on a shared phone changes
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    // Every route is the same single-page app
+    event.respondWith(networkFirst(request, "/index.html"));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,29 @@
+import type { AIProvider } from "./types.js";
+import { MockProvider } from "./providers/mock.js";
+import { createLocalProvider } from "./providers/local.js";
+import { createOpenAIProvider } from "./providers/openai.js";
+
+export type { AIProvider } from "./types.js";
+
+const PROVIDERS: Record<string, () => AIProvider> = {
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+  mock: () => new MockProvider(process.env.AI_SEED),
+};
+
+let provider: AIProvider | null = null;
+
+// AI_PROVIDER selects the adapter; without it the hosted model is used when a key is present
+export function getAIProvider(): AIProvider {
+  if (provider) return provider;
+
+  const name = process.env.AI_PROVIDER ?? (process.env.OPENAI_API_KEY ? "openai" : "mock");
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}`);
+  }
+
+  provider = factory();
+  console.log(`[api] Using the ${provider.name} AI provider`);
+  return provider;
+}
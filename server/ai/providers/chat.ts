@@ -0,0 +1,144 @@
+import OpenAI from "openai";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  GRADING_SYSTEM_PROMPT,
+  SYSTEM_PROMPT,
+  gradingPrompt,
+  lessonPrompt,
+  modulesPrompt,
+  moduleTranslationPrompt,
+  questionTranslationPrompt,
+  quizzesPrompt,
+  writtenQuestionsPrompt,
+} from "../prompts.js";
+import {
+  generatedModuleSchema,
+  generatedQuizSchema,
+  generatedWrittenQuestionSchema,
+  translatedModuleSchema,
+  translatedQuestionSchema,
+  writtenAssessmentSchema,
+  type AIProvider,
+  type GeneratedLesson,
+  type GeneratedModule,
+  type GeneratedQuiz,
+  type GeneratedWrittenQuestion,
+  type GradingRequest,
+  type LessonRequest,
+  type ModuleRequest,
+  type ModuleTranslationRequest,
+  type QuestionTranslationRequest,
+  type QuizRequest,
+  type TranslatedModule,
+  type TranslatedQuestion,
+  type WrittenAssessment,
+} from "../types.js";
+
+export interface ChatProviderOptions {
+  name: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  // Some local servers reject response_format; the JSON object is then cut out of the reply
+  jsonMode?: boolean;
+  timeoutMs?: number;
+}
+
+// Any server that speaks the OpenAI chat completions API
+export class ChatCompletionsProvider implements AIProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(private options: ChatProviderOptions) {
+    this.name = options.name;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs ?? 120_000,
+    });
+  }
+
+  async generateModules(request: ModuleRequest): Promise<GeneratedModule[]> {
+    const result = z
+      .object({ modules: z.array(generatedModuleSchema).min(1) })
+      .parse(await this.completeJson(modulesPrompt(request)));
+    // The level engine, not the model, decides how hard new modules are
+    return result.modules.map((module) => ({ ...module, difficulty: request.difficulty }));
+  }
+
+  async generateQuizzes(request: QuizRequest): Promise<GeneratedQuiz[]> {
+    const result = z
+      .object({ quizzes: z.array(generatedQuizSchema).min(1) })
+      .parse(await this.completeJson(quizzesPrompt(request)));
+
+    // Drop questions whose answer is not one of the options; they cannot be graded
+    return result.quizzes
+      .filter((quiz) => quiz.options.includes(quiz.correct_answer))
+      .map((quiz) => ({ id: nanoid(10), ...quiz }));
+  }
+
+  async generateWrittenQuestions(request: QuizRequest): Promise<GeneratedWrittenQuestion[]> {
+    const result = z
+      .object({ questions: z.array(generatedWrittenQuestionSchema).min(1) })
+      .parse(await this.completeJson(writtenQuestionsPrompt(request)));
+    return result.questions.map((question) => ({ id: nanoid(10), type: "written" as const, ...question }));
+  }
+
+  async gradeWrittenAnswer(request: GradingRequest): Promise<WrittenAssessment> {
+    // Marking should not vary between two identical answers
+    return writtenAssessmentSchema.parse(await this.completeJson(gradingPrompt(request), 0, GRADING_SYSTEM_PROMPT));
+  }
+
+  async generateLesson(request: LessonRequest): Promise<GeneratedLesson> {
+    return z.object({ content: z.string().min(1) }).parse(await this.completeJson(lessonPrompt(request)));
+  }
+
+  async translateModule(request: ModuleTranslationRequest): Promise<TranslatedModule> {
+    return translatedModuleSchema.parse(await this.completeJson(moduleTranslationPrompt(request), 0.2));
+  }
+
+  async translateQuestions(request: QuestionTranslationRequest): Promise<TranslatedQuestion[]> {
+    const { questions } = z
+      .object({ questions: z.array(translatedQuestionSchema) })
+      .parse(await this.completeJson(questionTranslationPrompt(request), 0.2));
+
+    // Answers are matched across languages by position, so a translation that reorders or merges items is unusable
+    const aligned =
+      questions.length === request.questions.length &&
+      questions.every((translated, index) => {
+        const original = request.questions[index];
+        return (
+          translated.options.length === original.options.length &&
+          new Set(translated.options).size === translated.options.length &&
+          translated.rubric.length === original.rubric.length
+        );
+      });
+    if (!aligned) throw new Error(`${this.name} returned translations that do not match the questions`);
+    return questions;
+  }
+
+  private async completeJson(prompt: string, temperature = 0.7, system = SYSTEM_PROMPT): Promise<unknown> {
+    const jsonMode = this.options.jsonMode ?? true;
+
+    const completion = await this.client.chat.completions.create({
+      model: this.options.model,
+      temperature,
+      ...(jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt },
+      ],
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) throw new Error(`${this.name} returned an empty response`);
+
+    const json = jsonMode ? content : content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1);
+    try {
+      return JSON.parse(json);
+    } catch {
+      throw new Error(`${this.name} did not return valid JSON`);
+    }
+  }
+}
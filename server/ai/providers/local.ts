@@ -0,0 +1,14 @@
+import { ChatCompletionsProvider } from "./chat.js";
+
+// A model served on the local network by Ollama, llama.cpp, LM Studio, vLLM or similar
+export function createLocalProvider(): ChatCompletionsProvider {
+  return new ChatCompletionsProvider({
+    name: "local",
+    baseURL: process.env.LOCAL_AI_BASE_URL ?? "http://localhost:11434/v1",
+    model: process.env.LOCAL_AI_MODEL ?? "llama3.1",
+    // Local servers usually ignore the key, but the client refuses to start without one
+    apiKey: process.env.LOCAL_AI_API_KEY ?? "local",
+    jsonMode: process.env.LOCAL_AI_JSON_MODE !== "false",
+    timeoutMs: Number(process.env.LOCAL_AI_TIMEOUT_MS) || 300_000,
+  });
+}
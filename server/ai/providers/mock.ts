@@ -0,0 +1,298 @@
+import type {
+  AIProvider,
+  GeneratedLesson,
+  GeneratedModule,
+  GeneratedQuiz,
+  GeneratedWrittenQuestion,
+  GradingRequest,
+  LessonRequest,
+  ModuleRequest,
+  ModuleTranslationRequest,
+  QuestionTranslationRequest,
+  QuizRequest,
+  TranslatedModule,
+  TranslatedQuestion,
+  WrittenAssessment,
+} from "../types.js";
+import type { ContentLanguage } from "../../lib/languages.js";
+
+// cyrb53: small, well-distributed string hash used to derive per-request seeds
+function hash(input: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// mulberry32: deterministic PRNG so the same seed and request always produce the same content
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    shuffle: <T>(items: readonly T[]): T[] => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    },
+  };
+}
+
+const MODULE_THEMES = [
+  "Foundations",
+  "Key Vocabulary",
+  "Core Concepts",
+  "Worked Examples",
+  "Problem Solving",
+  "Real-World Applications",
+  "Investigations",
+  "Common Mistakes",
+  "Review and Practice",
+  "Connecting Ideas",
+  "Exam Preparation",
+  "Projects",
+];
+
+const DURATIONS = [20, 30, 40, 45, 60];
+
+const LOCAL_CONTEXTS = [
+  { en: "a market in Kariakoo", sw: "soko la Kariakoo" },
+  { en: "a farm near Arusha", sw: "shamba karibu na Arusha" },
+  { en: "a fishing village on Lake Victoria", sw: "kijiji cha wavuvi ziwa Victoria" },
+  { en: "a school garden in Dodoma", sw: "bustani ya shule Dodoma" },
+  { en: "a bus journey from Mwanza to Dar es Salaam", sw: "safari ya basi kutoka Mwanza hadi Dar es Salaam" },
+  { en: "a cooperative shop in Mbeya", sw: "duka la ushirika Mbeya" },
+];
+
+function plainSentences(markdown: string): string[] {
+  return markdown
+    .split("\n")
+    .filter((line) => line.trim() && !line.trim().startsWith("#"))
+    .map((line) => line.replace(/[*_`>]|^\s*[-\d.]+\s+/g, "").trim())
+    .join(" ")
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= 20 && sentence.length <= 180);
+}
+
+// The mock cannot translate: text "in" another language is the English with the language code after it
+function markLanguage(text: string, language: ContentLanguage): string {
+  const english = text.replace(/ \[[a-z]{2}\]$/, "");
+  return language === "en" ? english : `${english} [${language}]`;
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\d]{4,}/gu) ?? []);
+}
+
+// Offline provider for development and tests: no network, no keys, reproducible output
+export class MockProvider implements AIProvider {
+  readonly name = "mock";
+
+  constructor(private seed: string = "africa-ai") {}
+
+  private random(kind: string, request: object) {
+    return createRandom(hash(`${this.seed}:${kind}:${JSON.stringify(request)}`));
+  }
+
+  async generateModules(request: ModuleRequest): Promise<GeneratedModule[]> {
+    const random = this.random("modules", request);
+    const { difficulty } = request;
+
+    const modules = Array.from({ length: request.count }, (_, index) => {
+      const theme =
+        request.syllabusTopics?.[index] ?? MODULE_THEMES[(request.completedModules + index) % MODULE_THEMES.length];
+      const context = random.pick(LOCAL_CONTEXTS).en;
+      const title = `${request.subject}: ${theme}`;
+
+      return {
+        title,
+        description: `Explore ${theme.toLowerCase()} in ${request.subject} through examples from ${context}.`,
+        difficulty,
+        estimated_duration: random.pick(DURATIONS),
+        detailed_content: [
+          `# ${title}`,
+          "",
+          "## Learning objectives",
+          `- Explain the main ideas of ${theme.toLowerCase()} in ${request.subject}.`,
+          `- Apply ${request.subject} to situations from ${context}.`,
+          ...(request.focusSkills?.length ? [`- Practise ${request.focusSkills.join(", ")}.`] : []),
+          "",
+          "## Explanation",
+          `${theme} in ${request.subject} helps learners connect new ideas to what they already know.`,
+          `A good ${request.subject} learner checks each step before moving to the next one.`,
+          `Practising with examples from ${context} makes abstract ideas easier to remember.`,
+          "",
+          "## Example",
+          `Imagine ${context}. List what you observe, describe it using ${request.subject} vocabulary, and explain your reasoning to a classmate.`,
+          "",
+          "## Summary",
+          `Reviewing ${theme.toLowerCase()} regularly builds confidence for the ${request.form ?? "national"} examinations.`,
+        ].join("\n"),
+      };
+    });
+    return modules.map((module) => ({
+      ...module,
+      title: markLanguage(module.title, request.language),
+      description: markLanguage(module.description, request.language),
+      detailed_content: markLanguage(module.detailed_content, request.language),
+    }));
+  }
+
+  async generateQuizzes(request: QuizRequest): Promise<GeneratedQuiz[]> {
+    const random = this.random("quizzes", request);
+    const sentences = plainSentences(request.moduleContent);
+    const statements = sentences.length > 0 ? sentences : [`${request.moduleTitle} builds on ideas you already know.`];
+    const distractors = [
+      `${request.moduleTitle} should be memorised without understanding.`,
+      `${request.moduleTitle} has no connection to everyday life in Tanzania.`,
+      `Checking your work is not necessary when studying ${request.moduleTitle}.`,
+      `Examples make ${request.moduleTitle} harder to remember.`,
+      `Only teachers need to understand ${request.moduleTitle}.`,
+      `${request.moduleTitle} cannot be explained to a classmate.`,
+    ];
+
+    return Array.from({ length: request.count }, (_, index) => {
+      const correct = statements[index % statements.length];
+      const options = random.shuffle([correct, ...random.shuffle(distractors).slice(0, 3)]);
+
+      return {
+        id: `mock-${hash(`${this.seed}:${request.moduleTitle}:${index}`).toString(36)}`,
+        question: markLanguage(`According to "${request.moduleTitle}", which statement is correct? (${index + 1})`, request.language),
+        options: options.map((option) => markLanguage(option, request.language)),
+        correct_answer: markLanguage(correct, request.language),
+        explanation: markLanguage(
+          `Look again at what "${request.moduleTitle}" says about this idea, then compare each option with the module content.`,
+          request.language,
+        ),
+      };
+    });
+  }
+
+  async generateWrittenQuestions(request: QuizRequest): Promise<GeneratedWrittenQuestion[]> {
+    const sentences = plainSentences(request.moduleContent);
+    const modelAnswer = sentences.slice(0, 2).join(" ") || `${request.moduleTitle} builds on ideas you already know.`;
+
+    return Array.from({ length: request.count }, (_, index) => ({
+      id: `mock-written-${hash(`${this.seed}:${request.moduleTitle}:${index}`).toString(36)}`,
+      type: "written" as const,
+      question: markLanguage(
+        `In your own words, explain one key idea from "${request.moduleTitle}" and give an example. (${index + 1})`,
+        request.language,
+      ),
+      model_answer: markLanguage(modelAnswer, request.language),
+      rubric: [
+        { criterion: markLanguage("States a key idea from the module correctly", request.language), points: 5 },
+        { criterion: markLanguage("Supports it with a relevant example or explanation", request.language), points: 5 },
+      ],
+      explanation: markLanguage(`A strong answer names an idea from "${request.moduleTitle}" and shows how it applies.`, request.language),
+    }));
+  }
+
+  // Marks by word overlap with the model answer; answers in the uncertain middle get low confidence
+  async gradeWrittenAnswer(request: GradingRequest): Promise<WrittenAssessment> {
+    const expected = contentWords(request.modelAnswer);
+    const given = contentWords(request.answer);
+    const overlap = expected.size > 0 ? [...expected].filter((word) => given.has(word)).length / expected.size : 0;
+    const share = Math.min(overlap * 1.5, 1);
+
+    return {
+      criteria: request.rubric.map((item) => ({
+        points_awarded: Math.round(item.points * share),
+        comment: share >= 0.66 ? "Covered well." : share > 0 ? "Partly covered." : "Not covered.",
+      })),
+      feedback:
+        share >= 0.66
+          ? "Good answer: it covers the main points of the model answer."
+          : "Compare your answer with the module and add the key ideas you missed.",
+      confidence: given.size < 3 || overlap >= 0.6 ? 0.9 : overlap < 0.2 ? 0.8 : 0.5,
+    };
+  }
+
+  async generateLesson(request: LessonRequest): Promise<GeneratedLesson> {
+    const random = this.random("lesson", request);
+    const sw = request.lang === "sw";
+    const context = random.pick(LOCAL_CONTEXTS)[request.lang];
+
+    const sections =
+      request.contentType === "lesson"
+        ? [
+            `# ${request.topic}`,
+            `*${request.grade} · ${(request.lessonType ?? "full_lesson").replace(/_/g, " ")}*`,
+            sw ? "## Malengo" : "## Objectives",
+            sw
+              ? `- Kueleza dhana kuu za ${request.topic}.\n- Kutumia ${request.topic} katika mazingira ya ${context}.`
+              : `- Explain the key ideas of ${request.topic}.\n- Apply ${request.topic} to ${context}.`,
+            sw ? "## Maelezo" : "## Explanation",
+            sw
+              ? `${request.topic} ni mada muhimu kwa wanafunzi wa ${request.grade}. Tutaanza na mifano rahisi kisha tuendelee hatua kwa hatua.`
+              : `${request.topic} is an important topic for ${request.grade} students. We start with simple examples and build up step by step.`,
+            sw ? "## Muhtasari" : "## Summary",
+            sw
+              ? `Rudia mawazo makuu ya ${request.topic} na jadili mfano mmoja na mwenzako.`
+              : `Review the main ideas of ${request.topic} and discuss one example with a classmate.`,
+          ]
+        : [
+            `# ${request.topic}`,
+            `*${request.academicFormat ?? "Textbook Page"} · ${request.grade}*`,
+            sw
+              ? `Katika ${context}, wanafunzi walijifunza kuhusu ${request.topic}. Waliuliza maswali, walifanya uchunguzi na kushirikiana matokeo yao.`
+              : `At ${context}, students set out to learn about ${request.topic}. They asked questions, made observations and shared what they found.`,
+            request.length ? (sw ? `> Maelekezo: ${request.length}` : `> Notes: ${request.length}`) : "",
+          ];
+
+    if (request.quizType) {
+      sections.push(
+        sw ? "## Maswali" : "## Quiz",
+        request.quizType !== "written"
+          ? sw
+            ? `1. ${request.topic} inahusu nini?\n   - A) Jibu sahihi ✅\n   - B) Jibu lisilo sahihi`
+            : `1. What is ${request.topic} mainly about?\n   - A) The correct answer ✅\n   - B) An incorrect answer`
+          : "",
+        request.quizType !== "mcq"
+          ? sw
+            ? `2. Eleza kwa maneno yako jinsi ${request.topic} inavyotumika katika ${context}.`
+            : `2. In your own words, explain how ${request.topic} applies to ${context}.`
+          : "",
+      );
+    }
+
+    return { content: sections.filter(Boolean).join("\n\n") };
+  }
+
+  async translateModule(request: ModuleTranslationRequest): Promise<TranslatedModule> {
+    const { title, description, content } = request.module;
+    return {
+      title: markLanguage(title, request.to),
+      description: markLanguage(description, request.to),
+      content: markLanguage(content, request.to),
+    };
+  }
+
+  async translateQuestions(request: QuestionTranslationRequest): Promise<TranslatedQuestion[]> {
+    return request.questions.map((question) => ({
+      question: markLanguage(question.question, request.to),
+      options: question.options.map((option) => markLanguage(option, request.to)),
+      model_answer: question.model_answer === null ? null : markLanguage(question.model_answer, request.to),
+      rubric: question.rubric.map((criterion) => markLanguage(criterion, request.to)),
+      explanation: markLanguage(question.explanation, request.to),
+    }));
+  }
+}
@@ -0,0 +1,12 @@
+import { ChatCompletionsProvider } from "./chat.js";
+
+// Hosted OpenAI models
+export function createOpenAIProvider(): ChatCompletionsProvider {
+  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not set");
+
+  return new ChatCompletionsProvider({
+    name: "openai",
+    model: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import type { ContentLanguage } from "../lib/languages.js";
+
+export const generatedModuleSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  difficulty: z.enum(["beginner", "intermediate", "advanced"]).catch("beginner"),
+  estimated_duration: z.coerce.number().int().positive().catch(30),
+  detailed_content: z.string().min(1),
+});
+
+export const generatedQuizSchema = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).min(2),
+  correct_answer: z.string().min(1),
+  explanation: z.string().catch(""),
+  skill: z.string().trim().min(1).max(100).optional().catch(undefined),
+});
+
+export const rubricCriterionSchema = z.object({
+  criterion: z.string().min(1),
+  points: z.coerce.number().int().positive(),
+});
+
+export const generatedWrittenQuestionSchema = z.object({
+  question: z.string().min(1),
+  model_answer: z.string().min(1),
+  rubric: z.array(rubricCriterionSchema).min(1),
+  explanation: z.string().catch(""),
+  skill: z.string().trim().min(1).max(100).optional().catch(undefined),
+});
+
+// The model's marks per rubric criterion, in rubric order, and how sure it is of them
+export const writtenAssessmentSchema = z.object({
+  criteria: z.array(
+    z.object({
+      points_awarded: z.coerce.number().min(0),
+      comment: z.string().catch(""),
+    }),
+  ),
+  feedback: z.string().catch(""),
+  confidence: z.coerce.number().min(0).max(1).catch(0),
+});
+
+export const translatedModuleSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  content: z.string().min(1),
+});
+
+// Options and rubric criteria come back in the order they were sent
+export const translatedQuestionSchema = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).catch([]),
+  model_answer: z.string().nullish().catch(null),
+  rubric: z.array(z.string().min(1)).catch([]),
+  explanation: z.string().catch(""),
+});
+
+export type GeneratedModule = z.infer<typeof generatedModuleSchema>;
+export type GeneratedQuiz = z.infer<typeof generatedQuizSchema> & { id: string };
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+export type GeneratedWrittenQuestion = z.infer<typeof generatedWrittenQuestionSchema> & { id: string; type: "written" };
+export type WrittenAssessment = z.infer<typeof writtenAssessmentSchema>;
+export type TranslatedModule = z.infer<typeof translatedModuleSchema>;
+export type TranslatedQuestion = z.infer<typeof translatedQuestionSchema>;
+
+export interface GeneratedLesson {
+  content: string;
+}
+
+export interface ModuleRequest {
+  currentLevel: string;
+  difficulty: GeneratedModule["difficulty"];
+  completedModules: number;
+  subject: string;
+  form?: string | null;
+  // Skills the student has not mastered yet, weakest first
+  focusSkills?: string[];
+  // National syllabus topics to cover, one module each and in this order
+  syllabusTopics?: string[];
+  language: ContentLanguage;
+  count: number;
+}
+
+export interface QuizRequest {
+  moduleTitle: string;
+  moduleContent: string;
+  difficulty: string;
+  subject?: string | null;
+  language: ContentLanguage;
+  count: number;
+}
+
+export interface GradingRequest {
+  question: string;
+  modelAnswer: string;
+  rubric: RubricCriterion[];
+  answer: string;
+  subject?: string | null;
+}
+
+// Mirrors the body the teacher Dashboard sends for lessons and academic content
+export interface LessonRequest {
+  topic: string;
+  grade: string;
+  lang: ContentLanguage;
+  // The national syllabus topic it covers, e.g. "Numbers › Prime numbers"
+  syllabusTopic?: string;
+  contentType: "lesson" | "academic";
+  lessonType?: string;
+  materialType?: string;
+  academicFormat?: string;
+  length?: string;
+  quizType?: "mcq" | "written" | "both";
+}
+
+export interface TranslationRequest {
+  from: ContentLanguage;
+  to: ContentLanguage;
+  subject?: string | null;
+}
+
+export interface ModuleTranslationRequest extends TranslationRequest {
+  module: TranslatedModule;
+}
+
+export interface QuestionTranslationRequest extends TranslationRequest {
+  // Written questions send no options and multiple-choice ones no model answer or rubric
+  questions: Array<{
+    question: string;
+    options: string[];
+    model_answer: string | null;
+    rubric: string[];
+    explanation: string;
+  }>;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  generateModules(request: ModuleRequest): Promise<GeneratedModule[]>;
+  generateQuizzes(request: QuizRequest): Promise<GeneratedQuiz[]>;
+  generateWrittenQuestions(request: QuizRequest): Promise<GeneratedWrittenQuestion[]>;
+  gradeWrittenAnswer(request: GradingRequest): Promise<WrittenAssessment>;
+  generateLesson(request: LessonRequest): Promise<GeneratedLesson>;
+  translateModule(request: ModuleTranslationRequest): Promise<TranslatedModule>;
+  // One translation per question, in the order given
+  translateQuestions(request: QuestionTranslationRequest): Promise<TranslatedQuestion[]>;
+}
@@ -0,0 +1,208 @@
+import { supabase } from "./supabase.js";
+import { MASTERY_THRESHOLD } from "./mastery.js";
+
+export const ACHIEVEMENT_METRICS = [
+  "total_points",
+  "longest_streak",
+  "perfect_quizzes",
+  "modules_completed",
+  // Modules completed in `subject`, or in the student's best subject when it is not set
+  "subject_modules",
+  "reviews_done",
+  "skills_mastered",
+] as const;
+
+export type AchievementMetric = (typeof ACHIEVEMENT_METRICS)[number];
+
+export interface Achievement {
+  id: string;
+  code: string;
+  title: string;
+  description: string;
+  icon: string;
+  badge_color: string;
+  metric: AchievementMetric;
+  threshold: number;
+  subject: string | null;
+}
+
+export interface AchievementProgress extends Achievement {
+  earned_at: string | null;
+  // The student's value for the metric, capped at the threshold
+  progress: number;
+}
+
+export type EarnedAchievement = Pick<Achievement, "id" | "code" | "title" | "description" | "icon" | "badge_color"> & {
+  earned_at: string;
+};
+
+const ACHIEVEMENT_COLUMNS = "id, code, title, description, icon, badge_color, metric, threshold, subject";
+
+async function getAllAchievements(): Promise<Achievement[]> {
+  const { data, error } = await supabase
+    .from("achievements")
+    .select(ACHIEVEMENT_COLUMNS)
+    .order("sort_order", { ascending: true })
+    .order("threshold", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ...row, metric: row.metric as AchievementMetric }));
+}
+
+async function countRows(query: PromiseLike<{ count: number | null; error: unknown }>): Promise<number> {
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Reads each metric at most once per evaluation
+function metricReader(userId: string) {
+  const cache = new Map<string, Promise<unknown>>();
+  const once = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    if (!cache.has(key)) cache.set(key, load());
+    return cache.get(key) as Promise<T>;
+  };
+
+  const profile = () =>
+    once("profile", async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("total_points, longest_streak")
+        .eq("id", userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data ?? { total_points: 0, longest_streak: 0 };
+    });
+
+  // Completed modules per lower-cased subject
+  const modulesBySubject = () =>
+    once("modules", async () => {
+      const { data, error } = await supabase
+        .from("user_module_progress")
+        .select("module_id, learning_modules!inner(category)")
+        .eq("user_id", userId)
+        .eq("is_completed", true);
+      if (error) throw error;
+
+      const bySubject = new Map<string, Set<string>>();
+      for (const row of data ?? []) {
+        const subject = ((row.learning_modules as { category: string | null }).category ?? "").toLowerCase();
+        bySubject.set(subject, (bySubject.get(subject) ?? new Set()).add(row.module_id));
+      }
+      return bySubject;
+    });
+
+  return async (metric: AchievementMetric, subject: string | null): Promise<number> => {
+    switch (metric) {
+      case "total_points":
+        return (await profile()).total_points;
+      case "longest_streak":
+        return (await profile()).longest_streak;
+      case "perfect_quizzes":
+        // complete_module records the final score as an attempt without a question
+        return once("perfect", () =>
+          countRows(
+            supabase
+              .from("user_quiz_attempts")
+              .select("id", { count: "exact", head: true })
+              .eq("user_id", userId)
+              .is("question_id", null)
+              .gte("score", 100),
+          ),
+        );
+      case "modules_completed": {
+        const modules = new Set([...(await modulesBySubject()).values()].flatMap((ids) => [...ids]));
+        return modules.size;
+      }
+      case "subject_modules": {
+        const bySubject = await modulesBySubject();
+        if (subject) return bySubject.get(subject.toLowerCase())?.size ?? 0;
+        return Math.max(0, ...[...bySubject.values()].map((ids) => ids.size));
+      }
+      case "reviews_done":
+        return once("reviews", async () => {
+          const { data, error } = await supabase.from("daily_activity").select("reviews_done").eq("user_id", userId);
+          if (error) throw error;
+          return (data ?? []).reduce((sum, day) => sum + day.reviews_done, 0);
+        });
+      case "skills_mastered":
+        return once("skills", () =>
+          countRows(
+            supabase
+              .from("skill_mastery")
+              .select("skill", { count: "exact", head: true })
+              .eq("user_id", userId)
+              .gte("p_known", MASTERY_THRESHOLD),
+          ),
+        );
+    }
+  };
+}
+
+// Run after every learning event; each achievement is awarded at most once per student
+export async function evaluateAchievements(userId: string): Promise<EarnedAchievement[]> {
+  const achievements = await getAllAchievements();
+
+  const { data: earned, error } = await supabase
+    .from("user_achievements")
+    .select("achievement_id")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const earnedIds = new Set((earned ?? []).map((row) => row.achievement_id));
+  const read = metricReader(userId);
+  const reached: Achievement[] = [];
+  for (const achievement of achievements) {
+    if (earnedIds.has(achievement.id)) continue;
+    if ((await read(achievement.metric, achievement.subject)) >= achievement.threshold) reached.push(achievement);
+  }
+
+  if (reached.length === 0) return [];
+
+  // Rows another request inserted first are skipped, so only this request's awards come back
+  const { data: inserted, error: insertError } = await supabase
+    .from("user_achievements")
+    .upsert(
+      reached.map((achievement) => ({ user_id: userId, achievement_id: achievement.id })),
+      { onConflict: "user_id,achievement_id", ignoreDuplicates: true },
+    )
+    .select("achievement_id, earned_at");
+
+  if (insertError) throw insertError;
+
+  return (inserted ?? []).flatMap((row) => {
+    const achievement = reached.find((item) => item.id === row.achievement_id);
+    if (!achievement) return [];
+    const { id, code, title, description, icon, badge_color } = achievement;
+    return [{ id, code, title, description, icon, badge_color, earned_at: row.earned_at }];
+  });
+}
+
+// Every achievement, earned or locked, with how far the student has got
+export async function getAchievements(userId: string): Promise<AchievementProgress[]> {
+  const achievements = await getAllAchievements();
+
+  const { data: earned, error } = await supabase
+    .from("user_achievements")
+    .select("achievement_id, earned_at")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const earnedAt = new Map((earned ?? []).map((row) => [row.achievement_id, row.earned_at]));
+  const read = metricReader(userId);
+
+  return Promise.all(
+    achievements.map(async (achievement) => {
+      const value = earnedAt.has(achievement.id)
+        ? achievement.threshold
+        : await read(achievement.metric, achievement.subject);
+      return {
+        ...achievement,
+        earned_at: earnedAt.get(achievement.id) ?? null,
+        progress: Math.min(value, achievement.threshold),
+      };
+    }),
+  );
+}
@@ -0,0 +1,391 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { getOwnedClass } from "./classes.js";
+
+export interface Assignment {
+  id: string;
+  teacher_id: string;
+  class_id: string;
+  lesson_id: string | null;
+  academic_id: string | null;
+  title: string;
+  instructions: string | null;
+  open_at: string;
+  due_at: string;
+  max_attempts: number | null;
+  allow_late: boolean;
+  syllabus_node_id: string | null;
+  created_at: string;
+}
+
+export interface Submission {
+  id: string;
+  assignment_id: string;
+  student_id: string;
+  attempt_number: number;
+  response: string | null;
+  submitted_at: string;
+  late: boolean;
+}
+
+// upcoming: not open yet; open: can be done; overdue: past due with nothing handed in;
+// submitted: handed in on time; late: only handed in after the due date
+export type AssignmentStatus = "upcoming" | "open" | "overdue" | "submitted" | "late";
+
+export interface NewAssignment {
+  class_id: string;
+  lesson_id?: string;
+  academic_id?: string;
+  student_ids?: string[];
+  instructions?: string;
+  open_at?: string;
+  due_at: string;
+  max_attempts?: number | null;
+  allow_late: boolean;
+  // Defaults to the syllabus node the lesson or academic content is tagged with
+  syllabus_node_id?: string | null;
+}
+
+export interface StudentAssignment extends Assignment {
+  class_name: string;
+  status: AssignmentStatus;
+  attempts_used: number;
+  last_submitted_at: string | null;
+}
+
+export interface AssignmentProgress {
+  student_id: string;
+  full_name: string;
+  status: AssignmentStatus;
+  attempts_used: number;
+  last_submitted_at: string | null;
+}
+
+export interface ClassAssignment extends Assignment {
+  assigned: number;
+  submitted: number;
+  late: number;
+  overdue: number;
+}
+
+const ASSIGNMENT_COLUMNS =
+  "id, teacher_id, class_id, lesson_id, academic_id, title, instructions, open_at, due_at, max_attempts, allow_late, syllabus_node_id, created_at";
+
+const UNIQUE_VIOLATION = "23505";
+
+export function assignmentStatus(assignment: Assignment, submissions: Submission[], now = new Date()): AssignmentStatus {
+  if (submissions.some((submission) => !submission.late)) return "submitted";
+  if (submissions.length > 0) return "late";
+  if (now < new Date(assignment.open_at)) return "upcoming";
+  if (now > new Date(assignment.due_at)) return "overdue";
+  return "open";
+}
+
+async function getAssignment(assignmentId: string): Promise<Assignment> {
+  const { data, error } = await supabase.from("assignments").select(ASSIGNMENT_COLUMNS).eq("id", assignmentId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Assignment not found");
+  return data;
+}
+
+export async function getOwnedAssignment(teacherId: string, assignmentId: string): Promise<Assignment> {
+  const assignment = await getAssignment(assignmentId);
+  if (assignment.teacher_id !== teacherId) throw new HttpError(404, "Assignment not found");
+  return assignment;
+}
+
+// The students each assignment is given to, by assignment id: the chosen students, or everyone enrolled in the class
+export async function getRecipients(
+  assignments: Pick<Assignment, "id" | "class_id">[],
+): Promise<Map<string, { id: string; full_name: string }[]>> {
+  if (assignments.length === 0) return new Map();
+
+  const { data: chosen, error: chosenError } = await supabase
+    .from("assignment_students")
+    .select("assignment_id, student_id")
+    .in("assignment_id", assignments.map((assignment) => assignment.id));
+
+  if (chosenError) throw chosenError;
+
+  const { data: enrolled, error } = await supabase
+    .from("class_enrollments")
+    .select("class_id, profiles!inner(id, full_name)")
+    .in("class_id", [...new Set(assignments.map((assignment) => assignment.class_id))]);
+
+  if (error) throw error;
+
+  const chosenIds = groupBy(chosen ?? [], (row) => row.assignment_id);
+  const classStudents = groupBy(
+    (enrolled ?? []).map(({ class_id, profiles }) => ({
+      class_id,
+      student: profiles as unknown as { id: string; full_name: string },
+    })),
+    (row) => row.class_id,
+  );
+
+  return new Map(
+    assignments.map((assignment) => {
+      const only = new Set((chosenIds.get(assignment.id) ?? []).map((row) => row.student_id));
+      const students = (classStudents.get(assignment.class_id) ?? [])
+        .map((row) => row.student)
+        .filter((student) => only.size === 0 || only.has(student.id))
+        .sort((a, b) => a.full_name.localeCompare(b.full_name));
+      return [assignment.id, students];
+    }),
+  );
+}
+
+export async function getSubmissions(assignmentIds: string[], studentId?: string): Promise<Submission[]> {
+  if (assignmentIds.length === 0) return [];
+
+  let query = supabase
+    .from("assignment_submissions")
+    .select("id, assignment_id, student_id, attempt_number, response, submitted_at, late")
+    .in("assignment_id", assignmentIds)
+    .order("attempt_number", { ascending: true });
+
+  if (studentId) query = query.eq("student_id", studentId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
+
+type LessonVisibility = { status: string; publish_at: string | null; deleted_at: string | null };
+
+function isLessonLive(lesson: LessonVisibility, now = new Date()): boolean {
+  return !lesson.deleted_at && lesson.status === "published" && (!lesson.publish_at || new Date(lesson.publish_at) <= now);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  return groups;
+}
+
+export async function createAssignment(teacherId: string, input: NewAssignment): Promise<Assignment> {
+  await getOwnedClass(teacherId, input.class_id);
+
+  // The content must be the teacher's own; its title is copied so the list reads well if it is renamed
+  const { data: content, error: contentError } = input.lesson_id
+    ? await supabase
+        .from("lessons")
+        .select("title, status, syllabus_node_id")
+        .eq("id", input.lesson_id)
+        .eq("teacher_id", teacherId)
+        .is("deleted_at", null)
+        .maybeSingle()
+    : await supabase
+        .from("academic")
+        .select("title:topic, syllabus_node_id")
+        .eq("id", input.academic_id!)
+        .eq("teacher_id", teacherId)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+  if (contentError) throw contentError;
+  if (!content) throw new HttpError(404, "Lesson or academic content not found");
+  if ("status" in content && content.status !== "published") {
+    throw new HttpError(409, "Publish the lesson (or schedule it) before assigning it");
+  }
+
+  const studentIds = [...new Set(input.student_ids ?? [])];
+  if (studentIds.length > 0) {
+    const { data: enrolled, error } = await supabase
+      .from("class_enrollments")
+      .select("student_id")
+      .eq("class_id", input.class_id)
+      .in("student_id", studentIds);
+
+    if (error) throw error;
+    if ((enrolled ?? []).length !== studentIds.length) {
+      throw new HttpError(400, "Every chosen student must be enrolled in the class");
+    }
+  }
+
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .insert({
+      teacher_id: teacherId,
+      class_id: input.class_id,
+      lesson_id: input.lesson_id ?? null,
+      academic_id: input.academic_id ?? null,
+      title: content.title,
+      instructions: input.instructions ?? null,
+      open_at: input.open_at,
+      due_at: input.due_at,
+      max_attempts: input.max_attempts ?? null,
+      allow_late: input.allow_late,
+      syllabus_node_id: input.syllabus_node_id ?? content.syllabus_node_id,
+    })
+    .select(ASSIGNMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  if (studentIds.length > 0) {
+    const { error: studentsError } = await supabase
+      .from("assignment_students")
+      .insert(studentIds.map((studentId) => ({ assignment_id: assignment.id, student_id: studentId })));
+
+    if (studentsError) {
+      await supabase.from("assignments").delete().eq("id", assignment.id);
+      throw studentsError;
+    }
+  }
+
+  return assignment;
+}
+
+export async function deleteAssignment(teacherId: string, assignmentId: string): Promise<void> {
+  await getOwnedAssignment(teacherId, assignmentId);
+  const { error } = await supabase.from("assignments").delete().eq("id", assignmentId);
+  if (error) throw error;
+}
+
+export async function getClassAssignments(teacherId: string, classId: string): Promise<ClassAssignment[]> {
+  await getOwnedClass(teacherId, classId);
+
+  const { data, error } = await supabase
+    .from("assignments")
+    .select(ASSIGNMENT_COLUMNS)
+    .eq("class_id", classId)
+    .order("due_at", { ascending: false });
+
+  if (error) throw error;
+
+  const assignments = data ?? [];
+  const submissions = groupBy(await getSubmissions(assignments.map((a) => a.id)), (s) => `${s.assignment_id}:${s.student_id}`);
+
+  const recipients = await getRecipients(assignments);
+
+  return assignments.map((assignment) => {
+    const statuses = (recipients.get(assignment.id) ?? []).map((student) =>
+      assignmentStatus(assignment, submissions.get(`${assignment.id}:${student.id}`) ?? []),
+    );
+    return {
+      ...assignment,
+      assigned: statuses.length,
+      submitted: statuses.filter((status) => status === "submitted" || status === "late").length,
+      late: statuses.filter((status) => status === "late").length,
+      overdue: statuses.filter((status) => status === "overdue").length,
+    };
+  });
+}
+
+// Completion status of every student the assignment is given to
+export async function getAssignmentProgress(teacherId: string, assignmentId: string): Promise<AssignmentProgress[]> {
+  const assignment = await getOwnedAssignment(teacherId, assignmentId);
+  const submissions = groupBy(await getSubmissions([assignment.id]), (s) => s.student_id);
+
+  const recipients = await getRecipients([assignment]);
+
+  return (recipients.get(assignment.id) ?? []).map((student) => {
+    const attempts = submissions.get(student.id) ?? [];
+    return {
+      student_id: student.id,
+      full_name: student.full_name,
+      status: assignmentStatus(assignment, attempts),
+      attempts_used: attempts.length,
+      last_submitted_at: attempts.at(-1)?.submitted_at ?? null,
+    };
+  });
+}
+
+export async function getStudentAssignments(studentId: string): Promise<StudentAssignment[]> {
+  const { data: enrollments, error: enrollmentError } = await supabase
+    .from("class_enrollments")
+    .select("class_id, classes!inner(name)")
+    .eq("student_id", studentId);
+
+  if (enrollmentError) throw enrollmentError;
+  if (!enrollments || enrollments.length === 0) return [];
+
+  const classNames = new Map(
+    enrollments.map(({ class_id, classes }) => [class_id, (classes as unknown as { name: string }).name]),
+  );
+
+  const { data, error } = await supabase
+    .from("assignments")
+    .select(`${ASSIGNMENT_COLUMNS}, assignment_students(student_id), lessons(status, publish_at, deleted_at), academic(deleted_at)`)
+    .in("class_id", [...classNames.keys()])
+    .order("due_at", { ascending: true });
+
+  if (error) throw error;
+
+  // Students only ever see lessons that are published (and past their scheduled time), and nothing in the trash
+  const assignments = (data ?? [])
+    .filter(({ assignment_students }) => {
+      const chosen = assignment_students as unknown as { student_id: string }[];
+      return chosen.length === 0 || chosen.some((row) => row.student_id === studentId);
+    })
+    .filter(({ lessons }) => !lessons || isLessonLive(lessons as unknown as LessonVisibility))
+    .filter(({ academic }) => !(academic as unknown as { deleted_at: string | null } | null)?.deleted_at)
+    .map(({ assignment_students: _chosen, lessons: _lesson, academic: _academic, ...assignment }) => assignment as Assignment);
+
+  const submissions = groupBy(await getSubmissions(assignments.map((a) => a.id), studentId), (s) => s.assignment_id);
+
+  return assignments.map((assignment) => {
+    const attempts = submissions.get(assignment.id) ?? [];
+    return {
+      ...assignment,
+      class_name: classNames.get(assignment.class_id) ?? "",
+      status: assignmentStatus(assignment, attempts),
+      attempts_used: attempts.length,
+      last_submitted_at: attempts.at(-1)?.submitted_at ?? null,
+    };
+  });
+}
+
+async function getStudentAssignment(studentId: string, assignmentId: string): Promise<StudentAssignment> {
+  const assignment = (await getStudentAssignments(studentId)).find((entry) => entry.id === assignmentId);
+  if (!assignment) throw new HttpError(404, "Assignment not found");
+  return assignment;
+}
+
+// The assignment with the content to read, for a student it is given to
+export async function getAssignmentContent(
+  studentId: string,
+  assignmentId: string,
+): Promise<StudentAssignment & { content: string | null }> {
+  const assignment = await getStudentAssignment(studentId, assignmentId);
+  if (assignment.status === "upcoming") throw new HttpError(409, "This assignment is not open yet");
+
+  const { data, error } = assignment.lesson_id
+    ? await supabase.from("lessons").select("content").eq("id", assignment.lesson_id).maybeSingle()
+    : await supabase.from("academic").select("content").eq("id", assignment.academic_id!).maybeSingle();
+
+  if (error) throw error;
+  return { ...assignment, content: data?.content ?? null };
+}
+
+export async function submitAssignment(studentId: string, assignmentId: string, response?: string): Promise<Submission> {
+  const assignment = await getStudentAssignment(studentId, assignmentId);
+  const now = new Date();
+
+  if (now < new Date(assignment.open_at)) throw new HttpError(409, "This assignment is not open yet");
+
+  const late = now > new Date(assignment.due_at);
+  if (late && !assignment.allow_late) throw new HttpError(409, "The due date has passed and late work is not accepted");
+
+  if (assignment.max_attempts !== null && assignment.attempts_used >= assignment.max_attempts) {
+    throw new HttpError(409, `You have used all ${assignment.max_attempts} attempts`);
+  }
+
+  const { data, error } = await supabase
+    .from("assignment_submissions")
+    .insert({
+      assignment_id: assignmentId,
+      student_id: studentId,
+      attempt_number: assignment.attempts_used + 1,
+      response: response ?? null,
+      late,
+    })
+    .select("id, assignment_id, student_id, attempt_number, response, submitted_at, late")
+    .single();
+
+  // Two submissions at once race for the same attempt number; the second one is rejected
+  if (error?.code === UNIQUE_VIOLATION) throw new HttpError(409, "This attempt was already submitted");
+  if (error) throw error;
+  return data;
+}
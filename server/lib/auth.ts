@@ -0,0 +1,34 @@
+import type { RequestHandler, Response } from "express";
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+
+// Verifies the Supabase access token sent by the browser and exposes the user on res.locals
+export const requireUser: RequestHandler = async (req, res, next) => {
+  const header = req.get("authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+  if (!token) throw new HttpError(401, "Missing access token");
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, "Invalid or expired session");
+
+  res.locals.userId = data.user.id;
+  next();
+};
+
+export function getUserId(res: Response): string {
+  const userId = res.locals.userId;
+  if (typeof userId !== "string") throw new HttpError(401, "Not authenticated");
+  return userId;
+}
+
+export async function getUserRole(userId: string): Promise<string | null> {
+  const { data, error } = await supabase.from("profiles").select("role").eq("id", userId).maybeSingle();
+  if (error) throw error;
+  return data?.role ?? null;
+}
+
+// Use after requireUser on routes only teachers may call
+export const requireTeacher: RequestHandler = async (_req, res, next) => {
+  if ((await getUserRole(getUserId(res))) !== "teacher") throw new HttpError(403, "Only teachers can do this");
+  next();
+};
@@ -0,0 +1,229 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+
+export interface ClassSummary {
+  id: string;
+  teacher_id: string;
+  name: string;
+  form: string;
+  subject: string;
+  term: string;
+  join_code: string;
+  archived: boolean;
+  created_at: string;
+}
+
+export interface TeacherClass extends ClassSummary {
+  student_count: number;
+}
+
+export interface StudentClass extends ClassSummary {
+  teacher_name: string | null;
+  joined_at: string;
+}
+
+export interface RosterStudent {
+  student_id: string;
+  full_name: string;
+  email: string;
+  form: string | null;
+  total_points: number;
+  streak_days: number;
+  last_active_date: string | null;
+  completed_modules: number;
+  joined_at: string;
+}
+
+export const CLASS_COLUMNS = "id, teacher_id, name, form, subject, term, join_code, archived, created_at";
+
+const UNIQUE_VIOLATION = "23505";
+
+export function normalizeJoinCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Loads a class the teacher owns; any other class is reported as missing
+export async function getOwnedClass(teacherId: string, classId: string): Promise<ClassSummary> {
+  const { data, error } = await supabase
+    .from("classes")
+    .select(CLASS_COLUMNS)
+    .eq("id", classId)
+    .eq("teacher_id", teacherId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Class not found");
+  return data;
+}
+
+export async function teachesStudent(teacherId: string, studentId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("class_enrollments")
+    .select("student_id, classes!inner(teacher_id)", { count: "exact", head: true })
+    .eq("student_id", studentId)
+    .eq("classes.teacher_id", teacherId);
+
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+// Every student enrolled in at least one of the teacher's classes
+export async function getTeacherStudentIds(teacherId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("class_enrollments")
+    .select("student_id, classes!inner(teacher_id)")
+    .eq("classes.teacher_id", teacherId);
+
+  if (error) throw error;
+  return [...new Set((data ?? []).map((row) => row.student_id))];
+}
+
+export async function createClass(
+  teacherId: string,
+  details: { name: string; form: string; subject: string; term: string },
+): Promise<ClassSummary> {
+  // The join code is generated by the database; a rare clash is retried with a fresh code
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data, error } = await supabase
+      .from("classes")
+      .insert({ teacher_id: teacherId, ...details })
+      .select(CLASS_COLUMNS)
+      .single();
+
+    if (!error) return data;
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+  }
+  throw new HttpError(409, "Could not generate a unique join code, please try again");
+}
+
+export async function regenerateJoinCode(teacherId: string, classId: string): Promise<ClassSummary> {
+  await getOwnedClass(teacherId, classId);
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: code, error: codeError } = await supabase.rpc("generate_join_code");
+    if (codeError) throw codeError;
+
+    const { data, error } = await supabase
+      .from("classes")
+      .update({ join_code: code })
+      .eq("id", classId)
+      .select(CLASS_COLUMNS)
+      .single();
+
+    if (!error) return data;
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+  }
+  throw new HttpError(409, "Could not generate a unique join code, please try again");
+}
+
+export async function getTeacherClasses(teacherId: string): Promise<TeacherClass[]> {
+  const { data, error } = await supabase
+    .from("classes")
+    .select(`${CLASS_COLUMNS}, class_enrollments(count)`)
+    .eq("teacher_id", teacherId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(({ class_enrollments, ...summary }) => ({
+    ...summary,
+    student_count: (class_enrollments as unknown as { count: number }[])[0]?.count ?? 0,
+  }));
+}
+
+export async function getStudentClasses(studentId: string): Promise<StudentClass[]> {
+  const { data, error } = await supabase
+    .from("class_enrollments")
+    .select(`joined_at, classes!inner(${CLASS_COLUMNS}, profiles(full_name))`)
+    .eq("student_id", studentId)
+    .order("joined_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data ?? []).map(({ joined_at, classes }) => {
+    const { profiles, ...summary } = classes as unknown as ClassSummary & { profiles: { full_name: string } | null };
+    return { ...summary, teacher_name: profiles?.full_name ?? null, joined_at };
+  });
+}
+
+export async function joinClass(studentId: string, code: string): Promise<StudentClass> {
+  const { data: found, error } = await supabase
+    .from("classes")
+    .select("id, archived")
+    .eq("join_code", normalizeJoinCode(code))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!found || found.archived) throw new HttpError(404, "No open class has that join code");
+
+  const { error: enrollError } = await supabase
+    .from("class_enrollments")
+    .upsert({ class_id: found.id, student_id: studentId }, { onConflict: "class_id,student_id", ignoreDuplicates: true });
+
+  if (enrollError) throw enrollError;
+
+  const classes = await getStudentClasses(studentId);
+  const joined = classes.find((entry) => entry.id === found.id);
+  if (!joined) throw new Error("Enrollment was not saved");
+  return joined;
+}
+
+export async function leaveClass(studentId: string, classId: string): Promise<void> {
+  const { error } = await supabase.from("class_enrollments").delete().eq("class_id", classId).eq("student_id", studentId);
+  if (error) throw error;
+}
+
+export async function removeStudent(teacherId: string, classId: string, studentId: string): Promise<void> {
+  await getOwnedClass(teacherId, classId);
+  await leaveClass(studentId, classId);
+}
+
+export async function getRoster(teacherId: string, classId: string): Promise<RosterStudent[]> {
+  await getOwnedClass(teacherId, classId);
+
+  const { data, error } = await supabase
+    .from("class_enrollments")
+    .select("joined_at, profiles!inner(id, full_name, email, form, total_points, streak_days, last_active_date)")
+    .eq("class_id", classId);
+
+  if (error) throw error;
+
+  const students = (data ?? []).map(({ joined_at, profiles }) => ({
+    joined_at,
+    profile: profiles as unknown as {
+      id: string;
+      full_name: string;
+      email: string;
+      form: string | null;
+      total_points: number;
+      streak_days: number;
+      last_active_date: string | null;
+    },
+  }));
+
+  const completed = new Map<string, number>();
+  if (students.length > 0) {
+    const { data: progress, error: progressError } = await supabase
+      .from("user_module_progress")
+      .select("user_id")
+      .in("user_id", students.map(({ profile }) => profile.id))
+      .eq("is_completed", true);
+
+    if (progressError) throw progressError;
+    for (const row of progress ?? []) completed.set(row.user_id, (completed.get(row.user_id) ?? 0) + 1);
+  }
+
+  return students
+    .map(({ joined_at, profile }) => ({
+      student_id: profile.id,
+      full_name: profile.full_name,
+      email: profile.email,
+      form: profile.form,
+      total_points: profile.total_points,
+      streak_days: profile.streak_days,
+      last_active_date: profile.last_active_date,
+      completed_modules: completed.get(profile.id) ?? 0,
+      joined_at,
+    }))
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+}
@@ -0,0 +1,195 @@
+import { supabase } from "./supabase.js";
+import { fromDatabaseError, HttpError } from "./http.js";
+import { describeSyllabusNode } from "./syllabus.js";
+
+export const CONTENT_KINDS = ["lessons", "academic"] as const;
+
+export type ContentKind = (typeof CONTENT_KINDS)[number];
+
+export interface ContentItem {
+  id: string;
+  title: string;
+  content: string | null;
+  // Left out by restores, which never change it
+  syllabus_node_id?: string | null;
+}
+
+export interface RevisionSummary {
+  id: string;
+  revision_number: number;
+  title: string;
+  restored_from: number | null;
+  created_at: string;
+}
+
+export interface Revision extends RevisionSummary {
+  content: string | null;
+}
+
+export interface TrashItem {
+  kind: ContentKind;
+  id: string;
+  title: string;
+  deleted_at: string;
+  purge_at: string;
+}
+
+// How long deleted content can be recovered before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+const REVISION_SUMMARY_COLUMNS = "id, revision_number, title, restored_from, created_at";
+
+// academic pieces call their title "topic"
+function titleColumn(kind: ContentKind): "title" | "topic" {
+  return kind === "lessons" ? "title" : "topic";
+}
+
+function revisionColumn(kind: ContentKind): "lesson_id" | "academic_id" {
+  return kind === "lessons" ? "lesson_id" : "academic_id";
+}
+
+function purgeAt(deletedAt: string): string {
+  return new Date(Date.parse(deletedAt) + RETENTION_MS).toISOString();
+}
+
+async function getOwnedContent(
+  teacherId: string,
+  kind: ContentKind,
+  id: string,
+): Promise<{ id: string; deleted_at: string | null }> {
+  const { data, error } = await supabase
+    .from(kind)
+    .select("id, deleted_at")
+    .eq("id", id)
+    .eq("teacher_id", teacherId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, kind === "lessons" ? "Lesson not found" : "Academic content not found");
+  return data;
+}
+
+async function getLiveContent(teacherId: string, kind: ContentKind, id: string): Promise<void> {
+  const item = await getOwnedContent(teacherId, kind, id);
+  if (item.deleted_at) throw new HttpError(409, "Restore this content from the trash first");
+}
+
+// Saving records a revision through the record_content_revision trigger
+export async function updateContent(
+  teacherId: string,
+  kind: ContentKind,
+  id: string,
+  changes: { title?: string; content?: string; syllabus_node_id?: string | null },
+): Promise<ContentItem> {
+  await getLiveContent(teacherId, kind, id);
+  if (changes.syllabus_node_id) await describeSyllabusNode(changes.syllabus_node_id);
+
+  const column = titleColumn(kind);
+  const { data, error } = await supabase
+    .from(kind)
+    .update({
+      ...(changes.title !== undefined ? { [column]: changes.title } : {}),
+      ...(changes.content !== undefined ? { content: changes.content } : {}),
+      ...(changes.syllabus_node_id !== undefined ? { syllabus_node_id: changes.syllabus_node_id } : {}),
+    })
+    .eq("id", id)
+    .select(`id, title:${column}, content, syllabus_node_id`)
+    .single();
+
+  if (error) throw error;
+  return data as unknown as ContentItem;
+}
+
+// Newest first, without their content
+export async function getRevisions(teacherId: string, kind: ContentKind, id: string): Promise<RevisionSummary[]> {
+  await getOwnedContent(teacherId, kind, id);
+
+  const { data, error } = await supabase
+    .from("content_revisions")
+    .select(REVISION_SUMMARY_COLUMNS)
+    .eq(revisionColumn(kind), id)
+    .order("revision_number", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function getRevision(teacherId: string, kind: ContentKind, id: string, revisionId: string): Promise<Revision> {
+  await getOwnedContent(teacherId, kind, id);
+
+  const { data, error } = await supabase
+    .from("content_revisions")
+    .select(`${REVISION_SUMMARY_COLUMNS}, content`)
+    .eq("id", revisionId)
+    .eq(revisionColumn(kind), id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Revision not found");
+  return data;
+}
+
+export async function restoreRevision(teacherId: string, kind: ContentKind, id: string, revisionId: string): Promise<ContentItem> {
+  // Checks the revision belongs to this item before handing over to the database function
+  await getRevision(teacherId, kind, id, revisionId);
+
+  const { data, error } = await supabase.rpc("restore_content_revision", {
+    p_user_id: teacherId,
+    p_revision_id: revisionId,
+  });
+
+  if (error) throw fromDatabaseError(error);
+  return data as unknown as ContentItem;
+}
+
+export async function trashContent(teacherId: string, kind: ContentKind, id: string): Promise<void> {
+  await getLiveContent(teacherId, kind, id);
+
+  const { error } = await supabase.from(kind).update({ deleted_at: new Date().toISOString() }).eq("id", id);
+  if (error) throw error;
+}
+
+export async function restoreFromTrash(teacherId: string, kind: ContentKind, id: string): Promise<void> {
+  const item = await getOwnedContent(teacherId, kind, id);
+  if (!item.deleted_at) return;
+  if (Date.parse(item.deleted_at) + RETENTION_MS < Date.now()) {
+    throw new HttpError(409, `Content can only be recovered within ${TRASH_RETENTION_DAYS} days of deleting it`);
+  }
+
+  const { error } = await supabase.from(kind).update({ deleted_at: null }).eq("id", id);
+  if (error) throw error;
+}
+
+// Deletes the teacher's content that has been in the trash longer than the retention period
+async function purgeExpired(teacherId: string): Promise<void> {
+  const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+
+  for (const kind of CONTENT_KINDS) {
+    const { error } = await supabase.from(kind).delete().eq("teacher_id", teacherId).lt("deleted_at", cutoff);
+    if (error) throw error;
+  }
+}
+
+// Most recently deleted first; expired content is purged on the way
+export async function getTrash(teacherId: string): Promise<TrashItem[]> {
+  await purgeExpired(teacherId);
+
+  const items: TrashItem[] = [];
+  for (const kind of CONTENT_KINDS) {
+    const { data, error } = await supabase
+      .from(kind)
+      .select(`id, title:${titleColumn(kind)}, deleted_at`)
+      .eq("teacher_id", teacherId)
+      .not("deleted_at", "is", null);
+
+    if (error) throw error;
+
+    for (const row of (data ?? []) as unknown as { id: string; title: string; deleted_at: string }[]) {
+      items.push({ kind, ...row, purge_at: purgeAt(row.deleted_at) });
+    }
+  }
+
+  return items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
@@ -0,0 +1,303 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { getOwnedClass, teachesStudent } from "./classes.js";
+import { assignmentStatus, getOwnedAssignment, getRecipients, getSubmissions, type AssignmentStatus } from "./assignments.js";
+
+export type GradebookView = "modules" | "assignments";
+
+export interface GradebookColumn {
+  id: string;
+  title: string;
+  due_at: string | null;
+}
+
+export interface GradebookCell {
+  // The teacher's override when there is one, otherwise the computed score
+  score: number | null;
+  computed_score: number | null;
+  override_id: string | null;
+  comment: string | null;
+  // Graded answers for a module, hand-ins for an assignment
+  attempts: number;
+  time_taken_minutes: number | null;
+  completed: boolean;
+  status: AssignmentStatus | null;
+}
+
+export interface GradebookRow {
+  student_id: string;
+  full_name: string;
+  average: number | null;
+  completed: number;
+  cells: Record<string, GradebookCell>;
+}
+
+export interface Gradebook {
+  class_id: string;
+  view: GradebookView;
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+}
+
+export interface GradeOverrideInput {
+  student_id: string;
+  module_id?: string;
+  assignment_id?: string;
+  score: number;
+  comment?: string;
+}
+
+interface Override {
+  id: string;
+  student_id: string;
+  module_id: string | null;
+  assignment_id: string | null;
+  score: number;
+  comment: string | null;
+}
+
+function minutesBetween(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null;
+  return Math.max(Math.round((Date.parse(to) - Date.parse(from)) / 60_000), 0);
+}
+
+async function getClassStudents(classId: string): Promise<{ id: string; full_name: string }[]> {
+  const { data, error } = await supabase
+    .from("class_enrollments")
+    .select("profiles!inner(id, full_name)")
+    .eq("class_id", classId);
+
+  if (error) throw error;
+  return (data ?? [])
+    .map(({ profiles }) => profiles as unknown as { id: string; full_name: string })
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+}
+
+async function getOverrides(studentIds: string[], column: "module_id" | "assignment_id"): Promise<Map<string, Override>> {
+  if (studentIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from("grade_overrides")
+    .select("id, student_id, module_id, assignment_id, score, comment")
+    .in("student_id", studentIds)
+    .not(column, "is", null);
+
+  if (error) throw error;
+  return new Map((data ?? []).map((override) => [`${override.student_id}:${override[column]}`, override]));
+}
+
+function applyOverride(cell: Omit<GradebookCell, "score" | "override_id" | "comment">, override?: Override): GradebookCell {
+  return {
+    ...cell,
+    score: override ? Number(override.score) : cell.computed_score,
+    override_id: override?.id ?? null,
+    comment: override?.comment ?? null,
+  };
+}
+
+function toRow(student: { id: string; full_name: string }, cells: Record<string, GradebookCell>): GradebookRow {
+  const scores = Object.values(cells).flatMap((cell) => (cell.score === null ? [] : [cell.score]));
+  return {
+    student_id: student.id,
+    full_name: student.full_name,
+    average: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    completed: Object.values(cells).filter((cell) => cell.completed).length,
+    cells,
+  };
+}
+
+// Modules are generated per student, so each column only has cells for the students who have that module
+async function getModuleGradebook(classId: string): Promise<Gradebook> {
+  const students = await getClassStudents(classId);
+  const studentIds = students.map((student) => student.id);
+  if (studentIds.length === 0) return { class_id: classId, view: "modules", columns: [], rows: [] };
+
+  const { data: progress, error } = await supabase
+    .from("user_module_progress")
+    .select("user_id, module_id, title, is_completed, started_at, completed_at, created_at")
+    .in("user_id", studentIds)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const moduleIds = [...new Set((progress ?? []).map((row) => row.module_id))];
+
+  const { data: quizzes, error: quizError } = moduleIds.length
+    ? await supabase.from("quizzes").select("id, module_id").in("module_id", moduleIds)
+    : { data: [], error: null };
+
+  if (quizError) throw quizError;
+
+  const moduleByQuiz = new Map((quizzes ?? []).map((quiz) => [quiz.id, quiz.module_id]));
+
+  const { data: attempts, error: attemptError } = moduleByQuiz.size
+    ? await supabase
+        .from("user_quiz_attempts")
+        .select("user_id, quiz_id, question_id, score, attempted_at")
+        .in("user_id", studentIds)
+        .in("quiz_id", [...moduleByQuiz.keys()])
+        .order("attempted_at", { ascending: true })
+    : { data: [], error: null };
+
+  if (attemptError) throw attemptError;
+
+  // The quiz-level attempt (no question_id) written on completion holds the module score
+  const scores = new Map<string, number>();
+  const answerCounts = new Map<string, number>();
+  for (const attempt of attempts ?? []) {
+    const key = `${attempt.user_id}:${moduleByQuiz.get(attempt.quiz_id)}`;
+    if (attempt.question_id === null) scores.set(key, Number(attempt.score));
+    else answerCounts.set(key, (answerCounts.get(key) ?? 0) + 1);
+  }
+
+  const overrides = await getOverrides(studentIds, "module_id");
+  const columns = new Map<string, GradebookColumn>();
+  const cells = new Map<string, Record<string, GradebookCell>>(studentIds.map((id) => [id, {}]));
+
+  for (const row of progress ?? []) {
+    if (!columns.has(row.module_id)) columns.set(row.module_id, { id: row.module_id, title: row.title ?? "Untitled module", due_at: null });
+    const key = `${row.user_id}:${row.module_id}`;
+    cells.get(row.user_id)![row.module_id] = applyOverride(
+      {
+        computed_score: scores.get(key) ?? null,
+        attempts: answerCounts.get(key) ?? 0,
+        time_taken_minutes: row.is_completed ? minutesBetween(row.started_at ?? row.created_at, row.completed_at) : null,
+        completed: !!row.is_completed,
+        status: null,
+      },
+      overrides.get(key),
+    );
+  }
+
+  return {
+    class_id: classId,
+    view: "modules",
+    columns: [...columns.values()],
+    rows: students.map((student) => toRow(student, cells.get(student.id)!)),
+  };
+}
+
+async function getAssignmentGradebook(classId: string): Promise<Gradebook> {
+  const students = await getClassStudents(classId);
+
+  const { data: assignments, error } = await supabase
+    .from("assignments")
+    .select("id, class_id, title, open_at, due_at, max_attempts, allow_late, teacher_id, lesson_id, academic_id, instructions, syllabus_node_id, created_at")
+    .eq("class_id", classId)
+    .order("due_at", { ascending: true });
+
+  if (error) throw error;
+
+  const submissions = await getSubmissions((assignments ?? []).map((assignment) => assignment.id));
+  const overrides = await getOverrides(students.map((student) => student.id), "assignment_id");
+  const cells = new Map<string, Record<string, GradebookCell>>(students.map((student) => [student.id, {}]));
+
+  const recipients = await getRecipients(assignments ?? []);
+
+  for (const assignment of assignments ?? []) {
+    for (const recipient of recipients.get(assignment.id) ?? []) {
+      const studentCells = cells.get(recipient.id);
+      if (!studentCells) continue;
+
+      // Hand-ins are not scored automatically, so an assignment's score is always the teacher's grade
+      const attempts = submissions.filter((s) => s.assignment_id === assignment.id && s.student_id === recipient.id);
+      const status = assignmentStatus(assignment, attempts);
+      studentCells[assignment.id] = applyOverride(
+        {
+          computed_score: null,
+          attempts: attempts.length,
+          time_taken_minutes: minutesBetween(assignment.open_at, attempts[0]?.submitted_at ?? null),
+          completed: status === "submitted" || status === "late",
+          status,
+        },
+        overrides.get(`${recipient.id}:${assignment.id}`),
+      );
+    }
+  }
+
+  return {
+    class_id: classId,
+    view: "assignments",
+    columns: (assignments ?? []).map((assignment) => ({ id: assignment.id, title: assignment.title, due_at: assignment.due_at })),
+    rows: students.map((student) => toRow(student, cells.get(student.id)!)),
+  };
+}
+
+export async function getGradebook(teacherId: string, classId: string, view: GradebookView): Promise<Gradebook> {
+  await getOwnedClass(teacherId, classId);
+  return view === "modules" ? getModuleGradebook(classId) : getAssignmentGradebook(classId);
+}
+
+// Names and titles are typed by users; one a spreadsheet would read as a formula is prefixed with a quote
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per student: the score of each column, then the average and completed count
+export function gradebookToCsv(gradebook: Gradebook): string {
+  const header = ["Student", ...gradebook.columns.map((column) => column.title), "Average", "Completed"];
+  const lines = gradebook.rows.map((row) => [
+    row.full_name,
+    ...gradebook.columns.map((column) => {
+      const cell = row.cells[column.id];
+      if (!cell) return null;
+      return cell.score ?? (cell.completed ? "done" : cell.status ?? "");
+    }),
+    row.average,
+    row.completed,
+  ]);
+  return [header, ...lines].map((line) => line.map(csvField).join(",")).join("\n") + "\n";
+}
+
+export async function saveGradeOverride(teacherId: string, input: GradeOverrideInput): Promise<Override> {
+  if (!(await teachesStudent(teacherId, input.student_id))) {
+    throw new HttpError(403, "You can only grade students in your classes");
+  }
+  // A student can be in several teachers' classes; assignments are only graded by the teacher who set them
+  if (input.assignment_id) await getOwnedAssignment(teacherId, input.assignment_id);
+
+  const column = input.module_id ? "module_id" : "assignment_id";
+  const itemId = (input.module_id ?? input.assignment_id)!;
+
+  const { data: existing, error: findError } = await supabase
+    .from("grade_overrides")
+    .select("id")
+    .eq("student_id", input.student_id)
+    .eq(column, itemId)
+    .maybeSingle();
+
+  if (findError) throw findError;
+
+  const values = { teacher_id: teacherId, score: input.score, comment: input.comment ?? null };
+  const { data, error } = existing
+    ? await supabase
+        .from("grade_overrides")
+        .update(values)
+        .eq("id", existing.id)
+        .select("id, student_id, module_id, assignment_id, score, comment")
+        .single()
+    : await supabase
+        .from("grade_overrides")
+        .insert({ ...values, student_id: input.student_id, [column]: itemId })
+        .select("id, student_id, module_id, assignment_id, score, comment")
+        .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteGradeOverride(teacherId: string, overrideId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("grade_overrides")
+    .select("student_id, assignment_id")
+    .eq("id", overrideId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || !(await teachesStudent(teacherId, data.student_id))) throw new HttpError(404, "Grade override not found");
+  if (data.assignment_id) await getOwnedAssignment(teacherId, data.assignment_id);
+
+  const { error: deleteError } = await supabase.from("grade_overrides").delete().eq("id", overrideId);
+  if (deleteError) throw deleteError;
+}
@@ -0,0 +1,353 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { getStudentClasses, getTeacherStudentIds, teachesStudent } from "./classes.js";
+import { awardPoints, QUIZ_ANSWER_POINTS } from "./points.js";
+import { recordSkillAnswer } from "./mastery.js";
+import { scheduleMissedQuestion } from "./reviews.js";
+import { evaluateAchievements } from "./achievements.js";
+import { getQuiz, getQuizzes, isFirstAnswer, type LatestAnswer, type StoredQuiz, type StoredWrittenQuestion } from "./quizzes.js";
+import { getAIProvider } from "../ai/index.js";
+
+// A written answer scoring at least this counts as correct
+export const WRITTEN_PASS_MARK = 50;
+
+// Below this AI confidence an answer waits for a teacher to review it, if the student has one
+export const WRITTEN_REVIEW_CONFIDENCE = Number(process.env.WRITTEN_REVIEW_CONFIDENCE ?? 0.7);
+
+// How many of the latest AI-marked answers a teacher can look back over
+const AI_MARKED_LIST_SIZE = 50;
+
+export type WrittenGradeStatus = "graded" | "needs_review" | "reviewed";
+
+export type GradedCriterion = {
+  criterion: string;
+  max_points: number;
+  points_awarded: number;
+  comment: string;
+};
+
+export interface WrittenGrade {
+  id: string;
+  // The teacher's score once reviewed, otherwise the AI's
+  score: number | null;
+  ai_score: number | null;
+  ai_confidence: number | null;
+  feedback: string | null;
+  teacher_feedback: string | null;
+  criteria: GradedCriterion[];
+  status: WrittenGradeStatus;
+}
+
+export interface WrittenReviewItem extends WrittenGrade {
+  student_id: string;
+  student_name: string;
+  quiz_title: string;
+  question: string;
+  model_answer: string;
+  answer: string;
+  created_at: string;
+}
+
+interface GradeRow {
+  id: string;
+  attempt_id: string;
+  user_id: string;
+  quiz_id: string;
+  question_id: string;
+  answer: string;
+  ai_score: number | null;
+  ai_confidence: number | null;
+  ai_feedback: string | null;
+  criteria: unknown;
+  status: string;
+  teacher_score: number | null;
+  teacher_feedback: string | null;
+  created_at: string;
+}
+
+const GRADE_COLUMNS =
+  "id, attempt_id, user_id, quiz_id, question_id, answer, ai_score, ai_confidence, ai_feedback, criteria, status, teacher_score, teacher_feedback, created_at";
+
+function toWrittenGrade(row: GradeRow): WrittenGrade {
+  const aiScore = row.ai_score === null ? null : Number(row.ai_score);
+  const teacherScore = row.teacher_score === null ? null : Number(row.teacher_score);
+  return {
+    id: row.id,
+    score: teacherScore ?? aiScore,
+    ai_score: aiScore,
+    ai_confidence: row.ai_confidence === null ? null : Number(row.ai_confidence),
+    feedback: row.ai_feedback,
+    teacher_feedback: row.teacher_feedback,
+    criteria: row.criteria as GradedCriterion[],
+    status: row.status as WrittenGradeStatus,
+  };
+}
+
+// Once an answer is marked: mastery moves, a correct answer pays and a missed one is queued for review.
+// Each question pays out once per quiz, and only its first answer moves mastery, so answering again
+// until it is right cannot push a skill to mastered.
+export async function settleAnswer(
+  userId: string,
+  quiz: Pick<StoredQuiz, "id" | "module_id" | "title">,
+  questionId: string,
+  attemptId: string,
+  correct: boolean,
+  description: string,
+): Promise<number> {
+  if (await isFirstAnswer(userId, quiz.id, questionId, attemptId)) await recordSkillAnswer(userId, questionId, correct);
+
+  if (!correct) {
+    await scheduleMissedQuestion(userId, questionId, quiz.id);
+    return 0;
+  }
+
+  const award = await awardPoints({
+    userId,
+    amount: QUIZ_ANSWER_POINTS,
+    reason: "quiz_correct",
+    idempotencyKey: `quiz:${quiz.id}:${questionId}`,
+    moduleId: quiz.module_id,
+    quizId: quiz.id,
+    description,
+  });
+  return award.awarded ? QUIZ_ANSWER_POINTS : 0;
+}
+
+// Marks the answer with the AI provider and records the attempt; an answer the provider cannot mark goes to review.
+// An answer waiting for review is not correct yet, and it is settled when the teacher marks it. A student in no
+// class has nobody to review an uncertain mark, so it stands; one the provider could not mark waits for a teacher.
+export async function gradeWrittenAnswer(
+  userId: string,
+  quiz: StoredQuiz,
+  question: StoredWrittenQuestion,
+  answer: string,
+): Promise<{ correct: boolean; attemptId: string; grade: WrittenGrade }> {
+  const assessment = await getAIProvider()
+    .gradeWrittenAnswer({ question: question.question, modelAnswer: question.model_answer, rubric: question.rubric, answer })
+    .catch((err) => {
+      console.error("[api] Written answer grading failed:", err);
+      return null;
+    });
+
+  // The score is summed here from the rubric so the model cannot award more than a criterion is worth
+  const criteria: GradedCriterion[] = question.rubric.map((item, index) => {
+    const marked = assessment?.criteria[index];
+    return {
+      criterion: item.criterion,
+      max_points: item.points,
+      points_awarded: Math.min(marked?.points_awarded ?? 0, item.points),
+      comment: marked?.comment ?? "",
+    };
+  });
+  const maxPoints = criteria.reduce((sum, item) => sum + item.max_points, 0);
+  const earned = criteria.reduce((sum, item) => sum + item.points_awarded, 0);
+  const aiScore = assessment && maxPoints > 0 ? Math.round((earned / maxPoints) * 100) : null;
+  const needsReview =
+    !assessment ||
+    aiScore === null ||
+    (assessment.confidence < WRITTEN_REVIEW_CONFIDENCE && (await getStudentClasses(userId)).length > 0);
+  const score = aiScore ?? 0;
+  const correct = !needsReview && score >= WRITTEN_PASS_MARK;
+
+  const { data: attempt, error } = await supabase
+    .from("user_quiz_attempts")
+    .insert({
+      user_id: userId,
+      quiz_id: quiz.id,
+      question_id: question.id,
+      score,
+      answers: { [question.id]: answer },
+      passed: correct,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+
+  const { data: grade, error: gradeError } = await supabase
+    .from("written_answer_grades")
+    .insert({
+      attempt_id: attempt.id,
+      user_id: userId,
+      quiz_id: quiz.id,
+      question_id: question.id,
+      answer,
+      ai_score: aiScore,
+      ai_confidence: assessment?.confidence ?? null,
+      ai_feedback: assessment?.feedback || null,
+      criteria,
+      status: needsReview ? "needs_review" : "graded",
+    })
+    .select(GRADE_COLUMNS)
+    .single();
+
+  if (gradeError) throw gradeError;
+  return { correct, attemptId: attempt.id, grade: toWrittenGrade(grade) };
+}
+
+// Adds the grade of each written answer to a student's latest answers
+export async function withWrittenGrades(
+  latest: Record<string, LatestAnswer>,
+): Promise<Record<string, LatestAnswer & { grade?: WrittenGrade }>> {
+  const attemptIds = Object.values(latest).map((answer) => answer.attempt_id);
+  if (attemptIds.length === 0) return latest;
+
+  const { data, error } = await supabase.from("written_answer_grades").select(GRADE_COLUMNS).in("attempt_id", attemptIds);
+  if (error) throw error;
+
+  const grades = new Map((data ?? []).map((row) => [row.attempt_id, toWrittenGrade(row)]));
+  return Object.fromEntries(
+    Object.entries(latest).map(([questionId, answer]) => {
+      const grade = grades.get(answer.attempt_id);
+      return [questionId, grade ? { ...answer, grade } : answer];
+    }),
+  );
+}
+
+// Uncertain answers from the teacher's students, oldest first; or the answers the AI marked, newest first,
+// so a confident but wrong mark can be overridden
+export async function getWrittenReviewQueue(
+  teacherId: string,
+  status: "needs_review" | "graded" = "needs_review",
+): Promise<WrittenReviewItem[]> {
+  const studentIds = await getTeacherStudentIds(teacherId);
+  if (studentIds.length === 0) return [];
+
+  const query = supabase
+    .from("written_answer_grades")
+    .select(`${GRADE_COLUMNS}, profiles!written_answer_grades_user_id_fkey(full_name)`)
+    .eq("status", status)
+    .in("user_id", studentIds)
+    .order("created_at", { ascending: status === "needs_review" });
+  const { data, error } = await (status === "graded" ? query.limit(AI_MARKED_LIST_SIZE) : query);
+
+  if (error) throw error;
+
+  const quizzes = await getQuizzes([...new Set((data ?? []).map((row) => row.quiz_id))]);
+
+  return (data ?? []).map(({ profiles, ...row }) => {
+    const quiz = quizzes.get(row.quiz_id);
+    const question = quiz?.questions.find((q) => q.id === row.question_id);
+    return {
+      ...toWrittenGrade(row),
+      student_id: row.user_id,
+      student_name: (profiles as unknown as { full_name: string } | null)?.full_name ?? "",
+      quiz_title: quiz?.title ?? "",
+      question: question?.question ?? "",
+      model_answer: question?.type === "written" ? question.model_answer : "",
+      answer: row.answer,
+      created_at: row.created_at,
+    };
+  });
+}
+
+// The teacher accepts the AI score or sets their own; the attempt's score follows so module completion uses it.
+// An answer waiting for review is settled now. One the AI already marked only moves if the outcome changes:
+// a pass pays as it would have, and a fail is queued for review and takes back the points unless another
+// answer to the question still passes. Mastery keeps the first mark. Each answer is reviewed once.
+export async function reviewWrittenAnswer(
+  teacherId: string,
+  gradeId: string,
+  review: { score: number; feedback?: string },
+): Promise<WrittenGrade> {
+  const { data: existing, error: findError } = await supabase
+    .from("written_answer_grades")
+    .select(GRADE_COLUMNS)
+    .eq("id", gradeId)
+    .maybeSingle();
+
+  if (findError) throw findError;
+  if (!existing || !(await teachesStudent(teacherId, existing.user_id))) {
+    throw new HttpError(404, "Written answer not found");
+  }
+  if (existing.status !== "needs_review" && existing.status !== "graded") {
+    throw new HttpError(409, "This answer has already been marked");
+  }
+
+  const score = Math.round(review.score);
+  const passed = score >= WRITTEN_PASS_MARK;
+
+  // Only the review that moves the grade out of its current status settles it; a second one changes nothing
+  const { data, error } = await supabase
+    .from("written_answer_grades")
+    .update({
+      teacher_score: score,
+      teacher_feedback: review.feedback ?? null,
+      status: "reviewed",
+      reviewed_by: teacherId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", gradeId)
+    .eq("status", existing.status)
+    .select(GRADE_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(409, "This answer has already been marked");
+
+  const { error: attemptError } = await supabase
+    .from("user_quiz_attempts")
+    .update({ score, passed })
+    .eq("id", existing.attempt_id);
+
+  if (attemptError) throw attemptError;
+
+  const quiz = await getQuiz(existing.quiz_id);
+  if (existing.status === "needs_review") {
+    await settleAnswer(
+      existing.user_id,
+      quiz,
+      existing.question_id,
+      existing.attempt_id,
+      passed,
+      `Written answer accepted in ${quiz.title}`,
+    );
+  } else {
+    const aiPassed = existing.ai_score !== null && Number(existing.ai_score) >= WRITTEN_PASS_MARK;
+    if (passed && !aiPassed) {
+      await awardPoints({
+        userId: existing.user_id,
+        amount: QUIZ_ANSWER_POINTS,
+        reason: "quiz_correct",
+        idempotencyKey: `quiz:${quiz.id}:${existing.question_id}`,
+        moduleId: quiz.module_id,
+        quizId: quiz.id,
+        description: `Written answer accepted in ${quiz.title}`,
+      });
+    } else if (!passed && aiPassed) {
+      await overturnPassedAnswer(existing.user_id, quiz, existing.question_id);
+    }
+  }
+  await evaluateAchievements(existing.user_id);
+
+  return toWrittenGrade(data);
+}
+
+async function overturnPassedAnswer(
+  userId: string,
+  quiz: Pick<StoredQuiz, "id" | "module_id" | "title">,
+  questionId: string,
+): Promise<void> {
+  await scheduleMissedQuestion(userId, questionId, quiz.id);
+
+  const { count, error } = await supabase
+    .from("user_quiz_attempts")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("quiz_id", quiz.id)
+    .eq("question_id", questionId)
+    .eq("passed", true);
+
+  if (error) throw error;
+  if ((count ?? 0) > 0) return;
+
+  await awardPoints({
+    userId,
+    amount: -QUIZ_ANSWER_POINTS,
+    reason: "quiz_overturned",
+    idempotencyKey: `quiz:${quiz.id}:${questionId}:overturned`,
+    moduleId: quiz.module_id,
+    quizId: quiz.id,
+    description: `Written answer marked incorrect by a teacher in ${quiz.title}`,
+  });
+}
@@ -0,0 +1,42 @@
+import type { ErrorRequestHandler } from "express";
+import { ZodError } from "zod";
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// SQLSTATEs our database functions raise for expected failures
+const DATABASE_ERROR_STATUS: Record<string, number> = {
+  P0002: 404,
+  "42501": 403,
+  "22023": 400,
+  "55000": 409,
+};
+
+// Turns an expected error from a database function into an HttpError with its message
+export function fromDatabaseError(error: { code?: string; message: string }): Error {
+  const status = error.code ? DATABASE_ERROR_STATUS[error.code] : undefined;
+  return status ? new HttpError(status, error.message) : new Error(error.message);
+}
+
+// Every failure is returned as { error } so the components can show it directly
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+
+  if (err instanceof ZodError) {
+    res.status(400).json({ error: err.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ") });
+    return;
+  }
+
+  console.error("[api] Unhandled error:", err);
+  res.status(500).json({ error: err?.message || "Internal server error" });
+};
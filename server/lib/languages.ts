@@ -0,0 +1,20 @@
+// Languages learning content is generated and translated into; the database checks list the same codes
+export const CONTENT_LANGUAGES = ["en", "sw"] as const;
+
+export type ContentLanguage = (typeof CONTENT_LANGUAGES)[number];
+
+export const DEFAULT_CONTENT_LANGUAGE: ContentLanguage = "en";
+
+// How prompts name each language to the model
+export const LANGUAGE_NAMES: Record<ContentLanguage, string> = {
+  en: "English",
+  sw: "Kiswahili",
+};
+
+export function isContentLanguage(language: string | null | undefined): language is ContentLanguage {
+  return (CONTENT_LANGUAGES as readonly string[]).includes(language ?? "");
+}
+
+export function toContentLanguage(language: string | null | undefined): ContentLanguage {
+  return isContentLanguage(language) ? language : DEFAULT_CONTENT_LANGUAGE;
+}
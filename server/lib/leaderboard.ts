@@ -0,0 +1,53 @@
+import { supabase } from "./supabase.js";
+import { fromDatabaseError } from "./http.js";
+
+export const LEADERBOARD_SCOPES = ["all", "class", "school", "form", "subject"] as const;
+export const LEADERBOARD_PERIODS = ["weekly", "monthly", "term", "all_time"] as const;
+
+export type LeaderboardScope = (typeof LEADERBOARD_SCOPES)[number];
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export interface LeaderboardEntry {
+  rank: number;
+  // Only set on the viewer's own row
+  user_id: string | null;
+  display_name: string;
+  points: number;
+  is_current_user: boolean;
+}
+
+export interface Leaderboard {
+  scope: LeaderboardScope;
+  period: LeaderboardPeriod;
+  class_id: string | null;
+  entries: LeaderboardEntry[];
+  // The viewer's own row, whether or not it made the top entries
+  current_user: LeaderboardEntry | null;
+}
+
+// Ranking and display names are computed by the leaderboard database function,
+// which applies each student's leaderboard_visibility before names leave the database
+export async function getLeaderboard(
+  viewerId: string,
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod,
+  limit: number,
+  classId?: string,
+): Promise<Leaderboard> {
+  const { data, error } = await supabase.rpc("leaderboard", {
+    p_viewer_id: viewerId,
+    p_scope: scope,
+    p_period: period,
+    p_limit: limit,
+    p_class_id: classId,
+  });
+
+  if (error) throw fromDatabaseError(error);
+
+  const rows = data ?? [];
+  const currentUser = rows.find((row) => row.is_current_user) ?? null;
+  // The function appends the viewer's row when they are outside the top entries
+  const entries = currentUser && rows.length > limit ? rows.filter((row) => row !== currentUser) : rows;
+
+  return { scope, period, class_id: classId ?? null, entries, current_user: currentUser };
+}
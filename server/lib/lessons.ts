@@ -0,0 +1,86 @@
+import { supabase } from "./supabase.js";
+import { fromDatabaseError } from "./http.js";
+
+export const LESSON_ACTIONS = ["submit", "withdraw", "publish", "approve", "reject", "unpublish", "archive", "restore"] as const;
+
+export type LessonAction = (typeof LESSON_ACTIONS)[number];
+export type LessonStatus = "draft" | "in_review" | "published" | "archived";
+
+export interface LessonWorkflowState {
+  id: string;
+  status: LessonStatus;
+  publish_at: string | null;
+  published_at: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  title: string;
+  content: string | null;
+  type: string | null;
+  submitted_at: string | null;
+  teacher_id: string;
+  teacher_name: string | null;
+}
+
+// When set, teachers cannot publish directly and every lesson goes through a head of department
+export const LESSON_APPROVAL_REQUIRED = process.env.LESSON_APPROVAL_REQUIRED === "true";
+
+export async function transitionLesson(
+  userId: string,
+  lessonId: string,
+  action: LessonAction,
+  options: { publishAt?: string; comment?: string } = {},
+): Promise<LessonWorkflowState> {
+  const { data, error } = await supabase.rpc("transition_lesson", {
+    p_user_id: userId,
+    p_lesson_id: lessonId,
+    p_action: action,
+    p_publish_at: options.publishAt,
+    p_comment: options.comment,
+    p_approval_required: LESSON_APPROVAL_REQUIRED,
+  });
+
+  if (error) throw fromDatabaseError(error);
+  return data as unknown as LessonWorkflowState;
+}
+
+// Lessons waiting for a head of department, from teachers at the same institution
+export async function getReviewQueue(reviewerId: string): Promise<ReviewQueueItem[]> {
+  const { data: reviewer, error: reviewerError } = await supabase
+    .from("profiles")
+    .select("institution, is_head_of_department")
+    .eq("id", reviewerId)
+    .maybeSingle();
+
+  if (reviewerError) throw reviewerError;
+  if (!reviewer?.is_head_of_department) return [];
+
+  // lessons.teacher_id references auth.users, so authors are matched to profiles separately
+  let authorsQuery = supabase.from("profiles").select("id, full_name").eq("role", "teacher").neq("id", reviewerId);
+  authorsQuery = reviewer.institution
+    ? authorsQuery.eq("institution", reviewer.institution)
+    : authorsQuery.is("institution", null);
+
+  const { data: authors, error: authorsError } = await authorsQuery;
+  if (authorsError) throw authorsError;
+  if (!authors || authors.length === 0) return [];
+
+  const names = new Map(authors.map((author) => [author.id, author.full_name]));
+
+  const { data, error } = await supabase
+    .from("lessons")
+    .select("id, title, content, type, submitted_at, teacher_id")
+    .eq("status", "in_review")
+    .is("deleted_at", null)
+    .in("teacher_id", [...names.keys()])
+    .order("submitted_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map((lesson) => ({ ...lesson, teacher_name: names.get(lesson.teacher_id) ?? null }));
+}
@@ -0,0 +1,148 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { supabase } from "./supabase.js";
+
+const difficultySchema = z.enum(["beginner", "intermediate", "advanced"]);
+
+const levelConfigSchema = z.object({
+  tiers: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        levels: z.number().int().positive(),
+        modules_per_level: z.number().int().positive(),
+        difficulty: difficultySchema,
+      }),
+    )
+    .min(1),
+  final_level: z.object({ name: z.string().min(1), difficulty: difficultySchema }),
+  xp_curve: z.object({ base: z.number().nonnegative(), exponent: z.number().positive() }),
+});
+
+export type LevelConfig = z.infer<typeof levelConfigSchema>;
+export type Difficulty = z.infer<typeof difficultySchema>;
+
+export interface LevelDefinition {
+  level: number;
+  name: string;
+  tier: string;
+  difficulty: Difficulty;
+  modules_required: number;
+  xp_required: number;
+}
+
+export interface LevelProgression {
+  level: number;
+  current_level: string;
+  next_level: string;
+  tier: string;
+  difficulty: Difficulty;
+  completed_modules: number;
+  total_modules_needed: number;
+  xp: number;
+  xp_for_next_level: number;
+}
+
+const CONFIG_PATH = process.env.LEVELS_CONFIG_PATH ?? fileURLToPath(new URL("../config/levels.json", import.meta.url));
+
+export const levelConfig: LevelConfig = levelConfigSchema.parse(JSON.parse(readFileSync(CONFIG_PATH, "utf8")));
+
+// Cumulative XP (points) needed to reach a level; level 1 is free
+function xpRequired(level: number): number {
+  return level <= 1 ? 0 : Math.round(levelConfig.xp_curve.base * Math.pow(level - 1, levelConfig.xp_curve.exponent));
+}
+
+// Every level in order, ending with the final level; thresholds are cumulative
+export const LEVELS: LevelDefinition[] = (() => {
+  const levels: LevelDefinition[] = [];
+  let modulesRequired = 0;
+
+  for (const tier of levelConfig.tiers) {
+    for (let i = 1; i <= tier.levels; i++) {
+      const level = levels.length + 1;
+      levels.push({
+        level,
+        name: `${tier.name} Level ${i}`,
+        tier: tier.name,
+        difficulty: tier.difficulty,
+        modules_required: modulesRequired,
+        xp_required: xpRequired(level),
+      });
+      modulesRequired += tier.modules_per_level;
+    }
+  }
+
+  const level = levels.length + 1;
+  levels.push({
+    level,
+    name: levelConfig.final_level.name,
+    tier: levelConfig.final_level.name,
+    difficulty: levelConfig.final_level.difficulty,
+    modules_required: modulesRequired,
+    xp_required: xpRequired(level),
+  });
+  return levels;
+})();
+
+// The highest level whose module and XP thresholds are both met; the same inputs always give the same level
+export function getLevelProgression(completedModules: number, xp: number): LevelProgression {
+  let index = 0;
+  while (
+    index + 1 < LEVELS.length &&
+    completedModules >= LEVELS[index + 1].modules_required &&
+    xp >= LEVELS[index + 1].xp_required
+  ) {
+    index++;
+  }
+
+  const current = LEVELS[index];
+  const next = LEVELS[Math.min(index + 1, LEVELS.length - 1)];
+  // Progress bars measure towards the end of the current tier
+  const tierEnd = LEVELS.find((level) => level.tier !== current.tier && level.level > current.level) ?? current;
+
+  return {
+    level: current.level,
+    current_level: current.name,
+    next_level: next.name,
+    tier: current.tier,
+    difficulty: current.difficulty,
+    completed_modules: completedModules,
+    total_modules_needed: Math.max(tierEnd.modules_required, completedModules),
+    xp,
+    xp_for_next_level: next.xp_required,
+  };
+}
+
+export interface CompletedModule {
+  module_id: string;
+  points_reward: number;
+}
+
+// Completed modules for a student, one entry per module; user_module_progress can hold duplicate rows
+export async function getCompletedModules(userId: string): Promise<CompletedModule[]> {
+  const { data, error } = await supabase
+    .from("user_module_progress")
+    .select("module_id, points_reward")
+    .eq("user_id", userId)
+    .eq("is_completed", true);
+
+  if (error) throw error;
+
+  const byModule = new Map<string, CompletedModule>();
+  for (const row of data ?? []) {
+    byModule.set(row.module_id, { module_id: row.module_id, points_reward: row.points_reward ?? 0 });
+  }
+  return [...byModule.values()];
+}
+
+// A student's progression from their completed modules and ledger balance
+export async function getStudentProgression(userId: string): Promise<LevelProgression> {
+  const [completedModules, { data: profile, error }] = await Promise.all([
+    getCompletedModules(userId),
+    supabase.from("profiles").select("total_points").eq("id", userId).maybeSingle(),
+  ]);
+
+  if (error) throw error;
+  return getLevelProgression(completedModules.length, profile?.total_points ?? 0);
+}
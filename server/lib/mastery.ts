@@ -0,0 +1,179 @@
+import { escapeLike, supabase } from "./supabase.js";
+import { getOwnedClass } from "./classes.js";
+
+// Bayesian Knowledge Tracing: the chance a student knows a skill before answering anything on it,
+// learns it from one question, gets a question wrong although they know it, and guesses a written answer
+const P_INITIAL = 0.3;
+const P_LEARN = 0.15;
+const P_SLIP = 0.1;
+const P_GUESS_WRITTEN = 0.05;
+
+export const MASTERY_THRESHOLD = 0.95;
+// How many unmastered skills new modules are asked to focus on
+export const FOCUS_SKILL_COUNT = 3;
+
+export interface SkillMastery {
+  subject: string;
+  skill: string;
+  p_known: number;
+  answers: number;
+  correct_answers: number;
+  mastered: boolean;
+  updated_at: string;
+}
+
+export interface MasterySummary {
+  skills: SkillMastery[];
+  // The weakest skills in the student's subject, which new modules focus on
+  focus_skills: string[];
+}
+
+export interface ClassSkillMastery {
+  subject: string;
+  skill: string;
+  // Students who have answered at least one question on the skill
+  students: number;
+  mastered: number;
+  average: number;
+}
+
+export interface ClassMastery {
+  class_id: string;
+  student_count: number;
+  skills: ClassSkillMastery[];
+}
+
+// One BKT step: condition on the answer, then allow for learning from the question
+export function traceKnowledge(pKnown: number, correct: boolean, pGuess: number): number {
+  const posterior = correct
+    ? (pKnown * (1 - P_SLIP)) / (pKnown * (1 - P_SLIP) + (1 - pKnown) * pGuess)
+    : (pKnown * P_SLIP) / (pKnown * P_SLIP + (1 - pKnown) * (1 - pGuess));
+  return posterior + (1 - posterior) * P_LEARN;
+}
+
+function toSkillMastery(row: Omit<SkillMastery, "mastered">): SkillMastery {
+  const p_known = Number(row.p_known);
+  return { ...row, p_known, mastered: p_known >= MASTERY_THRESHOLD };
+}
+
+// Updates the student's estimate for the skill the question tests; call once per graded answer
+export async function recordSkillAnswer(userId: string, questionId: string, correct: boolean): Promise<void> {
+  const { data: question, error } = await supabase
+    .from("question_bank")
+    .select("type, options, skill, skill_area")
+    .eq("id", questionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!question) return;
+
+  const { data: current, error: currentError } = await supabase
+    .from("skill_mastery")
+    .select("p_known, answers, correct_answers")
+    .eq("user_id", userId)
+    .eq("subject", question.skill_area)
+    .eq("skill", question.skill)
+    .maybeSingle();
+
+  if (currentError) throw currentError;
+
+  // Multiple choice can be guessed one time in however many options there are
+  const options = (question.options as string[]).length;
+  const pGuess = question.type === "written" || options === 0 ? P_GUESS_WRITTEN : 1 / options;
+  const pKnown = traceKnowledge(current ? Number(current.p_known) : P_INITIAL, correct, pGuess);
+
+  const { error: upsertError } = await supabase.from("skill_mastery").upsert(
+    {
+      user_id: userId,
+      subject: question.skill_area,
+      skill: question.skill,
+      p_known: Math.round(pKnown * 10_000) / 10_000,
+      answers: (current?.answers ?? 0) + 1,
+      correct_answers: (current?.correct_answers ?? 0) + (correct ? 1 : 0),
+    },
+    { onConflict: "user_id,subject,skill" },
+  );
+
+  if (upsertError) throw upsertError;
+}
+
+// Unmastered skills the student has practised in the subject, weakest first
+export async function getFocusSkills(userId: string, subject: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("skill_mastery")
+    .select("skill")
+    .eq("user_id", userId)
+    .ilike("subject", escapeLike(subject))
+    .lt("p_known", MASTERY_THRESHOLD)
+    .order("p_known", { ascending: true })
+    .limit(FOCUS_SKILL_COUNT);
+
+  if (error) throw error;
+  return (data ?? []).map((row) => row.skill);
+}
+
+export async function getMastery(userId: string): Promise<MasterySummary> {
+  const { data, error } = await supabase
+    .from("skill_mastery")
+    .select("subject, skill, p_known, answers, correct_answers, updated_at")
+    .eq("user_id", userId)
+    .order("subject", { ascending: true })
+    .order("skill", { ascending: true });
+
+  if (error) throw error;
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("subject")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  return {
+    skills: (data ?? []).map(toSkillMastery),
+    focus_skills: profile?.subject ? await getFocusSkills(userId, profile.subject) : [],
+  };
+}
+
+// Per skill, how many of the class's students have practised it, how many mastered it and the average estimate
+export async function getClassMastery(teacherId: string, classId: string): Promise<ClassMastery> {
+  await getOwnedClass(teacherId, classId);
+
+  const { data: enrollments, error } = await supabase
+    .from("class_enrollments")
+    .select("student_id")
+    .eq("class_id", classId);
+
+  if (error) throw error;
+
+  const studentIds = (enrollments ?? []).map((row) => row.student_id);
+  if (studentIds.length === 0) return { class_id: classId, student_count: 0, skills: [] };
+
+  const { data, error: masteryError } = await supabase
+    .from("skill_mastery")
+    .select("subject, skill, p_known")
+    .in("user_id", studentIds);
+
+  if (masteryError) throw masteryError;
+
+  const bySkill = new Map<string, { subject: string; skill: string; estimates: number[] }>();
+  for (const row of data ?? []) {
+    const key = `${row.subject}\u0000${row.skill}`;
+    const entry = bySkill.get(key) ?? { subject: row.subject, skill: row.skill, estimates: [] };
+    entry.estimates.push(Number(row.p_known));
+    bySkill.set(key, entry);
+  }
+
+  const skills = [...bySkill.values()]
+    .map(({ subject, skill, estimates }) => ({
+      subject,
+      skill,
+      students: estimates.length,
+      mastered: estimates.filter((p) => p >= MASTERY_THRESHOLD).length,
+      average: Math.round((estimates.reduce((sum, p) => sum + p, 0) / estimates.length) * 100) / 100,
+    }))
+    .sort((a, b) => a.subject.localeCompare(b.subject) || a.average - b.average);
+
+  return { class_id: classId, student_count: studentIds.length, skills };
+}
@@ -0,0 +1,159 @@
+import { supabase } from "./supabase.js";
+import { fromDatabaseError, HttpError } from "./http.js";
+import { recordActivity, type ActivityResult } from "./streaks.js";
+import { getLevelProgression, type LevelProgression } from "./levels.js";
+import { getModuleProgress, getQuiz } from "./quizzes.js";
+import { gradeWrittenAnswer, settleAnswer, type WrittenGrade } from "./grading.js";
+import { translateAnswer, translateQuiz } from "./translations.js";
+
+export interface GradedAnswer {
+  question_id: string;
+  correct: boolean;
+  explanation: string;
+  grade: WrittenGrade | null;
+  points_awarded: number;
+  streak: ActivityResult;
+}
+
+interface CompleteModuleRow {
+  module_id: string;
+  already_completed: boolean;
+  score: number | null;
+  passed: boolean | null;
+  points_awarded: number;
+  badge: { id: string; name: string; description: string; icon: string; module_id: string; earned_at: string } | null;
+  completed_before: number;
+  completed_after: number;
+}
+
+export interface ModuleCompletion {
+  module_id: string;
+  already_completed: boolean;
+  score: number | null;
+  passed: boolean | null;
+  points_awarded: number;
+  badge: CompleteModuleRow["badge"];
+  streak: ActivityResult | null;
+  level: {
+    previous: string;
+    current: string;
+    leveled_up: boolean;
+    progression: LevelProgression;
+  };
+}
+
+// Grades one answer in the student's module quiz; `at` is when it was given, for answers synced from offline
+export async function answerModuleQuestion(
+  userId: string,
+  quizId: string,
+  questionId: string,
+  answer: string,
+  at?: Date,
+): Promise<GradedAnswer> {
+  const original = await getQuiz(quizId);
+  // Quizzes assembled by teachers are not answered through modules
+  if (!original.module_id) throw new HttpError(404, "Quiz not found");
+  const progress = await getModuleProgress(userId, original.module_id);
+  if (progress.is_read_only || progress.is_completed) {
+    throw new HttpError(409, "This module is completed and in read-only mode");
+  }
+
+  // The student answers in the language they read the module in
+  const quiz = await translateQuiz(original, progress.language);
+  const index = quiz.questions.findIndex((q) => q.id === questionId);
+  if (index === -1) throw new HttpError(404, "Question not found in this quiz");
+  const question = quiz.questions[index];
+
+  // Written answers are marked against the rubric; multiple choice against the answer key
+  let correct: boolean;
+  let attemptId: string;
+  let grade: WrittenGrade | null = null;
+  if (question.type === "written") {
+    ({ correct, attemptId, grade } = await gradeWrittenAnswer(userId, quiz, question, answer));
+  } else {
+    if (!question.options.includes(answer)) throw new HttpError(400, "Answer is not one of the options");
+    correct = answer === question.correct_answer;
+
+    const { data: attempt, error } = await supabase
+      .from("user_quiz_attempts")
+      .insert({
+        user_id: userId,
+        quiz_id: quiz.id,
+        question_id: question.id,
+        score: correct ? 100 : 0,
+        // Stored in the quiz's own language so answers given in any language compare
+        answers: { [question.id]: translateAnswer(question, original.questions[index], answer) },
+        passed: correct,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    attemptId = attempt.id;
+  }
+
+  // A written answer waiting for its teacher is settled when they review it
+  const pointsAwarded =
+    grade?.status === "needs_review"
+      ? 0
+      : await settleAnswer(userId, quiz, question.id, attemptId, correct, `Correct answer in ${quiz.title}`);
+
+  // Answering counts as learning for the day whether or not it was right
+  const streak = await recordActivity(userId, "quiz_answer", at);
+
+  return {
+    question_id: question.id,
+    correct,
+    explanation: question.explanation,
+    grade,
+    points_awarded: pointsAwarded,
+    streak,
+  };
+}
+
+// Progress, quiz result, points and badge are applied together by complete_module
+export async function completeModule(
+  userId: string,
+  moduleId: string,
+  claimedScore?: number,
+  at?: Date,
+): Promise<ModuleCompletion> {
+  const { data, error } = await supabase.rpc("complete_module", {
+    p_user_id: userId,
+    p_module_id: moduleId,
+    p_claimed_score: claimedScore,
+  });
+
+  if (error) throw fromDatabaseError(error);
+
+  const result = data as unknown as CompleteModuleRow;
+  const streak = result.already_completed ? null : await recordActivity(userId, "module_complete", at);
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("total_points")
+    .eq("id", userId)
+    .single();
+
+  if (profileError) throw profileError;
+
+  // The level before this completion uses the balance without the points it just paid
+  const previous = getLevelProgression(result.completed_before, profile.total_points - result.points_awarded);
+  const current = getLevelProgression(result.completed_after, profile.total_points);
+
+  return {
+    module_id: result.module_id,
+    already_completed: result.already_completed,
+    score: result.score,
+    passed: result.passed,
+    points_awarded: result.points_awarded,
+    badge: result.badge,
+    streak,
+    level: {
+      previous: previous.current_level,
+      current: current.current_level,
+      leveled_up: current.level > previous.level,
+      progression: current,
+    },
+  };
+}
@@ -0,0 +1,264 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { recordActivity } from "./streaks.js";
+import { evaluateAchievements, type EarnedAchievement } from "./achievements.js";
+import { answerModuleQuestion, completeModule } from "./modules.js";
+import { getOrCreateModuleQuiz, toPublicQuestion, type PublicQuestion } from "./quizzes.js";
+import { translateQuiz } from "./translations.js";
+import { toContentLanguage } from "./languages.js";
+import type { Database, Json } from "../../src/integrations/supabase/types.js";
+
+// Unfinished modules kept on the device, most advanced first
+export const OFFLINE_MODULE_LIMIT = 10;
+// Older events still sync, but count towards the streak as of this many days ago, or as of their pack's
+// download if that was later
+export const OFFLINE_MAX_AGE_DAYS = 14;
+const STALE_CLAIM_MS = 10 * 60_000;
+// Downloads are kept this long so a device that spent weeks offline can still cite its pack
+const PACK_RETENTION_DAYS = 60;
+
+type ModuleRow = Database["public"]["Tables"]["user_module_progress"]["Row"];
+
+export interface OfflineModule extends ModuleRow {
+  quiz: { quiz_id: string; passing_score: number; questions: PublicQuestion[] } | null;
+}
+
+export interface OfflinePack {
+  id: string;
+  user_id: string;
+  downloaded_at: string;
+  profile: Database["public"]["Tables"]["profiles"]["Row"];
+  modules: OfflineModule[];
+}
+
+export type OfflineEvent = { id: string; occurred_at: string; pack_id?: string } & (
+  | { kind: "answer"; quiz_id: string; question_id: string; answer: string }
+  | { kind: "progress"; module_id: string; progress_percentage: number }
+  | { kind: "complete"; module_id: string }
+  | { kind: "section_read" }
+);
+
+export type OfflineEventStatus = "processing" | "applied" | "conflict";
+
+export interface OfflineEventResult {
+  id: string;
+  kind: OfflineEvent["kind"];
+  status: OfflineEventStatus;
+  result: Json | null;
+}
+
+export interface SyncResult {
+  events: OfflineEventResult[];
+  achievements: EarnedAchievement[];
+}
+
+// Everything the student needs to keep learning without a connection; quizzes come without answer keys
+export async function getOfflinePack(userId: string): Promise<OfflinePack> {
+  const { data: profile, error: profileError } = await supabase.from("profiles").select("*").eq("id", userId).single();
+  if (profileError) throw profileError;
+
+  const { data: rows, error } = await supabase
+    .from("user_module_progress")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_completed", false)
+    .order("progress_percentage", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  // A module can have more than one progress row; the most advanced one is kept
+  const seen = new Set<string>();
+  const unique = (rows ?? [])
+    .filter((row) => !seen.has(row.module_id) && !!seen.add(row.module_id))
+    .slice(0, OFFLINE_MODULE_LIMIT);
+
+  const modules: OfflineModule[] = [];
+  for (const row of unique) {
+    // A module whose quiz cannot be generated right now is still worth reading offline
+    const quiz = await getOrCreateModuleQuiz(row.module_id)
+      .then((stored) => translateQuiz(stored, toContentLanguage(row.language)))
+      .catch((err) => {
+        console.error("[api] Offline quiz download failed:", err);
+        return null;
+      });
+    modules.push({
+      ...row,
+      quiz: quiz && {
+        quiz_id: quiz.id,
+        passing_score: quiz.passing_score,
+        questions: quiz.questions.map((question) => toPublicQuestion(question, false)),
+      },
+    });
+  }
+
+  const { data: pack, error: packError } = await supabase
+    .from("offline_packs")
+    .insert({ user_id: userId })
+    .select("id, downloaded_at")
+    .single();
+
+  if (packError) throw packError;
+
+  const { error: pruneError } = await supabase
+    .from("offline_packs")
+    .delete()
+    .eq("user_id", userId)
+    .lt("downloaded_at", new Date(Date.now() - PACK_RETENTION_DAYS * 86_400_000).toISOString());
+
+  if (pruneError) throw pruneError;
+
+  return { id: pack.id, user_id: userId, downloaded_at: pack.downloaded_at, profile, modules };
+}
+
+// When the pack an event was recorded with was downloaded; null for a pack this student never downloaded
+async function packDownloadedAt(userId: string, packId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("offline_packs")
+    .select("downloaded_at")
+    .eq("id", packId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? Date.parse(data.downloaded_at) : null;
+}
+
+// An event is never dated before the student last had a connection: without a known pack it counts as now
+function eventTime(occurredAt: string, downloadedAt: number | null): Date {
+  const now = Date.now();
+  if (downloadedAt === null) return new Date(now);
+  const earliest = Math.max(now - OFFLINE_MAX_AGE_DAYS * 86_400_000, downloadedAt);
+  return new Date(Math.min(now, Math.max(earliest, Date.parse(occurredAt))));
+}
+
+// Progress only moves forward; completion itself goes through complete_module
+async function saveProgress(userId: string, moduleId: string, percentage: number) {
+  const { data: rows, error } = await supabase
+    .from("user_module_progress")
+    .select("id, is_completed, progress_percentage")
+    .eq("user_id", userId)
+    .eq("module_id", moduleId);
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) throw new HttpError(404, "Module not found for this student");
+  if (rows.some((row) => row.is_completed)) throw new HttpError(409, "This module is already completed");
+
+  const current = Math.max(...rows.map((row) => row.progress_percentage ?? 0));
+  const progress = Math.max(current, Math.min(percentage, 99));
+  if (progress > current) {
+    const { error: updateError } = await supabase
+      .from("user_module_progress")
+      .update({ progress_percentage: progress })
+      .eq("user_id", userId)
+      .eq("module_id", moduleId);
+
+    if (updateError) throw updateError;
+  }
+  return { module_id: moduleId, progress_percentage: progress };
+}
+
+async function applyEvent(userId: string, event: OfflineEvent, downloadedAt: number | null): Promise<unknown> {
+  const at = eventTime(event.occurred_at, downloadedAt);
+  switch (event.kind) {
+    case "answer":
+      return answerModuleQuestion(userId, event.quiz_id, event.question_id, event.answer, at);
+    case "progress":
+      return saveProgress(userId, event.module_id, event.progress_percentage);
+    case "complete":
+      // The score is worked out from the answers synced before it
+      return completeModule(userId, event.module_id, undefined, at);
+    case "section_read":
+      return recordActivity(userId, "section_read", at);
+  }
+}
+
+// Returns the stored outcome of an event another sync has already claimed, or null once this sync owns it
+async function claimEvent(
+  userId: string,
+  event: OfflineEvent,
+): Promise<{ status: OfflineEventStatus; result: Json | null } | null> {
+  const { data: claimed, error: claimError } = await supabase
+    .from("offline_events")
+    .upsert(
+      { user_id: userId, client_event_id: event.id, kind: event.kind, occurred_at: event.occurred_at },
+      { onConflict: "user_id,client_event_id", ignoreDuplicates: true },
+    )
+    .select("client_event_id");
+
+  if (claimError) throw claimError;
+  if (claimed && claimed.length > 0) return null;
+
+  const { data: existing, error } = await supabase
+    .from("offline_events")
+    .select("status, result, updated_at")
+    .eq("user_id", userId)
+    .eq("client_event_id", event.id)
+    .single();
+
+  if (error) throw error;
+
+  // A sync that stopped part-way leaves its claim behind; the first sync to come along later takes it over
+  if (existing.status === "processing" && Date.parse(existing.updated_at) < Date.now() - STALE_CLAIM_MS) {
+    const { data: taken, error: takeError } = await supabase
+      .from("offline_events")
+      .update({ occurred_at: event.occurred_at })
+      .eq("user_id", userId)
+      .eq("client_event_id", event.id)
+      .eq("updated_at", existing.updated_at)
+      .select("client_event_id");
+
+    if (takeError) throw takeError;
+    if (taken && taken.length > 0) return null;
+  }
+
+  return { status: existing.status as OfflineEventStatus, result: existing.result };
+}
+
+// Applies a device's queued events in the order they happened. An event already synced returns its stored
+// outcome instead of running again; one the server can no longer accept is recorded as a conflict.
+export async function syncOfflineEvents(userId: string, events: OfflineEvent[]): Promise<SyncResult> {
+  const results: OfflineEventResult[] = [];
+  const packs = new Map<string, number | null>();
+  let applied = false;
+
+  for (const event of events) {
+    const existing = await claimEvent(userId, event);
+    if (existing) {
+      results.push({ id: event.id, kind: event.kind, ...existing });
+      continue;
+    }
+
+    let status: OfflineEventStatus;
+    let result: Json;
+    try {
+      let downloadedAt: number | null = null;
+      if (event.pack_id) {
+        if (!packs.has(event.pack_id)) packs.set(event.pack_id, await packDownloadedAt(userId, event.pack_id));
+        downloadedAt = packs.get(event.pack_id) ?? null;
+      }
+      result = (await applyEvent(userId, event, downloadedAt)) as Json;
+      status = "applied";
+      applied = true;
+    } catch (err) {
+      // Anything but a client error is worth retrying, so the claim is released for the next sync
+      if (!(err instanceof HttpError) || err.status >= 500) {
+        await supabase.from("offline_events").delete().eq("user_id", userId).eq("client_event_id", event.id);
+        throw err;
+      }
+      status = "conflict";
+      result = { error: err.message };
+    }
+
+    const { error: saveError } = await supabase
+      .from("offline_events")
+      .update({ status, result })
+      .eq("user_id", userId)
+      .eq("client_event_id", event.id);
+
+    if (saveError) throw saveError;
+    results.push({ id: event.id, kind: event.kind, status, result });
+  }
+
+  return { events: results, achievements: applied ? await evaluateAchievements(userId) : [] };
+}
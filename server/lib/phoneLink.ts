@@ -0,0 +1,76 @@
+import { randomInt } from "node:crypto";
+import { supabase } from "./supabase.js";
+
+// Long enough to walk from a shared computer to a phone, short enough to be useless once written down
+export const PHONE_LINK_CODE_TTL_MINUTES = 15;
+
+export interface PhoneLink {
+  phone_number: string | null;
+  // What students dial, e.g. *384*123#, when the deployment has one
+  service_code: string | null;
+}
+
+export interface PhoneLinkCode {
+  code: string;
+  expires_at: string;
+}
+
+export async function getPhoneLink(userId: string): Promise<PhoneLink> {
+  const { data, error } = await supabase.from("profiles").select("phone_number").eq("id", userId).single();
+  if (error) throw error;
+  return { phone_number: data.phone_number, service_code: process.env.USSD_SERVICE_CODE ?? null };
+}
+
+// Replaces any earlier code the student asked for
+export async function createPhoneLinkCode(userId: string): Promise<PhoneLinkCode> {
+  const expiresAt = new Date(Date.now() + PHONE_LINK_CODE_TTL_MINUTES * 60_000).toISOString();
+
+  // Codes are unique while they live; on the rare clash another is drawn
+  for (let attempt = 0; ; attempt++) {
+    const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+    const { error } = await supabase
+      .from("phone_link_codes")
+      .upsert({ user_id: userId, code, expires_at: expiresAt, created_at: new Date().toISOString() }, { onConflict: "user_id" });
+
+    if (!error) return { code, expires_at: expiresAt };
+    if (error.code !== "23505" || attempt >= 4) throw error;
+  }
+}
+
+export async function unlinkPhone(userId: string): Promise<void> {
+  const { error } = await supabase.from("profiles").update({ phone_number: null }).eq("id", userId);
+  if (error) throw error;
+}
+
+export async function findUserByPhone(phoneNumber: string): Promise<string | null> {
+  const { data, error } = await supabase.from("profiles").select("id").eq("phone_number", phoneNumber).maybeSingle();
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+// Entering a live code from a phone proves the caller holds both the phone and the account. Numbers get
+// recycled, so a number linked to another account moves to this one. Returns the linked student, if any.
+export async function linkPhoneWithCode(code: string, phoneNumber: string): Promise<string | null> {
+  const { data: claimed, error } = await supabase
+    .from("phone_link_codes")
+    .delete()
+    .eq("code", code)
+    .gt("expires_at", new Date().toISOString())
+    .select("user_id");
+
+  if (error) throw error;
+  const userId = claimed?.[0]?.user_id;
+  if (!userId) return null;
+
+  const { error: releaseError } = await supabase
+    .from("profiles")
+    .update({ phone_number: null })
+    .eq("phone_number", phoneNumber)
+    .neq("id", userId);
+
+  if (releaseError) throw releaseError;
+
+  const { error: linkError } = await supabase.from("profiles").update({ phone_number: phoneNumber }).eq("id", userId);
+  if (linkError) throw linkError;
+  return userId;
+}
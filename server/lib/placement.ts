@@ -0,0 +1,344 @@
+import { escapeLike, supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { DIFFICULTIES, type Difficulty } from "./questionBank.js";
+import { recordSkillAnswer } from "./mastery.js";
+
+// The test stops once one level is this likely, after at least the minimum number of questions
+export const PLACEMENT_CONFIDENCE = 0.85;
+export const PLACEMENT_MIN_QUESTIONS = 4;
+export const PLACEMENT_MAX_QUESTIONS = 12;
+
+// Chance of answering a question right when it is at or below the student's level, and by guessing
+const P_KNOWN = 0.85;
+const P_GUESS = 0.25;
+
+export type PlacementAnswer = {
+  question_id: string;
+  difficulty: Difficulty;
+  answer: string;
+  correct: boolean;
+};
+
+export interface PlacementQuestion {
+  id: string;
+  question: string;
+  options: string[];
+  number: number;
+  max_questions: number;
+}
+
+export interface PlacementResult {
+  assessment_id: string;
+  subject: string;
+  skill_level: Difficulty;
+  confidence: number;
+  questions_answered: number;
+  completed_at: string;
+}
+
+// Either the next question or, once the test has stopped, where the student was placed
+export type PlacementStep =
+  | { assessment_id: string; subject: string; finished: false; question: PlacementQuestion }
+  | { assessment_id: string; subject: string; finished: true; result: PlacementResult };
+
+export interface PlacementSummary {
+  levels: { subject: string; skill_level: Difficulty; updated_at: string }[];
+  in_progress: { assessment_id: string; subject: string; questions_answered: number } | null;
+}
+
+interface AssessmentRow {
+  id: string;
+  user_id: string;
+  subject: string | null;
+  status: string;
+  answers: unknown;
+  current_question_id: string | null;
+}
+
+const ASSESSMENT_COLUMNS = "id, user_id, subject, status, answers, current_question_id";
+
+function likelihood(level: number, answer: PlacementAnswer): number {
+  const known = level >= DIFFICULTIES.indexOf(answer.difficulty);
+  const pCorrect = known ? P_KNOWN : P_GUESS;
+  return answer.correct ? pCorrect : 1 - pCorrect;
+}
+
+// Probability of each level given the answers so far, starting from an even prior
+export function levelPosterior(answers: PlacementAnswer[]): number[] {
+  const weights = DIFFICULTIES.map((_, level) => answers.reduce((p, answer) => p * likelihood(level, answer), 1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map((w) => w / total);
+}
+
+function entropy(probabilities: number[]): number {
+  return -probabilities.reduce((sum, p) => (p > 0 ? sum + p * Math.log2(p) : sum), 0);
+}
+
+// Difficulties ordered by how much a question at that difficulty is expected to narrow the level down
+export function rankDifficulties(answers: PlacementAnswer[]): Difficulty[] {
+  const posterior = levelPosterior(answers);
+  const expected = DIFFICULTIES.map((difficulty) => {
+    const outcomes = [true, false].map((correct) => {
+      const next = [...answers, { question_id: "", difficulty, answer: "", correct }];
+      const pOutcome = posterior.reduce(
+        (sum, p, level) => sum + p * likelihood(level, { question_id: "", difficulty, answer: "", correct }),
+        0,
+      );
+      return pOutcome * entropy(levelPosterior(next));
+    });
+    return { difficulty, entropy: outcomes[0] + outcomes[1] };
+  });
+  return expected.sort((a, b) => a.entropy - b.entropy).map((item) => item.difficulty);
+}
+
+function placement(answers: PlacementAnswer[]): { skill_level: Difficulty; confidence: number } {
+  const posterior = levelPosterior(answers);
+  const best = posterior.indexOf(Math.max(...posterior));
+  return { skill_level: DIFFICULTIES[best], confidence: Math.round(posterior[best] * 100) / 100 };
+}
+
+function isConfident(answers: PlacementAnswer[]): boolean {
+  if (answers.length >= PLACEMENT_MAX_QUESTIONS) return true;
+  return answers.length >= PLACEMENT_MIN_QUESTIONS && placement(answers).confidence >= PLACEMENT_CONFIDENCE;
+}
+
+// A multiple-choice bank question for the subject at one of the difficulties, not asked yet
+async function pickQuestion(
+  subject: string,
+  difficulties: Difficulty[],
+  askedIds: string[],
+): Promise<{ id: string; question: string; options: string[] } | null> {
+  for (const difficulty of difficulties) {
+    let query = supabase
+      .from("question_bank")
+      .select("id, question, options")
+      .eq("type", "mcq")
+      .is("archived_at", null)
+      .ilike("skill_area", escapeLike(subject))
+      .eq("difficulty", difficulty)
+      .limit(50);
+
+    if (askedIds.length > 0) query = query.not("id", "in", `(${askedIds.join(",")})`);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (data && data.length > 0) {
+      const picked = data[Math.floor(Math.random() * data.length)];
+      return { ...picked, options: picked.options as string[] };
+    }
+  }
+  return null;
+}
+
+async function getProfileSubject(userId: string): Promise<string | null> {
+  const { data, error } = await supabase.from("profiles").select("subject").eq("id", userId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "User not found");
+  return data.subject;
+}
+
+async function finishPlacement(userId: string, assessment: AssessmentRow, answers: PlacementAnswer[]): Promise<PlacementStep> {
+  const subject = assessment.subject ?? "";
+  const { skill_level, confidence } = placement(answers);
+  const completedAt = new Date().toISOString();
+
+  const { error } = await supabase
+    .from("user_assessments")
+    .update({ status: "completed", answers, skill_level, confidence, current_question_id: null, completed_at: completedAt })
+    .eq("id", assessment.id);
+
+  if (error) throw error;
+
+  const { error: levelError } = await supabase
+    .from("student_skill_levels")
+    .upsert({ user_id: userId, subject, skill_level, assessment_id: assessment.id }, { onConflict: "user_id,subject" });
+
+  if (levelError) throw levelError;
+
+  // The profile's level is the one for the student's main subject
+  const profileSubject = await getProfileSubject(userId);
+  if (!profileSubject || profileSubject.toLowerCase() === subject.toLowerCase()) {
+    const { error: profileError } = await supabase.from("profiles").update({ skill_level }).eq("id", userId);
+    if (profileError) throw profileError;
+  }
+
+  return {
+    assessment_id: assessment.id,
+    subject,
+    finished: true,
+    result: {
+      assessment_id: assessment.id,
+      subject,
+      skill_level,
+      confidence,
+      questions_answered: answers.length,
+      completed_at: completedAt,
+    },
+  };
+}
+
+// Asks the most informative question still available, or finishes when none is left
+async function nextStep(userId: string, assessment: AssessmentRow, answers: PlacementAnswer[]): Promise<PlacementStep> {
+  if (answers.length > 0 && isConfident(answers)) return finishPlacement(userId, assessment, answers);
+
+  const question = await pickQuestion(
+    assessment.subject ?? "",
+    rankDifficulties(answers),
+    answers.map((answer) => answer.question_id),
+  );
+
+  if (!question) {
+    if (answers.length === 0) {
+      await supabase.from("user_assessments").delete().eq("id", assessment.id);
+      throw new HttpError(404, "There are no placement questions for this subject yet");
+    }
+    return finishPlacement(userId, assessment, answers);
+  }
+
+  const { error } = await supabase
+    .from("user_assessments")
+    .update({ current_question_id: question.id, answers })
+    .eq("id", assessment.id);
+
+  if (error) throw error;
+
+  return {
+    assessment_id: assessment.id,
+    subject: assessment.subject ?? "",
+    finished: false,
+    question: { ...question, number: answers.length + 1, max_questions: PLACEMENT_MAX_QUESTIONS },
+  };
+}
+
+async function getCurrentQuestion(assessment: AssessmentRow, answers: PlacementAnswer[]): Promise<PlacementStep | null> {
+  if (!assessment.current_question_id) return null;
+
+  const { data, error } = await supabase
+    .from("question_bank")
+    .select("id, question, options")
+    .eq("id", assessment.current_question_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    assessment_id: assessment.id,
+    subject: assessment.subject ?? "",
+    finished: false,
+    question: {
+      ...data,
+      options: data.options as string[],
+      number: answers.length + 1,
+      max_questions: PLACEMENT_MAX_QUESTIONS,
+    },
+  };
+}
+
+// Starts a sitting for the subject (the profile's subject by default), or resumes the one in progress
+export async function startPlacement(userId: string, subject?: string): Promise<PlacementStep> {
+  const testSubject = subject?.trim() || (await getProfileSubject(userId));
+  if (!testSubject) throw new HttpError(400, "Choose a subject for the placement test");
+
+  const { data: existing, error } = await supabase
+    .from("user_assessments")
+    .select(ASSESSMENT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("status", "in_progress")
+    .ilike("subject", escapeLike(testSubject))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) {
+    const answers = existing.answers as unknown as PlacementAnswer[];
+    return (await getCurrentQuestion(existing, answers)) ?? nextStep(userId, existing, answers);
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from("user_assessments")
+    .insert({ user_id: userId, subject: testSubject, status: "in_progress", answers: [], completed_at: null })
+    .select(ASSESSMENT_COLUMNS)
+    .single();
+
+  if (insertError) throw insertError;
+  return nextStep(userId, created, []);
+}
+
+export async function answerPlacement(userId: string, assessmentId: string, answer: string): Promise<PlacementStep> {
+  const { data: assessment, error } = await supabase
+    .from("user_assessments")
+    .select(ASSESSMENT_COLUMNS)
+    .eq("id", assessmentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!assessment) throw new HttpError(404, "Placement test not found");
+  if (assessment.status !== "in_progress") throw new HttpError(409, "This placement test is already finished");
+  if (!assessment.current_question_id) throw new HttpError(409, "There is no question waiting for an answer");
+
+  const { data: question, error: questionError } = await supabase
+    .from("question_bank")
+    .select("id, options, correct_answer, difficulty")
+    .eq("id", assessment.current_question_id)
+    .maybeSingle();
+
+  if (questionError) throw questionError;
+  if (!question) throw new HttpError(404, "Question not found");
+  if (!(question.options as string[]).includes(answer)) throw new HttpError(400, "Answer is not one of the options");
+
+  const correct = answer === question.correct_answer;
+  await recordSkillAnswer(userId, question.id, correct);
+
+  const answers = [
+    ...(assessment.answers as unknown as PlacementAnswer[]),
+    { question_id: question.id, difficulty: question.difficulty, answer, correct },
+  ];
+  return nextStep(userId, assessment, answers);
+}
+
+export async function getPlacementSummary(userId: string): Promise<PlacementSummary> {
+  const { data: levels, error } = await supabase
+    .from("student_skill_levels")
+    .select("subject, skill_level, updated_at")
+    .eq("user_id", userId)
+    .order("subject", { ascending: true });
+
+  if (error) throw error;
+
+  const { data: inProgress, error: progressError } = await supabase
+    .from("user_assessments")
+    .select("id, subject, answers")
+    .eq("user_id", userId)
+    .eq("status", "in_progress")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (progressError) throw progressError;
+
+  return {
+    levels: levels ?? [],
+    in_progress: inProgress
+      ? {
+          assessment_id: inProgress.id,
+          subject: inProgress.subject ?? "",
+          questions_answered: (inProgress.answers as unknown as PlacementAnswer[]).length,
+        }
+      : null,
+  };
+}
+
+// A placed student starts new modules at their level, and the level engine can only raise it
+export async function placedDifficulty(userId: string, subject: string, progression: Difficulty): Promise<Difficulty> {
+  const { data, error } = await supabase
+    .from("student_skill_levels")
+    .select("skill_level")
+    .eq("user_id", userId)
+    .ilike("subject", escapeLike(subject))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return progression;
+  return DIFFICULTIES[Math.max(DIFFICULTIES.indexOf(data.skill_level), DIFFICULTIES.indexOf(progression))];
+}
@@ -0,0 +1,95 @@
+import { supabase } from "./supabase.js";
+
+const DIFFICULTY_MULTIPLIER: Record<string, number> = {
+  beginner: 1,
+  intermediate: 1.5,
+  advanced: 2,
+};
+
+// Same formula as the student Dashboard so stored rewards match what students are shown
+export function calculatePointsReward(duration: number, difficulty: string): number {
+  const basePoints = Math.round(duration / 10);
+  const multiplier = DIFFICULTY_MULTIPLIER[difficulty] || 1;
+  const calculatedPoints = Math.round(basePoints * multiplier);
+  return Math.max(5, Math.round(calculatedPoints / 5) * 5);
+}
+
+export const QUIZ_ANSWER_POINTS = 5;
+
+export type PointsReason = "quiz_correct" | "quiz_overturned" | "review_correct" | "module_complete" | "opening_balance";
+
+export interface PointsAward {
+  userId: string;
+  amount: number;
+  reason: PointsReason;
+  // Replaying an award with the same key never credits the student twice
+  idempotencyKey: string;
+  moduleId?: string | null;
+  quizId?: string | null;
+  description?: string | null;
+}
+
+export interface PointsAwardResult {
+  awarded: boolean;
+  total_points: number;
+}
+
+export async function awardPoints(award: PointsAward): Promise<PointsAwardResult> {
+  const { data, error } = await supabase.rpc("award_points", {
+    p_user_id: award.userId,
+    p_amount: award.amount,
+    p_reason: award.reason,
+    p_idempotency_key: award.idempotencyKey,
+    p_module_id: award.moduleId ?? undefined,
+    p_quiz_id: award.quizId ?? undefined,
+    p_description: award.description ?? undefined,
+  });
+
+  if (error) throw error;
+  const [result] = (data ?? []) as PointsAwardResult[];
+  return result ?? { awarded: false, total_points: 0 };
+}
+
+export interface PointTransaction {
+  id: string;
+  user_id: string;
+  amount: number;
+  reason: PointsReason;
+  description: string | null;
+  source_module_id: string | null;
+  source_quiz_id: string | null;
+  created_at: string;
+  full_name?: string | null;
+}
+
+const TRANSACTION_COLUMNS = "id, user_id, amount, reason, description, source_module_id, source_quiz_id, created_at";
+
+export async function getPointsHistory(userId: string, limit: number): Promise<PointTransaction[]> {
+  const { data, error } = await supabase
+    .from("point_transactions")
+    .select(TRANSACTION_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as PointTransaction[];
+}
+
+// Latest transactions of the given students, with names for the teacher view
+export async function getRecentPointsActivity(studentIds: string[], limit: number): Promise<PointTransaction[]> {
+  if (studentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("point_transactions")
+    .select(`${TRANSACTION_COLUMNS}, profiles!inner(full_name)`)
+    .in("user_id", studentIds)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []).map(({ profiles, ...transaction }) => ({
+    ...(transaction as PointTransaction),
+    full_name: (profiles as unknown as { full_name: string | null } | null)?.full_name ?? null,
+  }));
+}
@@ -0,0 +1,349 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { CONTENT_LANGUAGES, type ContentLanguage } from "./languages.js";
+import { getSyllabusSubtree } from "./syllabus.js";
+import type { RubricCriterion } from "../ai/types.js";
+
+export const QUESTION_TYPES = ["mcq", "written"] as const;
+export const QUESTION_LANGUAGES = CONTENT_LANGUAGES;
+export const DIFFICULTIES = ["beginner", "intermediate", "advanced"] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+export type QuestionLanguage = ContentLanguage;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+export type QuestionSource = "ai" | "teacher" | "assessment";
+
+export const QUESTIONS_PER_PAGE = 20;
+
+export interface QuestionTags {
+  skill_area: string;
+  difficulty: Difficulty;
+  syllabus_topic?: string | null;
+  syllabus_node_id?: string | null;
+  language?: QuestionLanguage;
+}
+
+// `skill` names the one skill a question tests; without it the syllabus topic or skill area is used
+export type QuestionContent = { skill?: string | null } & (
+  | { type: "mcq"; question: string; options: string[]; correct_answer: string; explanation?: string }
+  | { type: "written"; question: string; model_answer: string; rubric: RubricCriterion[]; explanation?: string }
+);
+
+export type QuestionInput = QuestionContent & QuestionTags;
+
+export interface BankQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correct_answer: string | null;
+  model_answer: string | null;
+  rubric: RubricCriterion[];
+  explanation: string;
+  skill: string;
+  skill_area: string;
+  difficulty: Difficulty;
+  syllabus_topic: string | null;
+  syllabus_node_id: string | null;
+  language: QuestionLanguage;
+  source: QuestionSource;
+  author_id: string | null;
+  author_name: string | null;
+  times_used: number;
+  times_answered: number;
+  times_correct: number;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuestionFilters {
+  q?: string;
+  type?: QuestionType;
+  skill_area?: string;
+  difficulty?: Difficulty;
+  syllabus_topic?: string;
+  // Questions tagged with the syllabus node or anything under it
+  syllabus_node_id?: string;
+  language?: QuestionLanguage;
+  // Only the signed-in teacher's own questions
+  mine?: boolean;
+  page?: number;
+}
+
+export interface TeacherQuiz {
+  id: string;
+  title: string;
+  passing_score: number;
+  question_count: number;
+  created_at: string | null;
+}
+
+export const BANK_COLUMNS =
+  "id, type, question, options, correct_answer, model_answer, rubric, explanation, skill, skill_area, difficulty, syllabus_topic, syllabus_node_id, language, source, author_id, times_used, times_answered, times_correct, archived_at, created_at, updated_at";
+
+type BankRow = Omit<BankQuestion, "options" | "rubric" | "type" | "language" | "source" | "author_name"> & {
+  type: string;
+  language: string;
+  source: string;
+  options: unknown;
+  rubric: unknown;
+  profiles?: unknown;
+};
+
+export function toBankQuestion({ profiles, ...row }: BankRow): BankQuestion {
+  return {
+    ...row,
+    type: row.type as QuestionType,
+    language: row.language as QuestionLanguage,
+    source: row.source as QuestionSource,
+    options: row.options as string[],
+    rubric: row.rubric as RubricCriterion[],
+    author_name: (profiles as { full_name: string } | null | undefined)?.full_name ?? null,
+  };
+}
+
+// The columns a question's content maps to; the other type's columns are cleared
+function contentColumns(content: QuestionContent) {
+  return content.type === "mcq"
+    ? {
+        type: content.type,
+        question: content.question,
+        options: content.options,
+        correct_answer: content.correct_answer,
+        model_answer: null,
+        rubric: [],
+        explanation: content.explanation ?? "",
+      }
+    : {
+        type: content.type,
+        question: content.question,
+        options: [],
+        correct_answer: null,
+        model_answer: content.model_answer,
+        rubric: content.rubric,
+        explanation: content.explanation ?? "",
+      };
+}
+
+function tagColumns(tags: QuestionTags, skill?: string | null) {
+  return {
+    skill: skill?.trim() || tags.syllabus_topic?.trim() || tags.skill_area,
+    skill_area: tags.skill_area,
+    difficulty: tags.difficulty,
+    syllabus_topic: tags.syllabus_topic || null,
+    syllabus_node_id: tags.syllabus_node_id || null,
+    language: tags.language ?? "en",
+  };
+}
+
+function checkAnswerKey(content: QuestionContent): void {
+  if (content.type === "mcq" && !content.options.includes(content.correct_answer)) {
+    throw new HttpError(400, "The correct answer must be one of the options");
+  }
+}
+
+// Stores questions with the same tags and returns their bank ids in the order given
+export async function addToBank(
+  questions: QuestionContent[],
+  tags: QuestionTags,
+  source: QuestionSource,
+  authorId: string | null = null,
+): Promise<string[]> {
+  if (questions.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("question_bank")
+    .insert(
+      questions.map((question) => ({
+        ...contentColumns(question),
+        ...tagColumns(tags, question.skill),
+        source,
+        author_id: authorId,
+      })),
+    )
+    .select("id");
+
+  if (error) throw error;
+  return data.map((row) => row.id);
+}
+
+export async function searchQuestions(
+  teacherId: string,
+  filters: QuestionFilters,
+): Promise<{ questions: BankQuestion[]; total: number }> {
+  const page = Math.max(filters.page ?? 1, 1);
+  let query = supabase
+    .from("question_bank")
+    .select(`${BANK_COLUMNS}, profiles!question_bank_author_id_fkey(full_name)`, { count: "exact" })
+    .is("archived_at", null);
+
+  if (filters.q) query = query.textSearch("search", filters.q, { type: "websearch", config: "simple" });
+  if (filters.type) query = query.eq("type", filters.type);
+  if (filters.skill_area) query = query.ilike("skill_area", filters.skill_area);
+  if (filters.difficulty) query = query.eq("difficulty", filters.difficulty);
+  if (filters.syllabus_topic) query = query.ilike("syllabus_topic", `%${filters.syllabus_topic}%`);
+  if (filters.syllabus_node_id) query = query.in("syllabus_node_id", await getSyllabusSubtree(filters.syllabus_node_id));
+  if (filters.language) query = query.eq("language", filters.language);
+  if (filters.mine) query = query.eq("author_id", teacherId);
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range((page - 1) * QUESTIONS_PER_PAGE, page * QUESTIONS_PER_PAGE - 1);
+
+  if (error) throw error;
+  return { questions: (data ?? []).map(toBankQuestion), total: count ?? 0 };
+}
+
+export async function getBankQuestion(id: string): Promise<BankQuestion> {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .select(`${BANK_COLUMNS}, profiles!question_bank_author_id_fkey(full_name)`)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Question not found");
+  return toBankQuestion(data);
+}
+
+async function getOwnQuestion(teacherId: string, id: string): Promise<BankQuestion> {
+  const question = await getBankQuestion(id);
+  if (question.author_id !== teacherId) {
+    throw new HttpError(403, "Only the author can change this question; copy it to make your own version");
+  }
+  return question;
+}
+
+export async function createQuestion(teacherId: string, input: QuestionInput): Promise<BankQuestion> {
+  checkAnswerKey(input);
+  const [id] = await addToBank([input], input, "teacher", teacherId);
+  return getBankQuestion(id);
+}
+
+// Edits reach every quiz using the question, so only its author may make them
+export async function updateQuestion(teacherId: string, id: string, input: QuestionInput): Promise<BankQuestion> {
+  await getOwnQuestion(teacherId, id);
+  checkAnswerKey(input);
+
+  const { error } = await supabase
+    .from("question_bank")
+    .update({ ...contentColumns(input), ...tagColumns(input, input.skill) })
+    .eq("id", id);
+
+  if (error) throw error;
+  return getBankQuestion(id);
+}
+
+// A teacher's own editable copy of any question in the bank
+export async function copyQuestion(teacherId: string, id: string): Promise<BankQuestion> {
+  const original = await getBankQuestion(id);
+  const content: QuestionContent =
+    original.type === "mcq"
+      ? {
+          skill: original.skill,
+          type: "mcq",
+          question: original.question,
+          options: original.options,
+          correct_answer: original.correct_answer ?? "",
+          explanation: original.explanation,
+        }
+      : {
+          skill: original.skill,
+          type: "written",
+          question: original.question,
+          model_answer: original.model_answer ?? "",
+          rubric: original.rubric,
+          explanation: original.explanation,
+        };
+
+  const [copyId] = await addToBank([content], original, "teacher", teacherId);
+  return getBankQuestion(copyId);
+}
+
+// Archived questions stay in the quizzes that use them but no longer show up in the bank
+export async function archiveQuestion(teacherId: string, id: string): Promise<void> {
+  await getOwnQuestion(teacherId, id);
+
+  const { error } = await supabase
+    .from("question_bank")
+    .update({ archived_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+// Saves a quiz made of bank questions in the order picked
+export async function createQuizFromBank(
+  teacherId: string,
+  quiz: { title: string; question_ids: string[]; passing_score?: number },
+): Promise<TeacherQuiz> {
+  const questionIds = [...new Set(quiz.question_ids)];
+
+  const { data: found, error: findError } = await supabase
+    .from("question_bank")
+    .select("id")
+    .in("id", questionIds)
+    .is("archived_at", null);
+
+  if (findError) throw findError;
+  if ((found ?? []).length !== questionIds.length) {
+    throw new HttpError(400, "Some questions are no longer in the bank");
+  }
+
+  const { data: created, error } = await supabase
+    .from("quizzes")
+    .insert({ title: quiz.title, created_by: teacherId, passing_score: quiz.passing_score ?? 70 })
+    .select("id, title, passing_score, created_at")
+    .single();
+
+  if (error) throw error;
+
+  const { error: linkError } = await supabase
+    .from("quiz_questions")
+    .insert(questionIds.map((questionId, position) => ({ quiz_id: created.id, question_id: questionId, position })));
+
+  if (linkError) {
+    await supabase.from("quizzes").delete().eq("id", created.id);
+    throw linkError;
+  }
+
+  return { ...created, passing_score: created.passing_score ?? 70, question_count: questionIds.length };
+}
+
+export async function getTeacherQuizzes(teacherId: string): Promise<TeacherQuiz[]> {
+  const { data, error } = await supabase
+    .from("quizzes")
+    .select("id, title, passing_score, created_at, quiz_questions(count)")
+    .eq("created_by", teacherId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(({ quiz_questions, ...quiz }) => ({
+    ...quiz,
+    passing_score: quiz.passing_score ?? 70,
+    question_count: (quiz_questions as unknown as { count: number }[])[0]?.count ?? 0,
+  }));
+}
+
+// The questions of one of the teacher's own quizzes, in quiz order
+export async function getTeacherQuizQuestions(teacherId: string, quizId: string): Promise<BankQuestion[]> {
+  const { data: quiz, error: quizError } = await supabase
+    .from("quizzes")
+    .select("id")
+    .eq("id", quizId)
+    .eq("created_by", teacherId)
+    .maybeSingle();
+
+  if (quizError) throw quizError;
+  if (!quiz) throw new HttpError(404, "Quiz not found");
+
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .select(`position, question_bank(${BANK_COLUMNS}, profiles!question_bank_author_id_fkey(full_name))`)
+    .eq("quiz_id", quizId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => toBankQuestion(row.question_bank));
+}
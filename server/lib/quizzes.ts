@@ -0,0 +1,313 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { addToBank, BANK_COLUMNS, toBankQuestion, type BankQuestion } from "./questionBank.js";
+import { toContentLanguage, type ContentLanguage } from "./languages.js";
+import { getAIProvider } from "../ai/index.js";
+import type { RubricCriterion } from "../ai/types.js";
+
+const MCQ_PER_MODULE = 4;
+const WRITTEN_PER_MODULE = 1;
+const QUIZ_COLUMNS = "id, module_id, title, passing_score, language";
+const UNIQUE_VIOLATION = "23505";
+
+// Quizzes stored before written questions existed have no type and are multiple choice
+export interface StoredMcqQuestion {
+  id: string;
+  type?: "mcq";
+  question: string;
+  options: string[];
+  correct_answer: string;
+  explanation: string;
+}
+
+export interface StoredWrittenQuestion {
+  id: string;
+  type: "written";
+  question: string;
+  model_answer: string;
+  rubric: RubricCriterion[];
+  explanation: string;
+}
+
+export type StoredQuestion = StoredMcqQuestion | StoredWrittenQuestion;
+
+export interface PublicQuestion {
+  id: string;
+  type: "mcq" | "written";
+  question: string;
+  // Empty for written questions
+  options: string[];
+  // Written questions show their rubric up front; the model answer only once revealed
+  rubric?: RubricCriterion[];
+  model_answer?: string;
+  correct_answer?: string;
+  explanation?: string;
+}
+
+export interface StoredQuiz {
+  id: string;
+  // Null for quizzes a teacher assembled from the question bank
+  module_id: string | null;
+  title: string;
+  questions: StoredQuestion[];
+  passing_score: number;
+  // The language the questions are stored in; students read them through translateQuiz
+  language: ContentLanguage;
+}
+
+export interface ModuleProgress {
+  module_id: string;
+  is_completed: boolean;
+  is_read_only: boolean;
+  language: ContentLanguage;
+}
+
+// Answer keys leave the server only once the student's module is read-only
+export function toPublicQuestion(question: StoredQuestion, reveal: boolean): PublicQuestion {
+  if (question.type === "written") {
+    const { id, question: text, rubric } = question;
+    const base = { id, type: "written" as const, question: text, options: [], rubric };
+    return reveal ? { ...base, model_answer: question.model_answer, explanation: question.explanation } : base;
+  }
+
+  const { id, question: text, options } = question;
+  const base = { id, type: "mcq" as const, question: text, options };
+  return reveal ? { ...base, correct_answer: question.correct_answer, explanation: question.explanation } : base;
+}
+
+export async function getModuleProgress(userId: string, moduleId: string): Promise<ModuleProgress> {
+  const { data, error } = await supabase
+    .from("user_module_progress")
+    .select("module_id, is_completed, is_read_only, language")
+    .eq("user_id", userId)
+    .eq("module_id", moduleId)
+    .order("is_completed", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Module not found for this student");
+
+  return {
+    module_id: data.module_id,
+    is_completed: !!data.is_completed,
+    is_read_only: !!data.is_read_only,
+    language: toContentLanguage(data.language),
+  };
+}
+
+// Quizzes keep their questions in the bank; the bank id is the question id students answer against
+export function toStoredQuestion(question: BankQuestion): StoredQuestion {
+  if (question.type === "written") {
+    return {
+      id: question.id,
+      type: "written",
+      question: question.question,
+      model_answer: question.model_answer ?? "",
+      rubric: question.rubric,
+      explanation: question.explanation,
+    };
+  }
+  return {
+    id: question.id,
+    type: "mcq",
+    question: question.question,
+    options: question.options,
+    correct_answer: question.correct_answer ?? "",
+    explanation: question.explanation,
+  };
+}
+
+async function getQuizQuestions(quizId: string): Promise<StoredQuestion[]> {
+  const { data, error } = await supabase
+    .from("quiz_questions")
+    .select(`position, question_bank(${BANK_COLUMNS})`)
+    .eq("quiz_id", quizId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => toStoredQuestion(toBankQuestion(row.question_bank)));
+}
+
+type QuizRow = {
+  id: string;
+  module_id: string | null;
+  title: string;
+  passing_score: number | null;
+  language: string;
+};
+
+function toStoredQuiz(quiz: QuizRow, questions: StoredQuestion[]): StoredQuiz {
+  return {
+    ...quiz,
+    questions,
+    passing_score: quiz.passing_score ?? 70,
+    language: toContentLanguage(quiz.language),
+  };
+}
+
+async function withQuestions(quiz: QuizRow): Promise<StoredQuiz> {
+  return toStoredQuiz(quiz, await getQuizQuestions(quiz.id));
+}
+
+export async function getQuiz(quizId: string): Promise<StoredQuiz> {
+  const { data, error } = await supabase
+    .from("quizzes")
+    .select(QUIZ_COLUMNS)
+    .eq("id", quizId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Quiz not found");
+  return withQuestions(data);
+}
+
+async function findModuleQuiz(moduleId: string): Promise<StoredQuiz | null> {
+  const { data, error } = await supabase.from("quizzes").select(QUIZ_COLUMNS).eq("module_id", moduleId).maybeSingle();
+
+  if (error) throw error;
+  return data ? withQuestions(data) : null;
+}
+
+// Several quizzes and all their questions in two queries, by quiz id; ids that are not found are left out
+export async function getQuizzes(quizIds: string[]): Promise<Map<string, StoredQuiz>> {
+  if (quizIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.from("quizzes").select(QUIZ_COLUMNS).in("id", quizIds);
+  if (error) throw error;
+
+  const { data: links, error: linkError } = await supabase
+    .from("quiz_questions")
+    .select(`quiz_id, position, question_bank(${BANK_COLUMNS})`)
+    .in("quiz_id", quizIds)
+    .order("position", { ascending: true });
+
+  if (linkError) throw linkError;
+
+  const questions = new Map<string, StoredQuestion[]>();
+  for (const row of links ?? []) {
+    questions.set(row.quiz_id, [...(questions.get(row.quiz_id) ?? []), toStoredQuestion(toBankQuestion(row.question_bank))]);
+  }
+  return new Map((data ?? []).map((quiz) => [quiz.id, toStoredQuiz(quiz, questions.get(quiz.id) ?? [])]));
+}
+
+// Every student taking a module answers the same stored quiz; it is generated on first use.
+// The quiz is assembled before it is attached to the module, and a module has at most one quiz,
+// so when two students start it at once the second discards its copy and takes the first.
+export async function getOrCreateModuleQuiz(moduleId: string): Promise<StoredQuiz> {
+  const existing = await findModuleQuiz(moduleId);
+  if (existing) return existing;
+
+  const { data: module, error: moduleError } = await supabase
+    .from("learning_modules")
+    .select("id, title, description, content, difficulty, category, language, syllabus_node_id")
+    .eq("id", moduleId)
+    .maybeSingle();
+
+  if (moduleError) throw moduleError;
+  if (!module) throw new HttpError(404, "Module not found");
+
+  const request = {
+    moduleTitle: module.title,
+    moduleContent: module.content || module.description,
+    difficulty: module.difficulty,
+    subject: module.category,
+    // Questions are written in the module's language and translated for students who read it in another
+    language: toContentLanguage(module.language),
+  };
+  const provider = getAIProvider();
+  const mcq = await provider.generateQuizzes({ ...request, count: MCQ_PER_MODULE });
+  if (mcq.length === 0) throw new HttpError(502, "No quizzes were generated");
+
+  // A quiz without its written question is still usable, so a failure here is not fatal
+  const written = await provider.generateWrittenQuestions({ ...request, count: WRITTEN_PER_MODULE }).catch((err) => {
+    console.error("[api] Written question generation failed:", err);
+    return [];
+  });
+  // Generated questions go into the bank, tagged from the module, so teachers can reuse them
+  const questionIds = await addToBank(
+    [...mcq.map((question) => ({ ...question, type: "mcq" as const })), ...written],
+    {
+      skill_area: module.category,
+      difficulty: module.difficulty,
+      syllabus_topic: module.title,
+      syllabus_node_id: module.syllabus_node_id,
+      language: request.language,
+    },
+    "ai",
+  );
+
+  const { data: created, error: insertError } = await supabase
+    .from("quizzes")
+    .insert({ title: `${module.title} quiz`, language: request.language })
+    .select("id")
+    .single();
+
+  if (insertError) throw insertError;
+
+  const { error: linkError } = await supabase
+    .from("quiz_questions")
+    .insert(questionIds.map((questionId, position) => ({ quiz_id: created.id, question_id: questionId, position })));
+
+  if (linkError) throw linkError;
+
+  const { data: attached, error: attachError } = await supabase
+    .from("quizzes")
+    .update({ module_id: moduleId })
+    .eq("id", created.id)
+    .select(QUIZ_COLUMNS)
+    .single();
+
+  if (attachError?.code === UNIQUE_VIOLATION) {
+    await supabase.from("quizzes").delete().eq("id", created.id);
+    await supabase.from("question_bank").delete().in("id", questionIds);
+    const winner = await findModuleQuiz(moduleId);
+    if (winner) return winner;
+  }
+  if (attachError) throw attachError;
+  return withQuestions(attached);
+}
+
+export interface LatestAnswer {
+  attempt_id: string;
+  answer: string;
+  correct: boolean;
+}
+
+// Whether the attempt is the student's first answer to its question in the quiz
+export async function isFirstAnswer(userId: string, quizId: string, questionId: string, attemptId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("user_quiz_attempts")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("quiz_id", quizId)
+    .eq("question_id", questionId)
+    .order("attempted_at", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id === attemptId;
+}
+
+// Latest answer per question for a student's attempts at one quiz
+export async function getLatestAnswers(userId: string, quizId: string): Promise<Record<string, LatestAnswer>> {
+  const { data, error } = await supabase
+    .from("user_quiz_attempts")
+    .select("id, question_id, answers, passed, attempted_at")
+    .eq("user_id", userId)
+    .eq("quiz_id", quizId)
+    .not("question_id", "is", null)
+    .order("attempted_at", { ascending: true });
+
+  if (error) throw error;
+
+  const latest: Record<string, LatestAnswer> = {};
+  for (const attempt of data ?? []) {
+    if (!attempt.question_id) continue;
+    const answers = attempt.answers as unknown as Record<string, string>;
+    latest[attempt.question_id] = { attempt_id: attempt.id, answer: answers[attempt.question_id], correct: attempt.passed };
+  }
+  return latest;
+}
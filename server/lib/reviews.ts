@@ -0,0 +1,222 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { awardPoints } from "./points.js";
+import { recordSkillAnswer } from "./mastery.js";
+import { BANK_COLUMNS, toBankQuestion } from "./questionBank.js";
+import { toPublicQuestion, toStoredQuestion, type PublicQuestion } from "./quizzes.js";
+import { localDate, recordActivity, type ActivityResult } from "./streaks.js";
+import { evaluateAchievements, type EarnedAchievement } from "./achievements.js";
+
+export const REVIEW_POINTS = 2;
+export const REVIEW_SESSION_SIZE = 20;
+
+const MIN_EASINESS = 1.3;
+// SM-2 answer quality (0-5) for a remembered and a forgotten question
+const QUALITY_REMEMBERED = 4;
+const QUALITY_FORGOTTEN = 1;
+
+export interface ReviewSchedule {
+  easiness: number;
+  interval_days: number;
+  repetitions: number;
+}
+
+export interface DueReview {
+  id: string;
+  due_on: string;
+  repetitions: number;
+  question: PublicQuestion;
+}
+
+export interface ReviewSession {
+  today: string;
+  due_count: number;
+  items: DueReview[];
+}
+
+export interface ReviewResult {
+  item_id: string;
+  correct: boolean;
+  correct_answer: string | null;
+  model_answer: string | null;
+  explanation: string;
+  next_due_on: string;
+  interval_days: number;
+  points_awarded: number;
+  streak: ActivityResult;
+  achievements: EarnedAchievement[];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+// SM-2: a remembered question waits 1, then 6, then interval × easiness days; a forgotten one starts over
+export function nextSchedule(current: ReviewSchedule, quality: number): ReviewSchedule {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    Math.round((current.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)) * 100) / 100,
+  );
+
+  if (quality < 3) return { easiness, interval_days: 1, repetitions: 0 };
+
+  const repetitions = current.repetitions + 1;
+  const interval_days =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.max(1, Math.round(current.interval_days * current.easiness));
+  return { easiness, interval_days, repetitions };
+}
+
+async function studentToday(userId: string): Promise<string> {
+  const { data, error } = await supabase.from("profiles").select("timezone").eq("id", userId).maybeSingle();
+  if (error) throw error;
+  return localDate(data?.timezone ?? "Africa/Dar_es_Salaam");
+}
+
+// Queues a missed question for tomorrow; missing it again puts a learned question back to the start
+export async function scheduleMissedQuestion(userId: string, questionId: string, quizId: string | null): Promise<void> {
+  const dueOn = addDays(await studentToday(userId), 1);
+
+  const { data: existing, error } = await supabase
+    .from("review_items")
+    .select("id, repetitions, lapses")
+    .eq("user_id", userId)
+    .eq("question_id", questionId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (existing) {
+    const { error: updateError } = await supabase
+      .from("review_items")
+      .update({
+        interval_days: 1,
+        repetitions: 0,
+        lapses: existing.repetitions > 0 ? existing.lapses + 1 : existing.lapses,
+        due_on: dueOn,
+      })
+      .eq("id", existing.id);
+
+    if (updateError) throw updateError;
+    return;
+  }
+
+  const { error: insertError } = await supabase
+    .from("review_items")
+    .upsert(
+      { user_id: userId, question_id: questionId, quiz_id: quizId, due_on: dueOn },
+      { onConflict: "user_id,question_id", ignoreDuplicates: true },
+    );
+
+  if (insertError) throw insertError;
+}
+
+// Today's session: the questions due today or earlier, the most overdue first
+export async function getDueReviews(userId: string): Promise<ReviewSession> {
+  const today = await studentToday(userId);
+
+  const { data, error, count } = await supabase
+    .from("review_items")
+    .select(`id, due_on, repetitions, question_bank(${BANK_COLUMNS})`, { count: "exact" })
+    .eq("user_id", userId)
+    .lte("due_on", today)
+    .order("due_on", { ascending: true })
+    .order("created_at", { ascending: true })
+    .limit(REVIEW_SESSION_SIZE);
+
+  if (error) throw error;
+
+  return {
+    today,
+    due_count: count ?? 0,
+    items: (data ?? []).map((item) => {
+      const question = toStoredQuestion(toBankQuestion(item.question_bank));
+      // Written questions are self-marked against the model answer, so it is sent up front
+      return {
+        id: item.id,
+        due_on: item.due_on,
+        repetitions: item.repetitions,
+        question: toPublicQuestion(question, question.type === "written"),
+      };
+    }),
+  };
+}
+
+// Multiple choice is marked against the key; written questions are self-marked against the model answer
+export async function answerReview(
+  userId: string,
+  itemId: string,
+  response: { answer?: string; remembered?: boolean },
+): Promise<ReviewResult> {
+  const { data: item, error } = await supabase
+    .from("review_items")
+    .select(`id, quiz_id, easiness, interval_days, repetitions, due_on, question_bank(${BANK_COLUMNS})`)
+    .eq("id", itemId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!item) throw new HttpError(404, "Review item not found");
+
+  const today = await studentToday(userId);
+  if (item.due_on > today) throw new HttpError(409, "This question is not due for review yet");
+
+  const question = toBankQuestion(item.question_bank);
+  let correct: boolean;
+  if (question.type === "written") {
+    if (response.remembered === undefined) throw new HttpError(400, "Say whether you remembered the answer");
+    correct = response.remembered;
+  } else {
+    if (!response.answer || !question.options.includes(response.answer)) {
+      throw new HttpError(400, "Answer is not one of the options");
+    }
+    correct = response.answer === question.correct_answer;
+  }
+
+  const schedule = nextSchedule(
+    { easiness: Number(item.easiness), interval_days: item.interval_days, repetitions: item.repetitions },
+    correct ? QUALITY_REMEMBERED : QUALITY_FORGOTTEN,
+  );
+  const nextDueOn = addDays(today, schedule.interval_days);
+
+  const { error: updateError } = await supabase
+    .from("review_items")
+    .update({ ...schedule, due_on: nextDueOn, last_reviewed_at: new Date().toISOString() })
+    .eq("id", item.id);
+
+  if (updateError) throw updateError;
+
+  // A self-marked written review is only the student's word, so it reschedules the question
+  // but pays nothing and leaves mastery alone
+  const selfMarked = question.type === "written";
+  if (!selfMarked) await recordSkillAnswer(userId, question.id, correct);
+
+  // One payout per question per day, however the session is replayed
+  let pointsAwarded = 0;
+  if (correct && !selfMarked) {
+    const award = await awardPoints({
+      userId,
+      amount: REVIEW_POINTS,
+      reason: "review_correct",
+      idempotencyKey: `review:${item.id}:${today}`,
+      quizId: item.quiz_id,
+      description: "Correct answer in a review session",
+    });
+    if (award.awarded) pointsAwarded = REVIEW_POINTS;
+  }
+
+  const streak = await recordActivity(userId, "review");
+  const achievements = await evaluateAchievements(userId);
+
+  return {
+    item_id: item.id,
+    correct,
+    correct_answer: question.type === "mcq" ? question.correct_answer : null,
+    model_answer: question.type === "written" ? question.model_answer : null,
+    explanation: question.explanation,
+    next_due_on: nextDueOn,
+    interval_days: schedule.interval_days,
+    points_awarded: pointsAwarded,
+    streak,
+    achievements,
+  };
+}
@@ -0,0 +1,99 @@
+import { supabase } from "./supabase.js";
+import { fromDatabaseError } from "./http.js";
+
+export type ActivityKind = "quiz_answer" | "section_read" | "module_complete" | "review";
+
+export interface ActivityResult {
+  activity_date: string;
+  streak_days: number;
+  longest_streak: number;
+  streak_freezes: number;
+  freezes_used: number;
+  freeze_earned: boolean;
+}
+
+export interface StreakSummary {
+  streak_days: number;
+  longest_streak: number;
+  streak_freezes: number;
+  last_active_date: string | null;
+  active_today: boolean;
+  timezone: string;
+}
+
+export interface DailyActivity {
+  activity_date: string;
+  quiz_answers: number;
+  sections_read: number;
+  modules_completed: number;
+  reviews_done: number;
+  freeze_used: boolean;
+}
+
+// `at` places activity synced from an offline device on the day it happened
+export async function recordActivity(userId: string, kind: ActivityKind, at?: Date): Promise<ActivityResult> {
+  const { data, error } = await supabase.rpc("record_activity", {
+    p_user_id: userId,
+    p_kind: kind,
+    p_at: at?.toISOString(),
+  });
+  if (error) throw fromDatabaseError(error);
+  return data as unknown as ActivityResult;
+}
+
+// The student's calendar date right now, e.g. "2025-10-24"
+export function localDate(timezone: string, at: Date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(at);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+// The stored streak is only updated on activity, so a broken streak is detected when it is read
+export async function getStreak(userId: string): Promise<StreakSummary> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("streak_days, longest_streak, streak_freezes, last_active_date, timezone")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile) return { streak_days: 0, longest_streak: 0, streak_freezes: 0, last_active_date: null, active_today: false, timezone: "Africa/Dar_es_Salaam" };
+
+  const today = localDate(profile.timezone);
+  const missed = profile.last_active_date ? daysBetween(profile.last_active_date, today) - 1 : Infinity;
+  const alive = missed <= profile.streak_freezes;
+
+  return {
+    streak_days: alive ? profile.streak_days : 0,
+    longest_streak: profile.longest_streak,
+    streak_freezes: profile.streak_freezes,
+    last_active_date: profile.last_active_date,
+    active_today: missed < 0,
+    timezone: profile.timezone,
+  };
+}
+
+export async function getActivityHistory(userId: string, days: number): Promise<DailyActivity[]> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("timezone")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  const today = localDate(profile?.timezone ?? "Africa/Dar_es_Salaam");
+  const since = new Date(Date.parse(today) - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase
+    .from("daily_activity")
+    .select("activity_date, quiz_answers, sections_read, modules_completed, reviews_done, freeze_used")
+    .eq("user_id", userId)
+    .gte("activity_date", since)
+    .order("activity_date", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
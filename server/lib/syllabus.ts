@@ -0,0 +1,304 @@
+import { escapeLike, supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { getOwnedClass } from "./classes.js";
+import { MASTERY_THRESHOLD } from "./mastery.js";
+
+export const SYLLABUS_LEVELS = ["topic", "subtopic", "competence"] as const;
+// A topic counts as mastered by a class once this share of its students have mastered it
+export const CLASS_MASTERY_SHARE = 0.8;
+
+export type SyllabusLevel = (typeof SYLLABUS_LEVELS)[number];
+
+export interface SyllabusForm {
+  form: string;
+  stage: string;
+}
+
+export interface SyllabusSubject {
+  stage: string;
+  name: string;
+}
+
+export interface SyllabusCatalog {
+  forms: SyllabusForm[];
+  subjects: SyllabusSubject[];
+}
+
+export interface SyllabusNode {
+  id: string;
+  parent_id: string | null;
+  subject: string;
+  form: string;
+  level: SyllabusLevel;
+  code: string;
+  title: string;
+  position: number;
+}
+
+export interface SyllabusNodeCoverage extends SyllabusNode {
+  // Assignments given to the class on the node or anything under it
+  assignments: number;
+  // Students who completed a module on it
+  completed: number;
+  // Students who answered a question on it
+  assessed: number;
+  // Students who have mastered every skill they were assessed on in it
+  mastered: number;
+  covered: boolean;
+}
+
+export interface SyllabusCoverage {
+  class_id: string;
+  subject: string;
+  form: string;
+  student_count: number;
+  topics: number;
+  covered_topics: number;
+  assessed_topics: number;
+  mastered_topics: number;
+  nodes: SyllabusNodeCoverage[];
+}
+
+const NODE_COLUMNS = "id, parent_id, subject, form, level, code, title, position";
+
+function toSyllabusNode(row: Omit<SyllabusNode, "level"> & { level: string }): SyllabusNode {
+  return { ...row, level: row.level as SyllabusLevel };
+}
+
+// Topics in syllabus order, each followed by its sub-topics and their competences
+function inTreeOrder(nodes: SyllabusNode[]): SyllabusNode[] {
+  const children = new Map<string | null, SyllabusNode[]>();
+  for (const node of nodes) children.set(node.parent_id, [...(children.get(node.parent_id) ?? []), node]);
+
+  const ordered: SyllabusNode[] = [];
+  const visit = (parentId: string | null) => {
+    const level = (children.get(parentId) ?? []).sort((a, b) => a.position - b.position);
+    for (const node of level) {
+      ordered.push(node);
+      visit(node.id);
+    }
+  };
+  visit(null);
+  return ordered;
+}
+
+// The node itself and every node above it, nearest first
+function lineage(node: SyllabusNode, byId: Map<string, SyllabusNode>): SyllabusNode[] {
+  const chain: SyllabusNode[] = [];
+  for (let current: SyllabusNode | undefined = node; current; current = byId.get(current.parent_id ?? "")) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+export async function getSyllabusCatalog(): Promise<SyllabusCatalog> {
+  const [forms, subjects] = await Promise.all([
+    supabase.from("syllabus_forms").select("form, stage").order("position", { ascending: true }),
+    supabase.from("syllabus_subjects").select("stage, name").order("position", { ascending: true }),
+  ]);
+
+  if (forms.error) throw forms.error;
+  if (subjects.error) throw subjects.error;
+  return { forms: forms.data ?? [], subjects: subjects.data ?? [] };
+}
+
+export async function getSyllabusNodes(subject: string, form: string): Promise<SyllabusNode[]> {
+  const { data, error } = await supabase
+    .from("syllabus_nodes")
+    .select(NODE_COLUMNS)
+    .ilike("subject", escapeLike(subject))
+    .eq("form", form);
+
+  if (error) throw error;
+  return inTreeOrder((data ?? []).map(toSyllabusNode));
+}
+
+async function getSyllabusNode(nodeId: string): Promise<{ node: SyllabusNode; nodes: SyllabusNode[] }> {
+  const { data, error } = await supabase.from("syllabus_nodes").select(NODE_COLUMNS).eq("id", nodeId).maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(404, "Syllabus topic not found");
+  return { node: toSyllabusNode(data), nodes: await getSyllabusNodes(data.subject, data.form) };
+}
+
+// The node with its "Topic › Sub-topic › Competence" path, which is how prompts and lists name it
+export async function describeSyllabusNode(nodeId: string): Promise<SyllabusNode & { path: string }> {
+  const { node, nodes } = await getSyllabusNode(nodeId);
+  const byId = new Map(nodes.map((item) => [item.id, item]));
+  const path = lineage(node, byId)
+    .reverse()
+    .map((item) => item.title)
+    .join(" › ");
+  return { ...node, path };
+}
+
+// The node and every node under it
+export async function getSyllabusSubtree(nodeId: string): Promise<string[]> {
+  const { node, nodes } = await getSyllabusNode(nodeId);
+  const byId = new Map(nodes.map((item) => [item.id, item]));
+  return nodes.filter((item) => lineage(item, byId).some((above) => above.id === node.id)).map((item) => item.id);
+}
+
+// Topics of the subject and form that none of the student's modules is on yet, in syllabus order
+export async function getNextSyllabusTopics(
+  userId: string,
+  subject: string,
+  form: string | null | undefined,
+  count: number,
+): Promise<SyllabusNode[]> {
+  if (!form) return [];
+  const nodes = await getSyllabusNodes(subject, form);
+  if (nodes.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("user_module_progress")
+    .select("learning_modules!inner(syllabus_node_id)")
+    .eq("user_id", userId)
+    .not("learning_modules.syllabus_node_id", "is", null);
+
+  if (error) throw error;
+
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const started = new Set<string>();
+  for (const row of data ?? []) {
+    const node = byId.get((row.learning_modules as { syllabus_node_id: string | null }).syllabus_node_id ?? "");
+    if (node) lineage(node, byId).forEach((item) => started.add(item.id));
+  }
+
+  return nodes.filter((node) => node.level === "topic" && !started.has(node.id)).slice(0, count);
+}
+
+// For each node of the class's subject and form: what was taught, assessed and mastered on it or anything under it
+export async function getClassCoverage(teacherId: string, classId: string): Promise<SyllabusCoverage> {
+  const classInfo = await getOwnedClass(teacherId, classId);
+  const nodes = await getSyllabusNodes(classInfo.subject, classInfo.form);
+  const nodeIds = nodes.map((node) => node.id);
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  const { data: enrollments, error } = await supabase
+    .from("class_enrollments")
+    .select("student_id")
+    .eq("class_id", classId);
+
+  if (error) throw error;
+  const studentIds = (enrollments ?? []).map((row) => row.student_id);
+
+  const assignments = new Map<string, number>();
+  const completed = new Map<string, Set<string>>();
+  const assessed = new Map<string, Set<string>>();
+  // Skills tested by the questions tagged on each node, as "subject\0skill"
+  const skills = new Map<string, Set<string>>();
+
+  // Facts about a node also count for the sub-topic and topic above it
+  const credit = <T>(map: Map<string, Set<T>>, nodeId: string | null, value: T) => {
+    const node = byId.get(nodeId ?? "");
+    if (!node) return;
+    for (const item of lineage(node, byId)) map.set(item.id, (map.get(item.id) ?? new Set<T>()).add(value));
+  };
+
+  if (nodeIds.length > 0) {
+    const { data: assigned, error: assignedError } = await supabase
+      .from("assignments")
+      .select("id, syllabus_node_id")
+      .eq("class_id", classId)
+      .in("syllabus_node_id", nodeIds);
+
+    if (assignedError) throw assignedError;
+
+    const assignmentIds = new Map<string, Set<string>>();
+    for (const row of assigned ?? []) credit(assignmentIds, row.syllabus_node_id, row.id);
+    for (const [nodeId, ids] of assignmentIds) assignments.set(nodeId, ids.size);
+  }
+
+  if (nodeIds.length > 0 && studentIds.length > 0) {
+    const { data: modules, error: modulesError } = await supabase
+      .from("user_module_progress")
+      .select("user_id, learning_modules!inner(syllabus_node_id)")
+      .in("user_id", studentIds)
+      .eq("is_completed", true)
+      .in("learning_modules.syllabus_node_id", nodeIds);
+
+    if (modulesError) throw modulesError;
+    for (const row of modules ?? []) {
+      credit(completed, (row.learning_modules as { syllabus_node_id: string | null }).syllabus_node_id, row.user_id);
+    }
+
+    const { data: questions, error: questionsError } = await supabase
+      .from("question_bank")
+      .select("id, skill_area, skill, syllabus_node_id")
+      .in("syllabus_node_id", nodeIds);
+
+    if (questionsError) throw questionsError;
+
+    const questionNodes = new Map((questions ?? []).map((question) => [question.id, question.syllabus_node_id]));
+    for (const question of questions ?? []) {
+      credit(skills, question.syllabus_node_id, `${question.skill_area.toLowerCase()}\u0000${question.skill.toLowerCase()}`);
+    }
+
+    if (questionNodes.size > 0) {
+      const { data: attempts, error: attemptsError } = await supabase
+        .from("user_quiz_attempts")
+        .select("user_id, question_id")
+        .in("user_id", studentIds)
+        .in("question_id", [...questionNodes.keys()]);
+
+      if (attemptsError) throw attemptsError;
+      for (const attempt of attempts ?? []) {
+        credit(assessed, questionNodes.get(attempt.question_id ?? "") ?? null, attempt.user_id);
+      }
+    }
+  }
+
+  const estimates = new Map<string, Map<string, number>>();
+  if (studentIds.length > 0 && skills.size > 0) {
+    const { data: mastery, error: masteryError } = await supabase
+      .from("skill_mastery")
+      .select("user_id, subject, skill, p_known")
+      .in("user_id", studentIds);
+
+    if (masteryError) throw masteryError;
+    for (const row of mastery ?? []) {
+      const student = estimates.get(row.user_id) ?? new Map<string, number>();
+      student.set(`${row.subject.toLowerCase()}\u0000${row.skill.toLowerCase()}`, Number(row.p_known));
+      estimates.set(row.user_id, student);
+    }
+  }
+
+  // Students only meet the questions of their own modules, so a node is mastered on the skills they were assessed on
+  const masteredBy = (nodeId: string): number => {
+    const tested = [...(skills.get(nodeId) ?? [])];
+    return studentIds.filter((studentId) => {
+      const student = estimates.get(studentId);
+      const known = tested.flatMap((skill) => (student?.has(skill) ? [student.get(skill) ?? 0] : []));
+      return known.length > 0 && known.every((p) => p >= MASTERY_THRESHOLD);
+    }).length;
+  };
+
+  const coverage = nodes.map((node) => {
+    const assignmentCount = assignments.get(node.id) ?? 0;
+    const completedCount = completed.get(node.id)?.size ?? 0;
+    return {
+      ...node,
+      assignments: assignmentCount,
+      completed: completedCount,
+      assessed: assessed.get(node.id)?.size ?? 0,
+      mastered: masteredBy(node.id),
+      covered: assignmentCount > 0 || completedCount > 0,
+    };
+  });
+
+  const topics = coverage.filter((node) => node.level === "topic");
+  return {
+    class_id: classId,
+    subject: classInfo.subject,
+    form: classInfo.form,
+    student_count: studentIds.length,
+    topics: topics.length,
+    covered_topics: topics.filter((node) => node.covered).length,
+    assessed_topics: topics.filter((node) => node.assessed > 0).length,
+    mastered_topics: topics.filter(
+      (node) => studentIds.length > 0 && node.mastered >= Math.ceil(studentIds.length * CLASS_MASTERY_SHARE),
+    ).length,
+    nodes: coverage,
+  };
+}
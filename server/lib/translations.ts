@@ -0,0 +1,200 @@
+import { supabase } from "./supabase.js";
+import { HttpError } from "./http.js";
+import { getModuleProgress, type LatestAnswer, type StoredQuestion, type StoredQuiz } from "./quizzes.js";
+import { toContentLanguage, type ContentLanguage } from "./languages.js";
+import { getAIProvider } from "../ai/index.js";
+import type { RubricCriterion, TranslatedModule } from "../ai/types.js";
+
+export interface ModuleContent extends TranslatedModule {
+  module_id: string;
+  language: ContentLanguage;
+}
+
+interface QuestionTranslationRow {
+  question_id: string;
+  question: string;
+  options: unknown;
+  model_answer: string | null;
+  rubric: unknown;
+  explanation: string;
+}
+
+const QUESTION_TRANSLATION_COLUMNS = "question_id, question, options, model_answer, rubric, explanation";
+
+function translationFailed(err: unknown): never {
+  console.error("[api] Translation failed:", err);
+  throw new HttpError(502, "The translation could not be generated. Please try again.");
+}
+
+// A module's text in `language`: the original, a stored translation, or one generated now and stored for next time
+export async function getModuleContent(moduleId: string, language: ContentLanguage): Promise<ModuleContent> {
+  const { data: module, error } = await supabase
+    .from("learning_modules")
+    .select("id, title, description, content, category, language")
+    .eq("id", moduleId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!module) throw new HttpError(404, "Module not found");
+
+  const original = {
+    title: module.title,
+    description: module.description ?? "",
+    content: module.content || module.description || "",
+  };
+  const source = toContentLanguage(module.language);
+  if (source === language) return { module_id: module.id, language, ...original };
+
+  const cached = async () => {
+    const { data, error: cacheError } = await supabase
+      .from("module_translations")
+      .select("title, description, content")
+      .eq("module_id", moduleId)
+      .eq("language", language)
+      .maybeSingle();
+    if (cacheError) throw cacheError;
+    return data;
+  };
+
+  const stored = await cached();
+  if (stored) return { module_id: module.id, language, ...stored };
+
+  const translated = await getAIProvider()
+    .translateModule({ from: source, to: language, subject: module.category, module: original })
+    .catch(translationFailed);
+
+  // Another request may have stored a translation first; everyone then reads the same one
+  const { error: insertError } = await supabase
+    .from("module_translations")
+    .upsert({ module_id: moduleId, language, ...translated }, { onConflict: "module_id,language", ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+  return { module_id: module.id, language, ...((await cached()) ?? translated) };
+}
+
+// Switches the student's copy of a module, which the dashboard and offline pack read, to `language`
+export async function setModuleLanguage(userId: string, moduleId: string, language: ContentLanguage): Promise<ModuleContent> {
+  await getModuleProgress(userId, moduleId);
+  const content = await getModuleContent(moduleId, language);
+
+  const { error } = await supabase
+    .from("user_module_progress")
+    .update({
+      title: content.title,
+      description: content.description,
+      detailed_content: content.content,
+      language,
+    })
+    .eq("user_id", userId)
+    .eq("module_id", moduleId);
+
+  if (error) throw error;
+  return content;
+}
+
+function applyTranslation(question: StoredQuestion, row: QuestionTranslationRow): StoredQuestion {
+  if (question.type === "written") {
+    const criteria = row.rubric as string[];
+    return {
+      ...question,
+      question: row.question,
+      model_answer: row.model_answer ?? question.model_answer,
+      rubric: question.rubric.map((item: RubricCriterion, index) => ({ ...item, criterion: criteria[index] ?? item.criterion })),
+      explanation: row.explanation,
+    };
+  }
+
+  const options = row.options as string[];
+  return {
+    ...question,
+    question: row.question,
+    options,
+    // Options keep their positions, so the key moves with them
+    correct_answer: options[question.options.indexOf(question.correct_answer)] ?? question.correct_answer,
+    explanation: row.explanation,
+  };
+}
+
+// The quiz with its questions in `language`; questions without a stored translation are translated together
+export async function translateQuiz(quiz: StoredQuiz, language: ContentLanguage): Promise<StoredQuiz> {
+  if (quiz.language === language || quiz.questions.length === 0) return quiz;
+
+  const ids = quiz.questions.map((question) => question.id);
+  const stored = async () => {
+    const { data, error } = await supabase
+      .from("question_translations")
+      .select(QUESTION_TRANSLATION_COLUMNS)
+      .in("question_id", ids)
+      .eq("language", language);
+    if (error) throw error;
+    return new Map((data ?? []).map((row) => [row.question_id, row]));
+  };
+
+  let translations = await stored();
+  const missing = quiz.questions.filter((question) => !translations.has(question.id));
+
+  if (missing.length > 0) {
+    const translated = await getAIProvider()
+      .translateQuestions({
+        from: quiz.language,
+        to: language,
+        questions: missing.map((question) =>
+          question.type === "written"
+            ? {
+                question: question.question,
+                options: [],
+                model_answer: question.model_answer,
+                rubric: question.rubric.map((item) => item.criterion),
+                explanation: question.explanation,
+              }
+            : {
+                question: question.question,
+                options: question.options,
+                model_answer: null,
+                rubric: [],
+                explanation: question.explanation,
+              },
+        ),
+      })
+      .catch(translationFailed);
+
+    const { error } = await supabase.from("question_translations").upsert(
+      missing.map((question, index) => ({ question_id: question.id, language, ...translated[index] })),
+      { onConflict: "question_id,language", ignoreDuplicates: true },
+    );
+
+    if (error) throw error;
+    translations = await stored();
+  }
+
+  return {
+    ...quiz,
+    language,
+    questions: quiz.questions.map((question) => {
+      const row = translations.get(question.id);
+      return row ? applyTranslation(question, row) : question;
+    }),
+  };
+}
+
+// Multiple-choice options line up by position in every language, so an answer can be carried across
+export function translateAnswer(from: StoredQuestion, to: StoredQuestion, answer: string): string {
+  if (from.type === "written" || to.type === "written") return answer;
+  return to.options[from.options.indexOf(answer)] ?? answer;
+}
+
+// A student's earlier answers, stored in the quiz's own language, as they appear in the translated quiz
+export function translateAnswers(
+  from: StoredQuiz,
+  to: StoredQuiz,
+  answers: Record<string, LatestAnswer>,
+): Record<string, LatestAnswer> {
+  if (from.language === to.language) return answers;
+
+  const translated: Record<string, LatestAnswer> = {};
+  from.questions.forEach((question, index) => {
+    const latest = answers[question.id];
+    if (latest) translated[question.id] = { ...latest, answer: translateAnswer(question, to.questions[index], latest.answer) };
+  });
+  return translated;
+}
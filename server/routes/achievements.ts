@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { getAchievements } from "../lib/achievements.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+// GET /api/achievements (earned and locked, with progress toward each)
+router.get("/", async (_req, res) => {
+  res.json(await getAchievements(getUserId(res)));
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import {
+  createAssignment,
+  deleteAssignment,
+  getAssignmentContent,
+  getAssignmentProgress,
+  getClassAssignments,
+  getStudentAssignments,
+  submitAssignment,
+} from "../lib/assignments.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const createSchema = z
+  .object({
+    class_id: z.string().uuid(),
+    lesson_id: z.string().uuid().optional(),
+    academic_id: z.string().uuid().optional(),
+    student_ids: z.array(z.string().uuid()).max(500).optional(),
+    instructions: z.string().trim().max(2000).optional(),
+    open_at: z.string().datetime({ offset: true }).optional(),
+    due_at: z.string().datetime({ offset: true }),
+    max_attempts: z.number().int().min(1).max(100).nullable().optional(),
+    allow_late: z.boolean().default(true),
+    syllabus_node_id: z.string().uuid().nullish(),
+  })
+  .refine((body) => !body.lesson_id !== !body.academic_id, {
+    message: "Assign either a lesson or an academic piece",
+    path: ["lesson_id"],
+  })
+  .refine((body) => new Date(body.due_at) > new Date(body.open_at ?? Date.now()), {
+    message: "The due date must be after the open date",
+    path: ["due_at"],
+  });
+
+const submitSchema = z.object({
+  response: z.string().trim().max(20000).optional(),
+});
+
+// GET /api/assignments/mine
+router.get("/mine", async (_req, res) => {
+  res.json(await getStudentAssignments(getUserId(res)));
+});
+
+// POST /api/assignments
+router.post("/", requireTeacher, async (req, res) => {
+  const body = createSchema.parse(req.body);
+  res.status(201).json(await createAssignment(getUserId(res), body));
+});
+
+// GET /api/assignments/class/:classId
+router.get("/class/:classId", requireTeacher, async (req, res) => {
+  res.json(await getClassAssignments(getUserId(res), req.params.classId));
+});
+
+// GET /api/assignments/:assignmentId/progress
+router.get("/:assignmentId/progress", requireTeacher, async (req, res) => {
+  res.json(await getAssignmentProgress(getUserId(res), req.params.assignmentId));
+});
+
+// DELETE /api/assignments/:assignmentId
+router.delete("/:assignmentId", requireTeacher, async (req, res) => {
+  await deleteAssignment(getUserId(res), req.params.assignmentId);
+  res.status(204).end();
+});
+
+// GET /api/assignments/:assignmentId (a student it is given to, with the content)
+router.get("/:assignmentId", async (req, res) => {
+  res.json(await getAssignmentContent(getUserId(res), req.params.assignmentId));
+});
+
+// POST /api/assignments/:assignmentId/submit
+router.post("/:assignmentId/submit", async (req, res) => {
+  const body = submitSchema.parse(req.body ?? {});
+  res.status(201).json(await submitAssignment(getUserId(res), req.params.assignmentId, body.response));
+});
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { supabase } from "../lib/supabase.js";
+import { HttpError } from "../lib/http.js";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { teachesStudent } from "../lib/classes.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+// GET /api/badges/:userId (the student or a teacher of one of their classes)
+router.get("/:userId", async (req, res) => {
+  const viewerId = getUserId(res);
+  const { userId } = req.params;
+  if (viewerId !== userId && !(await teachesStudent(viewerId, userId))) {
+    throw new HttpError(403, "You can only view the badges of students in your classes");
+  }
+
+  const { data, error } = await supabase
+    .from("user_badges")
+    .select("id, user_id, name, description, icon, module_id, earned_at")
+    .eq("user_id", userId)
+    .order("earned_at", { ascending: false });
+
+  if (error) throw error;
+  res.json(data ?? []);
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/http.js";
+import { getUserId, getUserRole, requireTeacher, requireUser } from "../lib/auth.js";
+import {
+  createClass,
+  getRoster,
+  getStudentClasses,
+  getTeacherClasses,
+  joinClass,
+  leaveClass,
+  regenerateJoinCode,
+  removeStudent,
+} from "../lib/classes.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  form: z.string().trim().min(1).max(50),
+  subject: z.string().trim().min(1).max(100),
+  term: z.string().trim().min(1).max(50),
+});
+
+const joinSchema = z.object({
+  code: z.string().trim().min(4).max(12),
+});
+
+// GET /api/classes (a teacher's own classes, or the classes a student has joined)
+router.get("/", async (_req, res) => {
+  const userId = getUserId(res);
+  const role = await getUserRole(userId);
+  res.json(role === "teacher" ? await getTeacherClasses(userId) : await getStudentClasses(userId));
+});
+
+// POST /api/classes
+router.post("/", requireTeacher, async (req, res) => {
+  const body = createSchema.parse(req.body);
+  res.status(201).json(await createClass(getUserId(res), body));
+});
+
+// POST /api/classes/join
+router.post("/join", async (req, res) => {
+  const userId = getUserId(res);
+  if ((await getUserRole(userId)) !== "student") throw new HttpError(403, "Only students can join a class");
+  const body = joinSchema.parse(req.body);
+  res.json(await joinClass(userId, body.code));
+});
+
+// POST /api/classes/:classId/leave
+router.post("/:classId/leave", async (req, res) => {
+  await leaveClass(getUserId(res), req.params.classId);
+  res.status(204).end();
+});
+
+// GET /api/classes/:classId/roster
+router.get("/:classId/roster", requireTeacher, async (req, res) => {
+  res.json(await getRoster(getUserId(res), req.params.classId));
+});
+
+// POST /api/classes/:classId/join-code (replaces the code, e.g. after it was shared too widely)
+router.post("/:classId/join-code", requireTeacher, async (req, res) => {
+  res.json(await regenerateJoinCode(getUserId(res), req.params.classId));
+});
+
+// DELETE /api/classes/:classId/students/:studentId
+router.delete("/:classId/students/:studentId", requireTeacher, async (req, res) => {
+  await removeStudent(getUserId(res), req.params.classId, req.params.studentId);
+  res.status(204).end();
+});
+
+export default router;
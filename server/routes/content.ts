@@ -0,0 +1,72 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import {
+  CONTENT_KINDS,
+  getRevision,
+  getRevisions,
+  getTrash,
+  restoreFromTrash,
+  restoreRevision,
+  trashContent,
+  updateContent,
+} from "../lib/content.js";
+
+const router = Router();
+
+router.use(requireUser, requireTeacher);
+
+const kindSchema = z.enum(CONTENT_KINDS);
+
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(300).optional(),
+    content: z.string().max(200000).optional(),
+    syllabus_node_id: z.string().uuid().nullable().optional(),
+  })
+  .refine((body) => body.title !== undefined || body.content !== undefined || body.syllabus_node_id !== undefined, {
+    message: "Change the title, the content or the syllabus topic",
+    path: ["content"],
+  });
+
+// GET /api/content/trash
+router.get("/trash", async (_req, res) => {
+  res.json(await getTrash(getUserId(res)));
+});
+
+// PUT /api/content/:kind/:id
+router.put("/:kind/:id", async (req, res) => {
+  const body = updateSchema.parse(req.body);
+  res.json(await updateContent(getUserId(res), kindSchema.parse(req.params.kind), req.params.id, body));
+});
+
+// DELETE /api/content/:kind/:id (moves it to the trash)
+router.delete("/:kind/:id", async (req, res) => {
+  await trashContent(getUserId(res), kindSchema.parse(req.params.kind), req.params.id);
+  res.status(204).end();
+});
+
+// POST /api/content/:kind/:id/restore (brings it back from the trash)
+router.post("/:kind/:id/restore", async (req, res) => {
+  await restoreFromTrash(getUserId(res), kindSchema.parse(req.params.kind), req.params.id);
+  res.status(204).end();
+});
+
+// GET /api/content/:kind/:id/revisions
+router.get("/:kind/:id/revisions", async (req, res) => {
+  res.json(await getRevisions(getUserId(res), kindSchema.parse(req.params.kind), req.params.id));
+});
+
+// GET /api/content/:kind/:id/revisions/:revisionId
+router.get("/:kind/:id/revisions/:revisionId", async (req, res) => {
+  res.json(await getRevision(getUserId(res), kindSchema.parse(req.params.kind), req.params.id, req.params.revisionId));
+});
+
+// POST /api/content/:kind/:id/revisions/:revisionId/restore
+router.post("/:kind/:id/revisions/:revisionId/restore", async (req, res) => {
+  res.json(
+    await restoreRevision(getUserId(res), kindSchema.parse(req.params.kind), req.params.id, req.params.revisionId),
+  );
+});
+
+export default router;
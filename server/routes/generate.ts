@@ -0,0 +1,130 @@
+import { Router } from "express";
+import { z } from "zod";
+import { supabase } from "../lib/supabase.js";
+import { HttpError } from "../lib/http.js";
+import { calculatePointsReward } from "../lib/points.js";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { getCompletedModules, getLevelProgression } from "../lib/levels.js";
+import { placedDifficulty } from "../lib/placement.js";
+import { getFocusSkills } from "../lib/mastery.js";
+import { CONTENT_LANGUAGES, toContentLanguage } from "../lib/languages.js";
+import { describeSyllabusNode, getNextSyllabusTopics } from "../lib/syllabus.js";
+import { getAIProvider } from "../ai/index.js";
+
+const router = Router();
+
+const MODULES_PER_REQUEST = 3;
+
+const generateModulesSchema = z.object({
+  studentSubject: z.string().nullish(),
+  studentForm: z.string().nullish(),
+});
+
+const generateLessonSchema = z.object({
+  topic: z.string().min(1),
+  grade: z.string().default("Form 4"),
+  lang: z.enum(CONTENT_LANGUAGES).default("en"),
+  syllabusNodeId: z.string().uuid().optional(),
+  contentType: z.enum(["lesson", "academic"]),
+  lessonType: z.string().optional(),
+  materialType: z.string().optional(),
+  academicFormat: z.string().optional(),
+  length: z.string().optional(),
+  quizType: z.enum(["mcq", "written", "both"]).optional(),
+});
+
+// POST /api/generateModules
+router.post("/generateModules", requireUser, async (req, res) => {
+  const userId = getUserId(res);
+  const body = generateModulesSchema.parse(req.body ?? {});
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("subject, form, total_points, language")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile) throw new HttpError(404, "User not found");
+
+  const subject = body.studentSubject || profile.subject || "General Studies";
+  const completedModules = (await getCompletedModules(userId)).length;
+  // The level engine decides the level and difficulty of new modules
+  const progression = getLevelProgression(completedModules, profile.total_points);
+  // Modules are written in the student's interface language when it is one content is offered in
+  const language = toContentLanguage(profile.language);
+  const form = body.studentForm ?? profile.form;
+  // Modules work through the syllabus of the student's form in order, where it is stored
+  const topics = await getNextSyllabusTopics(userId, subject, form, MODULES_PER_REQUEST);
+
+  const generated = await getAIProvider().generateModules({
+    currentLevel: progression.current_level,
+    difficulty: await placedDifficulty(userId, subject, progression.difficulty),
+    completedModules,
+    subject,
+    form,
+    // Knowledge tracing points new modules at the skills the student is weakest in
+    focusSkills: await getFocusSkills(userId, subject),
+    syllabusTopics: topics.map((topic) => topic.title),
+    language,
+    count: MODULES_PER_REQUEST,
+  });
+
+  // Store the modules in the shared catalogue so progress rows can reference them
+  const { data, error } = await supabase
+    .from("learning_modules")
+    .insert(
+      generated.map((module, index) => ({
+        title: module.title,
+        description: module.description,
+        content: module.detailed_content,
+        difficulty: module.difficulty,
+        category: subject,
+        estimated_duration: module.estimated_duration,
+        points_reward: calculatePointsReward(module.estimated_duration, module.difficulty),
+        order_index: completedModules + index,
+        language,
+        syllabus_node_id: topics[index]?.id ?? null,
+      })),
+    )
+    .select("id, title, description, content, difficulty, estimated_duration, points_reward");
+
+  if (error) throw error;
+  if (!data?.length) throw new HttpError(502, "No modules were generated");
+
+  // Each student works on their own copy, tagged with the level they were generated for
+  const { data: progress, error: progressError } = await supabase
+    .from("user_module_progress")
+    .insert(
+      data.map((module) => ({
+        user_id: userId,
+        module_id: module.id,
+        title: module.title,
+        description: module.description,
+        difficulty: module.difficulty,
+        estimated_duration: module.estimated_duration,
+        points_reward: module.points_reward ?? 0,
+        detailed_content: module.content,
+        level: progression.level,
+        progress_percentage: 0,
+        is_completed: false,
+        is_read_only: false,
+        language,
+      })),
+    )
+    .select("*");
+
+  if (progressError) throw progressError;
+
+  res.json({ level: progression, modules: progress });
+});
+
+// POST /api/generateLesson
+router.post("/generateLesson", requireUser, requireTeacher, async (req, res) => {
+  const { syllabusNodeId, ...body } = generateLessonSchema.parse(req.body);
+  const syllabusTopic = syllabusNodeId ? (await describeSyllabusNode(syllabusNodeId)).path : undefined;
+  const lesson = await getAIProvider().generateLesson({ ...body, syllabusTopic });
+  res.json({ content: lesson.content });
+});
+
+export default router;
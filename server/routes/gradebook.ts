@@ -0,0 +1,49 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { deleteGradeOverride, getGradebook, gradebookToCsv, saveGradeOverride } from "../lib/gradebook.js";
+
+const router = Router();
+
+router.use(requireUser, requireTeacher);
+
+const viewSchema = z.enum(["modules", "assignments"]).default("modules");
+
+const overrideSchema = z
+  .object({
+    student_id: z.string().uuid(),
+    module_id: z.string().uuid().optional(),
+    assignment_id: z.string().uuid().optional(),
+    score: z.number().min(0).max(100),
+    comment: z.string().trim().max(1000).optional(),
+  })
+  .refine((body) => !body.module_id !== !body.assignment_id, {
+    message: "Override either a module or an assignment",
+    path: ["module_id"],
+  });
+
+// PUT /api/gradebook/overrides
+router.put("/overrides", async (req, res) => {
+  const body = overrideSchema.parse(req.body);
+  res.json(await saveGradeOverride(getUserId(res), body));
+});
+
+// DELETE /api/gradebook/overrides/:overrideId
+router.delete("/overrides/:overrideId", async (req, res) => {
+  await deleteGradeOverride(getUserId(res), req.params.overrideId);
+  res.status(204).end();
+});
+
+// GET /api/gradebook/:classId/export?view=modules
+router.get("/:classId/export", async (req, res) => {
+  const view = viewSchema.parse(req.query.view);
+  const gradebook = await getGradebook(getUserId(res), req.params.classId, view);
+  res.type("text/csv").attachment(`gradebook-${view}.csv`).send(gradebookToCsv(gradebook));
+});
+
+// GET /api/gradebook/:classId?view=modules
+router.get("/:classId", async (req, res) => {
+  res.json(await getGradebook(getUserId(res), req.params.classId, viewSchema.parse(req.query.view)));
+});
+
+export default router;
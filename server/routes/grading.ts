@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { getWrittenReviewQueue, reviewWrittenAnswer } from "../lib/grading.js";
+
+const router = Router();
+
+router.use(requireUser, requireTeacher);
+
+const reviewSchema = z.object({
+  score: z.number().min(0).max(100),
+  feedback: z.string().trim().max(2000).optional(),
+});
+
+const queueSchema = z.object({
+  status: z.enum(["needs_review", "graded"]).default("needs_review"),
+});
+
+// GET /api/grading/reviews?status= (written answers the AI was unsure about, or the ones it marked)
+router.get("/reviews", async (req, res) => {
+  const { status } = queueSchema.parse(req.query);
+  res.json(await getWrittenReviewQueue(getUserId(res), status));
+});
+
+// POST /api/grading/:gradeId/review
+router.post("/:gradeId/review", async (req, res) => {
+  const body = reviewSchema.parse(req.body);
+  res.json(await reviewWrittenAnswer(getUserId(res), req.params.gradeId, body));
+});
+
+export default router;
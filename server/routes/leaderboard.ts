@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { getLeaderboard, LEADERBOARD_PERIODS, LEADERBOARD_SCOPES } from "../lib/leaderboard.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const querySchema = z.object({
+  scope: z.enum(LEADERBOARD_SCOPES).default("all"),
+  period: z.enum(LEADERBOARD_PERIODS).default("all_time"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  classId: z.string().uuid().optional(),
+});
+
+// GET /api/leaderboard?scope=school&period=weekly&limit=10 (scope=class also takes classId)
+router.get("/", async (req, res) => {
+  const { scope, period, limit, classId } = querySchema.parse(req.query);
+  res.json(await getLeaderboard(getUserId(res), scope, period, limit, classId));
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { getReviewQueue, LESSON_ACTIONS, LESSON_APPROVAL_REQUIRED, transitionLesson } from "../lib/lessons.js";
+
+const router = Router();
+
+router.use(requireUser, requireTeacher);
+
+const transitionSchema = z.object({
+  action: z.enum(LESSON_ACTIONS),
+  // A future time schedules publishing; only used by publish and approve
+  publish_at: z.string().datetime({ offset: true }).optional(),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+// GET /api/lessons/workflow
+router.get("/workflow", (_req, res) => {
+  res.json({ approval_required: LESSON_APPROVAL_REQUIRED });
+});
+
+// GET /api/lessons/reviews (lessons waiting for the signed-in head of department)
+router.get("/reviews", async (_req, res) => {
+  res.json(await getReviewQueue(getUserId(res)));
+});
+
+// POST /api/lessons/:lessonId/transition
+router.post("/:lessonId/transition", async (req, res) => {
+  const body = transitionSchema.parse(req.body);
+  res.json(
+    await transitionLesson(getUserId(res), req.params.lessonId, body.action, {
+      publishAt: body.publish_at,
+      comment: body.comment,
+    }),
+  );
+});
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { supabase } from "../lib/supabase.js";
+import { HttpError } from "../lib/http.js";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { teachesStudent } from "../lib/classes.js";
+import { getCompletedModules, getLevelProgression, levelConfig, LEVELS } from "../lib/levels.js";
+
+const router = Router();
+
+// GET /api/levels/config
+router.get("/config", (_req, res) => {
+  res.json({ ...levelConfig, levels: LEVELS });
+});
+
+router.use(requireUser);
+
+// GET /api/levels/:userId (the student or a teacher of one of their classes)
+router.get("/:userId", async (req, res) => {
+  const viewerId = getUserId(res);
+  const { userId } = req.params;
+  if (viewerId !== userId && !(await teachesStudent(viewerId, userId))) {
+    throw new HttpError(403, "You can only view the levels of students in your classes");
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("id, total_points, updated_at")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile) throw new HttpError(404, "User not found");
+
+  const completedModules = await getCompletedModules(userId);
+
+  const { count: badgesCount, error: badgesError } = await supabase
+    .from("user_badges")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (badgesError) throw badgesError;
+
+  res.json({
+    user_id: userId,
+    ...getLevelProgression(completedModules.length, profile.total_points),
+    total_score: profile.total_points ?? 0,
+    badges_count: badgesCount ?? 0,
+    points_sum: completedModules.reduce((sum, module) => sum + module.points_reward, 0),
+    updated_at: profile.updated_at,
+  });
+});
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { getClassMastery, getMastery } from "../lib/mastery.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+// GET /api/mastery (the signed-in student's estimate per skill)
+router.get("/", async (_req, res) => {
+  res.json(await getMastery(getUserId(res)));
+});
+
+// GET /api/mastery/classes/:classId
+router.get("/classes/:classId", requireTeacher, async (req, res) => {
+  res.json(await getClassMastery(getUserId(res), req.params.classId));
+});
+
+export default router;
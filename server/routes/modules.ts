@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { evaluateAchievements } from "../lib/achievements.js";
+import { completeModule } from "../lib/modules.js";
+import { CONTENT_LANGUAGES } from "../lib/languages.js";
+import { setModuleLanguage } from "../lib/translations.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const completeSchema = z.object({
+  score: z.number().min(0).max(100).optional(),
+});
+
+const languageSchema = z.object({
+  language: z.enum(CONTENT_LANGUAGES),
+});
+
+// GET /api/modules/languages
+router.get("/languages", (_req, res) => {
+  res.json({ languages: CONTENT_LANGUAGES });
+});
+
+// POST /api/modules/:moduleId/complete
+router.post("/:moduleId/complete", async (req, res) => {
+  const userId = getUserId(res);
+  const body = completeSchema.parse(req.body ?? {});
+
+  const completion = await completeModule(userId, req.params.moduleId, body.score);
+  res.json({ ...completion, achievements: await evaluateAchievements(userId) });
+});
+
+// PUT /api/modules/:moduleId/language
+router.put("/:moduleId/language", async (req, res) => {
+  const userId = getUserId(res);
+  const body = languageSchema.parse(req.body);
+
+  res.json(await setModuleLanguage(userId, req.params.moduleId, body.language));
+});
+
+export default router;
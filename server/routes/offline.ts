@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { getOfflinePack, syncOfflineEvents } from "../lib/offline.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+// Devices sync in batches so one request never replays a long offline stretch at once
+const SYNC_BATCH_SIZE = 50;
+
+const eventBase = {
+  id: z.string().uuid(),
+  occurred_at: z.string().datetime({ offset: true }),
+  pack_id: z.string().uuid().optional(),
+};
+
+const eventSchema = z.discriminatedUnion("kind", [
+  z.object({
+    ...eventBase,
+    kind: z.literal("answer"),
+    quiz_id: z.string().uuid(),
+    question_id: z.string().min(1),
+    answer: z.string().trim().min(1).max(5000),
+  }),
+  z.object({
+    ...eventBase,
+    kind: z.literal("progress"),
+    module_id: z.string().uuid(),
+    progress_percentage: z.number().int().min(0).max(100),
+  }),
+  z.object({ ...eventBase, kind: z.literal("complete"), module_id: z.string().uuid() }),
+  z.object({ ...eventBase, kind: z.literal("section_read") }),
+]);
+
+const syncSchema = z.object({
+  events: z.array(eventSchema).min(1).max(SYNC_BATCH_SIZE),
+});
+
+// GET /api/offline/pack (the student's unfinished modules with their content and quizzes)
+router.get("/pack", async (_req, res) => {
+  res.json(await getOfflinePack(getUserId(res)));
+});
+
+// POST /api/offline/sync
+router.post("/sync", async (req, res) => {
+  const body = syncSchema.parse(req.body);
+  res.json(await syncOfflineEvents(getUserId(res), body.events));
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { answerPlacement, getPlacementSummary, startPlacement } from "../lib/placement.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const startSchema = z.object({
+  subject: z.string().trim().min(1).max(100).optional(),
+});
+
+const answerSchema = z.object({
+  answer: z.string().min(1),
+});
+
+// GET /api/placement (levels per subject and any test in progress)
+router.get("/", async (_req, res) => {
+  res.json(await getPlacementSummary(getUserId(res)));
+});
+
+// POST /api/placement (starts a test, or resumes the one in progress for the subject)
+router.post("/", async (req, res) => {
+  const body = startSchema.parse(req.body ?? {});
+  res.json(await startPlacement(getUserId(res), body.subject));
+});
+
+// POST /api/placement/:assessmentId/answers
+router.post("/:assessmentId/answers", async (req, res) => {
+  const body = answerSchema.parse(req.body);
+  res.json(await answerPlacement(getUserId(res), req.params.assessmentId, body.answer));
+});
+
+export default router;
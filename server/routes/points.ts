@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/http.js";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { getPointsHistory, getRecentPointsActivity } from "../lib/points.js";
+import { getTeacherStudentIds, teachesStudent } from "../lib/classes.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const limitSchema = z.coerce.number().int().min(1).max(200).default(50);
+
+// GET /api/points/history
+router.get("/history", async (req, res) => {
+  res.json(await getPointsHistory(getUserId(res), limitSchema.parse(req.query.limit)));
+});
+
+// GET /api/points/history/:userId (the student themselves or a teacher of one of their classes)
+router.get("/history/:userId", async (req, res) => {
+  const viewerId = getUserId(res);
+  const { userId } = req.params;
+  if (viewerId !== userId && !(await teachesStudent(viewerId, userId))) {
+    throw new HttpError(403, "You can only view the points history of students in your classes");
+  }
+  res.json(await getPointsHistory(userId, limitSchema.parse(req.query.limit)));
+});
+
+// GET /api/points/recent (students in the teacher's classes)
+router.get("/recent", requireTeacher, async (req, res) => {
+  const studentIds = await getTeacherStudentIds(getUserId(res));
+  res.json(await getRecentPointsActivity(studentIds, limitSchema.parse(req.query.limit)));
+});
+
+export default router;
@@ -0,0 +1,119 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import {
+  archiveQuestion,
+  copyQuestion,
+  createQuestion,
+  createQuizFromBank,
+  DIFFICULTIES,
+  getBankQuestion,
+  getTeacherQuizQuestions,
+  getTeacherQuizzes,
+  QUESTION_LANGUAGES,
+  QUESTION_TYPES,
+  searchQuestions,
+  updateQuestion,
+} from "../lib/questionBank.js";
+
+const router = Router();
+
+router.use(requireUser, requireTeacher);
+
+const tagsSchema = z.object({
+  skill: z.string().trim().min(1).max(100),
+  skill_area: z.string().trim().min(1).max(100),
+  difficulty: z.enum(DIFFICULTIES),
+  syllabus_topic: z.string().trim().max(200).nullish(),
+  syllabus_node_id: z.string().uuid().nullish(),
+  language: z.enum(QUESTION_LANGUAGES).default("en"),
+});
+
+const questionSchema = z.discriminatedUnion("type", [
+  tagsSchema.extend({
+    type: z.literal("mcq"),
+    question: z.string().trim().min(1).max(2000),
+    options: z.array(z.string().trim().min(1).max(500)).min(2).max(6),
+    correct_answer: z.string().trim().min(1),
+    explanation: z.string().trim().max(2000).optional(),
+  }),
+  tagsSchema.extend({
+    type: z.literal("written"),
+    question: z.string().trim().min(1).max(2000),
+    model_answer: z.string().trim().min(1).max(5000),
+    rubric: z
+      .array(z.object({ criterion: z.string().trim().min(1).max(300), points: z.number().int().min(1).max(100) }))
+      .min(1)
+      .max(10),
+    explanation: z.string().trim().max(2000).optional(),
+  }),
+]);
+
+const searchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  type: z.enum(QUESTION_TYPES).optional(),
+  skill_area: z.string().trim().max(100).optional(),
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  syllabus_topic: z.string().trim().max(200).optional(),
+  syllabus_node_id: z.string().uuid().optional(),
+  language: z.enum(QUESTION_LANGUAGES).optional(),
+  mine: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  page: z.coerce.number().int().min(1).optional(),
+});
+
+const quizSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  question_ids: z.array(z.string().uuid()).min(1).max(50),
+  passing_score: z.number().int().min(0).max(100).optional(),
+});
+
+// GET /api/questions?q=&type=&skill_area=&difficulty=&syllabus_topic=&syllabus_node_id=&language=&mine=&page=
+router.get("/", async (req, res) => {
+  res.json(await searchQuestions(getUserId(res), searchSchema.parse(req.query)));
+});
+
+// POST /api/questions
+router.post("/", async (req, res) => {
+  res.status(201).json(await createQuestion(getUserId(res), questionSchema.parse(req.body)));
+});
+
+// GET /api/questions/quizzes (quizzes the teacher assembled)
+router.get("/quizzes", async (_req, res) => {
+  res.json(await getTeacherQuizzes(getUserId(res)));
+});
+
+// POST /api/questions/quizzes
+router.post("/quizzes", async (req, res) => {
+  res.status(201).json(await createQuizFromBank(getUserId(res), quizSchema.parse(req.body)));
+});
+
+// GET /api/questions/quizzes/:quizId
+router.get("/quizzes/:quizId", async (req, res) => {
+  res.json(await getTeacherQuizQuestions(getUserId(res), req.params.quizId));
+});
+
+// GET /api/questions/:id
+router.get("/:id", async (req, res) => {
+  res.json(await getBankQuestion(req.params.id));
+});
+
+// PUT /api/questions/:id
+router.put("/:id", async (req, res) => {
+  res.json(await updateQuestion(getUserId(res), req.params.id, questionSchema.parse(req.body)));
+});
+
+// POST /api/questions/:id/copy
+router.post("/:id/copy", async (req, res) => {
+  res.status(201).json(await copyQuestion(getUserId(res), req.params.id));
+});
+
+// DELETE /api/questions/:id (archives it)
+router.delete("/:id", async (req, res) => {
+  await archiveQuestion(getUserId(res), req.params.id);
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { evaluateAchievements } from "../lib/achievements.js";
+import { answerModuleQuestion } from "../lib/modules.js";
+import { getLatestAnswers, getModuleProgress, getOrCreateModuleQuiz, toPublicQuestion } from "../lib/quizzes.js";
+import { withWrittenGrades } from "../lib/grading.js";
+import { translateAnswers, translateQuiz } from "../lib/translations.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const answerSchema = z.object({
+  questionId: z.string().min(1),
+  answer: z.string().trim().min(1).max(5000),
+});
+
+// GET /api/quizzes/module/:moduleId
+router.get("/module/:moduleId", async (req, res) => {
+  const userId = getUserId(res);
+  const progress = await getModuleProgress(userId, req.params.moduleId);
+  const original = await getOrCreateModuleQuiz(progress.module_id);
+  const quiz = await translateQuiz(original, progress.language);
+  const previous = translateAnswers(original, quiz, await getLatestAnswers(userId, quiz.id));
+
+  res.json({
+    quiz_id: quiz.id,
+    module_id: quiz.module_id,
+    passing_score: quiz.passing_score,
+    language: quiz.language,
+    answers_revealed: progress.is_read_only,
+    questions: quiz.questions.map((question) => toPublicQuestion(question, progress.is_read_only)),
+    previous_answers: await withWrittenGrades(previous),
+  });
+});
+
+// POST /api/quizzes/:quizId/answers
+router.post("/:quizId/answers", async (req, res) => {
+  const userId = getUserId(res);
+  const body = answerSchema.parse(req.body);
+
+  const graded = await answerModuleQuestion(userId, req.params.quizId, body.questionId, body.answer);
+  res.json({ ...graded, achievements: await evaluateAchievements(userId) });
+});
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { answerReview, getDueReviews } from "../lib/reviews.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+// `answer` for multiple choice, `remembered` for written questions the student marks themselves
+const answerSchema = z.object({
+  answer: z.string().min(1).optional(),
+  remembered: z.boolean().optional(),
+});
+
+// GET /api/reviews (today's review session)
+router.get("/", async (_req, res) => {
+  res.json(await getDueReviews(getUserId(res)));
+});
+
+// POST /api/reviews/:itemId/answers
+router.post("/:itemId/answers", async (req, res) => {
+  const body = answerSchema.parse(req.body);
+  res.json(await answerReview(getUserId(res), req.params.itemId, body));
+});
+
+export default router;
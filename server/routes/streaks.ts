@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { getActivityHistory, getStreak, recordActivity } from "../lib/streaks.js";
+import { evaluateAchievements } from "../lib/achievements.js";
+
+const router = Router();
+
+router.use(requireUser);
+
+const historySchema = z.coerce.number().int().min(1).max(366).default(84);
+
+// Only reading can be reported by the browser; quiz answers and completions are recorded by their own routes
+const activitySchema = z.object({
+  kind: z.literal("section_read"),
+});
+
+// GET /api/streaks
+router.get("/", async (_req, res) => {
+  res.json(await getStreak(getUserId(res)));
+});
+
+// GET /api/streaks/activity
+router.get("/activity", async (req, res) => {
+  res.json(await getActivityHistory(getUserId(res), historySchema.parse(req.query.days)));
+});
+
+// POST /api/streaks/activity
+router.post("/activity", async (req, res) => {
+  const body = activitySchema.parse(req.body);
+  const userId = getUserId(res);
+  const streak = await recordActivity(userId, body.kind);
+  res.json({ ...streak, achievements: await evaluateAchievements(userId) });
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getUserId, requireTeacher, requireUser } from "../lib/auth.js";
+import { describeSyllabusNode, getClassCoverage, getSyllabusCatalog, getSyllabusNodes } from "../lib/syllabus.js";
+
+const router = Router();
+
+const nodesQuerySchema = z.object({
+  subject: z.string().trim().min(1),
+  form: z.string().trim().min(1),
+});
+
+// GET /api/syllabus (forms and subjects; public, the sign-up form reads it)
+router.get("/", async (_req, res) => {
+  res.json(await getSyllabusCatalog());
+});
+
+router.use(requireUser);
+
+// GET /api/syllabus/nodes?subject=&form=
+router.get("/nodes", async (req, res) => {
+  const query = nodesQuerySchema.parse(req.query);
+  res.json(await getSyllabusNodes(query.subject, query.form));
+});
+
+// GET /api/syllabus/nodes/:nodeId (with its path from the topic down)
+router.get("/nodes/:nodeId", async (req, res) => {
+  res.json(await describeSyllabusNode(req.params.nodeId));
+});
+
+// GET /api/syllabus/classes/:classId/coverage
+router.get("/classes/:classId/coverage", requireTeacher, async (req, res) => {
+  res.json(await getClassCoverage(getUserId(res), req.params.classId));
+});
+
+export default router;
@@ -0,0 +1,50 @@
+import { timingSafeEqual } from "node:crypto";
+import express, { Router } from "express";
+import { getUserId, requireUser } from "../lib/auth.js";
+import { HttpError } from "../lib/http.js";
+import { createPhoneLinkCode, getPhoneLink, unlinkPhone } from "../lib/phoneLink.js";
+import { getUssdGateway } from "../ussd/index.js";
+import { handleUssdRequest } from "../ussd/session.js";
+
+const router = Router();
+
+// Gateways cannot send a user token, so their callback URL carries a shared secret instead
+function checkSecret(given: unknown): void {
+  const secret = process.env.USSD_CALLBACK_SECRET;
+  if (!secret) throw new HttpError(503, "USSD is not configured on this server");
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(typeof given === "string" ? given : "");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(401, "Invalid USSD callback secret");
+  }
+}
+
+// POST /api/ussd/callback/:gateway?secret=... (one key press, answered with the gateway's reply format)
+router.post("/callback/:gateway", express.urlencoded({ extended: false }), async (req, res) => {
+  checkSecret(req.query.secret);
+  const gateway = getUssdGateway(req.params.gateway);
+  if (!gateway) throw new HttpError(404, "Unknown USSD gateway");
+
+  const reply = await handleUssdRequest(gateway.name, gateway.parseRequest(req.body ?? {}));
+  const { contentType, body } = gateway.formatReply(reply);
+  res.type(contentType).send(body);
+});
+
+// GET /api/ussd/link (the student's linked phone number and the code to dial)
+router.get("/link", requireUser, async (_req, res) => {
+  res.json(await getPhoneLink(getUserId(res)));
+});
+
+// POST /api/ussd/link (a one-time code to enter from the phone)
+router.post("/link", requireUser, async (_req, res) => {
+  res.status(201).json(await createPhoneLinkCode(getUserId(res)));
+});
+
+// DELETE /api/ussd/link
+router.delete("/link", requireUser, async (_req, res) => {
+  await unlinkPhone(getUserId(res));
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import "dotenv/config";
+import express from "express";
+import { errorHandler } from "./lib/http.js";
+import levelsRouter from "./routes/levels.js";
+import badgesRouter from "./routes/badges.js";
+import leaderboardRouter from "./routes/leaderboard.js";
+import generateRouter from "./routes/generate.js";
+import quizzesRouter from "./routes/quizzes.js";
+import modulesRouter from "./routes/modules.js";
+import pointsRouter from "./routes/points.js";
+import streaksRouter from "./routes/streaks.js";
+import classesRouter from "./routes/classes.js";
+import assignmentsRouter from "./routes/assignments.js";
+import gradebookRouter from "./routes/gradebook.js";
+import lessonsRouter from "./routes/lessons.js";
+import contentRouter from "./routes/content.js";
+import gradingRouter from "./routes/grading.js";
+import questionsRouter from "./routes/questions.js";
+import placementRouter from "./routes/placement.js";
+import reviewsRouter from "./routes/reviews.js";
+import masteryRouter from "./routes/mastery.js";
+import achievementsRouter from "./routes/achievements.js";
+import offlineRouter from "./routes/offline.js";
+import ussdRouter from "./routes/ussd.js";
+import syllabusRouter from "./routes/syllabus.js";
+
+const PORT = Number(process.env.PORT) || 3000;
+
+const app = express();
+
+app.use(express.json({ limit: "1mb" }));
+
+app.get("/api/health", (_req, res) => {
+  res.json({ status: "ok" });
+});
+
+app.use("/api/levels", levelsRouter);
+app.use("/api/badges", badgesRouter);
+app.use("/api/leaderboard", leaderboardRouter);
+app.use("/api/quizzes", quizzesRouter);
+app.use("/api/modules", modulesRouter);
+app.use("/api/points", pointsRouter);
+app.use("/api/streaks", streaksRouter);
+app.use("/api/classes", classesRouter);
+app.use("/api/assignments", assignmentsRouter);
+app.use("/api/gradebook", gradebookRouter);
+app.use("/api/lessons", lessonsRouter);
+app.use("/api/content", contentRouter);
+app.use("/api/grading", gradingRouter);
+app.use("/api/questions", questionsRouter);
+app.use("/api/placement", placementRouter);
+app.use("/api/reviews", reviewsRouter);
+app.use("/api/mastery", masteryRouter);
+app.use("/api/achievements", achievementsRouter);
+app.use("/api/offline", offlineRouter);
+app.use("/api/ussd", ussdRouter);
+app.use("/api/syllabus", syllabusRouter);
+app.use("/api", generateRouter);
+
+app.use("/api", (_req, res) => {
+  res.status(404).json({ error: "Not found" });
+});
+
+app.use(errorHandler);
+
+app.listen(PORT, () => {
+  console.log(`[api] Listening on http://localhost:${PORT}`);
+});
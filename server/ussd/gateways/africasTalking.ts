@@ -0,0 +1,27 @@
+import { HttpError } from "../../lib/http.js";
+import type { UssdGateway, UssdReply, UssdRequest } from "../types.js";
+
+// Africa's Talking posts a form with sessionId, serviceCode, phoneNumber and text. `text` holds every
+// entry of the session so far joined by "*", so only its last part is new. The reply is plain text that
+// starts with "CON" to wait for more input or "END" to hang up.
+export const africasTalkingGateway: UssdGateway = {
+  name: "africastalking",
+
+  parseRequest(body): UssdRequest {
+    const { sessionId, phoneNumber, text } = body;
+    if (typeof sessionId !== "string" || !sessionId || typeof phoneNumber !== "string" || !phoneNumber) {
+      throw new HttpError(400, "sessionId and phoneNumber are required");
+    }
+
+    const entries = typeof text === "string" && text !== "" ? text.split("*") : [];
+    return {
+      sessionId,
+      phoneNumber: phoneNumber.replace(/[\s-]/g, ""),
+      input: entries.length > 0 ? entries[entries.length - 1].trim() : null,
+    };
+  },
+
+  formatReply(reply: UssdReply) {
+    return { contentType: "text/plain", body: `${reply.end ? "END" : "CON"} ${reply.text}` };
+  },
+};
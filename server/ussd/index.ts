@@ -0,0 +1,13 @@
+import type { UssdGateway } from "./types.js";
+import { africasTalkingGateway } from "./gateways/africasTalking.js";
+
+export type { UssdGateway, UssdReply, UssdRequest } from "./types.js";
+
+// Each gateway calls back on /api/ussd/callback/<name>
+const GATEWAYS: Record<string, UssdGateway> = {
+  [africasTalkingGateway.name]: africasTalkingGateway,
+};
+
+export function getUssdGateway(name: string): UssdGateway | null {
+  return GATEWAYS[name] ?? null;
+}
@@ -0,0 +1,281 @@
+import { supabase } from "../lib/supabase.js";
+import { HttpError } from "../lib/http.js";
+import { getStreak } from "../lib/streaks.js";
+import { evaluateAchievements } from "../lib/achievements.js";
+import { answerModuleQuestion, completeModule } from "../lib/modules.js";
+import { linkPhoneWithCode } from "../lib/phoneLink.js";
+import { getModuleProgress, getOrCreateModuleQuiz, getQuiz, type StoredMcqQuestion, type StoredQuiz } from "../lib/quizzes.js";
+import { translateQuiz } from "../lib/translations.js";
+import type { UssdReply } from "./types.js";
+
+// Most handsets show at most 182 characters on one USSD screen
+export const USSD_MAX_CHARS = 182;
+const MAX_LINK_ATTEMPTS = 3;
+const MAX_MENU_ITEMS = 5;
+
+interface ModuleChoice {
+  module_id: string;
+  title: string;
+}
+
+export type UssdState =
+  | { screen: "link"; attempts: number }
+  | { screen: "main" }
+  | { screen: "subjects"; subjects: string[] }
+  | { screen: "modules"; modules: ModuleChoice[] }
+  | { screen: "question"; quiz_id: string; module_id: string; question_ids: string[]; index: number; correct: number }
+  | { screen: "finish"; module_id: string; correct: number; total: number }
+  // A message with nothing to choose; any key goes back to the main menu
+  | { screen: "notice" };
+
+export interface UssdStep {
+  reply: UssdReply;
+  state: UssdState;
+  userId: string | null;
+}
+
+function clip(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, Math.max(0, max - 1)).trimEnd()}…`;
+}
+
+function numbered(items: string[]): string[] {
+  return items.map((item, index) => `${index + 1}. ${clip(item, 40)}`);
+}
+
+// Picks the 1-based item the caller typed, or null for anything else
+function choice<T>(input: string, items: T[]): T | null {
+  const index = Number(input);
+  return Number.isInteger(index) && index >= 1 && index <= items.length ? items[index - 1] : null;
+}
+
+function screen(lines: string[], end = false): UssdReply {
+  return { text: clip(lines.filter((line) => line !== "").join("\n"), USSD_MAX_CHARS), end };
+}
+
+// Unfinished modules grouped by subject, most recent first
+async function getModulesBySubject(userId: string): Promise<Map<string, ModuleChoice[]>> {
+  const { data, error } = await supabase
+    .from("user_module_progress")
+    .select("module_id, title, learning_modules!inner(category, title)")
+    .eq("user_id", userId)
+    .eq("is_completed", false)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  const bySubject = new Map<string, ModuleChoice[]>();
+  for (const row of data ?? []) {
+    const module = row.learning_modules as { category: string | null; title: string };
+    const subject = module.category ?? "General";
+    const modules = bySubject.get(subject) ?? [];
+    if (!modules.some((item) => item.module_id === row.module_id)) {
+      modules.push({ module_id: row.module_id, title: row.title ?? module.title });
+    }
+    bySubject.set(subject, modules);
+  }
+  return bySubject;
+}
+
+async function achievementLine(userId: string): Promise<string> {
+  const earned = await evaluateAchievements(userId);
+  return earned.length > 0 ? `Achievement unlocked: ${earned[0].title}!` : "";
+}
+
+function mainMenu(userId: string, notice = ""): UssdStep {
+  return {
+    reply: screen([notice, "AI Learn", "1. Take a quiz", "2. My points and streak", "0. Exit"]),
+    state: { screen: "main" },
+    userId,
+  };
+}
+
+async function subjectsMenu(userId: string, notice = ""): Promise<UssdStep> {
+  const subjects = [...(await getModulesBySubject(userId)).keys()].slice(0, MAX_MENU_ITEMS);
+  if (subjects.length === 0) {
+    return {
+      reply: screen(["You have no modules to practise. Get new ones in AI Learn on the web.", "0. Main menu"]),
+      state: { screen: "notice" },
+      userId,
+    };
+  }
+  return {
+    reply: screen([notice, "Choose a subject", ...numbered(subjects), "0. Back"]),
+    state: { screen: "subjects", subjects },
+    userId,
+  };
+}
+
+// The quiz in the language the student reads the module in, as on the web
+async function localQuiz(userId: string, state: Extract<UssdState, { screen: "question" }>): Promise<StoredQuiz> {
+  const { language } = await getModuleProgress(userId, state.module_id);
+  return translateQuiz(await getQuiz(state.quiz_id), language);
+}
+
+async function questionScreen(
+  userId: string,
+  state: Extract<UssdState, { screen: "question" }>,
+  notice = "",
+): Promise<UssdStep> {
+  const quiz = await localQuiz(userId, state);
+  const question = quiz.questions.find((item) => item.id === state.question_ids[state.index]) as StoredMcqQuestion | undefined;
+  if (!question) throw new HttpError(404, "Question not found in this quiz");
+
+  const header = `Q${state.index + 1}/${state.question_ids.length}`;
+  const options = numbered(question.options);
+  // The question gives way to the options when the screen is short of room
+  const room = USSD_MAX_CHARS - [notice, header, ...options].join("\n").length - 2;
+  return { reply: screen([notice, `${header} ${clip(question.question, room)}`, ...options]), state, userId };
+}
+
+async function startQuiz(userId: string, module: ModuleChoice): Promise<UssdStep> {
+  const quiz = await getOrCreateModuleQuiz(module.module_id);
+  // Written questions need more than a keypad, so they are left for the web app
+  const questionIds = quiz.questions.filter((question) => question.type === "mcq").map((question) => question.id);
+  if (questionIds.length === 0) {
+    return {
+      reply: screen(["This module has no multiple-choice questions. Answer it in AI Learn on the web.", "0. Main menu"]),
+      state: { screen: "notice" },
+      userId,
+    };
+  }
+  return questionScreen(userId, {
+    screen: "question",
+    quiz_id: quiz.id,
+    module_id: module.module_id,
+    question_ids: questionIds,
+    index: 0,
+    correct: 0,
+  });
+}
+
+async function answer(userId: string, state: Extract<UssdState, { screen: "question" }>, input: string): Promise<UssdStep> {
+  const quiz = await localQuiz(userId, state);
+  const question = quiz.questions.find((item) => item.id === state.question_ids[state.index]) as StoredMcqQuestion | undefined;
+  if (!question) throw new HttpError(404, "Question not found in this quiz");
+
+  const option = choice(input, question.options);
+  if (!option) return questionScreen(userId, state, "Choose one of the numbers.");
+
+  // Recorded through the same path as the web app: attempts, points, mastery, reviews and streak
+  const graded = await answerModuleQuestion(userId, state.quiz_id, question.id, option);
+  const feedback = graded.correct
+    ? `Correct!${graded.points_awarded > 0 ? ` +${graded.points_awarded} points` : ""}`
+    : "Not quite. It will come back in your review.";
+  const notice = [feedback, await achievementLine(userId)].filter(Boolean).join(" ");
+  const correct = state.correct + (graded.correct ? 1 : 0);
+
+  if (state.index + 1 < state.question_ids.length) {
+    return questionScreen(userId, { ...state, index: state.index + 1, correct }, notice);
+  }
+
+  const total = state.question_ids.length;
+  return {
+    reply: screen([notice, `You got ${correct} of ${total} right.`, "1. Finish module", "0. Main menu"]),
+    state: { screen: "finish", module_id: state.module_id, correct, total },
+    userId,
+  };
+}
+
+async function finish(userId: string, moduleId: string): Promise<UssdStep> {
+  const completion = await completeModule(userId, moduleId);
+  const lines = completion.already_completed
+    ? ["This module was already completed."]
+    : [
+        `Module completed with ${completion.score ?? 0}%.`,
+        completion.points_awarded > 0 ? `+${completion.points_awarded} points` : "",
+        completion.badge ? `Badge: ${completion.badge.name}` : "",
+        completion.level.leveled_up ? `Level up: ${completion.level.current}` : "",
+        await achievementLine(userId),
+      ];
+  return { reply: screen([...lines, "0. Main menu"]), state: { screen: "notice" }, userId };
+}
+
+async function progress(userId: string): Promise<UssdStep> {
+  const { data: profile, error } = await supabase.from("profiles").select("total_points").eq("id", userId).single();
+  if (error) throw error;
+  const streak = await getStreak(userId);
+
+  return {
+    reply: screen([
+      `Points: ${profile.total_points}`,
+      `Streak: ${streak.streak_days} day${streak.streak_days === 1 ? "" : "s"} (best ${streak.longest_streak})`,
+      `Streak freezes: ${streak.streak_freezes}`,
+      streak.active_today ? "You have learnt today." : "Answer a question to keep your streak.",
+      "0. Main menu",
+    ]),
+    state: { screen: "notice" },
+    userId,
+  };
+}
+
+async function link(phoneNumber: string, attempts: number, input: string): Promise<UssdStep> {
+  const userId = /^[0-9]{6}$/.test(input) ? await linkPhoneWithCode(input, phoneNumber) : null;
+  if (userId) return mainMenu(userId, "Your phone is now linked.");
+
+  if (attempts + 1 >= MAX_LINK_ATTEMPTS) {
+    return {
+      reply: screen(["That code did not work. Get a new code in AI Learn on the web and dial again."], true),
+      state: { screen: "link", attempts: attempts + 1 },
+      userId: null,
+    };
+  }
+  return {
+    reply: screen(["That code did not work.", "Enter the 6-digit code from your AI Learn dashboard:"]),
+    state: { screen: "link", attempts: attempts + 1 },
+    userId: null,
+  };
+}
+
+// The first screen of a new session
+export function start(userId: string | null): UssdStep {
+  if (userId) return mainMenu(userId);
+  return {
+    reply: screen(["Welcome to AI Learn.", "To link this phone, enter the 6-digit code from your AI Learn dashboard:"]),
+    state: { screen: "link", attempts: 0 },
+    userId: null,
+  };
+}
+
+// Moves the caller one step through the menus
+export async function respond(
+  phoneNumber: string,
+  userId: string | null,
+  state: UssdState,
+  input: string,
+): Promise<UssdStep> {
+  if (state.screen === "link" || !userId) {
+    return link(phoneNumber, state.screen === "link" ? state.attempts : 0, input);
+  }
+
+  switch (state.screen) {
+    case "main":
+      if (input === "1") return subjectsMenu(userId);
+      if (input === "2") return progress(userId);
+      if (input === "0") return { reply: screen(["Goodbye! Keep learning."], true), state, userId };
+      return mainMenu(userId, "Choose 1, 2 or 0.");
+    case "subjects": {
+      if (input === "0") return mainMenu(userId);
+      const subject = choice(input, state.subjects);
+      if (!subject) return subjectsMenu(userId, "Choose one of the numbers.");
+      const modules = ((await getModulesBySubject(userId)).get(subject) ?? []).slice(0, MAX_MENU_ITEMS);
+      return {
+        reply: screen([subject, ...numbered(modules.map((module) => module.title)), "0. Back"]),
+        state: { screen: "modules", modules },
+        userId,
+      };
+    }
+    case "modules": {
+      if (input === "0") return subjectsMenu(userId);
+      const module = choice(input, state.modules);
+      if (!module) return subjectsMenu(userId, "Choose one of the numbers.");
+      return startQuiz(userId, module);
+    }
+    case "question":
+      return answer(userId, state, input);
+    case "finish":
+      if (input === "1") return finish(userId, state.module_id);
+      return mainMenu(userId);
+    case "notice":
+      return mainMenu(userId);
+  }
+}
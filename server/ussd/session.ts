@@ -0,0 +1,72 @@
+import { supabase } from "../lib/supabase.js";
+import { findUserByPhone } from "../lib/phoneLink.js";
+import type { Json } from "../../src/integrations/supabase/types.js";
+import { respond, start, type UssdState } from "./menu.js";
+import type { UssdReply, UssdRequest } from "./types.js";
+
+// Gateways time sessions out within minutes; rows left behind by dropped calls are cleared after this
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const E164 = /^\+[1-9][0-9]{6,14}$/;
+
+async function clearStaleSessions(): Promise<void> {
+  const { error } = await supabase
+    .from("ussd_sessions")
+    .delete()
+    .lt("updated_at", new Date(Date.now() - SESSION_MAX_AGE_MS).toISOString());
+  if (error) throw error;
+}
+
+// Runs one key press through the menus, keeping where the caller is between presses
+export async function handleUssdRequest(gateway: string, request: UssdRequest): Promise<UssdReply> {
+  if (!E164.test(request.phoneNumber)) {
+    return { text: "This service needs a phone number in international format.", end: true };
+  }
+
+  const { data: session, error } = await supabase
+    .from("ussd_sessions")
+    .select("user_id, state")
+    .eq("gateway", gateway)
+    .eq("session_id", request.sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  let step;
+  try {
+    if (!session || request.input === null) {
+      await clearStaleSessions();
+      step = start(await findUserByPhone(request.phoneNumber));
+    } else {
+      step = await respond(request.phoneNumber, session.user_id, session.state as unknown as UssdState, request.input);
+    }
+  } catch (err) {
+    // The caller only ever sees a screen, so failures end the session politely
+    console.error("[api] USSD request failed:", err);
+    step = null;
+  }
+
+  if (!step || step.reply.end) {
+    const { error: deleteError } = await supabase
+      .from("ussd_sessions")
+      .delete()
+      .eq("gateway", gateway)
+      .eq("session_id", request.sessionId);
+    if (deleteError) throw deleteError;
+    return step?.reply ?? { text: "Sorry, something went wrong. Please dial again.", end: true };
+  }
+
+  const { error: saveError } = await supabase.from("ussd_sessions").upsert(
+    {
+      gateway,
+      session_id: request.sessionId,
+      phone_number: request.phoneNumber,
+      user_id: step.userId,
+      state: step.state as unknown as Json,
+    },
+    { onConflict: "gateway,session_id" },
+  );
+
+  if (saveError) throw saveError;
+  return step.reply;
+}
@@ -0,0 +1,46 @@
+// Plays a feature phone against a running API server, posting the same form an Africa's Talking gateway
+// would. Usage: npm run ussd:simulate -- +254712345678
+import "dotenv/config";
+import { randomUUID } from "node:crypto";
+import { createInterface } from "node:readline/promises";
+
+const baseUrl = process.env.USSD_SIMULATOR_URL ?? `http://localhost:${process.env.PORT || 3000}`;
+const secret = process.env.USSD_CALLBACK_SECRET;
+const phoneNumber = process.argv[2] ?? "+254700000000";
+
+if (!secret) {
+  console.error("Set USSD_CALLBACK_SECRET to the value the server uses.");
+  process.exit(1);
+}
+
+const url = `${baseUrl}/api/ussd/callback/africastalking?secret=${encodeURIComponent(secret)}`;
+const sessionId = randomUUID();
+const entries: string[] = [];
+const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+try {
+  for (;;) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        sessionId,
+        serviceCode: process.env.USSD_SERVICE_CODE ?? "*384#",
+        phoneNumber,
+        text: entries.join("*"),
+      }),
+    });
+    const reply = await response.text();
+    if (!response.ok) {
+      console.error(`Gateway callback failed (${response.status}): ${reply}`);
+      process.exitCode = 1;
+      break;
+    }
+
+    console.log(`\n${reply.slice(4)}\n`);
+    if (reply.startsWith("END")) break;
+    entries.push((await rl.question("> ")).trim());
+  }
+} finally {
+  rl.close();
+}
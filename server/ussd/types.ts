@@ -0,0 +1,19 @@
+// One key press from a caller, in gateway-neutral form
+export interface UssdRequest {
+  sessionId: string;
+  phoneNumber: string;
+  // What the caller just entered; null when the session has only been opened
+  input: string | null;
+}
+
+// The next screen; `end` closes the session on the phone
+export interface UssdReply {
+  text: string;
+  end: boolean;
+}
+
+export interface UssdGateway {
+  readonly name: string;
+  parseRequest(body: Record<string, unknown>): UssdRequest;
+  formatReply(reply: UssdReply): { contentType: string; body: string };
+}
@@ -0,0 +1,88 @@
+import { Award, BookOpen, Crown, Flame, GraduationCap, Loader2, Lock, Repeat, Star, Target, Trophy, type LucideIcon } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useAchievements, type Achievement } from "@/hooks/useAchievements";
+import { useI18n } from "@/hooks/useI18n";
+
+// Achievements name their icon and colour; anything unknown falls back to a plain award
+const ICONS: Record<string, LucideIcon> = {
+  "book-open": BookOpen,
+  "graduation-cap": GraduationCap,
+  trophy: Trophy,
+  crown: Crown,
+  flame: Flame,
+  star: Star,
+  repeat: Repeat,
+  target: Target,
+};
+
+const COLORS: Record<string, string> = {
+  green: "bg-green-100 text-green-600",
+  blue: "bg-blue-100 text-blue-600",
+  yellow: "bg-yellow-100 text-yellow-600",
+  orange: "bg-orange-100 text-orange-600",
+  red: "bg-red-100 text-red-600",
+  purple: "bg-purple-100 text-purple-600",
+};
+
+function AchievementCard({ achievement }: { achievement: Achievement }) {
+  const { t, formatDate } = useI18n();
+  const Icon = ICONS[achievement.icon] ?? Award;
+  const earned = !!achievement.earned_at;
+
+  return (
+    <Card className={earned ? "" : "opacity-75"}>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-start gap-3">
+          <div className={`p-3 rounded-full ${earned ? COLORS[achievement.badge_color] ?? COLORS.purple : "bg-gray-100 text-gray-400"}`}>
+            <Icon className="h-6 w-6" />
+          </div>
+          <div className="flex-1">
+            <p className="font-semibold flex items-center gap-1">
+              {achievement.title}
+              {!earned && <Lock className="h-3 w-3 text-muted-foreground" />}
+            </p>
+            <p className="text-sm text-muted-foreground">{achievement.description}</p>
+          </div>
+        </div>
+        {earned ? (
+          <p className="text-xs text-muted-foreground">
+            {t("student.badges.earnedOn", { date: formatDate(achievement.earned_at!) })}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <Progress value={(achievement.progress / achievement.threshold) * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground text-right">
+              {achievement.progress}/{achievement.threshold}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Every achievement the student can earn: unlocked ones first, locked ones with progress toward them
+export default function AchievementsGrid() {
+  const { data: achievements = [], isLoading, error } = useAchievements();
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (error) return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  if (achievements.length === 0) return <p className="text-sm text-muted-foreground">No achievements yet.</p>;
+
+  const earned = achievements.filter((achievement) => achievement.earned_at);
+  const locked = achievements.filter((achievement) => !achievement.earned_at);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {earned.length} of {achievements.length} unlocked
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {[...earned, ...locked].map((achievement) => (
+          <AchievementCard key={achievement.id} achievement={achievement} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useMemo } from "react";
+import { Loader2 } from "lucide-react";
+import { useActivityHistory, type DailyActivity } from "@/hooks/useStreak";
+
+const DAY_MS = 86_400_000;
+
+// Today's date in the student's timezone as YYYY-MM-DD
+function localToday(timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" }).format(new Date());
+}
+
+function activityScore(day: DailyActivity | undefined): number {
+  if (!day) return 0;
+  return day.quiz_answers + day.reviews_done + day.sections_read + day.modules_completed * 3;
+}
+
+function cellColor(day: DailyActivity | undefined): string {
+  if (day?.freeze_used) return "bg-sky-300";
+  const score = activityScore(day);
+  if (score === 0) return "bg-muted";
+  if (score < 3) return "bg-green-200";
+  if (score < 6) return "bg-green-400";
+  if (score < 10) return "bg-green-600";
+  return "bg-green-800";
+}
+
+export default function ActivityHeatmap({ userId, timezone, weeks = 12 }: { userId: string; timezone: string; weeks?: number }) {
+  const { data: history = [], isLoading, error } = useActivityHistory(userId, weeks * 7);
+
+  // Columns are weeks (oldest first), rows are Monday to Sunday
+  const columns = useMemo(() => {
+    const byDate = new Map(history.map((day) => [day.activity_date, day]));
+    const today = Date.parse(localToday(timezone));
+    const mondayOffset = (new Date(today).getUTCDay() + 6) % 7;
+    const start = today - ((weeks - 1) * 7 + mondayOffset) * DAY_MS;
+
+    return Array.from({ length: weeks }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => {
+        const time = start + (week * 7 + weekday) * DAY_MS;
+        const date = new Date(time).toISOString().slice(0, 10);
+        return { date, future: time > today, day: byDate.get(date) };
+      }),
+    );
+  }, [history, timezone, weeks]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 overflow-x-auto">
+        {columns.map((column, index) => (
+          <div key={index} className="flex flex-col gap-1">
+            {column.map(({ date, future, day }) => (
+              <div
+                key={date}
+                className={`h-3 w-3 rounded-sm ${future ? "opacity-0" : cellColor(day)}`}
+                title={
+                  day?.freeze_used
+                    ? `${date}: streak freeze used`
+                    : `${date}: ${day?.quiz_answers ?? 0} answers, ${day?.reviews_done ?? 0} reviews, ${day?.sections_read ?? 0} sections read, ${day?.modules_completed ?? 0} modules completed`
+                }
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>Less</span>
+        <div className="h-3 w-3 rounded-sm bg-muted" />
+        <div className="h-3 w-3 rounded-sm bg-green-200" />
+        <div className="h-3 w-3 rounded-sm bg-green-400" />
+        <div className="h-3 w-3 rounded-sm bg-green-600" />
+        <div className="h-3 w-3 rounded-sm bg-green-800" />
+        <span>More</span>
+        <div className="h-3 w-3 rounded-sm bg-sky-300 ml-4" />
+        <span>Freeze</span>
+      </div>
+    </div>
+  );
+}
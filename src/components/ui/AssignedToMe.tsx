@@ -0,0 +1,155 @@
+import { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import AssignmentStatusBadge from "@/components/ui/AssignmentStatusBadge";
+import {
+  useAssignmentContent,
+  useMyAssignments,
+  useSubmitAssignment,
+  type StudentAssignment,
+} from "@/hooks/useAssignments";
+import { useI18n } from "@/hooks/useI18n";
+
+function attemptsLeft(assignment: StudentAssignment): number | null {
+  return assignment.max_attempts === null ? null : Math.max(assignment.max_attempts - assignment.attempts_used, 0);
+}
+
+function canSubmit(assignment: StudentAssignment): boolean {
+  if (assignment.status === "upcoming") return false;
+  if (attemptsLeft(assignment) === 0) return false;
+  return assignment.allow_late || new Date() <= new Date(assignment.due_at);
+}
+
+function AssignmentDialog({ assignmentId, onClose }: { assignmentId: string; onClose: () => void }) {
+  const { t, formatDate } = useI18n();
+  const { data: assignment, isLoading, error } = useAssignmentContent(assignmentId);
+  const submitAssignment = useSubmitAssignment();
+  const [response, setResponse] = useState("");
+
+  const handleSubmit = () => {
+    submitAssignment.mutate(
+      { assignmentId, response: response.trim() || undefined },
+      {
+        onSuccess: () => {
+          toast.success(t("student.assignments.handedIn"));
+          onClose();
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{assignment?.title ?? t("student.assignments.fallbackTitle")}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+          </div>
+        ) : error ? (
+          <p className="text-red-500 text-center">{(error as Error).message}</p>
+        ) : assignment ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <AssignmentStatusBadge status={assignment.status} />
+              <span>{t("student.assignments.due", { date: formatDate(assignment.due_at, "PPp") })}</span>
+              {assignment.max_attempts !== null && (
+                <span>
+                  {t("student.assignments.attemptsLeft", {
+                    left: attemptsLeft(assignment) ?? 0,
+                    max: assignment.max_attempts,
+                  })}
+                </span>
+              )}
+            </div>
+            {assignment.instructions && <p className="italic">{assignment.instructions}</p>}
+            <div className="prose max-w-none">
+              <ReactMarkdown>{assignment.content ?? ""}</ReactMarkdown>
+            </div>
+            {canSubmit(assignment) && (
+              <div className="space-y-2 border-t pt-4">
+                <Textarea
+                  placeholder={t("student.assignments.responsePlaceholder")}
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                  rows={4}
+                />
+                <Button onClick={handleSubmit} disabled={submitAssignment.isPending}>
+                  {submitAssignment.isPending ? t("student.assignments.handingIn") : t("student.assignments.handIn")}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Lessons and academic pieces the student's teachers have assigned, soonest due first
+export default function AssignedToMe({ userId }: { userId: string | null | undefined }) {
+  const { t, formatDate } = useI18n();
+  const { data: assignments = [], isLoading, error } = useMyAssignments(userId);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  }
+
+  if (assignments.length === 0) {
+    return <p className="text-gray-500 text-center">{t("student.assignments.empty")}</p>;
+  }
+
+  return (
+    <>
+      <ul className="space-y-2">
+        {assignments.map((assignment) => (
+          <li
+            key={assignment.id}
+            className={`flex justify-between items-center rounded-md border p-3 ${
+              assignment.status === "overdue" ? "border-red-300 bg-red-50" : ""
+            }`}
+          >
+            <div>
+              <div className="font-medium">{assignment.title}</div>
+              <div className="text-sm text-muted-foreground">
+                {assignment.class_name} ·{" "}
+                {assignment.status === "upcoming"
+                  ? t("student.assignments.opens", { date: formatDate(assignment.open_at, "PPp") })
+                  : t("student.assignments.due", { date: formatDate(assignment.due_at, "PPp") })}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <AssignmentStatusBadge status={assignment.status} />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={assignment.status === "upcoming"}
+                onClick={() => setOpenId(assignment.id)}
+              >
+                {t("student.assignments.open")}
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {openId && <AssignmentDialog assignmentId={openId} onClose={() => setOpenId(null)} />}
+    </>
+  );
+}
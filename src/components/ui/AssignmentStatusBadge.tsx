@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import type { AssignmentStatus } from "@/hooks/useAssignments";
+import { useI18n } from "@/hooks/useI18n";
+
+const STATUS_STYLES: Record<AssignmentStatus, string> = {
+  upcoming: "bg-gray-100 text-gray-700",
+  open: "bg-blue-100 text-blue-700",
+  overdue: "bg-red-100 text-red-700",
+  submitted: "bg-green-100 text-green-700",
+  late: "bg-amber-100 text-amber-700",
+};
+
+export default function AssignmentStatusBadge({ status }: { status: AssignmentStatus }) {
+  const { t } = useI18n();
+  return (
+    <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[status]}`}>
+      {t(`assignmentStatus.${status}`)}
+    </Badge>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import AssignmentStatusBadge from "@/components/ui/AssignmentStatusBadge";
+import { useRoster } from "@/hooks/useClasses";
+import {
+  useAssignmentProgress,
+  useClassAssignments,
+  useCreateAssignment,
+  useDeleteAssignment,
+  type ClassAssignment,
+} from "@/hooks/useAssignments";
+import { useI18n } from "@/hooks/useI18n";
+
+// The teacher's saved lessons and academic pieces, as "lesson:<id>" / "academic:<id>" options
+function useAssignableContent() {
+  return useQuery({
+    queryKey: ["assignableContent"],
+    queryFn: async () => {
+      const [lessons, academic] = await Promise.all([
+        supabase.from("lessons").select("id, title").is("deleted_at", null).order("created_at", { ascending: false }),
+        supabase.from("academic").select("id, topic").is("deleted_at", null).order("created_at", { ascending: false }),
+      ]);
+      if (lessons.error) throw lessons.error;
+      if (academic.error) throw academic.error;
+      return [
+        ...(lessons.data ?? []).map((lesson) => ({ value: `lesson:${lesson.id}`, kind: "lesson" as const, title: lesson.title })),
+        ...(academic.data ?? []).map((piece) => ({ value: `academic:${piece.id}`, kind: "academic" as const, title: piece.topic })),
+      ];
+    },
+  });
+}
+
+function ProgressTable({ assignmentId }: { assignmentId: string }) {
+  const { t, formatDate } = useI18n();
+  const { data: progress = [], isLoading, error } = useAssignmentProgress(assignmentId);
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (error) return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  if (progress.length === 0) return <p className="text-gray-500">{t("teacher.assignments.noStudents")}</p>;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t("teacher.assignments.columns.student")}</TableHead>
+          <TableHead>{t("teacher.assignments.columns.status")}</TableHead>
+          <TableHead className="text-right">{t("teacher.assignments.columns.attempts")}</TableHead>
+          <TableHead>{t("teacher.assignments.columns.lastSubmitted")}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {progress.map((row) => (
+          <TableRow key={row.student_id}>
+            <TableCell>{row.full_name}</TableCell>
+            <TableCell>
+              <AssignmentStatusBadge status={row.status} />
+            </TableCell>
+            <TableCell className="text-right">{row.attempts_used}</TableCell>
+            <TableCell>{row.last_submitted_at ? formatDate(row.last_submitted_at, "PPp") : "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function AssignmentRow({ assignment }: { assignment: ClassAssignment }) {
+  const { t, formatDate } = useI18n();
+  const [showProgress, setShowProgress] = useState(false);
+  const deleteAssignment = useDeleteAssignment();
+
+  return (
+    <div className="border rounded-md p-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <div className="font-medium">{assignment.title}</div>
+          <div className="text-sm text-muted-foreground">
+            {t("teacher.assignments.summary", {
+              date: formatDate(assignment.due_at, "PPp"),
+              submitted: assignment.submitted,
+              assigned: assignment.assigned,
+            })}
+            {assignment.late > 0 && ` · ${t("teacher.assignments.late", { count: assignment.late })}`}
+            {assignment.overdue > 0 && ` · ${t("teacher.assignments.overdue", { count: assignment.overdue })}`}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowProgress((show) => !show)}>
+            {showProgress ? t("teacher.assignments.hideStatus") : t("teacher.assignments.status")}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={deleteAssignment.isPending}
+            onClick={() => {
+              if (!confirm(t("teacher.assignments.deleteConfirm"))) return;
+              deleteAssignment.mutate(assignment.id, { onError: (err) => toast.error(err.message) });
+            }}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      {showProgress && (
+        <div className="mt-2">
+          <ProgressTable assignmentId={assignment.id} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// datetime-local inputs hold local time without a zone; the API expects ISO timestamps
+function toIso(local: string): string | undefined {
+  return local ? new Date(local).toISOString() : undefined;
+}
+
+export default function ClassAssignments({ classId }: { classId: string }) {
+  const { t } = useI18n();
+  const { data: assignments = [], isLoading, error } = useClassAssignments(classId);
+  const { data: content = [] } = useAssignableContent();
+  const { data: roster = [] } = useRoster(classId);
+  const createAssignment = useCreateAssignment();
+
+  const [contentValue, setContentValue] = useState("");
+  const [openAt, setOpenAt] = useState("");
+  const [dueAt, setDueAt] = useState("");
+  const [maxAttempts, setMaxAttempts] = useState("");
+  const [allowLate, setAllowLate] = useState(true);
+  const [instructions, setInstructions] = useState("");
+  const [chosen, setChosen] = useState<string[]>([]);
+
+  const handleAssign = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contentValue) return toast.error(t("teacher.assignments.chooseContent"));
+    const [kind, id] = contentValue.split(":");
+
+    createAssignment.mutate(
+      {
+        class_id: classId,
+        ...(kind === "lesson" ? { lesson_id: id } : { academic_id: id }),
+        student_ids: chosen.length > 0 ? chosen : undefined,
+        instructions: instructions.trim() || undefined,
+        open_at: toIso(openAt),
+        due_at: toIso(dueAt)!,
+        max_attempts: maxAttempts ? Number(maxAttempts) : null,
+        allow_late: allowLate,
+      },
+      {
+        onSuccess: () => {
+          toast.success(t("teacher.assignments.created"));
+          setContentValue("");
+          setOpenAt("");
+          setDueAt("");
+          setMaxAttempts("");
+          setInstructions("");
+          setChosen([]);
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleAssign} className="space-y-2 border rounded-md p-3 bg-muted/30">
+        <div className="flex flex-wrap gap-2">
+          <Select value={contentValue} onValueChange={setContentValue}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder={t("teacher.assignments.content")} />
+            </SelectTrigger>
+            <SelectContent>
+              {content.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {t(`teacher.assignments.contentLabels.${item.kind}`, { title: item.title })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input className="w-56" placeholder={t("teacher.assignments.instructions")} value={instructions} onChange={(e) => setInstructions(e.target.value)} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Label htmlFor={`open-${classId}`}>{t("teacher.assignments.opens")}</Label>
+          <Input id={`open-${classId}`} type="datetime-local" className="w-52" value={openAt} onChange={(e) => setOpenAt(e.target.value)} />
+          <Label htmlFor={`due-${classId}`}>{t("teacher.assignments.due")}</Label>
+          <Input id={`due-${classId}`} type="datetime-local" className="w-52" value={dueAt} onChange={(e) => setDueAt(e.target.value)} required />
+          <Input
+            type="number"
+            min={1}
+            className="w-36"
+            placeholder={t("teacher.assignments.maxAttempts")}
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(e.target.value)}
+          />
+          <Switch id={`late-${classId}`} checked={allowLate} onCheckedChange={setAllowLate} />
+          <Label htmlFor={`late-${classId}`}>{t("teacher.assignments.allowLate")}</Label>
+        </div>
+        {roster.length > 0 && (
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span className="text-muted-foreground">{t("teacher.assignments.onlyFor")}</span>
+            {roster.map((student) => (
+              <label key={student.student_id} className="flex items-center gap-1">
+                <Checkbox
+                  checked={chosen.includes(student.student_id)}
+                  onCheckedChange={(checked) =>
+                    setChosen((current) =>
+                      checked ? [...current, student.student_id] : current.filter((id) => id !== student.student_id),
+                    )
+                  }
+                />
+                {student.full_name}
+              </label>
+            ))}
+          </div>
+        )}
+        <Button type="submit" size="sm" disabled={createAssignment.isPending}>
+          {createAssignment.isPending ? t("teacher.assignments.assigning") : t("teacher.assignments.assign")}
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      ) : error ? (
+        <p className="text-red-500 text-center">{(error as Error).message}</p>
+      ) : assignments.length === 0 ? (
+        <p className="text-gray-500">{t("teacher.assignments.empty")}</p>
+      ) : (
+        assignments.map((assignment) => <AssignmentRow key={assignment.id} assignment={assignment} />)
+      )}
+    </div>
+  );
+}
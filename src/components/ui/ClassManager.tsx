@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { ClipboardList, Copy, Link, Loader2, RefreshCw, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ClassAssignments from "@/components/ui/ClassAssignments";
+import {
+  joinLink,
+  useClasses,
+  useCreateClass,
+  useRegenerateJoinCode,
+  useRemoveStudent,
+  useRoster,
+  type ClassSummary,
+} from "@/hooks/useClasses";
+import { subjectsForForm, useSyllabusCatalog } from "@/hooks/useSyllabus";
+import { useI18n } from "@/hooks/useI18n";
+
+function Roster({ classId }: { classId: string }) {
+  const { t, formatDate } = useI18n();
+  const { data: students = [], isLoading, error } = useRoster(classId);
+  const removeStudent = useRemoveStudent(classId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  }
+
+  if (students.length === 0) {
+    return <p className="text-gray-500 text-center py-2">{t("teacher.classes.noStudents")}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t("teacher.classes.columns.student")}</TableHead>
+          <TableHead className="text-right">{t("teacher.classes.columns.points")}</TableHead>
+          <TableHead className="text-right">{t("teacher.classes.columns.modules")}</TableHead>
+          <TableHead className="text-right">{t("teacher.classes.columns.streak")}</TableHead>
+          <TableHead>{t("teacher.classes.columns.lastActive")}</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {students.map((student) => (
+          <TableRow key={student.student_id}>
+            <TableCell>
+              <div className="font-medium">{student.full_name}</div>
+              <div className="text-xs text-muted-foreground">{student.email}</div>
+            </TableCell>
+            <TableCell className="text-right">{student.total_points}</TableCell>
+            <TableCell className="text-right">{student.completed_modules}</TableCell>
+            <TableCell className="text-right">{student.streak_days}</TableCell>
+            <TableCell>{student.last_active_date ? formatDate(`${student.last_active_date}T00:00:00`) : "—"}</TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={removeStudent.isPending}
+                onClick={() => {
+                  if (!confirm(t("teacher.classes.removeConfirm", { name: student.full_name }))) return;
+                  removeStudent.mutate(student.student_id, {
+                    onError: (err) => toast.error(err.message),
+                  });
+                }}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function ClassCard({ classInfo }: { classInfo: ClassSummary }) {
+  const { t } = useI18n();
+  const [showRoster, setShowRoster] = useState(false);
+  const [showAssignments, setShowAssignments] = useState(false);
+  const regenerate = useRegenerateJoinCode();
+
+  const copyText = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(message);
+    } catch {
+      prompt(t("teacher.toast.copyManually"), text);
+    }
+  };
+
+  return (
+    <Card className="p-3 my-2">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <div className="font-semibold">{classInfo.name}</div>
+          <div className="text-sm text-muted-foreground">
+            {classInfo.form} · {classInfo.subject} · {classInfo.term}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="font-mono text-lg tracking-widest px-2 py-1 rounded bg-muted">{classInfo.join_code}</span>
+          <Button variant="ghost" size="sm" title={t("teacher.classes.copyCode")} onClick={() => copyText(classInfo.join_code, t("teacher.classes.codeCopied"))}>
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" title={t("teacher.classes.copyLink")} onClick={() => copyText(joinLink(classInfo.join_code), t("teacher.classes.linkCopied"))}>
+            <Link className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t("teacher.classes.newCode")}
+            disabled={regenerate.isPending}
+            onClick={() => {
+              if (!confirm(t("teacher.classes.newCodeConfirm"))) return;
+              regenerate.mutate(classInfo.id, { onError: (err) => toast.error(err.message) });
+            }}
+          >
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex gap-2 mt-2">
+        <Button variant="outline" size="sm" onClick={() => setShowRoster((show) => !show)}>
+          <Users className="w-4 h-4 mr-1" />
+          {showRoster ? t("teacher.classes.hideRoster") : t("teacher.classes.roster", { count: classInfo.student_count ?? 0 })}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setShowAssignments((show) => !show)}>
+          <ClipboardList className="w-4 h-4 mr-1" />
+          {showAssignments ? t("teacher.classes.hideAssignments") : t("teacher.classes.assignments")}
+        </Button>
+      </div>
+      {showRoster && (
+        <div className="mt-2">
+          <Roster classId={classInfo.id} />
+        </div>
+      )}
+      {showAssignments && (
+        <div className="mt-2">
+          <ClassAssignments classId={classInfo.id} />
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Teachers create classes and share the join code; students join from their dashboard
+export default function ClassManager({ userId }: { userId: string | null | undefined }) {
+  const { t } = useI18n();
+  const { data: classes = [], isLoading, error } = useClasses(userId);
+  const createClass = useCreateClass();
+  const { data: catalog } = useSyllabusCatalog();
+  const [name, setName] = useState("");
+  const [form, setForm] = useState("");
+  const [subject, setSubject] = useState("");
+  const [term, setTerm] = useState("");
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createClass.mutate(
+      { name, form, subject, term },
+      {
+        onSuccess: (created) => {
+          toast.success(t("teacher.classes.created", { code: created.join_code }));
+          setName("");
+          setForm("");
+          setSubject("");
+          setTerm("");
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+        <Input className="w-48" placeholder={t("teacher.classes.name")} value={name} onChange={(e) => setName(e.target.value)} required />
+        {/* Form and subject come from the national syllabus so coverage can be reported on the class */}
+        <Select
+          value={form || undefined}
+          onValueChange={(value) => {
+            setForm(value);
+            if (!subjectsForForm(catalog, value).includes(subject)) setSubject("");
+          }}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue placeholder={t("teacher.classes.form")} />
+          </SelectTrigger>
+          <SelectContent>
+            {(catalog?.forms ?? []).map((item) => (
+              <SelectItem key={item.form} value={item.form}>
+                {item.form}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={subject || undefined} onValueChange={setSubject} disabled={!form}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder={t("teacher.classes.subject")} />
+          </SelectTrigger>
+          <SelectContent>
+            {subjectsForForm(catalog, form).map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input className="w-36" placeholder={t("teacher.classes.term")} value={term} onChange={(e) => setTerm(e.target.value)} required />
+        <Button type="submit" disabled={!form || !subject || createClass.isPending}>
+          {createClass.isPending ? t("teacher.classes.creating") : t("teacher.classes.create")}
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+        </div>
+      ) : error ? (
+        <p className="text-red-500 text-center">{(error as Error).message}</p>
+      ) : classes.length === 0 ? (
+        <p>{t("teacher.classes.empty")}</p>
+      ) : (
+        classes.map((classInfo) => <ClassCard key={classInfo.id} classInfo={classInfo} />)
+      )}
+    </div>
+  );
+}
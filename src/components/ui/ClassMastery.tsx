@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useClasses } from "@/hooks/useClasses";
+import { useClassMastery } from "@/hooks/useMastery";
+import { useI18n } from "@/hooks/useI18n";
+
+// Skill by skill, how far one class has got, weakest first within each subject
+export default function ClassMastery({ userId }: { userId: string | null | undefined }) {
+  const { t } = useI18n();
+  const { data: classes = [] } = useClasses(userId);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const classId = selectedClassId ?? classes[0]?.id ?? null;
+  const { data, isLoading, error } = useClassMastery(classId);
+
+  if (classes.length === 0) return <p className="text-sm text-muted-foreground">{t("teacher.mastery.noClasses")}</p>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={classId ?? undefined} onValueChange={setSelectedClassId}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder={t("teacher.mastery.class")} />
+          </SelectTrigger>
+          <SelectContent>
+            {classes.map((classInfo) => (
+              <SelectItem key={classInfo.id} value={classInfo.id}>
+                {classInfo.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data && <span className="text-sm text-muted-foreground">{t("teacher.mastery.students", { count: data.student_count })}</span>}
+      </div>
+
+      {isLoading && <Loader2 className="animate-spin w-5 h-5 text-gray-500" />}
+      {error && <p className="text-red-500 text-center">{(error as Error).message}</p>}
+      {data && data.skills.length === 0 && (
+        <p className="text-sm text-muted-foreground">{t("teacher.mastery.empty")}</p>
+      )}
+      {data && data.skills.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("teacher.mastery.columns.subject")}</TableHead>
+              <TableHead>{t("teacher.mastery.columns.skill")}</TableHead>
+              <TableHead className="w-48">{t("teacher.mastery.columns.average")}</TableHead>
+              <TableHead className="text-right">{t("teacher.mastery.columns.mastered")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.skills.map((skill) => (
+              <TableRow key={`${skill.subject}:${skill.skill}`}>
+                <TableCell>{skill.subject}</TableCell>
+                <TableCell>{skill.skill}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Progress value={skill.average * 100} className="h-2" />
+                    <span className="text-sm w-10 text-right">{Math.round(skill.average * 100)}%</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {skill.mastered}/{skill.students}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import MDEditor from "@uiw/react-md-editor";
+import { Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SyllabusPicker from "@/components/ui/SyllabusPicker";
+import { useUpdateContent, type ContentItem, type ContentKind } from "@/hooks/useContentRevisions";
+import { useSyllabusCatalog, useSyllabusNode } from "@/hooks/useSyllabus";
+import { useI18n } from "@/hooks/useI18n";
+
+// Edits a saved lesson or academic piece and its syllabus topic; every change to the text is kept as a revision
+export default function ContentEditor({
+  kind,
+  item,
+  onSaved,
+}: {
+  kind: ContentKind;
+  item: ContentItem;
+  onSaved: (item: ContentItem) => void;
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState(item.title);
+  const [content, setContent] = useState(item.content ?? "");
+  const [subject, setSubject] = useState("");
+  const [form, setForm] = useState("");
+  const [nodeId, setNodeId] = useState<string | null>(item.syllabus_node_id ?? null);
+  const updateContent = useUpdateContent(kind);
+  const { data: catalog } = useSyllabusCatalog();
+  const subjects = [...new Set((catalog?.subjects ?? []).map((entry) => entry.name))];
+  // The current tag says which subject and form to list topics from
+  const { data: taggedNode } = useSyllabusNode(open ? item.syllabus_node_id : null);
+
+  useEffect(() => {
+    if (!taggedNode) return;
+    setSubject(taggedNode.subject);
+    setForm(taggedNode.form);
+  }, [taggedNode]);
+
+  const openEditor = () => {
+    setTitle(item.title);
+    setContent(item.content ?? "");
+    setNodeId(item.syllabus_node_id ?? null);
+    setOpen(true);
+  };
+
+  const handleSave = () => {
+    updateContent.mutate(
+      { id: item.id, title: title.trim(), content, syllabus_node_id: nodeId },
+      {
+        onSuccess: (saved) => {
+          toast.success(t("teacher.contentEditor.saved"));
+          onSaved(saved);
+          setOpen(false);
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  const unchanged =
+    title.trim() === item.title && content === (item.content ?? "") && nodeId === (item.syllabus_node_id ?? null);
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" title={t("teacher.contentEditor.edit")} onClick={openEditor}>
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{t(`teacher.contentEditor.titles.${kind}`)}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3" data-color-mode="light">
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={t("teacher.contentEditor.title")} />
+            <div className="flex flex-wrap gap-2">
+              <Select
+                value={subject || undefined}
+                onValueChange={(value) => {
+                  setSubject(value);
+                  setNodeId(null);
+                }}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder={t("teacher.syllabusSubject")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <SyllabusPicker
+                subject={subject}
+                form={form}
+                nodeId={nodeId}
+                onChange={(selection) => {
+                  setForm(selection.form);
+                  setNodeId(selection.nodeId);
+                }}
+              />
+            </div>
+            <MDEditor value={content} onChange={(value) => setContent(value ?? "")} height={420} />
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={!title.trim() || unchanged || updateContent.isPending}>
+                {updateContent.isPending ? t("teacher.contentEditor.saving") : t("teacher.save")}
+              </Button>
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                {t("teacher.contentEditor.cancel")}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
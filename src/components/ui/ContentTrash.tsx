@@ -0,0 +1,67 @@
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useRestoreFromTrash, useTrash } from "@/hooks/useContentRevisions";
+import { useI18n } from "@/hooks/useI18n";
+
+function daysLeft(purgeAt: string): number {
+  return Math.max(Math.ceil((Date.parse(purgeAt) - Date.now()) / 86_400_000), 0);
+}
+
+// Deleted lessons and academic pieces, recoverable until they are purged after 30 days
+export default function ContentTrash({ onRestored }: { onRestored: () => void }) {
+  const { t, formatDate } = useI18n();
+  const { data: items = [], isLoading, error } = useTrash();
+  const restore = useRestoreFromTrash();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  }
+
+  if (items.length === 0) {
+    return <p className="text-gray-500">{t("teacher.trashList.empty")}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.id} className="flex items-center justify-between gap-2 rounded border p-2">
+          <div>
+            <div className="font-medium">{item.title}</div>
+            <div className="text-xs text-muted-foreground">
+              {t(`teacher.trashList.kinds.${item.kind}`)} · {t("teacher.trashList.deleted", { date: formatDate(item.deleted_at) })} ·{" "}
+              {t("teacher.trashList.daysLeft", { count: daysLeft(item.purge_at) })}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={restore.isPending}
+            onClick={() =>
+              restore.mutate(
+                { kind: item.kind, id: item.id },
+                {
+                  onSuccess: () => {
+                    toast.success(t("teacher.trashList.restored"));
+                    onRestored();
+                  },
+                  onError: (err) => toast.error(err.message),
+                },
+              )
+            }
+          >
+            <RotateCcw className="w-4 h-4 mr-1" /> {t("teacher.trashList.restore")}
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,292 @@
+import { useMemo, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { apiDownload } from "@/lib/api";
+import { useClasses } from "@/hooks/useClasses";
+import {
+  useDeleteGradeOverride,
+  useGradebook,
+  useSaveGradeOverride,
+  type GradebookCell,
+  type GradebookColumn,
+  type GradebookRow,
+  type GradebookView,
+} from "@/hooks/useGradebook";
+import { useI18n } from "@/hooks/useI18n";
+
+// "name", "average" or a column id
+type SortKey = string;
+
+interface Editing {
+  row: GradebookRow;
+  column: GradebookColumn;
+  cell: GradebookCell;
+}
+
+function scoreColor(score: number | null): string {
+  if (score === null) return "";
+  if (score >= 85) return "text-green-700";
+  if (score >= 50) return "text-amber-700";
+  return "text-red-700";
+}
+
+function CellContent({ cell }: { cell: GradebookCell }) {
+  const { t } = useI18n();
+  return (
+    <div className="leading-tight">
+      <div className={`font-semibold ${scoreColor(cell.score)}`}>
+        {cell.score !== null ? `${cell.score}%` : cell.completed ? "✓" : cell.status === "overdue" ? t("teacher.grades.overdue") : "—"}
+        {cell.override_id && <span title={cell.comment ?? t("teacher.grades.overridden")}>*</span>}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {t("teacher.grades.attempts", { count: cell.attempts })}
+        {cell.time_taken_minutes !== null && ` · ${t("common.minutes", { minutes: cell.time_taken_minutes })}`}
+      </div>
+    </div>
+  );
+}
+
+function OverrideDialog({ editing, view, onClose }: { editing: Editing; view: GradebookView; onClose: () => void }) {
+  const { t } = useI18n();
+  const saveOverride = useSaveGradeOverride();
+  const deleteOverride = useDeleteGradeOverride();
+  const [score, setScore] = useState(editing.cell.score?.toString() ?? "");
+  const [comment, setComment] = useState(editing.cell.comment ?? "");
+
+  const handleSave = () => {
+    saveOverride.mutate(
+      {
+        student_id: editing.row.student_id,
+        ...(view === "modules" ? { module_id: editing.column.id } : { assignment_id: editing.column.id }),
+        score: Number(score),
+        comment: comment.trim() || undefined,
+      },
+      {
+        onSuccess: () => {
+          toast.success(t("teacher.grades.saved"));
+          onClose();
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  const handleClear = () => {
+    deleteOverride.mutate(editing.cell.override_id!, {
+      onSuccess: () => {
+        toast.success(t("teacher.grades.overrideRemoved"));
+        onClose();
+      },
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {editing.row.full_name} · {editing.column.title}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {editing.cell.computed_score !== null
+              ? t("teacher.grades.computedScore", { score: editing.cell.computed_score })
+              : t("teacher.grades.noComputedScore")}
+          </p>
+          <div className="space-y-1">
+            <Label htmlFor="override-score">{t("teacher.grades.grade")}</Label>
+            <Input id="override-score" type="number" min={0} max={100} value={score} onChange={(e) => setScore(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="override-comment">{t("teacher.grades.comment")}</Label>
+            <Textarea id="override-comment" rows={3} value={comment} onChange={(e) => setComment(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={score === "" || saveOverride.isPending}>
+              {t("teacher.grades.save")}
+            </Button>
+            {editing.cell.override_id && (
+              <Button variant="outline" onClick={handleClear} disabled={deleteOverride.isPending}>
+                {t("teacher.grades.removeOverride")}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Students by modules or assignments for one class, with grade overrides and CSV export
+export default function Gradebook({ userId }: { userId: string | null | undefined }) {
+  const { t, formatDate } = useI18n();
+  const { data: classes = [] } = useClasses(userId);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const classId = selectedClassId ?? classes[0]?.id ?? null;
+  const [view, setView] = useState<GradebookView>("modules");
+  const [search, setSearch] = useState("");
+  const [incompleteOnly, setIncompleteOnly] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>("name");
+  const [descending, setDescending] = useState(false);
+  const [editing, setEditing] = useState<Editing | null>(null);
+
+  const { data: gradebook, isLoading, error } = useGradebook(classId, view);
+
+  const rows = useMemo(() => {
+    if (!gradebook) return [];
+    const needle = search.trim().toLowerCase();
+    const filtered = gradebook.rows.filter(
+      (row) =>
+        (!needle || row.full_name.toLowerCase().includes(needle)) &&
+        (!incompleteOnly || Object.values(row.cells).some((cell) => !cell.completed)),
+    );
+
+    const value = (row: GradebookRow): string | number => {
+      if (sortKey === "name") return row.full_name.toLowerCase();
+      if (sortKey === "average") return row.average ?? -1;
+      return row.cells[sortKey]?.score ?? -1;
+    };
+
+    return [...filtered].sort((a, b) => {
+      const order = value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0;
+      return descending ? -order : order;
+    });
+  }, [gradebook, search, incompleteOnly, sortKey, descending]);
+
+  const sortBy = (key: SortKey) => {
+    if (sortKey === key) setDescending((current) => !current);
+    else {
+      setSortKey(key);
+      setDescending(key !== "name");
+    }
+  };
+
+  const sortMark = (key: SortKey) => (sortKey === key ? (descending ? " ↓" : " ↑") : "");
+
+  const handleExport = () => {
+    if (!classId) return;
+    apiDownload(`/api/gradebook/${classId}/export?view=${view}`, `gradebook-${view}.csv`).catch((err: Error) =>
+      toast.error(err.message),
+    );
+  };
+
+  if (classes.length === 0) {
+    return <p>{t("teacher.grades.noClasses")}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={classId ?? undefined} onValueChange={setSelectedClassId}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder={t("teacher.grades.class")} />
+          </SelectTrigger>
+          <SelectContent>
+            {classes.map((classInfo) => (
+              <SelectItem key={classInfo.id} value={classInfo.id}>
+                {classInfo.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={view}
+          onValueChange={(value) => {
+            setView(value as GradebookView);
+            setSortKey("name");
+            setDescending(false);
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="modules">{t("teacher.grades.views.modules")}</SelectItem>
+            <SelectItem value="assignments">{t("teacher.grades.views.assignments")}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input className="w-48" placeholder={t("teacher.grades.filter")} value={search} onChange={(e) => setSearch(e.target.value)} />
+        <div className="flex items-center gap-2">
+          <Switch id="incomplete-only" checked={incompleteOnly} onCheckedChange={setIncompleteOnly} />
+          <Label htmlFor="incomplete-only">{t("teacher.grades.incompleteOnly")}</Label>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={!gradebook}>
+          <Download className="w-4 h-4 mr-1" /> CSV
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+        </div>
+      ) : error ? (
+        <p className="text-red-500 text-center">{(error as Error).message}</p>
+      ) : !gradebook || gradebook.rows.length === 0 ? (
+        <p className="text-gray-500">{t("teacher.grades.noStudents")}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => sortBy("name")}>
+                  {t("teacher.grades.student")}
+                  {sortMark("name")}
+                </TableHead>
+                {gradebook.columns.map((column) => (
+                  <TableHead
+                    key={column.id}
+                    className="cursor-pointer min-w-[7rem]"
+                    title={column.due_at ? t("teacher.grades.due", { date: formatDate(column.due_at, "PPp") }) : undefined}
+                    onClick={() => sortBy(column.id)}
+                  >
+                    {column.title}
+                    {sortMark(column.id)}
+                  </TableHead>
+                ))}
+                <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => sortBy("average")}>
+                  {t("teacher.grades.average")}
+                  {sortMark("average")}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.student_id}>
+                  <TableCell className="font-medium whitespace-nowrap">{row.full_name}</TableCell>
+                  {gradebook.columns.map((column) => {
+                    const cell = row.cells[column.id];
+                    return (
+                      <TableCell
+                        key={column.id}
+                        className={cell ? "cursor-pointer hover:bg-muted" : "bg-muted/30"}
+                        onClick={() => cell && setEditing({ row, column, cell })}
+                      >
+                        {cell ? <CellContent cell={cell} /> : null}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className={`font-semibold ${scoreColor(row.average)}`}>
+                    {row.average !== null ? `${row.average}%` : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground mt-2">{t("teacher.grades.legend")}</p>
+        </div>
+      )}
+
+      {editing && <OverrideDialog editing={editing} view={view} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { I18nContext } from "@/hooks/useI18n";
+import { createTranslator, isSupportedLanguage, LANGUAGES, readStoredLanguage, storeLanguage } from "@/lib/i18n";
+
+// The interface language follows the signed-in user's profile, and the device's choice before sign-in
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState(readStoredLanguage);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // A profile that has no language yet takes the one picked on this device
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    supabase
+      .from("profiles")
+      .select("language")
+      .eq("id", userId)
+      .maybeSingle()
+      .then(async ({ data }) => {
+        if (cancelled || !data) return;
+        if (isSupportedLanguage(data.language)) {
+          storeLanguage(data.language);
+          setLanguageState(data.language);
+        } else {
+          await supabase.from("profiles").update({ language: readStoredLanguage() }).eq("id", userId);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback(
+    async (next: string) => {
+      storeLanguage(next);
+      setLanguageState(next);
+      if (!userId) return;
+      const { error } = await supabase.from("profiles").update({ language: next }).eq("id", userId);
+      if (error) throw error;
+    },
+    [userId],
+  );
+
+  const value = useMemo(
+    () => ({ ...createTranslator(language), languages: LANGUAGES, setLanguage }),
+    [language, setLanguage],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
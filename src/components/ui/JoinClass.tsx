@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useClasses, useJoinClass, useLeaveClass } from "@/hooks/useClasses";
+import { useI18n } from "@/hooks/useI18n";
+
+// A join link (/student/dashboard?join=CODE) fills in the code for the student
+export default function JoinClass({ userId }: { userId: string | null | undefined }) {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [code, setCode] = useState(searchParams.get("join") ?? "");
+  const { data: classes = [], isLoading } = useClasses(userId);
+  const joinClass = useJoinClass();
+  const leaveClass = useLeaveClass();
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    joinClass.mutate(code, {
+      onSuccess: (joined) => {
+        toast.success(t("student.classes.joined", { name: joined.name }));
+        setCode("");
+        if (searchParams.has("join")) {
+          searchParams.delete("join");
+          setSearchParams(searchParams, { replace: true });
+        }
+      },
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleJoin} className="flex gap-2">
+        <Input
+          className="w-40 font-mono uppercase tracking-widest"
+          placeholder={t("student.classes.codePlaceholder")}
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          maxLength={12}
+          required
+        />
+        <Button type="submit" disabled={joinClass.isPending}>
+          {joinClass.isPending ? t("student.classes.joining") : t("student.classes.join")}
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      ) : classes.length === 0 ? (
+        <p className="text-gray-500">{t("student.classes.empty")}</p>
+      ) : (
+        <ul className="space-y-2">
+          {classes.map((classInfo) => (
+            <li key={classInfo.id} className="flex justify-between items-center border-b py-2">
+              <div>
+                <div className="font-medium">{classInfo.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {classInfo.subject} · {classInfo.form} · {classInfo.term}
+                  {classInfo.teacher_name && ` · ${classInfo.teacher_name}`}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                title={t("student.classes.leave")}
+                disabled={leaveClass.isPending}
+                onClick={() => {
+                  if (!confirm(t("student.classes.leaveConfirm", { name: classInfo.name }))) return;
+                  leaveClass.mutate(classInfo.id, { onError: (err) => toast.error(err.message) });
+                }}
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Languages } from "lucide-react";
+import { toast } from "sonner";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useI18n } from "@/hooks/useI18n";
+
+export default function LanguageSwitcher({ className = "w-36" }: { className?: string }) {
+  const { language, languages, setLanguage, t } = useI18n();
+
+  return (
+    <Select
+      value={language}
+      onValueChange={(next) => setLanguage(next).catch(() => toast.error(t("language.saveFailed")))}
+    >
+      <SelectTrigger className={className} aria-label={t("language.label")}>
+        <Languages className="h-4 w-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {languages.map((option) => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
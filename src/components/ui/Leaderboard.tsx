@@ -1,28 +1,183 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Trophy } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api";
+import { useClasses } from "@/hooks/useClasses";
+import { useI18n } from "@/hooks/useI18n";
 
-export default function Leaderboard() {
-  const [leaders, setLeaders] = useState([]);
+export type LeaderboardScope = "all" | "class" | "school" | "form" | "subject";
+export type LeaderboardPeriod = "weekly" | "monthly" | "term" | "all_time";
+export type LeaderboardVisibility = "full_name" | "first_name" | "initials" | "anonymous";
 
-  useEffect(() => {
-    fetch("/api/leaderboard")
-      .then((res) => res.json())
-      .then(setLeaders);
-  }, []);
+export interface LeaderboardEntry {
+  rank: number;
+  // Only set on the viewer's own row
+  user_id: string | null;
+  display_name: string;
+  points: number;
+  is_current_user: boolean;
+}
+
+interface LeaderboardResponse {
+  scope: LeaderboardScope;
+  period: LeaderboardPeriod;
+  class_id: string | null;
+  entries: LeaderboardEntry[];
+  current_user: LeaderboardEntry | null;
+}
+
+const SCOPES: Exclude<LeaderboardScope, "class">[] = ["all", "school", "form", "subject"];
+const PERIODS: LeaderboardPeriod[] = ["weekly", "monthly", "term", "all_time"];
+const VISIBILITIES: LeaderboardVisibility[] = ["full_name", "first_name", "initials", "anonymous"];
+
+function EntryRow({ entry }: { entry: LeaderboardEntry }) {
+  const { t } = useI18n();
+  return (
+    <li
+      className={`flex justify-between items-center rounded-md px-2 py-2 ${
+        entry.is_current_user ? "bg-primary/10 font-semibold" : "border-b"
+      }`}
+    >
+      <span>
+        {entry.rank}. {entry.display_name}
+        {entry.is_current_user && t("student.leaderboard.you")}
+      </span>
+      <span className="text-blue-600 font-semibold">{t("student.leaderboard.points", { points: entry.points })}</span>
+    </li>
+  );
+}
+
+// `visibility` is the signed-in student's own setting; omit userId to hide the privacy control
+export default function Leaderboard({
+  userId,
+  visibility,
+  limit = 10,
+}: {
+  userId?: string | null;
+  visibility?: LeaderboardVisibility;
+  limit?: number;
+}) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  // Class leaderboards are selected as "class:<id>"
+  const [scopeValue, setScopeValue] = useState("all");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("weekly");
+  const { data: classes = [] } = useClasses(userId);
+
+  const [scope, classId] = scopeValue.startsWith("class:")
+    ? (["class", scopeValue.slice("class:".length)] as const)
+    : ([scopeValue as LeaderboardScope, null] as const);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["leaderboard", scope, classId, period, limit],
+    queryFn: () =>
+      apiFetch<LeaderboardResponse>(
+        `/api/leaderboard?scope=${scope}&period=${period}&limit=${limit}${classId ? `&classId=${classId}` : ""}`,
+      ),
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: async (value: LeaderboardVisibility) => {
+      const { error } = await supabase.from("profiles").update({ leaderboard_visibility: value }).eq("id", userId!);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+      toast.success(t("student.leaderboard.privacyUpdated"));
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const currentUser = data?.current_user;
+  const outsideTop = currentUser && !data.entries.some((entry) => entry.is_current_user);
 
   return (
     <Card className="p-6 rounded-2xl shadow-md">
-      <h2 className="text-xl font-semibold mb-4">🏆 Leaderboard</h2>
-      <ul>
-        {leaders.map((user, i) => (
-          <li key={user.user_id} className="flex justify-between border-b py-2">
-            <span>
-              {i + 1}. User {user.user_id.slice(0, 6)}...
-            </span>
-            <span className="text-blue-600 font-semibold">{user.total_score} pts</span>
-          </li>
-        ))}
-      </ul>
+      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <Trophy className="h-5 w-5 text-yellow-500" />
+        {t("student.leaderboard.title")}
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Select value={scopeValue} onValueChange={setScopeValue}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SCOPES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t(`student.leaderboard.scopes.${value}`)}
+              </SelectItem>
+            ))}
+            {classes.map((classInfo) => (
+              <SelectItem key={classInfo.id} value={`class:${classInfo.id}`}>
+                {classInfo.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t(`student.leaderboard.periods.${value}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+        </div>
+      ) : error ? (
+        <p className="text-red-500 text-center">{(error as Error).message}</p>
+      ) : !data || data.entries.length === 0 ? (
+        <p className="text-gray-500 text-center">{t("student.leaderboard.empty")}</p>
+      ) : (
+        <ul className="space-y-1">
+          {data.entries.map((entry, index) => (
+            <EntryRow key={index} entry={entry} />
+          ))}
+          {outsideTop && (
+            <>
+              <li className="text-center text-gray-400">…</li>
+              <EntryRow entry={currentUser} />
+            </>
+          )}
+        </ul>
+      )}
+
+      {userId && (
+        <div className="flex items-center justify-between gap-2 mt-4 pt-4 border-t text-sm">
+          <span className="text-muted-foreground">{t("student.leaderboard.seeMeAs")}</span>
+          <Select
+            value={visibility ?? "first_name"}
+            onValueChange={(value) => visibilityMutation.mutate(value as LeaderboardVisibility)}
+            disabled={visibilityMutation.isPending}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VISIBILITIES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`student.leaderboard.visibility.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
     </Card>
   );
 }
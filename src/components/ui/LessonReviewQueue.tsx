@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import MDEditor from "@uiw/react-md-editor";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useReviewQueue, useTransitionLesson, type ReviewQueueItem } from "@/hooks/useLessonWorkflow";
+import { useI18n } from "@/hooks/useI18n";
+
+function ReviewItem({ item }: { item: ReviewQueueItem }) {
+  const { t, formatDate } = useI18n();
+  const transition = useTransitionLesson();
+  const [showContent, setShowContent] = useState(false);
+  const [comment, setComment] = useState("");
+  const [publishAt, setPublishAt] = useState("");
+
+  const review = (action: "approve" | "reject") => {
+    transition.mutate(
+      {
+        lessonId: item.id,
+        action,
+        comment: comment.trim() || undefined,
+        publishAt: action === "approve" && publishAt ? new Date(publishAt).toISOString() : undefined,
+      },
+      {
+        onSuccess: () => toast.success(action === "approve" ? t("teacher.lessonReviews.approved") : t("teacher.lessonReviews.sentBack")),
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <Card className="p-3 my-2 space-y-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="font-semibold">{item.title}</div>
+          <div className="text-sm text-muted-foreground">
+            {item.teacher_name ?? t("teacher.lessonReviews.unknownTeacher")}
+            {item.submitted_at && ` · ${t("teacher.lessonReviews.submitted", { date: formatDate(item.submitted_at, "PPp") })}`}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setShowContent((show) => !show)}>
+          {showContent ? t("teacher.lessonReviews.hide") : t("teacher.lessonReviews.read")}
+        </Button>
+      </div>
+      {showContent && (
+        <Card className="p-2 bg-muted">
+          <MDEditor.Markdown source={item.content ?? ""} />
+        </Card>
+      )}
+      <Textarea rows={2} placeholder={t("teacher.lessonReviews.comment")} value={comment} onChange={(e) => setComment(e.target.value)} />
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="datetime-local"
+          className="w-52 h-9"
+          title={t("teacher.lessonReviews.publishAt")}
+          value={publishAt}
+          onChange={(e) => setPublishAt(e.target.value)}
+        />
+        <Button size="sm" disabled={transition.isPending} onClick={() => review("approve")}>
+          {publishAt ? t("teacher.lessonReviews.approveSchedule") : t("teacher.lessonReviews.approvePublish")}
+        </Button>
+        <Button size="sm" variant="outline" disabled={transition.isPending || !comment.trim()} onClick={() => review("reject")}>
+          {t("teacher.lessonReviews.requestChanges")}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+// Lessons from teachers at the head of department's institution that are waiting for approval
+export default function LessonReviewQueue() {
+  const { t } = useI18n();
+  const { data: queue = [], isLoading, error } = useReviewQueue(true);
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (error) return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  if (queue.length === 0) return <p>{t("teacher.lessonReviews.empty")}</p>;
+
+  return (
+    <>
+      {queue.map((item) => (
+        <ReviewItem key={item.id} item={item} />
+      ))}
+    </>
+  );
+}
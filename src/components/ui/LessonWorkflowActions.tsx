@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  lessonDisplayStatus,
+  useTransitionLesson,
+  type LessonAction,
+  type LessonDisplayStatus,
+  type LessonWorkflowState,
+  type WorkflowLesson,
+} from "@/hooks/useLessonWorkflow";
+import { useI18n } from "@/hooks/useI18n";
+
+const STATUS_STYLES: Record<LessonDisplayStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  in_review: "bg-amber-100 text-amber-700",
+  scheduled: "bg-sky-100 text-sky-700",
+  published: "bg-green-100 text-green-700",
+  archived: "bg-slate-200 text-slate-600",
+};
+
+export function LessonStatusBadge({ lesson }: { lesson: WorkflowLesson }) {
+  const { t, formatDate } = useI18n();
+  const status = lessonDisplayStatus(lesson);
+  return (
+    <Badge
+      variant="outline"
+      className={`border-transparent ${STATUS_STYLES[status]}`}
+      title={status === "scheduled" ? t("teacher.workflow.publishes", { date: formatDate(lesson.publish_at!, "PPp") }) : undefined}
+    >
+      {t(`teacher.statusLabels.${status}`)}
+    </Badge>
+  );
+}
+
+// The lifecycle buttons an author sees for one of their lessons
+export default function LessonWorkflowActions({
+  lesson,
+  approvalRequired,
+  onChange,
+}: {
+  lesson: WorkflowLesson;
+  approvalRequired: boolean;
+  onChange: (state: LessonWorkflowState) => void;
+}) {
+  const { t } = useI18n();
+  const transition = useTransitionLesson();
+  const [publishAt, setPublishAt] = useState("");
+
+  const run = (action: LessonAction, successMessage: string) => {
+    transition.mutate(
+      { lessonId: lesson.id, action, publishAt: action === "publish" && publishAt ? new Date(publishAt).toISOString() : undefined },
+      {
+        onSuccess: (state) => {
+          onChange(state);
+          setPublishAt("");
+          toast.success(successMessage);
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  const disabled = transition.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      {lesson.status === "draft" && (
+        <>
+          <Button size="sm" variant="outline" disabled={disabled} onClick={() => run("submit", t("teacher.workflow.submitted"))}>
+            {t("teacher.workflow.submit")}
+          </Button>
+          {!approvalRequired && (
+            <>
+              <Input
+                type="datetime-local"
+                className="w-52 h-9"
+                title={t("teacher.workflow.publishAt")}
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+              />
+              <Button size="sm" disabled={disabled} onClick={() => run("publish", publishAt ? t("teacher.workflow.scheduled") : t("teacher.workflow.published"))}
+              >
+                {publishAt ? t("teacher.workflow.schedule") : t("teacher.workflow.publish")}
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant="ghost" disabled={disabled} onClick={() => run("archive", t("teacher.workflow.archived"))}>
+            {t("teacher.workflow.archive")}
+          </Button>
+        </>
+      )}
+      {lesson.status === "in_review" && (
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => run("withdraw", t("teacher.workflow.withdrawn"))}>
+          {t("teacher.workflow.withdraw")}
+        </Button>
+      )}
+      {lesson.status === "published" && (
+        <>
+          <Button size="sm" variant="outline" disabled={disabled} onClick={() => run("unpublish", t("teacher.workflow.unpublished"))}>
+            {lessonDisplayStatus(lesson) === "scheduled" ? t("teacher.workflow.cancelSchedule") : t("teacher.workflow.unpublish")}
+          </Button>
+          <Button size="sm" variant="ghost" disabled={disabled} onClick={() => run("archive", t("teacher.workflow.archived"))}>
+            {t("teacher.workflow.archive")}
+          </Button>
+        </>
+      )}
+      {lesson.status === "archived" && (
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => run("restore", t("teacher.workflow.restored"))}>
+          {t("teacher.workflow.restore")}
+        </Button>
+      )}
+      {lesson.status === "draft" && lesson.review_comment && (
+        <p className="w-full text-sm text-amber-700">{t("teacher.workflow.reviewer", { comment: lesson.review_comment })}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect } from "react";
+import { CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/useI18n";
+import { useOfflinePack, useOfflineQueue, useOnlineStatus, useSyncOfflineEvents } from "@/hooks/useOffline";
+
+// Says when the student is working offline, keeps their modules downloaded and sends queued work once they reconnect
+export default function OfflineIndicator({ userId }: { userId: string | null | undefined }) {
+  const { t } = useI18n();
+  const online = useOnlineStatus();
+  const { data: pack } = useOfflinePack(userId);
+  const { data: queue = [] } = useOfflineQueue(userId);
+  const { mutate, isPending: syncing } = useSyncOfflineEvents(userId);
+  const pending = queue.length;
+
+  const syncNow = useCallback(() => {
+    mutate(undefined, {
+      onSuccess: (summary) => {
+        if (summary.synced > 0) toast.success(t("student.offline.synced", { count: summary.synced }));
+        if (summary.conflicts.length > 0) {
+          const count = summary.conflicts.length;
+          const reason = (summary.conflicts[0].result as { error?: string } | null)?.error;
+          toast.warning(
+            reason
+              ? t("student.offline.notAppliedReason", { count, reason })
+              : t("student.offline.notApplied", { count }),
+          );
+        }
+        summary.achievements.forEach((achievement) =>
+          toast.success(t("common.achievementUnlocked", { title: achievement.title })),
+        );
+      },
+      onError: (err) => toast.error(t("student.offline.syncFailed", { message: err.message })),
+    });
+  }, [mutate, t]);
+
+  // Sync as soon as the connection comes back or something new is queued while online
+  useEffect(() => {
+    if (online && pending > 0) syncNow();
+  }, [online, pending, syncNow]);
+
+  if (!online) {
+    return (
+      <div className="mb-4 flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+        <CloudOff className="h-4 w-4 shrink-0" />
+        <span>
+          {t("student.offline.offline")}{" "}
+          {pack?.modules.length
+            ? t("student.offline.modulesAvailable", { count: pack.modules.length })
+            : t("student.offline.noModules")}{" "}
+          {pending > 0 && t("student.offline.willSync", { count: pending })}
+        </span>
+      </div>
+    );
+  }
+
+  if (pending === 0) return null;
+
+  return (
+    <div className="mb-4 flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+      {syncing ? <Loader2 className="h-4 w-4 shrink-0 animate-spin" /> : <RefreshCw className="h-4 w-4 shrink-0" />}
+      <span className="flex-1">
+        {syncing
+          ? t("student.offline.syncing", { count: pending })
+          : t("student.offline.waiting", { count: pending })}
+      </span>
+      {!syncing && (
+        <Button size="sm" variant="outline" onClick={syncNow}>
+          {t("student.offline.syncNow")}
+        </Button>
+      )}
+    </div>
+  );
+}
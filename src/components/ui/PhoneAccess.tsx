@@ -0,0 +1,73 @@
+import { Loader2, Unlink } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/useI18n";
+import { useCreatePhoneLinkCode, usePhoneLink, useUnlinkPhone } from "@/hooks/usePhoneLink";
+
+// Links a basic phone to the account so the student can take quizzes over USSD without data
+export default function PhoneAccess({ userId }: { userId: string | null | undefined }) {
+  const { t, formatDate } = useI18n();
+  const { data: link, isLoading, error, refetch, isFetching } = usePhoneLink(!!userId);
+  const createCode = useCreatePhoneLinkCode();
+  const unlink = useUnlinkPhone();
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (error) return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  if (!link) return null;
+
+  const dial = link.service_code
+    ? t("student.phone.dialCode", { code: link.service_code })
+    : t("student.phone.dialDefault");
+
+  if (link.phone_number) {
+    return (
+      <div className="flex justify-between items-center gap-4">
+        <div>
+          <div className="font-medium font-mono">{link.phone_number}</div>
+          <div className="text-sm text-muted-foreground">
+            {t("student.phone.linkedHint", { dial })}
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          title={t("student.phone.unlink")}
+          disabled={unlink.isPending}
+          onClick={() => {
+            if (!confirm(t("student.phone.unlinkConfirm", { phone: link.phone_number ?? "" }))) return;
+            unlink.mutate(undefined, { onError: (err) => toast.error(err.message) });
+          }}
+        >
+          <Unlink className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const code = createCode.data;
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {t("student.phone.intro")}
+      </p>
+      {code ? (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {t("student.phone.enterCode", { dial, time: formatDate(code.expires_at, "p") })}
+          </p>
+          <div className="text-3xl font-mono tracking-widest">{code.code}</div>
+          <Button variant="outline" size="sm" disabled={isFetching} onClick={() => refetch()}>
+            {isFetching ? t("student.phone.checking") : t("student.phone.entered")}
+          </Button>
+        </div>
+      ) : (
+        <Button
+          disabled={createCode.isPending}
+          onClick={() => createCode.mutate(undefined, { onError: (err) => toast.error(err.message) })}
+        >
+          {createCode.isPending ? t("student.phone.gettingCode") : t("student.phone.link")}
+        </Button>
+      )}
+    </div>
+  );
+}
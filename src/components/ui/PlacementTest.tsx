@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { useI18n } from "@/hooks/useI18n";
+import { useAnswerPlacement, useStartPlacement, type PlacementStep } from "@/hooks/usePlacement";
+
+// The adaptive placement test: one question at a time until the server is confident of the level
+export default function PlacementTest({
+  subject,
+  label,
+  variant = "default",
+}: {
+  subject?: string | null;
+  label: string;
+  variant?: "default" | "outline";
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<PlacementStep | null>(null);
+  const [answer, setAnswer] = useState("");
+  const startPlacement = useStartPlacement();
+  const answerPlacement = useAnswerPlacement();
+
+  const start = () => {
+    setOpen(true);
+    setStep(null);
+    setAnswer("");
+    startPlacement.mutate(subject ?? undefined, {
+      onSuccess: setStep,
+      onError: (err) => {
+        toast.error(err.message);
+        setOpen(false);
+      },
+    });
+  };
+
+  const submit = () => {
+    if (!step || step.finished || !answer) return;
+    answerPlacement.mutate(
+      { assessmentId: step.assessment_id, answer },
+      {
+        onSuccess: (next) => {
+          setStep(next);
+          setAnswer("");
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <>
+      <Button variant={variant} size="sm" onClick={start}>
+        {label}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {step?.subject
+                ? t("student.placementTest.titleSubject", { subject: step.subject })
+                : t("student.placementTest.title")}
+            </DialogTitle>
+          </DialogHeader>
+          {!step && <Loader2 className="animate-spin w-6 h-6 mx-auto text-gray-500" />}
+          {step && "question" in step && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  {t("student.placementTest.questionAtMost", {
+                    number: step.question.number,
+                    max: step.question.max_questions,
+                  })}
+                </p>
+                <Progress value={(step.question.number / step.question.max_questions) * 100} />
+              </div>
+              <p className="font-semibold">{step.question.question}</p>
+              <div className="space-y-2">
+                {step.question.options.map((option) => (
+                  <label
+                    key={option}
+                    className={`flex items-center gap-2 p-3 rounded border cursor-pointer ${
+                      answer === option ? "bg-blue-50 border-blue-200" : "hover:bg-gray-50"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="placement-answer"
+                      value={option}
+                      checked={answer === option}
+                      onChange={() => setAnswer(option)}
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+              <Button onClick={submit} disabled={!answer || answerPlacement.isPending}>
+                {answerPlacement.isPending ? t("student.placementTest.checking") : t("student.placementTest.next")}
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                {t("student.placementTest.adaptive")}
+              </p>
+            </div>
+          )}
+          {step && "result" in step && (
+            <div className="space-y-3 text-center">
+              <p>
+                {t("student.placementTest.result", {
+                  count: step.result.questions_answered,
+                  subject: step.result.subject,
+                })}
+              </p>
+              <p className="text-2xl font-bold">{t(`difficulty.${step.result.skill_level}`)}</p>
+              <p className="text-sm text-muted-foreground">{t("student.placementTest.resultNote")}</p>
+              <Button onClick={() => setOpen(false)}>{t("student.placementTest.done")}</Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
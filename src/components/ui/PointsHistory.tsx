@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Coins } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+import { useI18n } from "@/hooks/useI18n";
+
+export interface PointTransaction {
+  id: string;
+  user_id: string;
+  amount: number;
+  reason: string;
+  description: string | null;
+  source_module_id: string | null;
+  source_quiz_id: string | null;
+  created_at: string;
+  full_name?: string | null;
+}
+
+const REASONS = ["quiz_correct", "quiz_overturned", "review_correct", "module_complete", "opening_balance"] as const;
+
+function isKnownReason(reason: string): reason is (typeof REASONS)[number] {
+  return (REASONS as readonly string[]).includes(reason);
+}
+
+// Without a userId the signed-in student's history is shown; `recent` lists all students for teachers
+export default function PointsHistory({ userId, recent = false, limit = 20 }: { userId?: string; recent?: boolean; limit?: number }) {
+  const { t, formatDate } = useI18n();
+  const path = recent
+    ? `/api/points/recent?limit=${limit}`
+    : `/api/points/history${userId ? `/${userId}` : ""}?limit=${limit}`;
+
+  const { data: transactions = [], isLoading, error } = useQuery({
+    queryKey: ["pointsHistory", recent ? "recent" : userId ?? "me", limit],
+    queryFn: () => apiFetch<PointTransaction[]>(path),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+        <span className="ml-2 text-gray-500">{t("pointsHistory.loading")}</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  }
+
+  if (transactions.length === 0) {
+    return <p className="text-gray-500 text-center">{t("pointsHistory.empty")}</p>;
+  }
+
+  const reasonLabel = (reason: string) => (isKnownReason(reason) ? t(`pointsHistory.reasons.${reason}`) : reason);
+
+  return (
+    <ul className="divide-y">
+      {transactions.map((transaction) => (
+        <li key={transaction.id} className="flex items-center justify-between py-2 gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Coins className="h-4 w-4 text-yellow-500 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {recent && transaction.full_name ? `${transaction.full_name} · ` : ""}
+                {transaction.description || reasonLabel(transaction.reason)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {reasonLabel(transaction.reason)} · {formatDate(transaction.created_at, "PPp")}
+              </p>
+            </div>
+          </div>
+          <span className={`font-semibold ${transaction.amount > 0 ? "text-green-600" : "text-red-600"}`}>
+            {transaction.amount > 0 ? "+" : ""}{transaction.amount}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
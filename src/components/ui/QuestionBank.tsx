@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { Archive, Copy, Loader2, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import QuestionEditor from "@/components/ui/QuestionEditor";
+import {
+  QUESTIONS_PER_PAGE,
+  useArchiveQuestion,
+  useCopyQuestion,
+  useCreateQuiz,
+  useQuestionSearch,
+  useTeacherQuizQuestions,
+  useTeacherQuizzes,
+  type BankQuestion,
+  type QuestionFilters,
+} from "@/hooks/useQuestionBank";
+import { useI18n } from "@/hooks/useI18n";
+
+const ANY = "any";
+
+function QuestionRow({
+  question,
+  userId,
+  selected,
+  onToggle,
+}: {
+  question: BankQuestion;
+  userId: string | null | undefined;
+  selected: boolean;
+  onToggle: () => void;
+}) {
+  const { t } = useI18n();
+  const copyQuestion = useCopyQuestion();
+  const archiveQuestion = useArchiveQuestion();
+  const isMine = !!userId && question.author_id === userId;
+  const correctRate = question.times_answered > 0 ? Math.round((question.times_correct / question.times_answered) * 100) : null;
+
+  const handleArchive = () => {
+    if (!confirm(t("teacher.questions.archiveConfirm"))) return;
+    archiveQuestion.mutate(question.id, {
+      onSuccess: () => toast.success(t("teacher.questions.archived")),
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <div className={`flex gap-3 p-3 border rounded ${selected ? "border-blue-300 bg-blue-50" : ""}`}>
+      <Checkbox checked={selected} onCheckedChange={onToggle} className="mt-1" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">{question.question}</p>
+        {question.type === "mcq" ? (
+          <p className="text-sm text-muted-foreground">
+            {question.options.map((option) => (option === question.correct_answer ? `✓ ${option}` : option)).join(" · ")}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t("teacher.questions.writtenMarks", { count: question.rubric.reduce((sum, item) => sum + item.points, 0) })}
+          </p>
+        )}
+        <div className="flex flex-wrap gap-1 mt-2 text-xs">
+          <Badge variant="secondary">{question.skill_area}</Badge>
+          {question.skill !== question.skill_area && question.skill !== question.syllabus_topic && (
+            <Badge variant="outline">{question.skill}</Badge>
+          )}
+          <Badge variant="outline">{t(`difficulty.${question.difficulty}`)}</Badge>
+          {question.syllabus_topic && <Badge variant="outline">{question.syllabus_topic}</Badge>}
+          <Badge variant="outline">{question.language === "sw" ? "Kiswahili" : "English"}</Badge>
+          <span className="text-muted-foreground ml-1">
+            {question.source === "ai" ? t("teacher.questions.aiGenerated") : question.author_name ?? t("teacher.questions.teacher")} ·{" "}
+            {t("teacher.questions.usedIn", { count: question.times_used })}
+            {correctRate !== null &&
+              ` · ${t("teacher.questions.correctRate", { rate: correctRate, answered: question.times_answered })}`}
+          </span>
+        </div>
+      </div>
+      <div className="flex items-start gap-1">
+        {isMine ? (
+          <>
+            <QuestionEditor
+              question={question}
+              trigger={
+                <Button variant="ghost" size="sm" title={t("teacher.questions.edit")}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              }
+            />
+            <Button variant="ghost" size="sm" title={t("teacher.questions.archive")} disabled={archiveQuestion.isPending} onClick={handleArchive}>
+              <Archive className="w-4 h-4" />
+            </Button>
+          </>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t("teacher.questions.copy")}
+            disabled={copyQuestion.isPending}
+            onClick={() =>
+              copyQuestion.mutate(question.id, {
+                onSuccess: () => toast.success(t("teacher.questions.copied")),
+                onError: (err) => toast.error(err.message),
+              })
+            }
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TeacherQuizList() {
+  const { t } = useI18n();
+  const { data: quizzes = [], isLoading } = useTeacherQuizzes();
+  const [openQuizId, setOpenQuizId] = useState<string | null>(null);
+  const { data: questions = [], isLoading: questionsLoading } = useTeacherQuizQuestions(openQuizId);
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (quizzes.length === 0) return <p className="text-sm text-muted-foreground">{t("teacher.questions.noQuizzes")}</p>;
+
+  return (
+    <div className="space-y-2">
+      {quizzes.map((quiz) => (
+        <div key={quiz.id} className="border rounded p-2">
+          <button
+            type="button"
+            className="w-full flex justify-between text-left"
+            onClick={() => setOpenQuizId(openQuizId === quiz.id ? null : quiz.id)}
+          >
+            <span className="font-medium">{quiz.title}</span>
+            <span className="text-sm text-muted-foreground">
+              {t("teacher.questions.quizSummary", { count: quiz.question_count, pass: quiz.passing_score })}
+            </span>
+          </button>
+          {openQuizId === quiz.id &&
+            (questionsLoading ? (
+              <Loader2 className="animate-spin w-4 h-4 text-gray-500 mt-2" />
+            ) : (
+              <ol className="list-decimal ml-5 mt-2 text-sm space-y-1">
+                {questions.map((question) => (
+                  <li key={question.id}>{question.question}</li>
+                ))}
+              </ol>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Browse and search the shared question bank, and assemble quizzes from it
+export default function QuestionBank({ userId }: { userId: string | null | undefined }) {
+  const { t } = useI18n();
+  const [filters, setFilters] = useState<QuestionFilters>({ page: 1 });
+  const [search, setSearch] = useState({ q: "", skill_area: "", syllabus_topic: "" });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [quizTitle, setQuizTitle] = useState("");
+  const { data, isLoading, error } = useQuestionSearch(filters);
+  const createQuiz = useCreateQuiz();
+
+  const setFilter = (changes: Partial<QuestionFilters>) => setFilters((prev) => ({ ...prev, ...changes, page: 1 }));
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+
+  const page = filters.page ?? 1;
+  const pages = Math.max(Math.ceil((data?.total ?? 0) / QUESTIONS_PER_PAGE), 1);
+
+  const handleCreateQuiz = () => {
+    createQuiz.mutate(
+      { title: quizTitle.trim(), question_ids: selectedIds },
+      {
+        onSuccess: (quiz) => {
+          toast.success(t("teacher.questions.quizSaved", { title: quiz.title, count: quiz.question_count }));
+          setSelectedIds([]);
+          setQuizTitle("");
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex flex-wrap gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilter({
+            q: search.q.trim() || undefined,
+            skill_area: search.skill_area.trim() || undefined,
+            syllabus_topic: search.syllabus_topic.trim() || undefined,
+          });
+        }}
+      >
+        <Input
+          className="flex-1 min-w-48"
+          placeholder={t("teacher.questions.search")}
+          value={search.q}
+          onChange={(e) => setSearch({ ...search, q: e.target.value })}
+        />
+        <Input
+          className="w-40"
+          placeholder={t("teacher.questions.skillArea")}
+          value={search.skill_area}
+          onChange={(e) => setSearch({ ...search, skill_area: e.target.value })}
+        />
+        <Input
+          className="w-44"
+          placeholder={t("teacher.questions.syllabusTopic")}
+          value={search.syllabus_topic}
+          onChange={(e) => setSearch({ ...search, syllabus_topic: e.target.value })}
+        />
+        <Button type="submit" variant="outline">
+          {t("teacher.questions.searchButton")}
+        </Button>
+      </form>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.type ?? ANY}
+          onValueChange={(value) => setFilter({ type: value === ANY ? undefined : (value as QuestionFilters["type"]) })}
+        >
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>{t("teacher.questions.allTypes")}</SelectItem>
+            <SelectItem value="mcq">{t("teacher.questions.types.mcq")}</SelectItem>
+            <SelectItem value="written">{t("teacher.questions.types.written")}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.difficulty ?? ANY}
+          onValueChange={(value) =>
+            setFilter({ difficulty: value === ANY ? undefined : (value as QuestionFilters["difficulty"]) })
+          }
+        >
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>{t("teacher.questions.allDifficulties")}</SelectItem>
+            <SelectItem value="beginner">{t("difficulty.beginner")}</SelectItem>
+            <SelectItem value="intermediate">{t("difficulty.intermediate")}</SelectItem>
+            <SelectItem value="advanced">{t("difficulty.advanced")}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.language ?? ANY}
+          onValueChange={(value) => setFilter({ language: value === ANY ? undefined : (value as QuestionFilters["language"]) })}
+        >
+          <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>{t("teacher.questions.allLanguages")}</SelectItem>
+            <SelectItem value="en">English</SelectItem>
+            <SelectItem value="sw">Kiswahili</SelectItem>
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={!!filters.mine} onCheckedChange={(mine) => setFilter({ mine })} />
+          {t("teacher.questions.onlyMine")}
+        </label>
+        <div className="ml-auto">
+          <QuestionEditor
+            trigger={
+              <Button size="sm">
+                <Plus className="w-4 h-4 mr-1" /> {t("teacher.questions.new")}
+              </Button>
+            }
+          />
+        </div>
+      </div>
+
+      {isLoading && <Loader2 className="animate-spin w-5 h-5 text-gray-500" />}
+      {error && <p className="text-red-500 text-center">{(error as Error).message}</p>}
+      {data && data.questions.length === 0 && <p>{t("teacher.questions.noMatches")}</p>}
+      <div className="space-y-2">
+        {data?.questions.map((question) => (
+          <QuestionRow
+            key={question.id}
+            question={question}
+            userId={userId}
+            selected={selectedIds.includes(question.id)}
+            onToggle={() => toggle(question.id)}
+          />
+        ))}
+      </div>
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-2 text-sm">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setFilters((prev) => ({ ...prev, page: page - 1 }))}>
+            {t("teacher.questions.previous")}
+          </Button>
+          <span>{t("teacher.questions.page", { page, pages })}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= pages}
+            onClick={() => setFilters((prev) => ({ ...prev, page: page + 1 }))}
+          >
+            {t("teacher.questions.next")}
+          </Button>
+        </div>
+      )}
+
+      {selectedIds.length > 0 && (
+        <Card className="p-3 flex flex-wrap items-center gap-2 sticky bottom-2 shadow-md">
+          <span className="text-sm font-medium">{t("teacher.questions.selected", { count: selectedIds.length })}</span>
+          <Input className="flex-1 min-w-48" placeholder={t("teacher.questions.quizTitle")} value={quizTitle} onChange={(e) => setQuizTitle(e.target.value)} />
+          <Button disabled={!quizTitle.trim() || createQuiz.isPending} onClick={handleCreateQuiz}>
+            {createQuiz.isPending ? t("teacher.questions.saving") : t("teacher.questions.createQuiz")}
+          </Button>
+          <Button variant="ghost" onClick={() => setSelectedIds([])}>
+            {t("teacher.questions.clear")}
+          </Button>
+        </Card>
+      )}
+
+      <div>
+        <h3 className="font-semibold mb-2">{t("teacher.questions.myQuizzes")}</h3>
+        <TeacherQuizList />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import SyllabusPicker from "@/components/ui/SyllabusPicker";
+import {
+  useSaveQuestion,
+  type BankQuestion,
+  type Difficulty,
+  type QuestionInput,
+  type QuestionLanguage,
+  type QuestionType,
+  type RubricCriterion,
+} from "@/hooks/useQuestionBank";
+import { useSyllabusNode } from "@/hooks/useSyllabus";
+import { useI18n } from "@/hooks/useI18n";
+
+interface Draft {
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correct_answer: string;
+  model_answer: string;
+  rubric: RubricCriterion[];
+  explanation: string;
+  skill: string;
+  skill_area: string;
+  difficulty: Difficulty;
+  syllabus_topic: string;
+  // Empty until picked: the form of the question's tagged node is shown instead
+  syllabus_form: string;
+  syllabus_node_id: string | null;
+  language: QuestionLanguage;
+}
+
+function toDraft(question?: BankQuestion): Draft {
+  return {
+    type: question?.type ?? "mcq",
+    question: question?.question ?? "",
+    options: question?.options.length ? question.options : ["", "", "", ""],
+    correct_answer: question?.correct_answer ?? "",
+    model_answer: question?.model_answer ?? "",
+    rubric: question?.rubric.length ? question.rubric : [{ criterion: "", points: 5 }],
+    explanation: question?.explanation ?? "",
+    skill: question?.skill ?? "",
+    skill_area: question?.skill_area ?? "",
+    difficulty: question?.difficulty ?? "beginner",
+    syllabus_topic: question?.syllabus_topic ?? "",
+    syllabus_form: "",
+    syllabus_node_id: question?.syllabus_node_id ?? null,
+    language: question?.language ?? "en",
+  };
+}
+
+function toInput(draft: Draft): QuestionInput {
+  const tags = {
+    skill: draft.skill.trim(),
+    skill_area: draft.skill_area.trim(),
+    difficulty: draft.difficulty,
+    syllabus_topic: draft.syllabus_topic.trim() || null,
+    syllabus_node_id: draft.syllabus_node_id,
+    language: draft.language,
+  };
+  return draft.type === "mcq"
+    ? {
+        ...tags,
+        type: "mcq",
+        question: draft.question.trim(),
+        options: draft.options.map((option) => option.trim()).filter(Boolean),
+        correct_answer: draft.correct_answer.trim(),
+        explanation: draft.explanation.trim(),
+      }
+    : {
+        ...tags,
+        type: "written",
+        question: draft.question.trim(),
+        model_answer: draft.model_answer.trim(),
+        rubric: draft.rubric.filter((item) => item.criterion.trim()).map((item) => ({ ...item, criterion: item.criterion.trim() })),
+        explanation: draft.explanation.trim(),
+      };
+}
+
+// Creates a question in the bank, or edits one of the teacher's own
+export default function QuestionEditor({ question, trigger }: { question?: BankQuestion; trigger: React.ReactNode }) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(question));
+  const saveQuestion = useSaveQuestion();
+  const { data: taggedNode } = useSyllabusNode(question?.syllabus_node_id);
+
+  const update = (changes: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const openEditor = (next: boolean) => {
+    if (next) setDraft(toDraft(question));
+    setOpen(next);
+  };
+
+  const input = toInput(draft);
+  const complete =
+    !!input.question &&
+    !!input.skill &&
+    !!input.skill_area &&
+    (input.type === "mcq"
+      ? input.options.length >= 2 && input.options.includes(input.correct_answer)
+      : !!input.model_answer && input.rubric.length > 0);
+
+  const handleSave = () => {
+    saveQuestion.mutate(
+      { id: question?.id, input },
+      {
+        onSuccess: () => {
+          toast.success(question ? t("teacher.questionEditor.updated") : t("teacher.questionEditor.added"));
+          setOpen(false);
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openEditor}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question ? t("teacher.questionEditor.editTitle") : t("teacher.questionEditor.newTitle")}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>{t("teacher.questionEditor.type")}</Label>
+              <Select value={draft.type} onValueChange={(value) => update({ type: value as QuestionType })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mcq">{t("teacher.questionEditor.types.mcq")}</SelectItem>
+                  <SelectItem value="written">{t("teacher.questionEditor.types.written")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{t("language.label")}</Label>
+              <Select value={draft.language} onValueChange={(value) => update({ language: value as QuestionLanguage })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="en">English</SelectItem>
+                  <SelectItem value="sw">Kiswahili</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{t("teacher.questionEditor.skillArea")}</Label>
+              <Input value={draft.skill_area} onChange={(e) => update({ skill_area: e.target.value })} placeholder={t("teacher.questionEditor.skillAreaPlaceholder")} />
+            </div>
+            <div>
+              <Label>{t("teacher.questionEditor.difficulty")}</Label>
+              <Select value={draft.difficulty} onValueChange={(value) => update({ difficulty: value as Difficulty })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="beginner">{t("difficulty.beginner")}</SelectItem>
+                  <SelectItem value="intermediate">{t("difficulty.intermediate")}</SelectItem>
+                  <SelectItem value="advanced">{t("difficulty.advanced")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>{t("teacher.questionEditor.syllabusTopic")}</Label>
+              <Input
+                value={draft.syllabus_topic}
+                onChange={(e) => update({ syllabus_topic: e.target.value })}
+                placeholder={t("teacher.questionEditor.syllabusTopicPlaceholder")}
+              />
+            </div>
+            <div>
+              <Label>{t("teacher.questionEditor.skill")}</Label>
+              <Input
+                value={draft.skill}
+                onChange={(e) => update({ skill: e.target.value })}
+                placeholder={t("teacher.questionEditor.skillPlaceholder")}
+              />
+            </div>
+          </div>
+          <div>
+            <Label>{t("teacher.questionEditor.syllabus")}</Label>
+            <SyllabusPicker
+              subject={draft.skill_area.trim()}
+              form={draft.syllabus_form || taggedNode?.form || ""}
+              nodeId={draft.syllabus_node_id}
+              onChange={({ form, nodeId }) => update({ syllabus_form: form, syllabus_node_id: nodeId })}
+            />
+          </div>
+          <div>
+            <Label>{t("teacher.questionEditor.question")}</Label>
+            <Textarea rows={3} value={draft.question} onChange={(e) => update({ question: e.target.value })} />
+          </div>
+
+          {draft.type === "mcq" ? (
+            <div className="space-y-2">
+              <Label>{t("teacher.questionEditor.options")}</Label>
+              {draft.options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="correct-answer"
+                    checked={!!option.trim() && draft.correct_answer === option}
+                    onChange={() => update({ correct_answer: option })}
+                  />
+                  <Input
+                    value={option}
+                    onChange={(e) => {
+                      const options = [...draft.options];
+                      options[index] = e.target.value;
+                      update({
+                        options,
+                        correct_answer: draft.correct_answer === option ? e.target.value : draft.correct_answer,
+                      });
+                    }}
+                    placeholder={t("teacher.questionEditor.option", { number: index + 1 })}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>{t("teacher.questionEditor.modelAnswer")}</Label>
+              <Textarea rows={3} value={draft.model_answer} onChange={(e) => update({ model_answer: e.target.value })} />
+              <Label>{t("teacher.questionEditor.rubric")}</Label>
+              {draft.rubric.map((item, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={item.criterion}
+                    onChange={(e) =>
+                      update({ rubric: draft.rubric.map((r, i) => (i === index ? { ...r, criterion: e.target.value } : r)) })
+                    }
+                    placeholder={t("teacher.questionEditor.criterion")}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    className="w-20"
+                    value={item.points}
+                    onChange={(e) =>
+                      update({ rubric: draft.rubric.map((r, i) => (i === index ? { ...r, points: Number(e.target.value) || 1 } : r)) })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={draft.rubric.length === 1}
+                    onClick={() => update({ rubric: draft.rubric.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={draft.rubric.length >= 10}
+                onClick={() => update({ rubric: [...draft.rubric, { criterion: "", points: 5 }] })}
+              >
+                <Plus className="w-4 h-4 mr-1" /> {t("teacher.questionEditor.addCriterion")}
+              </Button>
+            </div>
+          )}
+
+          <div>
+            <Label>{t("teacher.questionEditor.explanation")}</Label>
+            <Textarea rows={2} value={draft.explanation} onChange={(e) => update({ explanation: e.target.value })} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={!complete || saveQuestion.isPending}>
+              {saveQuestion.isPending ? t("teacher.questionEditor.saving") : t("teacher.questionEditor.save")}
+            </Button>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              {t("teacher.questionEditor.cancel")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/hooks/useI18n";
+import { useAnswerReview, useDueReviews, type DueReview, type ReviewResult } from "@/hooks/useReviews";
+import type { EarnedAchievement } from "@/hooks/useAchievements";
+
+// Today's spaced-repetition session: missed questions come back until they stick
+export default function ReviewSession({
+  onStreakUpdate,
+  onAchievements,
+}: {
+  onStreakUpdate?: (update: ReviewResult["streak"]) => void;
+  onAchievements?: (earned: EarnedAchievement[]) => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const queryClient = useQueryClient();
+  const { data: session, isLoading, error } = useDueReviews();
+  const answerReview = useAnswerReview();
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<DueReview[]>([]);
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState("");
+  const [revealed, setRevealed] = useState(false);
+  const [result, setResult] = useState<ReviewResult | null>(null);
+  const [results, setResults] = useState<ReviewResult[]>([]);
+
+  const item = items[index];
+  const finished = items.length > 0 && index >= items.length;
+
+  const start = () => {
+    setItems(session?.items ?? []);
+    setIndex(0);
+    setAnswer("");
+    setRevealed(false);
+    setResult(null);
+    setResults([]);
+    setOpen(true);
+  };
+
+  const close = (next: boolean) => {
+    setOpen(next);
+    if (!next) queryClient.invalidateQueries({ queryKey: ["reviews"] });
+  };
+
+  const submit = (response: { answer?: string; remembered?: boolean }) => {
+    if (!item) return;
+    answerReview.mutate(
+      { itemId: item.id, ...response },
+      {
+        onSuccess: (graded) => {
+          setResult(graded);
+          setResults((prev) => [...prev, graded]);
+          onStreakUpdate?.(graded.streak);
+          onAchievements?.(graded.achievements);
+        },
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  const next = () => {
+    setIndex(index + 1);
+    setAnswer("");
+    setRevealed(false);
+    setResult(null);
+  };
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (error) return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+
+  const dueCount = session?.due_count ?? 0;
+  const correctCount = results.filter((r) => r.correct).length;
+  const pointsEarned = results.reduce((sum, r) => sum + r.points_awarded, 0);
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {dueCount === 0
+            ? t("student.review.nothingDue")
+            : t("student.review.due", { count: dueCount }) +
+              (dueCount > (session?.items.length ?? 0)
+                ? t("student.review.perSession", { count: session?.items.length ?? 0 })
+                : "")}
+        </p>
+        <Button size="sm" disabled={dueCount === 0} onClick={start}>
+          {t("student.review.start")}
+        </Button>
+      </div>
+      <Dialog open={open} onOpenChange={close}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t("student.review.title")}</DialogTitle>
+          </DialogHeader>
+          {item && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">
+                  {t("student.review.questionOf", { number: index + 1, total: items.length })}
+                </p>
+                <Progress value={(index / items.length) * 100} />
+              </div>
+              <p className="font-semibold">{item.question.question}</p>
+
+              {item.question.type === "mcq" ? (
+                <div className="space-y-2">
+                  {item.question.options.map((option) => (
+                    <label
+                      key={option}
+                      className={`flex items-center gap-2 p-3 rounded border cursor-pointer ${
+                        result && option === result.correct_answer
+                          ? "bg-green-50 border-green-200"
+                          : answer === option
+                            ? result ? "bg-red-50 border-red-200" : "bg-blue-50 border-blue-200"
+                            : "hover:bg-gray-50"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="review-answer"
+                        value={option}
+                        checked={answer === option}
+                        disabled={!!result}
+                        onChange={() => setAnswer(option)}
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <Textarea
+                  rows={4}
+                  placeholder={t("student.review.writtenPlaceholder")}
+                  value={answer}
+                  disabled={revealed}
+                  onChange={(e) => setAnswer(e.target.value)}
+                />
+              )}
+
+              {item.question.type === "written" && revealed && !result && (
+                <div className="space-y-3">
+                  <div className="p-3 rounded bg-gray-50 text-sm">
+                    <p className="font-medium">{t("student.review.modelAnswer")}</p>
+                    <p>{item.question.model_answer}</p>
+                  </div>
+                  <ul className="list-disc ml-5 text-sm text-muted-foreground">
+                    {item.question.rubric?.map((criterion) => <li key={criterion.criterion}>{criterion.criterion}</li>)}
+                  </ul>
+                  <p className="text-sm text-muted-foreground">
+                    {t("student.review.selfMark")}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button disabled={answerReview.isPending} onClick={() => submit({ remembered: true })}>
+                      {t("student.review.gotIt")}
+                    </Button>
+                    <Button variant="outline" disabled={answerReview.isPending} onClick={() => submit({ remembered: false })}>
+                      {t("student.review.missedIt")}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {result && (
+                <div className={`p-3 rounded text-sm space-y-1 ${result.correct ? "bg-green-50" : "bg-red-50"}`}>
+                  <p className="flex items-center gap-2 font-medium">
+                    {result.correct ? <CheckCircle className="w-4 h-4 text-green-600" /> : <XCircle className="w-4 h-4 text-red-600" />}
+                    {result.correct ? t("student.review.correct") : t("student.review.notThisTime")}
+                    {result.points_awarded > 0 && t("student.review.points", { points: result.points_awarded })}
+                  </p>
+                  {result.model_answer && <p>{t("student.review.modelAnswerValue", { answer: result.model_answer })}</p>}
+                  {result.explanation && <p>{result.explanation}</p>}
+                  <p className="text-muted-foreground">
+                    {result.interval_days === 1
+                      ? t("student.review.nextTomorrow")
+                      : t("student.review.nextOn", { date: formatDate(`${result.next_due_on}T00:00:00`, "EEE d MMM") })}
+                  </p>
+                </div>
+              )}
+
+              {item.question.type === "written" && !revealed && (
+                <Button onClick={() => setRevealed(true)}>{t("student.review.showModelAnswer")}</Button>
+              )}
+              {item.question.type === "mcq" && !result && (
+                <Button disabled={!answer || answerReview.isPending} onClick={() => submit({ answer })}>
+                  {answerReview.isPending ? t("student.review.checking") : t("student.review.check")}
+                </Button>
+              )}
+              {result && <Button onClick={next}>{index + 1 < items.length ? t("student.review.next") : t("student.review.finish")}</Button>}
+            </div>
+          )}
+          {finished && (
+            <div className="space-y-3 text-center">
+              <p className="text-2xl font-bold">
+                {correctCount} / {results.length}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {pointsEarned > 0
+                  ? t("student.review.rememberedWithPoints", { points: pointsEarned })
+                  : t("student.review.remembered")}
+              </p>
+              <Button onClick={() => close(false)}>{t("student.review.done")}</Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
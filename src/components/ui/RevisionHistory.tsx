@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { diffLines, type DiffRow } from "@/lib/diff";
+import {
+  useRestoreRevision,
+  useRevision,
+  useRevisions,
+  type ContentItem,
+  type ContentKind,
+  type RevisionSummary,
+} from "@/hooks/useContentRevisions";
+import { useI18n } from "@/hooks/useI18n";
+import type { Translator } from "@/lib/i18n";
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  removed: { left: "bg-red-50", right: "bg-muted/40" },
+  added: { left: "bg-muted/40", right: "bg-green-50" },
+  changed: { left: "bg-red-50", right: "bg-green-50" },
+};
+
+function revisionLabel(revision: RevisionSummary, current: boolean, { t, formatDate }: Translator): string {
+  const label = `#${revision.revision_number} · ${formatDate(revision.created_at, "PPp")}`;
+  return current ? t("teacher.revisions.current", { label }) : label;
+}
+
+function DiffSide({ line, className }: { line: DiffRow["left"]; className: string }) {
+  return (
+    <>
+      <td className={`w-10 select-none pr-2 text-right align-top text-muted-foreground ${className}`}>{line?.number}</td>
+      <td className={`whitespace-pre-wrap break-words align-top font-mono ${className}`}>{line?.text}</td>
+    </>
+  );
+}
+
+function RevisionDiff({ kind, id, fromId, toId }: { kind: ContentKind; id: string; fromId: string; toId: string }) {
+  const { t } = useI18n();
+  const from = useRevision(kind, id, fromId);
+  const to = useRevision(kind, id, toId);
+  const [changesOnly, setChangesOnly] = useState(false);
+
+  const rows = useMemo(
+    () => (from.data && to.data ? diffLines(from.data.content ?? "", to.data.content ?? "") : []),
+    [from.data, to.data],
+  );
+
+  if (from.isLoading || to.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      </div>
+    );
+  }
+
+  if (from.error || to.error) {
+    return <p className="text-red-500 text-center">{((from.error ?? to.error) as Error).message}</p>;
+  }
+
+  const changed = rows.filter((row) => row.type !== "same").length;
+  const visible = changesOnly ? rows.filter((row) => row.type !== "same") : rows;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {from.data!.title !== to.data!.title &&
+            `${t("teacher.revisions.titleChanged", { from: from.data!.title, to: to.data!.title })} `}
+          {changed === 0 ? t("teacher.revisions.noChanges") : t("teacher.revisions.linesDiffer", { count: changed })}
+        </span>
+        <div className="flex items-center gap-2">
+          <Switch id="changes-only" checked={changesOnly} onCheckedChange={setChangesOnly} />
+          <Label htmlFor="changes-only">{t("teacher.revisions.changesOnly")}</Label>
+        </div>
+      </div>
+      <div className="max-h-[50vh] overflow-auto rounded border">
+        <table className="w-full table-fixed text-xs">
+          <colgroup>
+            <col className="w-10" />
+            <col />
+            <col className="w-10" />
+            <col />
+          </colgroup>
+          <tbody>
+            {visible.map((row, index) => (
+              <tr key={index} className="border-b last:border-b-0">
+                <DiffSide line={row.left} className={ROW_STYLES[row.type].left} />
+                <DiffSide line={row.right} className={`border-l ${ROW_STYLES[row.type].right}`} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// Every saved version of a lesson or academic piece, a side-by-side diff of any two and one-click restore
+export default function RevisionHistory({
+  kind,
+  id,
+  onRestored,
+}: {
+  kind: ContentKind;
+  id: string;
+  onRestored: (item: ContentItem) => void;
+}) {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  const [open, setOpen] = useState(false);
+  const { data: revisions = [], isLoading, error } = useRevisions(kind, id, open);
+  const restore = useRestoreRevision(kind, id);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Newest first: by default compare the previous version with the current one
+  const current = revisions[0];
+  const selectedTo = toId ?? current?.id ?? null;
+  const selectedFrom = fromId ?? revisions[1]?.id ?? current?.id ?? null;
+
+  const handleRestore = (revision: RevisionSummary) => {
+    if (!confirm(t("teacher.revisions.restoreConfirm", { number: revision.revision_number }))) return;
+    restore.mutate(revision.id, {
+      onSuccess: (item) => {
+        toast.success(t("teacher.revisions.restored", { number: revision.revision_number }));
+        onRestored(item);
+        setFromId(null);
+        setToId(null);
+      },
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" title={t("teacher.revisions.history")} onClick={() => setOpen(true)}>
+        <History className="w-4 h-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{t("teacher.revisions.title")}</DialogTitle>
+          </DialogHeader>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+            </div>
+          ) : error ? (
+            <p className="text-red-500 text-center">{(error as Error).message}</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-gray-500">{t("teacher.revisions.empty")}</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+              <ul className="max-h-[60vh] space-y-1 overflow-auto text-sm">
+                {revisions.map((revision) => (
+                  <li
+                    key={revision.id}
+                    className={`flex items-center justify-between gap-2 rounded p-2 ${
+                      revision.id === selectedFrom ? "bg-muted" : ""
+                    }`}
+                  >
+                    <button type="button" className="text-left" onClick={() => setFromId(revision.id)}>
+                      <div className="font-medium">
+                        {revision.id === current.id
+                          ? t("teacher.revisions.current", { label: `#${revision.revision_number}` })
+                          : `#${revision.revision_number}`}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDate(revision.created_at, "PPp")}
+                        {revision.restored_from !== null &&
+                          ` · ${t("teacher.revisions.restoredFrom", { number: revision.restored_from })}`}
+                      </div>
+                    </button>
+                    {revision.id !== current.id && (
+                      <Button variant="outline" size="sm" disabled={restore.isPending} onClick={() => handleRestore(revision)}>
+                        {t("teacher.revisions.restore")}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <div className="min-w-0 space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Select value={selectedFrom ?? undefined} onValueChange={setFromId}>
+                    <SelectTrigger className="w-60">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={revision.id}>
+                          {revisionLabel(revision, revision.id === current.id, i18n)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span>→</span>
+                  <Select value={selectedTo ?? undefined} onValueChange={setToId}>
+                    <SelectTrigger className="w-60">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={revision.id}>
+                          {revisionLabel(revision, revision.id === current.id, i18n)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {selectedFrom && selectedTo && <RevisionDiff kind={kind} id={id} fromId={selectedFrom} toId={selectedTo} />}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
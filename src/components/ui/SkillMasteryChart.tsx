@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useI18n } from "@/hooks/useI18n";
+import { useMastery } from "@/hooks/useMastery";
+
+// A radar needs three corners; with fewer skills the bars below say it all
+const MIN_RADAR_SKILLS = 3;
+
+// How well the student knows each skill, estimated from every answer they have given
+export default function SkillMasteryChart({ subject }: { subject?: string | null }) {
+  const { t } = useI18n();
+  const { data, isLoading, error } = useMastery();
+  const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
+
+  if (isLoading) return <Loader2 className="animate-spin w-5 h-5 text-gray-500" />;
+  if (error) return <p className="text-red-500 text-center">{(error as Error).message}</p>;
+  if (!data || data.skills.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("student.mastery.empty")}</p>;
+  }
+
+  const subjects = [...new Set(data.skills.map((skill) => skill.subject))];
+  const current =
+    selectedSubject ?? subjects.find((name) => name.toLowerCase() === subject?.toLowerCase()) ?? subjects[0];
+  const skills = data.skills.filter((skill) => skill.subject === current);
+  const chartData = skills.map((skill) => ({ skill: skill.skill, mastery: Math.round(skill.p_known * 100) }));
+  const chartConfig = {
+    mastery: { label: t("student.mastery.chartLabel"), color: "hsl(var(--primary))" },
+  } satisfies ChartConfig;
+
+  return (
+    <div className="space-y-4">
+      {subjects.length > 1 && (
+        <Select value={current} onValueChange={setSelectedSubject}>
+          <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {subjects.map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {skills.length >= MIN_RADAR_SKILLS && (
+        <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-80">
+          <RadarChart data={chartData}>
+            <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+            <PolarGrid />
+            <PolarAngleAxis dataKey="skill" tick={{ fontSize: 11 }} />
+            <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+            <Radar dataKey="mastery" fill="var(--color-mastery)" fillOpacity={0.4} stroke="var(--color-mastery)" />
+          </RadarChart>
+        </ChartContainer>
+      )}
+
+      <div className="space-y-2">
+        {skills.map((skill) => (
+          <div key={skill.skill}>
+            <div className="flex items-center justify-between text-sm">
+              <span>{skill.skill}</span>
+              <span className="flex items-center gap-2 text-muted-foreground">
+                {t("student.mastery.correct", { correct: skill.correct_answers, answers: skill.answers })}
+                {skill.mastered ? (
+                  <Badge className="bg-green-100 text-green-800">{t("student.mastery.mastered")}</Badge>
+                ) : (
+                  <span>{Math.round(skill.p_known * 100)}%</span>
+                )}
+              </span>
+            </div>
+            <Progress value={skill.p_known * 100} className="h-2" />
+          </div>
+        ))}
+      </div>
+
+      {data.focus_skills.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t("student.mastery.focus", { skills: data.focus_skills.join(", ") })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Check, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useClasses } from "@/hooks/useClasses";
+import { useClassCoverage, type SyllabusLevel } from "@/hooks/useSyllabus";
+import { useI18n } from "@/hooks/useI18n";
+
+const INDENT: Record<SyllabusLevel, string> = { topic: "", subtopic: "pl-4", competence: "pl-8 text-muted-foreground" };
+
+function TopicShare({ label, count, total }: { label: string; count: number; total: number }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex-1 min-w-[10rem]">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span>{t("teacher.coverage.topics", { covered: count, count: total })}</span>
+      </div>
+      <Progress value={total ? (count / total) * 100 : 0} className="h-2" />
+    </div>
+  );
+}
+
+// Topic by topic, how much of the national syllabus one class has been taught, assessed on and mastered
+export default function SyllabusCoverage({ userId }: { userId: string | null | undefined }) {
+  const { t } = useI18n();
+  const { data: classes = [] } = useClasses(userId);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const classId = selectedClassId ?? classes[0]?.id ?? null;
+  const { data, isLoading, error } = useClassCoverage(classId);
+
+  if (classes.length === 0) return <p className="text-sm text-muted-foreground">{t("teacher.coverage.noClasses")}</p>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={classId ?? undefined} onValueChange={setSelectedClassId}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder={t("teacher.coverage.class")} />
+          </SelectTrigger>
+          <SelectContent>
+            {classes.map((classInfo) => (
+              <SelectItem key={classInfo.id} value={classInfo.id}>
+                {classInfo.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data && (
+          <span className="text-sm text-muted-foreground">
+            {data.form} · {data.subject} · {t("teacher.coverage.students", { count: data.student_count })}
+          </span>
+        )}
+      </div>
+
+      {isLoading && <Loader2 className="animate-spin w-5 h-5 text-gray-500" />}
+      {error && <p className="text-red-500 text-center">{(error as Error).message}</p>}
+      {data && data.nodes.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t("teacher.coverage.empty", { subject: data.subject, form: data.form })}
+        </p>
+      )}
+      {data && data.nodes.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-4">
+            <TopicShare label={t("teacher.coverage.covered")} count={data.covered_topics} total={data.topics} />
+            <TopicShare label={t("teacher.coverage.assessed")} count={data.assessed_topics} total={data.topics} />
+            <TopicShare label={t("teacher.coverage.mastered")} count={data.mastered_topics} total={data.topics} />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("teacher.coverage.syllabus")}</TableHead>
+                <TableHead>{t("teacher.coverage.covered")}</TableHead>
+                <TableHead className="text-right">{t("teacher.coverage.assessed")}</TableHead>
+                <TableHead className="text-right">{t("teacher.coverage.mastered")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.nodes.map((node) => (
+                <TableRow key={node.id}>
+                  <TableCell className={INDENT[node.level]}>
+                    <span className="font-mono text-xs mr-2">{node.code}</span>
+                    {node.title}
+                  </TableCell>
+                  <TableCell>
+                    {node.covered ? (
+                      <span className="flex items-center gap-1 text-sm">
+                        <Check className="w-4 h-4 text-green-600" />
+                        {t("teacher.coverage.progress", { assigned: node.assignments, completed: node.completed })}
+                      </span>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {node.assessed}/{data.student_count}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {node.mastered}/{data.student_count}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSyllabusCatalog, useSyllabusNodes, type SyllabusLevel } from "@/hooks/useSyllabus";
+import { useI18n } from "@/hooks/useI18n";
+
+const NO_NODE = "none";
+const INDENT: Record<SyllabusLevel, string> = { topic: "", subtopic: "— ", competence: "—— " };
+
+export interface SyllabusSelection {
+  form: string;
+  nodeId: string | null;
+}
+
+// Picks a form and, within the subject, the topic, sub-topic or competence content is tagged with
+export default function SyllabusPicker({
+  subject,
+  form,
+  nodeId,
+  onChange,
+}: {
+  subject: string;
+  form: string;
+  nodeId: string | null;
+  onChange: (selection: SyllabusSelection) => void;
+}) {
+  const { t } = useI18n();
+  const { data: catalog } = useSyllabusCatalog();
+  const { data: nodes = [], isLoading } = useSyllabusNodes(subject, form);
+  // Forms whose stage teaches the subject; every form when it is not a syllabus subject
+  const stages = new Set(
+    (catalog?.subjects ?? []).filter((item) => item.name.toLowerCase() === subject.trim().toLowerCase()).map((item) => item.stage),
+  );
+  const forms = (catalog?.forms ?? []).filter((item) => stages.size === 0 || stages.has(item.stage));
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select value={form || undefined} onValueChange={(next) => onChange({ form: next, nodeId: null })}>
+        <SelectTrigger className="w-32">
+          <SelectValue placeholder={t("teacher.syllabusPicker.form")} />
+        </SelectTrigger>
+        <SelectContent>
+          {forms.map((item) => (
+            <SelectItem key={item.form} value={item.form}>
+              {item.form}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={nodeId ?? NO_NODE}
+        onValueChange={(next) => onChange({ form, nodeId: next === NO_NODE ? null : next })}
+        disabled={!subject || !form || isLoading}
+      >
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder={t("teacher.syllabusPicker.topic")} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_NODE}>{nodes.length === 0 ? t("teacher.syllabusPicker.noTopics") : t("teacher.syllabusPicker.noTopic")}</SelectItem>
+          {nodes.map((node) => (
+            <SelectItem key={node.id} value={node.id}>
+              {INDENT[node.level]}
+              {node.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2, Award } from "lucide-react";
+import { apiFetch } from "@/lib/api";
 
 interface Badge {
   name: string;
@@ -18,16 +19,7 @@ export default function UserBadges({ userId }: { userId: string }) {
   useEffect(() => {
     async function fetchBadges() {
       try {
-        const response = await fetch(`/api/badges/${userId}`);
-        const data = await response.json();
-
-        if (data.error) {
-          setError(data.error);
-        } else if (data.message) {
-          setBadges([]); // no badges
-        } else {
-          setBadges(data);
-        }
+        setBadges(await apiFetch<Badge[]>(`/api/badges/${userId}`));
       } catch (err) {
         setError("Failed to load badges");
       } finally {
@@ -1,13 +1,12 @@
 import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
+import { apiFetch } from "@/lib/api";
 
 export default function UserLevelCard({ userId }) {
   const [levelData, setLevelData] = useState(null);
 
   useEffect(() => {
-    fetch(`/api/levels/${userId}`)
-      .then((res) => res.json())
-      .then(setLevelData);
+    apiFetch(`/api/levels/${userId}`).then(setLevelData);
   }, [userId]);
 
   if (!levelData) return null;
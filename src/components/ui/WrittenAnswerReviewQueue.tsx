@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useReviewWrittenAnswer, useWrittenReviewQueue, type WrittenReviewItem } from "@/hooks/useGrading";
+import { useI18n } from "@/hooks/useI18n";
+
+function ReviewItem({ item }: { item: WrittenReviewItem }) {
+  const { t, rich, formatDate } = useI18n();
+  const review = useReviewWrittenAnswer();
+  const [score, setScore] = useState(item.ai_score?.toString() ?? "");
+  const [feedback, setFeedback] = useState("");
+
+  const submit = (finalScore: number) => {
+    review.mutate(
+      { gradeId: item.id, score: finalScore, feedback: feedback.trim() || undefined },
+      {
+        onSuccess: () => toast.success(t("teacher.writtenReview.saved", { name: item.student_name })),
+        onError: (err) => toast.error(err.message),
+      },
+    );
+  };
+
+  return (
+    <Card className="p-3 my-2 space-y-2">
+      <div className="flex flex-wrap justify-between gap-2">
+        <div>
+          <div className="font-semibold">{item.student_name}</div>
+          <div className="text-sm text-muted-foreground">
+            {item.quiz_title} · {formatDate(item.created_at, "PPp")}
+          </div>
+        </div>
+        <div className="text-sm text-right">
+          {item.ai_score !== null ? (
+            <>
+              {rich("teacher.writtenReview.aiScore", { score: <strong>{Math.round(item.ai_score)}%</strong> })}
+              {item.ai_confidence !== null &&
+                ` · ${t("teacher.writtenReview.confidence", { confidence: Math.round(item.ai_confidence * 100) })}`}
+            </>
+          ) : (
+            <span className="text-red-600">{t("teacher.writtenReview.unmarked")}</span>
+          )}
+        </div>
+      </div>
+      <p className="text-sm">
+        <strong>{t("teacher.writtenReview.question")}</strong> {item.question}
+      </p>
+      <p className="text-sm rounded bg-muted p-2 whitespace-pre-wrap">{item.answer}</p>
+      <p className="text-sm text-muted-foreground">
+        <strong>{t("teacher.writtenReview.modelAnswer")}</strong> {item.model_answer}
+      </p>
+      {item.ai_score !== null && item.criteria.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {item.criteria.map((criterion) => (
+            <li key={criterion.criterion} className="flex justify-between gap-2">
+              <span>
+                {criterion.criterion}
+                {criterion.comment && <span className="text-muted-foreground"> — {criterion.comment}</span>}
+              </span>
+              <span className="whitespace-nowrap">
+                {criterion.points_awarded}/{criterion.max_points}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Textarea rows={2} placeholder={t("teacher.writtenReview.feedback")} value={feedback} onChange={(e) => setFeedback(e.target.value)} />
+      <div className="flex flex-wrap items-center gap-2">
+        {item.ai_score !== null && (
+          <Button size="sm" disabled={review.isPending} onClick={() => submit(item.ai_score!)}>
+            {t("teacher.writtenReview.accept", { score: Math.round(item.ai_score) })}
+          </Button>
+        )}
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          className="w-24 h-9"
+          value={score}
+          onChange={(e) => setScore(e.target.value)}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={review.isPending || score === "" || Number(score) < 0 || Number(score) > 100}
+          onClick={() => submit(Number(score))}
+        >
+          {t("teacher.writtenReview.setScore")}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+type QueueStatus = "needs_review" | "graded";
+
+// Written answers from the teacher's students that the AI marked with low confidence, or the latest ones it
+// marked on its own so the teacher can override them
+export default function WrittenAnswerReviewQueue() {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<QueueStatus>("needs_review");
+  const { data: queue = [], isLoading, error } = useWrittenReviewQueue(status);
+
+  return (
+    <>
+      <Select value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="needs_review">{t("teacher.writtenReview.statuses.needs_review")}</SelectItem>
+          <SelectItem value="graded">{t("teacher.writtenReview.statuses.graded")}</SelectItem>
+        </SelectContent>
+      </Select>
+      {isLoading ? (
+        <Loader2 className="animate-spin w-5 h-5 text-gray-500" />
+      ) : error ? (
+        <p className="text-red-500 text-center">{(error as Error).message}</p>
+      ) : queue.length === 0 ? (
+        <p>{t(`teacher.writtenReview.empty.${status}`)}</p>
+      ) : (
+        queue.map((item) => <ReviewItem key={item.id} item={item} />)
+      )}
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import type { WrittenGrade } from "@/hooks/useGrading";
+import { useI18n } from "@/hooks/useI18n";
+
+export interface WrittenQuestionData {
+  id: string;
+  question: string;
+  rubric?: { criterion: string; points: number }[];
+  // Only sent by the server once the module is read-only
+  model_answer?: string;
+  explanation?: string;
+}
+
+function GradeDetails({ grade }: { grade: WrittenGrade }) {
+  const { t } = useI18n();
+  return (
+    <div className="mt-3 space-y-2 rounded border bg-gray-50 p-3 text-sm">
+      <div className="flex items-center gap-2">
+        <strong>
+          {grade.score !== null
+            ? t("student.written.score", { percent: Math.round(grade.score) })
+            : t("student.written.notMarked")}
+        </strong>
+        {grade.status === "needs_review" && (
+          <Badge variant="outline" className="border-amber-200 bg-amber-50 text-amber-700">
+            {t("student.written.awaitingReview")}
+          </Badge>
+        )}
+        {grade.status === "reviewed" && (
+          <Badge variant="outline" className="border-green-200 bg-green-50 text-green-700">
+            {t("student.written.reviewed")}
+          </Badge>
+        )}
+      </div>
+      {grade.teacher_feedback && (
+        <p>
+          <strong>{t("student.written.teacher")}</strong> {grade.teacher_feedback}
+        </p>
+      )}
+      {grade.feedback && <p className="text-muted-foreground">{grade.feedback}</p>}
+      {grade.criteria.length > 0 && grade.ai_score !== null && (
+        <ul className="space-y-1">
+          {grade.criteria.map((item) => (
+            <li key={item.criterion} className="flex justify-between gap-2">
+              <span>
+                {item.criterion}
+                {item.comment && <span className="text-muted-foreground"> — {item.comment}</span>}
+              </span>
+              <span className="whitespace-nowrap font-medium">
+                {item.points_awarded}/{item.max_points}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// A free-text quiz question: the rubric up front, the answer box, then the marking once submitted
+export default function WrittenQuestion({
+  question,
+  answer,
+  onAnswerChange,
+  grade,
+  readOnly,
+  disabled,
+}: {
+  question: WrittenQuestionData;
+  answer: string;
+  onAnswerChange: (answer: string) => void;
+  grade?: WrittenGrade;
+  readOnly: boolean;
+  disabled: boolean;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-2">
+      {question.rubric && question.rubric.length > 0 && (
+        <div className="text-sm text-muted-foreground">
+          <span className="font-medium">{t("student.written.markedOn")}</span>{" "}
+          {question.rubric.map((item) => `${item.criterion} (${item.points})`).join("; ")}
+        </div>
+      )}
+      <Textarea
+        rows={5}
+        placeholder={t("student.written.placeholder")}
+        value={answer}
+        onChange={(e) => onAnswerChange(e.target.value)}
+        readOnly={readOnly}
+        disabled={disabled}
+        maxLength={5000}
+      />
+      {grade && <GradeDetails grade={grade} />}
+      {readOnly && question.model_answer && (
+        <div className="rounded border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+          <strong>{t("student.written.modelAnswer")}</strong> {question.model_answer}
+          {question.explanation && <p className="mt-1 text-muted-foreground">{question.explanation}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
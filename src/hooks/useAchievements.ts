@@ -0,0 +1,38 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type AchievementMetric =
+  | 'total_points'
+  | 'longest_streak'
+  | 'perfect_quizzes'
+  | 'modules_completed'
+  | 'subject_modules'
+  | 'reviews_done'
+  | 'skills_mastered';
+
+export interface Achievement {
+  id: string;
+  code: string;
+  title: string;
+  description: string;
+  icon: string;
+  badge_color: string;
+  metric: AchievementMetric;
+  threshold: number;
+  subject: string | null;
+  earned_at: string | null;
+  progress: number;
+}
+
+// Returned by every learning event for the achievements it has just unlocked
+export type EarnedAchievement = Pick<Achievement, 'id' | 'code' | 'title' | 'description' | 'icon' | 'badge_color'> & {
+  earned_at: string;
+};
+
+export function useAchievements(enabled = true) {
+  return useQuery({
+    queryKey: ['achievements'],
+    queryFn: () => apiFetch<Achievement[]>('/api/achievements'),
+    enabled,
+  });
+}
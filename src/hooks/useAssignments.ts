@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type AssignmentStatus = 'upcoming' | 'open' | 'overdue' | 'submitted' | 'late';
+
+export interface Assignment {
+  id: string;
+  teacher_id: string;
+  class_id: string;
+  lesson_id: string | null;
+  academic_id: string | null;
+  title: string;
+  instructions: string | null;
+  open_at: string;
+  due_at: string;
+  max_attempts: number | null;
+  allow_late: boolean;
+  created_at: string;
+}
+
+export interface StudentAssignment extends Assignment {
+  class_name: string;
+  status: AssignmentStatus;
+  attempts_used: number;
+  last_submitted_at: string | null;
+}
+
+export interface ClassAssignment extends Assignment {
+  assigned: number;
+  submitted: number;
+  late: number;
+  overdue: number;
+}
+
+export interface AssignmentProgress {
+  student_id: string;
+  full_name: string;
+  status: AssignmentStatus;
+  attempts_used: number;
+  last_submitted_at: string | null;
+}
+
+export interface NewAssignment {
+  class_id: string;
+  lesson_id?: string;
+  academic_id?: string;
+  student_ids?: string[];
+  instructions?: string;
+  open_at?: string;
+  due_at: string;
+  max_attempts?: number | null;
+  allow_late: boolean;
+}
+
+export function useMyAssignments(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['assignments', 'mine', userId],
+    queryFn: () => apiFetch<StudentAssignment[]>('/api/assignments/mine'),
+    enabled: !!userId,
+  });
+}
+
+export function useAssignmentContent(assignmentId: string | null) {
+  return useQuery({
+    queryKey: ['assignment', assignmentId],
+    queryFn: () => apiFetch<StudentAssignment & { content: string | null }>(`/api/assignments/${assignmentId}`),
+    enabled: !!assignmentId,
+  });
+}
+
+export function useSubmitAssignment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ assignmentId, response }: { assignmentId: string; response?: string }) =>
+      apiFetch(`/api/assignments/${assignmentId}/submit`, { method: 'POST', body: JSON.stringify({ response }) }),
+    onSuccess: (_data, { assignmentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['assignment', assignmentId] });
+    },
+  });
+}
+
+export function useClassAssignments(classId: string | null) {
+  return useQuery({
+    queryKey: ['assignments', 'class', classId],
+    queryFn: () => apiFetch<ClassAssignment[]>(`/api/assignments/class/${classId}`),
+    enabled: !!classId,
+  });
+}
+
+export function useAssignmentProgress(assignmentId: string | null) {
+  return useQuery({
+    queryKey: ['assignmentProgress', assignmentId],
+    queryFn: () => apiFetch<AssignmentProgress[]>(`/api/assignments/${assignmentId}/progress`),
+    enabled: !!assignmentId,
+  });
+}
+
+export function useCreateAssignment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (assignment: NewAssignment) =>
+      apiFetch<Assignment>('/api/assignments', { method: 'POST', body: JSON.stringify(assignment) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assignments'] }),
+  });
+}
+
+export function useDeleteAssignment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (assignmentId: string) => apiFetch<void>(`/api/assignments/${assignmentId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assignments'] }),
+  });
+}
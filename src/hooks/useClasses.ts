@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export interface ClassSummary {
+  id: string;
+  teacher_id: string;
+  name: string;
+  form: string;
+  subject: string;
+  term: string;
+  join_code: string;
+  archived: boolean;
+  created_at: string;
+  // Set for teachers
+  student_count?: number;
+  // Set for students
+  teacher_name?: string | null;
+  joined_at?: string;
+}
+
+export interface RosterStudent {
+  student_id: string;
+  full_name: string;
+  email: string;
+  form: string | null;
+  total_points: number;
+  streak_days: number;
+  last_active_date: string | null;
+  completed_modules: number;
+  joined_at: string;
+}
+
+export interface NewClass {
+  name: string;
+  form: string;
+  subject: string;
+  term: string;
+}
+
+// A teacher's own classes, or the classes a student has joined
+export function useClasses(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['classes', userId],
+    queryFn: () => apiFetch<ClassSummary[]>('/api/classes'),
+    enabled: !!userId,
+  });
+}
+
+export function useRoster(classId: string | null) {
+  return useQuery({
+    queryKey: ['roster', classId],
+    queryFn: () => apiFetch<RosterStudent[]>(`/api/classes/${classId}/roster`),
+    enabled: !!classId,
+  });
+}
+
+export function useCreateClass() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (details: NewClass) =>
+      apiFetch<ClassSummary>('/api/classes', { method: 'POST', body: JSON.stringify(details) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['classes'] }),
+  });
+}
+
+export function useJoinClass() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (code: string) =>
+      apiFetch<ClassSummary>('/api/classes/join', { method: 'POST', body: JSON.stringify({ code }) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['classes'] }),
+  });
+}
+
+export function useLeaveClass() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (classId: string) => apiFetch<void>(`/api/classes/${classId}/leave`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['classes'] }),
+  });
+}
+
+export function useRegenerateJoinCode() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (classId: string) =>
+      apiFetch<ClassSummary>(`/api/classes/${classId}/join-code`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['classes'] }),
+  });
+}
+
+export function useRemoveStudent(classId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (studentId: string) =>
+      apiFetch<void>(`/api/classes/${classId}/students/${studentId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roster', classId] });
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+    },
+  });
+}
+
+// Link a student can open to join; the student dashboard reads ?join=CODE
+export function joinLink(code: string): string {
+  return `${window.location.origin}/student/dashboard?join=${code}`;
+}
@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type ContentKind = 'lessons' | 'academic';
+
+export interface ContentItem {
+  id: string;
+  title: string;
+  content: string | null;
+  // Left out by restores, which never change it
+  syllabus_node_id?: string | null;
+}
+
+export interface RevisionSummary {
+  id: string;
+  revision_number: number;
+  title: string;
+  restored_from: number | null;
+  created_at: string;
+}
+
+export interface Revision extends RevisionSummary {
+  content: string | null;
+}
+
+export interface TrashItem {
+  kind: ContentKind;
+  id: string;
+  title: string;
+  deleted_at: string;
+  purge_at: string;
+}
+
+export function useRevisions(kind: ContentKind, id: string, enabled = true) {
+  return useQuery({
+    queryKey: ['revisions', kind, id],
+    queryFn: () => apiFetch<RevisionSummary[]>(`/api/content/${kind}/${id}/revisions`),
+    enabled,
+  });
+}
+
+export function useRevision(kind: ContentKind, id: string, revisionId: string | null) {
+  return useQuery({
+    queryKey: ['revision', kind, id, revisionId],
+    queryFn: () => apiFetch<Revision>(`/api/content/${kind}/${id}/revisions/${revisionId}`),
+    enabled: !!revisionId,
+    // A revision never changes once it is recorded
+    staleTime: Infinity,
+  });
+}
+
+export function useUpdateContent(kind: ContentKind) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      id,
+      ...changes
+    }: {
+      id: string;
+      title?: string;
+      content?: string;
+      syllabus_node_id?: string | null;
+    }) => apiFetch<ContentItem>(`/api/content/${kind}/${id}`, { method: 'PUT', body: JSON.stringify(changes) }),
+    onSuccess: (item) => queryClient.invalidateQueries({ queryKey: ['revisions', kind, item.id] }),
+  });
+}
+
+export function useRestoreRevision(kind: ContentKind, id: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (revisionId: string) =>
+      apiFetch<ContentItem>(`/api/content/${kind}/${id}/revisions/${revisionId}/restore`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['revisions', kind, id] }),
+  });
+}
+
+export function useTrash(enabled = true) {
+  return useQuery({
+    queryKey: ['trash'],
+    queryFn: () => apiFetch<TrashItem[]>('/api/content/trash'),
+    enabled,
+  });
+}
+
+export function useTrashContent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ kind, id }: { kind: ContentKind; id: string }) =>
+      apiFetch<void>(`/api/content/${kind}/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['trash'] }),
+  });
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ kind, id }: { kind: ContentKind; id: string }) =>
+      apiFetch<void>(`/api/content/${kind}/${id}/restore`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['trash'] }),
+  });
+}
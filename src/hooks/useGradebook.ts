@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { AssignmentStatus } from '@/hooks/useAssignments';
+
+export type GradebookView = 'modules' | 'assignments';
+
+export interface GradebookColumn {
+  id: string;
+  title: string;
+  due_at: string | null;
+}
+
+export interface GradebookCell {
+  score: number | null;
+  computed_score: number | null;
+  override_id: string | null;
+  comment: string | null;
+  attempts: number;
+  time_taken_minutes: number | null;
+  completed: boolean;
+  status: AssignmentStatus | null;
+}
+
+export interface GradebookRow {
+  student_id: string;
+  full_name: string;
+  average: number | null;
+  completed: number;
+  cells: Record<string, GradebookCell>;
+}
+
+export interface Gradebook {
+  class_id: string;
+  view: GradebookView;
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+}
+
+export interface GradeOverride {
+  student_id: string;
+  module_id?: string;
+  assignment_id?: string;
+  score: number;
+  comment?: string;
+}
+
+export function useGradebook(classId: string | null, view: GradebookView) {
+  return useQuery({
+    queryKey: ['gradebook', classId, view],
+    queryFn: () => apiFetch<Gradebook>(`/api/gradebook/${classId}?view=${view}`),
+    enabled: !!classId,
+  });
+}
+
+export function useSaveGradeOverride() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (override: GradeOverride) =>
+      apiFetch('/api/gradebook/overrides', { method: 'PUT', body: JSON.stringify(override) }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['gradebook'] }),
+  });
+}
+
+export function useDeleteGradeOverride() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (overrideId: string) => apiFetch<void>(`/api/gradebook/overrides/${overrideId}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['gradebook'] }),
+  });
+}
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type WrittenGradeStatus = 'graded' | 'needs_review' | 'reviewed';
+
+export interface GradedCriterion {
+  criterion: string;
+  max_points: number;
+  points_awarded: number;
+  comment: string;
+}
+
+export interface WrittenGrade {
+  id: string;
+  score: number | null;
+  ai_score: number | null;
+  ai_confidence: number | null;
+  feedback: string | null;
+  teacher_feedback: string | null;
+  criteria: GradedCriterion[];
+  status: WrittenGradeStatus;
+}
+
+export interface WrittenReviewItem extends WrittenGrade {
+  student_id: string;
+  student_name: string;
+  quiz_title: string;
+  question: string;
+  model_answer: string;
+  answer: string;
+  created_at: string;
+}
+
+// 'needs_review' lists the answers waiting for the teacher; 'graded' the latest ones the AI marked
+export function useWrittenReviewQueue(status: 'needs_review' | 'graded' = 'needs_review') {
+  return useQuery({
+    queryKey: ['writtenReviews', status],
+    queryFn: () => apiFetch<WrittenReviewItem[]>(`/api/grading/reviews?status=${status}`),
+  });
+}
+
+export function useReviewWrittenAnswer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ gradeId, score, feedback }: { gradeId: string; score: number; feedback?: string }) =>
+      apiFetch<WrittenGrade>(`/api/grading/${gradeId}/review`, {
+        method: 'POST',
+        body: JSON.stringify({ score, feedback }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['writtenReviews'] });
+      queryClient.invalidateQueries({ queryKey: ['gradebook'] });
+    },
+  });
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import type { LANGUAGES, Translator } from '@/lib/i18n';
+
+export interface I18nContextValue extends Translator {
+  languages: typeof LANGUAGES;
+  // Saved on the device, and on the profile when someone is signed in
+  setLanguage: (language: string) => Promise<void>;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n(): I18nContextValue {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+}
@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type LessonStatus = 'draft' | 'in_review' | 'published' | 'archived';
+export type LessonAction = 'submit' | 'withdraw' | 'publish' | 'approve' | 'reject' | 'unpublish' | 'archive' | 'restore';
+
+export interface LessonWorkflowState {
+  id: string;
+  status: LessonStatus;
+  publish_at: string | null;
+  published_at: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  title: string;
+  content: string | null;
+  type: string | null;
+  submitted_at: string | null;
+  teacher_id: string;
+  teacher_name: string | null;
+}
+
+export type LessonDisplayStatus = LessonStatus | 'scheduled';
+
+export interface WorkflowLesson {
+  id: string;
+  status?: string | null;
+  publish_at?: string | null;
+  review_comment?: string | null;
+}
+
+// A published lesson with a future publish_at is shown as scheduled
+export function isScheduled(lesson: { status?: string | null; publish_at?: string | null }): boolean {
+  return lesson.status === 'published' && !!lesson.publish_at && new Date(lesson.publish_at) > new Date();
+}
+
+export function lessonDisplayStatus(lesson: WorkflowLesson): LessonDisplayStatus {
+  return isScheduled(lesson) ? 'scheduled' : ((lesson.status ?? 'draft') as LessonStatus);
+}
+
+export function useLessonWorkflowSettings() {
+  return useQuery({
+    queryKey: ['lessonWorkflow'],
+    queryFn: () => apiFetch<{ approval_required: boolean }>('/api/lessons/workflow'),
+  });
+}
+
+export function useReviewQueue(enabled: boolean) {
+  return useQuery({
+    queryKey: ['lessonReviews'],
+    queryFn: () => apiFetch<ReviewQueueItem[]>('/api/lessons/reviews'),
+    enabled,
+  });
+}
+
+export function useTransitionLesson() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      lessonId,
+      action,
+      publishAt,
+      comment,
+    }: {
+      lessonId: string;
+      action: LessonAction;
+      publishAt?: string;
+      comment?: string;
+    }) =>
+      apiFetch<LessonWorkflowState>(`/api/lessons/${lessonId}/transition`, {
+        method: 'POST',
+        body: JSON.stringify({ action, publish_at: publishAt, comment }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['lessonReviews'] }),
+  });
+}
@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export interface SkillMastery {
+  subject: string;
+  skill: string;
+  p_known: number;
+  answers: number;
+  correct_answers: number;
+  mastered: boolean;
+  updated_at: string;
+}
+
+export interface MasterySummary {
+  skills: SkillMastery[];
+  focus_skills: string[];
+}
+
+export interface ClassSkillMastery {
+  subject: string;
+  skill: string;
+  students: number;
+  mastered: number;
+  average: number;
+}
+
+export interface ClassMastery {
+  class_id: string;
+  student_count: number;
+  skills: ClassSkillMastery[];
+}
+
+export function useMastery(enabled = true) {
+  return useQuery({
+    queryKey: ['mastery'],
+    queryFn: () => apiFetch<MasterySummary>('/api/mastery'),
+    enabled,
+  });
+}
+
+export function useClassMastery(classId: string | null) {
+  return useQuery({
+    queryKey: ['classMastery', classId],
+    queryFn: () => apiFetch<ClassMastery>(`/api/mastery/classes/${classId}`),
+    enabled: !!classId,
+  });
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export interface ModuleContent {
+  module_id: string;
+  language: string;
+  title: string;
+  description: string;
+  content: string;
+}
+
+// Languages modules can be read in; the interface may offer more
+export function useContentLanguages() {
+  return useQuery({
+    queryKey: ['contentLanguages'],
+    queryFn: async () => (await apiFetch<{ languages: string[] }>('/api/modules/languages')).languages,
+    staleTime: Infinity,
+  });
+}
+
+// The first switch to a language translates the module, so it can take a moment
+export function useSetModuleLanguage() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ moduleId, language }: { moduleId: string; language: string }) =>
+      apiFetch<ModuleContent>(`/api/modules/${moduleId}/language`, {
+        method: 'PUT',
+        body: JSON.stringify({ language }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modules'] });
+      queryClient.invalidateQueries({ queryKey: ['offlinePack'] });
+    },
+  });
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import {
+  getQueuedEvents,
+  queueOfflineEvent,
+  readOfflinePack,
+  saveOfflinePack,
+  syncOfflineEvents,
+  type OfflineEventInput,
+  type OfflinePack,
+} from '@/lib/offline';
+
+// Refreshed at most this often while online
+const PACK_STALE_MS = 30 * 60_000;
+
+// Everything that can change once queued events reach the server
+const SYNCED_QUERY_KEYS = [
+  'modules',
+  'profile',
+  'userProgress',
+  'userBadges',
+  'streak',
+  'activity',
+  'pointsHistory',
+  'mastery',
+  'reviews',
+  'achievements',
+  'offlinePack',
+];
+
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
+
+// Downloads the student's unfinished modules and quizzes while online; offline it reads the last download
+export function useOfflinePack(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['offlinePack', userId],
+    queryFn: async (): Promise<OfflinePack | null> => {
+      if (!navigator.onLine) return readOfflinePack(userId!);
+      try {
+        const pack = await apiFetch<OfflinePack>('/api/offline/pack');
+        await saveOfflinePack(pack);
+        return pack;
+      } catch (err) {
+        const saved = await readOfflinePack(userId!);
+        if (saved) return saved;
+        throw err;
+      }
+    },
+    enabled: !!userId,
+    networkMode: 'always',
+    staleTime: PACK_STALE_MS,
+  });
+}
+
+export function useOfflineQueue(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['offlineQueue', userId],
+    queryFn: () => getQueuedEvents(userId!),
+    enabled: !!userId,
+    networkMode: 'always',
+  });
+}
+
+export function useQueueOfflineEvent(userId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: OfflineEventInput) => queueOfflineEvent(userId!, input),
+    networkMode: 'always',
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offlineQueue', userId] });
+    },
+  });
+}
+
+export function useSyncOfflineEvents(userId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => syncOfflineEvents(userId!),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['offlineQueue', userId] });
+    },
+    onSuccess: (summary) => {
+      if (summary.synced === 0) return;
+      SYNCED_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export interface PhoneLink {
+  phone_number: string | null;
+  // What to dial on the phone, e.g. *384*123#, when the server has one configured
+  service_code: string | null;
+}
+
+export interface PhoneLinkCode {
+  code: string;
+  expires_at: string;
+}
+
+export function usePhoneLink(enabled = true) {
+  return useQuery({
+    queryKey: ['phoneLink'],
+    queryFn: () => apiFetch<PhoneLink>('/api/ussd/link'),
+    enabled,
+  });
+}
+
+// The phone is only linked once the code is entered on it, so the link is refetched on demand
+export function useCreatePhoneLinkCode() {
+  return useMutation({
+    mutationFn: () => apiFetch<PhoneLinkCode>('/api/ussd/link', { method: 'POST' }),
+  });
+}
+
+export function useUnlinkPhone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiFetch<void>('/api/ussd/link', { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['phoneLink'] }),
+  });
+}
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export interface PlacementQuestion {
+  id: string;
+  question: string;
+  options: string[];
+  number: number;
+  max_questions: number;
+}
+
+export interface PlacementResult {
+  assessment_id: string;
+  subject: string;
+  skill_level: SkillLevel;
+  confidence: number;
+  questions_answered: number;
+  completed_at: string;
+}
+
+export type PlacementStep =
+  | { assessment_id: string; subject: string; finished: false; question: PlacementQuestion }
+  | { assessment_id: string; subject: string; finished: true; result: PlacementResult };
+
+export interface PlacementSummary {
+  levels: { subject: string; skill_level: SkillLevel; updated_at: string }[];
+  in_progress: { assessment_id: string; subject: string; questions_answered: number } | null;
+}
+
+export function usePlacementSummary(enabled = true) {
+  return useQuery({
+    queryKey: ['placement'],
+    queryFn: () => apiFetch<PlacementSummary>('/api/placement'),
+    enabled,
+  });
+}
+
+function useOnFinished() {
+  const queryClient = useQueryClient();
+  return (step: PlacementStep) => {
+    if (!step.finished) return;
+    queryClient.invalidateQueries({ queryKey: ['placement'] });
+    queryClient.invalidateQueries({ queryKey: ['profile'] });
+    queryClient.invalidateQueries({ queryKey: ['mastery'] });
+  };
+}
+
+export function useStartPlacement() {
+  const onFinished = useOnFinished();
+  return useMutation({
+    mutationFn: (subject?: string) =>
+      apiFetch<PlacementStep>('/api/placement', { method: 'POST', body: JSON.stringify({ subject }) }),
+    onSuccess: onFinished,
+  });
+}
+
+export function useAnswerPlacement() {
+  const onFinished = useOnFinished();
+  return useMutation({
+    mutationFn: ({ assessmentId, answer }: { assessmentId: string; answer: string }) =>
+      apiFetch<PlacementStep>(`/api/placement/${assessmentId}/answers`, {
+        method: 'POST',
+        body: JSON.stringify({ answer }),
+      }),
+    onSuccess: onFinished,
+  });
+}
@@ -0,0 +1,148 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type QuestionType = 'mcq' | 'written';
+export type QuestionLanguage = 'en' | 'sw';
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface RubricCriterion {
+  criterion: string;
+  points: number;
+}
+
+export interface BankQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correct_answer: string | null;
+  model_answer: string | null;
+  rubric: RubricCriterion[];
+  explanation: string;
+  skill: string;
+  skill_area: string;
+  difficulty: Difficulty;
+  syllabus_topic: string | null;
+  syllabus_node_id: string | null;
+  language: QuestionLanguage;
+  source: 'ai' | 'teacher' | 'assessment';
+  author_id: string | null;
+  author_name: string | null;
+  times_used: number;
+  times_answered: number;
+  times_correct: number;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface QuestionTags {
+  skill: string;
+  skill_area: string;
+  difficulty: Difficulty;
+  syllabus_topic?: string | null;
+  syllabus_node_id?: string | null;
+  language: QuestionLanguage;
+}
+
+export type QuestionInput = QuestionTags &
+  (
+    | { type: 'mcq'; question: string; options: string[]; correct_answer: string; explanation?: string }
+    | { type: 'written'; question: string; model_answer: string; rubric: RubricCriterion[]; explanation?: string }
+  );
+
+export interface QuestionFilters {
+  q?: string;
+  type?: QuestionType;
+  skill_area?: string;
+  difficulty?: Difficulty;
+  syllabus_topic?: string;
+  // Includes questions tagged with anything under the node
+  syllabus_node_id?: string;
+  language?: QuestionLanguage;
+  mine?: boolean;
+  page?: number;
+}
+
+export interface TeacherQuiz {
+  id: string;
+  title: string;
+  passing_score: number;
+  question_count: number;
+  created_at: string | null;
+}
+
+// Must match QUESTIONS_PER_PAGE on the server
+export const QUESTIONS_PER_PAGE = 20;
+
+function toSearchParams(filters: QuestionFilters): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '' && value !== false) params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+export function useQuestionSearch(filters: QuestionFilters) {
+  return useQuery({
+    queryKey: ['questionBank', filters],
+    queryFn: () => apiFetch<{ questions: BankQuestion[]; total: number }>(`/api/questions?${toSearchParams(filters)}`),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useSaveQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, input }: { id?: string; input: QuestionInput }) =>
+      apiFetch<BankQuestion>(id ? `/api/questions/${id}` : '/api/questions', {
+        method: id ? 'PUT' : 'POST',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['questionBank'] }),
+  });
+}
+
+export function useCopyQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiFetch<BankQuestion>(`/api/questions/${id}/copy`, { method: 'POST' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['questionBank'] }),
+  });
+}
+
+export function useArchiveQuestion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiFetch<void>(`/api/questions/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['questionBank'] }),
+  });
+}
+
+export function useTeacherQuizzes() {
+  return useQuery({
+    queryKey: ['teacherQuizzes'],
+    queryFn: () => apiFetch<TeacherQuiz[]>('/api/questions/quizzes'),
+  });
+}
+
+export function useTeacherQuizQuestions(quizId: string | null) {
+  return useQuery({
+    queryKey: ['teacherQuiz', quizId],
+    queryFn: () => apiFetch<BankQuestion[]>(`/api/questions/quizzes/${quizId}`),
+    enabled: !!quizId,
+  });
+}
+
+export function useCreateQuiz() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (quiz: { title: string; question_ids: string[]; passing_score?: number }) =>
+      apiFetch<TeacherQuiz>('/api/questions/quizzes', { method: 'POST', body: JSON.stringify(quiz) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['teacherQuizzes'] });
+      // Usage counts change once the quiz is saved
+      queryClient.invalidateQueries({ queryKey: ['questionBank'] });
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import type { Streak } from '@/hooks/useStreak';
+import type { EarnedAchievement } from '@/hooks/useAchievements';
+
+export interface ReviewQuestion {
+  id: string;
+  type: 'mcq' | 'written';
+  question: string;
+  options: string[];
+  rubric?: { criterion: string; points: number }[];
+  // Written questions are self-marked, so their model answer comes with the question
+  model_answer?: string;
+  explanation?: string;
+}
+
+export interface DueReview {
+  id: string;
+  due_on: string;
+  repetitions: number;
+  question: ReviewQuestion;
+}
+
+export interface ReviewSession {
+  today: string;
+  due_count: number;
+  items: DueReview[];
+}
+
+export interface ReviewResult {
+  item_id: string;
+  correct: boolean;
+  correct_answer: string | null;
+  model_answer: string | null;
+  explanation: string;
+  next_due_on: string;
+  interval_days: number;
+  points_awarded: number;
+  streak: Pick<Streak, 'streak_days' | 'longest_streak' | 'streak_freezes'> & {
+    freezes_used: number;
+    freeze_earned: boolean;
+  };
+  achievements: EarnedAchievement[];
+}
+
+export function useDueReviews(enabled = true) {
+  return useQuery({
+    queryKey: ['reviews'],
+    queryFn: () => apiFetch<ReviewSession>('/api/reviews'),
+    enabled,
+  });
+}
+
+// The session works from the items it started with, so the due list is only refetched when it closes
+export function useAnswerReview() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ itemId, answer, remembered }: { itemId: string; answer?: string; remembered?: boolean }) =>
+      apiFetch<ReviewResult>(`/api/reviews/${itemId}/answers`, {
+        method: 'POST',
+        body: JSON.stringify({ answer, remembered }),
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['mastery'] });
+      if (result.points_awarded > 0) {
+        queryClient.invalidateQueries({ queryKey: ['profile'] });
+        queryClient.invalidateQueries({ queryKey: ['pointsHistory'] });
+      }
+      if (result.achievements.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['achievements'] });
+      }
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export interface Streak {
+  streak_days: number;
+  longest_streak: number;
+  streak_freezes: number;
+  last_active_date: string | null;
+  active_today: boolean;
+  timezone: string;
+}
+
+export interface DailyActivity {
+  activity_date: string;
+  quiz_answers: number;
+  sections_read: number;
+  modules_completed: number;
+  reviews_done: number;
+  freeze_used: boolean;
+}
+
+export function useStreak(userId: string | null) {
+  return useQuery({
+    queryKey: ['streak', userId],
+    queryFn: () => apiFetch<Streak>('/api/streaks'),
+    enabled: !!userId,
+  });
+}
+
+export function useActivityHistory(userId: string | null, days = 84) {
+  return useQuery({
+    queryKey: ['activity', userId, days],
+    queryFn: () => apiFetch<DailyActivity[]>(`/api/streaks/activity?days=${days}`),
+    enabled: !!userId,
+  });
+}
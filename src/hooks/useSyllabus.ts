@@ -0,0 +1,93 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+
+export type SyllabusLevel = 'topic' | 'subtopic' | 'competence';
+
+export interface SyllabusForm {
+  form: string;
+  stage: string;
+}
+
+export interface SyllabusSubject {
+  stage: string;
+  name: string;
+}
+
+export interface SyllabusCatalog {
+  forms: SyllabusForm[];
+  subjects: SyllabusSubject[];
+}
+
+export interface SyllabusNode {
+  id: string;
+  parent_id: string | null;
+  subject: string;
+  form: string;
+  level: SyllabusLevel;
+  code: string;
+  title: string;
+  position: number;
+}
+
+export interface SyllabusNodeCoverage extends SyllabusNode {
+  assignments: number;
+  completed: number;
+  assessed: number;
+  mastered: number;
+  covered: boolean;
+}
+
+export interface SyllabusCoverage {
+  class_id: string;
+  subject: string;
+  form: string;
+  student_count: number;
+  topics: number;
+  covered_topics: number;
+  assessed_topics: number;
+  mastered_topics: number;
+  nodes: SyllabusNodeCoverage[];
+}
+
+// Forms and the subjects taught at each stage; readable before signing in
+export function useSyllabusCatalog() {
+  return useQuery({
+    queryKey: ['syllabusCatalog'],
+    queryFn: () => apiFetch<SyllabusCatalog>('/api/syllabus'),
+    staleTime: Infinity,
+  });
+}
+
+// The subjects taught in a form
+export function subjectsForForm(catalog: SyllabusCatalog | undefined, form: string): string[] {
+  const stage = catalog?.forms.find((item) => item.form === form)?.stage;
+  return (catalog?.subjects ?? []).filter((subject) => subject.stage === stage).map((subject) => subject.name);
+}
+
+// Topics, sub-topics and competences of one subject and form, in syllabus order
+export function useSyllabusNodes(subject: string, form: string) {
+  return useQuery({
+    queryKey: ['syllabusNodes', subject.toLowerCase(), form],
+    queryFn: () =>
+      apiFetch<SyllabusNode[]>(`/api/syllabus/nodes?${new URLSearchParams({ subject, form })}`),
+    enabled: !!subject && !!form,
+    staleTime: Infinity,
+  });
+}
+
+export function useSyllabusNode(nodeId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['syllabusNode', nodeId],
+    queryFn: () => apiFetch<SyllabusNode & { path: string }>(`/api/syllabus/nodes/${nodeId}`),
+    enabled: !!nodeId,
+    staleTime: Infinity,
+  });
+}
+
+export function useClassCoverage(classId: string | null) {
+  return useQuery({
+    queryKey: ['classCoverage', classId],
+    queryFn: () => apiFetch<SyllabusCoverage>(`/api/syllabus/classes/${classId}/coverage`),
+    enabled: !!classId,
+  });
+}
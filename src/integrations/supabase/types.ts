@@ -14,195 +14,1396 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic: {
+        Row: {
+          content: string
+          content_type: string | null
+          created_at: string
+          deleted_at: string | null
+          id: string
+          language: string
+          length: string | null
+          syllabus_node_id: string | null
+          teacher_id: string
+          topic: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          content_type?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          language?: string
+          length?: string | null
+          syllabus_node_id?: string | null
+          teacher_id: string
+          topic: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          content_type?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          language?: string
+          length?: string | null
+          syllabus_node_id?: string | null
+          teacher_id?: string
+          topic?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_syllabus_node_id_fkey"
+            columns: ["syllabus_node_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       achievements: {
         Row: {
           badge_color: string
+          code: string
           created_at: string | null
           description: string
           icon: string
           id: string
+          metric: string
           points_required: number
+          sort_order: number
+          subject: string | null
+          threshold: number
           title: string
         }
         Insert: {
           badge_color: string
+          code: string
           created_at?: string | null
           description: string
           icon: string
           id?: string
-          points_required: number
+          metric: string
+          points_required?: number
+          sort_order?: number
+          subject?: string | null
+          threshold: number
           title: string
         }
         Update: {
           badge_color?: string
+          code?: string
           created_at?: string | null
           description?: string
           icon?: string
           id?: string
+          metric?: string
           points_required?: number
+          sort_order?: number
+          subject?: string | null
+          threshold?: number
           title?: string
         }
         Relationships: []
       }
-      assessment_questions: {
+      assessment_questions: {
+        Row: {
+          correct_answer: string
+          created_at: string | null
+          difficulty: Database["public"]["Enums"]["skill_level"] | null
+          id: string
+          options: Json
+          question_text: string
+          skill_area: string
+        }
+        Insert: {
+          correct_answer: string
+          created_at?: string | null
+          difficulty?: Database["public"]["Enums"]["skill_level"] | null
+          id?: string
+          options: Json
+          question_text: string
+          skill_area: string
+        }
+        Update: {
+          correct_answer?: string
+          created_at?: string | null
+          difficulty?: Database["public"]["Enums"]["skill_level"] | null
+          id?: string
+          options?: Json
+          question_text?: string
+          skill_area?: string
+        }
+        Relationships: []
+      }
+      assignment_students: {
+        Row: {
+          assignment_id: string
+          student_id: string
+        }
+        Insert: {
+          assignment_id: string
+          student_id: string
+        }
+        Update: {
+          assignment_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_students_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_students_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignment_submissions: {
+        Row: {
+          assignment_id: string
+          attempt_number: number
+          id: string
+          late: boolean
+          response: string | null
+          student_id: string
+          submitted_at: string
+        }
+        Insert: {
+          assignment_id: string
+          attempt_number: number
+          id?: string
+          late?: boolean
+          response?: string | null
+          student_id: string
+          submitted_at?: string
+        }
+        Update: {
+          assignment_id?: string
+          attempt_number?: number
+          id?: string
+          late?: boolean
+          response?: string | null
+          student_id?: string
+          submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_submissions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_submissions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignments: {
+        Row: {
+          academic_id: string | null
+          allow_late: boolean
+          class_id: string
+          created_at: string
+          due_at: string
+          id: string
+          instructions: string | null
+          lesson_id: string | null
+          max_attempts: number | null
+          open_at: string
+          syllabus_node_id: string | null
+          teacher_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          academic_id?: string | null
+          allow_late?: boolean
+          class_id: string
+          created_at?: string
+          due_at: string
+          id?: string
+          instructions?: string | null
+          lesson_id?: string | null
+          max_attempts?: number | null
+          open_at?: string
+          syllabus_node_id?: string | null
+          teacher_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          academic_id?: string | null
+          allow_late?: boolean
+          class_id?: string
+          created_at?: string
+          due_at?: string
+          id?: string
+          instructions?: string | null
+          lesson_id?: string | null
+          max_attempts?: number | null
+          open_at?: string
+          syllabus_node_id?: string | null
+          teacher_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignments_academic_id_fkey"
+            columns: ["academic_id"]
+            isOneToOne: false
+            referencedRelation: "academic"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_syllabus_node_id_fkey"
+            columns: ["syllabus_node_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_nodes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_enrollments: {
+        Row: {
+          class_id: string
+          joined_at: string
+          student_id: string
+        }
+        Insert: {
+          class_id: string
+          joined_at?: string
+          student_id: string
+        }
+        Update: {
+          class_id?: string
+          joined_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_enrollments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          archived: boolean
+          created_at: string
+          form: string
+          id: string
+          join_code: string
+          name: string
+          subject: string
+          teacher_id: string
+          term: string
+          updated_at: string
+        }
+        Insert: {
+          archived?: boolean
+          created_at?: string
+          form: string
+          id?: string
+          join_code?: string
+          name: string
+          subject: string
+          teacher_id: string
+          term: string
+          updated_at?: string
+        }
+        Update: {
+          archived?: boolean
+          created_at?: string
+          form?: string
+          id?: string
+          join_code?: string
+          name?: string
+          subject?: string
+          teacher_id?: string
+          term?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classes_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_revisions: {
+        Row: {
+          academic_id: string | null
+          content: string | null
+          created_at: string
+          id: string
+          lesson_id: string | null
+          restored_from: number | null
+          revision_number: number
+          title: string
+        }
+        Insert: {
+          academic_id?: string | null
+          content?: string | null
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          restored_from?: number | null
+          revision_number: number
+          title: string
+        }
+        Update: {
+          academic_id?: string | null
+          content?: string | null
+          created_at?: string
+          id?: string
+          lesson_id?: string | null
+          restored_from?: number | null
+          revision_number?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_revisions_academic_id_fkey"
+            columns: ["academic_id"]
+            isOneToOne: false
+            referencedRelation: "academic"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_revisions_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      daily_activity: {
+        Row: {
+          activity_date: string
+          freeze_used: boolean
+          modules_completed: number
+          quiz_answers: number
+          reviews_done: number
+          sections_read: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_date: string
+          freeze_used?: boolean
+          modules_completed?: number
+          quiz_answers?: number
+          reviews_done?: number
+          sections_read?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_date?: string
+          freeze_used?: boolean
+          modules_completed?: number
+          quiz_answers?: number
+          reviews_done?: number
+          sections_read?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_activity_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_overrides: {
+        Row: {
+          assignment_id: string | null
+          comment: string | null
+          created_at: string
+          id: string
+          module_id: string | null
+          score: number
+          student_id: string
+          teacher_id: string
+          updated_at: string
+        }
+        Insert: {
+          assignment_id?: string | null
+          comment?: string | null
+          created_at?: string
+          id?: string
+          module_id?: string | null
+          score: number
+          student_id: string
+          teacher_id: string
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string | null
+          comment?: string | null
+          created_at?: string
+          id?: string
+          module_id?: string | null
+          score?: number
+          student_id?: string
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_overrides_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grade_overrides_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "learning_modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grade_overrides_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grade_overrides_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_modules: {
+        Row: {
+          category: string
+          content: string
+          created_at: string | null
+          description: string
+          difficulty: Database["public"]["Enums"]["skill_level"]
+          estimated_duration: number
+          id: string
+          language: string
+          order_index: number
+          points_reward: number | null
+          syllabus_node_id: string | null
+          title: string
+        }
+        Insert: {
+          category: string
+          content: string
+          created_at?: string | null
+          description: string
+          difficulty: Database["public"]["Enums"]["skill_level"]
+          estimated_duration: number
+          id?: string
+          language?: string
+          order_index: number
+          points_reward?: number | null
+          syllabus_node_id?: string | null
+          title: string
+        }
+        Update: {
+          category?: string
+          content?: string
+          created_at?: string | null
+          description?: string
+          difficulty?: Database["public"]["Enums"]["skill_level"]
+          estimated_duration?: number
+          id?: string
+          language?: string
+          order_index?: number
+          points_reward?: number | null
+          syllabus_node_id?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_modules_syllabus_node_id_fkey"
+            columns: ["syllabus_node_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          content: string | null
+          content_type: string | null
+          created_at: string
+          deleted_at: string | null
+          file_url: string | null
+          form: string | null
+          id: string
+          language: string
+          publish_at: string | null
+          published_at: string | null
+          quizzes: Json | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          syllabus_node_id: string | null
+          teacher_id: string
+          title: string
+          type: string | null
+          updated_at: string
+        }
+        Insert: {
+          content?: string | null
+          content_type?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          file_url?: string | null
+          form?: string | null
+          id?: string
+          language?: string
+          publish_at?: string | null
+          published_at?: string | null
+          quizzes?: Json | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          syllabus_node_id?: string | null
+          teacher_id: string
+          title: string
+          type?: string | null
+          updated_at?: string
+        }
+        Update: {
+          content?: string | null
+          content_type?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          file_url?: string | null
+          form?: string | null
+          id?: string
+          language?: string
+          publish_at?: string | null
+          published_at?: string | null
+          quizzes?: Json | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          syllabus_node_id?: string | null
+          teacher_id?: string
+          title?: string
+          type?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lessons_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lessons_syllabus_node_id_fkey"
+            columns: ["syllabus_node_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      module_translations: {
+        Row: {
+          content: string
+          created_at: string
+          description: string
+          language: string
+          module_id: string
+          title: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          description: string
+          language: string
+          module_id: string
+          title: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          description?: string
+          language?: string
+          module_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "module_translations_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "learning_modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offline_events: {
+        Row: {
+          client_event_id: string
+          created_at: string
+          kind: string
+          occurred_at: string
+          result: Json | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          client_event_id: string
+          created_at?: string
+          kind: string
+          occurred_at: string
+          result?: Json | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          client_event_id?: string
+          created_at?: string
+          kind?: string
+          occurred_at?: string
+          result?: Json | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offline_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offline_packs: {
+        Row: {
+          downloaded_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          downloaded_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          downloaded_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offline_packs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_link_codes: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          user_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          expires_at: string
+          user_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_link_codes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      point_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          id: string
+          idempotency_key: string
+          reason: string
+          source_module_id: string | null
+          source_quiz_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          idempotency_key: string
+          reason: string
+          source_module_id?: string | null
+          source_quiz_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          idempotency_key?: string
+          reason?: string
+          source_module_id?: string | null
+          source_quiz_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_transactions_source_module_id_fkey"
+            columns: ["source_module_id"]
+            isOneToOne: false
+            referencedRelation: "learning_modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "point_transactions_source_quiz_id_fkey"
+            columns: ["source_quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "point_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          current_form: string | null
+          email: string
+          form: string | null
+          full_name: string
+          id: string
+          institution: string | null
+          interests: string[] | null
+          is_head_of_department: boolean
+          language: string | null
+          last_active_date: string | null
+          leaderboard_visibility: string
+          longest_streak: number
+          phone_number: string | null
+          role: string
+          skill_level: Database["public"]["Enums"]["skill_level"] | null
+          streak_days: number
+          streak_freezes: number
+          subject: string | null
+          timezone: string
+          total_points: number
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          current_form?: string | null
+          email: string
+          form?: string | null
+          full_name: string
+          id: string
+          institution?: string | null
+          interests?: string[] | null
+          is_head_of_department?: boolean
+          language?: string | null
+          last_active_date?: string | null
+          leaderboard_visibility?: string
+          longest_streak?: number
+          phone_number?: string | null
+          role?: string
+          skill_level?: Database["public"]["Enums"]["skill_level"] | null
+          streak_days?: number
+          streak_freezes?: number
+          subject?: string | null
+          timezone?: string
+          total_points?: number
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          current_form?: string | null
+          email?: string
+          form?: string | null
+          full_name?: string
+          id?: string
+          institution?: string | null
+          interests?: string[] | null
+          is_head_of_department?: boolean
+          language?: string | null
+          last_active_date?: string | null
+          leaderboard_visibility?: string
+          longest_streak?: number
+          phone_number?: string | null
+          role?: string
+          skill_level?: Database["public"]["Enums"]["skill_level"] | null
+          streak_days?: number
+          streak_freezes?: number
+          subject?: string | null
+          timezone?: string
+          total_points?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      question_bank: {
+        Row: {
+          archived_at: string | null
+          author_id: string | null
+          correct_answer: string | null
+          created_at: string
+          difficulty: Database["public"]["Enums"]["skill_level"]
+          explanation: string
+          id: string
+          language: string
+          model_answer: string | null
+          options: Json
+          question: string
+          rubric: Json
+          search: unknown | null
+          skill: string
+          skill_area: string
+          source: string
+          syllabus_node_id: string | null
+          syllabus_topic: string | null
+          times_answered: number
+          times_correct: number
+          times_used: number
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          author_id?: string | null
+          correct_answer?: string | null
+          created_at?: string
+          difficulty?: Database["public"]["Enums"]["skill_level"]
+          explanation?: string
+          id?: string
+          language?: string
+          model_answer?: string | null
+          options?: Json
+          question: string
+          rubric?: Json
+          search?: unknown | null
+          skill: string
+          skill_area: string
+          source?: string
+          syllabus_node_id?: string | null
+          syllabus_topic?: string | null
+          times_answered?: number
+          times_correct?: number
+          times_used?: number
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          author_id?: string | null
+          correct_answer?: string | null
+          created_at?: string
+          difficulty?: Database["public"]["Enums"]["skill_level"]
+          explanation?: string
+          id?: string
+          language?: string
+          model_answer?: string | null
+          options?: Json
+          question?: string
+          rubric?: Json
+          search?: unknown | null
+          skill?: string
+          skill_area?: string
+          source?: string
+          syllabus_node_id?: string | null
+          syllabus_topic?: string | null
+          times_answered?: number
+          times_correct?: number
+          times_used?: number
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_bank_syllabus_node_id_fkey"
+            columns: ["syllabus_node_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_nodes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_translations: {
+        Row: {
+          created_at: string
+          explanation: string
+          language: string
+          model_answer: string | null
+          options: Json
+          question: string
+          question_id: string
+          rubric: Json
+        }
+        Insert: {
+          created_at?: string
+          explanation?: string
+          language: string
+          model_answer?: string | null
+          options?: Json
+          question: string
+          question_id: string
+          rubric?: Json
+        }
+        Update: {
+          created_at?: string
+          explanation?: string
+          language?: string
+          model_answer?: string | null
+          options?: Json
+          question?: string
+          question_id?: string
+          rubric?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_translations_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          position: number
+          question_id: string
+          quiz_id: string
+        }
+        Insert: {
+          position: number
+          question_id: string
+          quiz_id: string
+        }
+        Update: {
+          position?: number
+          question_id?: string
+          quiz_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_questions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          language: string
+          module_id: string | null
+          passing_score: number | null
+          points_reward: number | null
+          title: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          language?: string
+          module_id?: string | null
+          passing_score?: number | null
+          points_reward?: number | null
+          title: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          language?: string
+          module_id?: string | null
+          passing_score?: number | null
+          points_reward?: number | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quizzes_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "learning_modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_items: {
+        Row: {
+          created_at: string
+          due_on: string
+          easiness: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          question_id: string
+          quiz_id: string | null
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_on: string
+          easiness?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          question_id: string
+          quiz_id?: string | null
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_on?: string
+          easiness?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          question_id?: string
+          quiz_id?: string | null
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_mastery: {
         Row: {
-          correct_answer: string
-          created_at: string | null
-          difficulty: Database["public"]["Enums"]["skill_level"] | null
-          id: string
-          options: Json
-          question_text: string
-          skill_area: string
+          answers: number
+          correct_answers: number
+          p_known: number
+          skill: string
+          subject: string
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          correct_answer: string
-          created_at?: string | null
-          difficulty?: Database["public"]["Enums"]["skill_level"] | null
-          id?: string
-          options: Json
-          question_text: string
-          skill_area: string
+          answers?: number
+          correct_answers?: number
+          p_known: number
+          skill: string
+          subject: string
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          correct_answer?: string
-          created_at?: string | null
-          difficulty?: Database["public"]["Enums"]["skill_level"] | null
-          id?: string
-          options?: Json
-          question_text?: string
-          skill_area?: string
+          answers?: number
+          correct_answers?: number
+          p_known?: number
+          skill?: string
+          subject?: string
+          updated_at?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "skill_mastery_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      learning_modules: {
+      student_skill_levels: {
         Row: {
-          category: string
-          content: string
-          created_at: string | null
-          description: string
-          difficulty: Database["public"]["Enums"]["skill_level"]
-          estimated_duration: number
-          id: string
-          order_index: number
-          points_reward: number | null
-          title: string
+          assessment_id: string | null
+          skill_level: Database["public"]["Enums"]["skill_level"]
+          subject: string
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          category: string
-          content: string
-          created_at?: string | null
-          description: string
-          difficulty: Database["public"]["Enums"]["skill_level"]
-          estimated_duration: number
-          id?: string
-          order_index: number
-          points_reward?: number | null
-          title: string
+          assessment_id?: string | null
+          skill_level: Database["public"]["Enums"]["skill_level"]
+          subject: string
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          category?: string
-          content?: string
-          created_at?: string | null
-          description?: string
-          difficulty?: Database["public"]["Enums"]["skill_level"]
-          estimated_duration?: number
-          id?: string
-          order_index?: number
-          points_reward?: number | null
-          title?: string
+          assessment_id?: string | null
+          skill_level?: Database["public"]["Enums"]["skill_level"]
+          subject?: string
+          updated_at?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "student_skill_levels_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "user_assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_skill_levels_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      syllabus_forms: {
         Row: {
-          created_at: string | null
-          email: string
-          full_name: string
-          id: string
-          last_active_date: string | null
-          skill_level: Database["public"]["Enums"]["skill_level"] | null
-          streak_days: number | null
-          total_points: number | null
-          updated_at: string | null
+          form: string
+          position: number
+          stage: string
         }
         Insert: {
-          created_at?: string | null
-          email: string
-          full_name: string
-          id: string
-          last_active_date?: string | null
-          skill_level?: Database["public"]["Enums"]["skill_level"] | null
-          streak_days?: number | null
-          total_points?: number | null
-          updated_at?: string | null
+          form: string
+          position: number
+          stage: string
         }
         Update: {
-          created_at?: string | null
-          email?: string
-          full_name?: string
-          id?: string
-          last_active_date?: string | null
-          skill_level?: Database["public"]["Enums"]["skill_level"] | null
-          streak_days?: number | null
-          total_points?: number | null
-          updated_at?: string | null
+          form?: string
+          position?: number
+          stage?: string
         }
         Relationships: []
       }
-      quizzes: {
+      syllabus_nodes: {
         Row: {
-          created_at: string | null
+          code: string
+          created_at: string
+          form: string
           id: string
-          module_id: string
-          passing_score: number | null
-          points_reward: number | null
-          questions: Json
+          level: string
+          parent_id: string | null
+          position: number
+          subject: string
           title: string
         }
         Insert: {
-          created_at?: string | null
+          code: string
+          created_at?: string
+          form: string
           id?: string
-          module_id: string
-          passing_score?: number | null
-          points_reward?: number | null
-          questions: Json
+          level: string
+          parent_id?: string | null
+          position?: number
+          subject: string
           title: string
         }
         Update: {
-          created_at?: string | null
+          code?: string
+          created_at?: string
+          form?: string
           id?: string
-          module_id?: string
-          passing_score?: number | null
-          points_reward?: number | null
-          questions?: Json
+          level?: string
+          parent_id?: string | null
+          position?: number
+          subject?: string
           title?: string
         }
         Relationships: [
           {
-            foreignKeyName: "quizzes_module_id_fkey"
-            columns: ["module_id"]
+            foreignKeyName: "syllabus_nodes_form_fkey"
+            columns: ["form"]
             isOneToOne: false
-            referencedRelation: "learning_modules"
+            referencedRelation: "syllabus_forms"
+            referencedColumns: ["form"]
+          },
+          {
+            foreignKeyName: "syllabus_nodes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "syllabus_nodes"
             referencedColumns: ["id"]
           },
         ]
       }
+      syllabus_subjects: {
+        Row: {
+          name: string
+          position: number
+          stage: string
+        }
+        Insert: {
+          name: string
+          position: number
+          stage: string
+        }
+        Update: {
+          name?: string
+          position?: number
+          stage?: string
+        }
+        Relationships: []
+      }
       user_achievements: {
         Row: {
           achievement_id: string
-          earned_at: string | null
+          earned_at: string
           id: string
           user_id: string
         }
         Insert: {
           achievement_id: string
-          earned_at?: string | null
+          earned_at?: string
           id?: string
           user_id: string
         }
         Update: {
           achievement_id?: string
-          earned_at?: string | null
+          earned_at?: string
           id?: string
           user_id?: string
         }
@@ -220,52 +1421,143 @@ export type Database = {
         Row: {
           answers: Json
           completed_at: string | null
+          confidence: number | null
+          current_question_id: string | null
           id: string
-          skill_level: Database["public"]["Enums"]["skill_level"]
+          skill_level: Database["public"]["Enums"]["skill_level"] | null
+          started_at: string
+          status: string
+          subject: string | null
           user_id: string
         }
         Insert: {
           answers: Json
           completed_at?: string | null
+          confidence?: number | null
+          current_question_id?: string | null
           id?: string
-          skill_level: Database["public"]["Enums"]["skill_level"]
+          skill_level?: Database["public"]["Enums"]["skill_level"] | null
+          started_at?: string
+          status?: string
+          subject?: string | null
           user_id: string
         }
         Update: {
           answers?: Json
           completed_at?: string | null
+          confidence?: number | null
+          current_question_id?: string | null
           id?: string
-          skill_level?: Database["public"]["Enums"]["skill_level"]
+          skill_level?: Database["public"]["Enums"]["skill_level"] | null
+          started_at?: string
+          status?: string
+          subject?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_assessments_current_question_id_fkey"
+            columns: ["current_question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_badges: {
+        Row: {
+          description: string
+          earned_at: string
+          icon: string
+          id: string
+          module_id: string | null
+          name: string
+          user_id: string
+        }
+        Insert: {
+          description?: string
+          earned_at?: string
+          icon?: string
+          id?: string
+          module_id?: string | null
+          name: string
+          user_id: string
+        }
+        Update: {
+          description?: string
+          earned_at?: string
+          icon?: string
+          id?: string
+          module_id?: string | null
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_badges_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "learning_modules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_module_progress: {
         Row: {
           completed_at: string | null
+          created_at: string | null
+          description: string | null
+          detailed_content: string | null
+          difficulty: Database["public"]["Enums"]["skill_level"] | null
+          estimated_duration: number | null
           id: string
           is_completed: boolean | null
+          is_read_only: boolean
+          language: string
+          level: number | null
           module_id: string
+          points_reward: number
           progress_percentage: number | null
           started_at: string | null
+          title: string | null
           user_id: string
         }
         Insert: {
           completed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          detailed_content?: string | null
+          difficulty?: Database["public"]["Enums"]["skill_level"] | null
+          estimated_duration?: number | null
           id?: string
           is_completed?: boolean | null
+          is_read_only?: boolean
+          language?: string
+          level?: number | null
           module_id: string
+          points_reward?: number
           progress_percentage?: number | null
           started_at?: string | null
+          title?: string | null
           user_id: string
         }
         Update: {
           completed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          detailed_content?: string | null
+          difficulty?: Database["public"]["Enums"]["skill_level"] | null
+          estimated_duration?: number | null
           id?: string
           is_completed?: boolean | null
+          is_read_only?: boolean
+          language?: string
+          level?: number | null
           module_id?: string
+          points_reward?: number
           progress_percentage?: number | null
           started_at?: string | null
+          title?: string | null
           user_id?: string
         }
         Relationships: [
@@ -284,6 +1576,7 @@ export type Database = {
           attempted_at: string | null
           id: string
           passed: boolean
+          question_id: string | null
           quiz_id: string
           score: number
           user_id: string
@@ -293,6 +1586,7 @@ export type Database = {
           attempted_at?: string | null
           id?: string
           passed: boolean
+          question_id?: string | null
           quiz_id: string
           score: number
           user_id: string
@@ -302,6 +1596,7 @@ export type Database = {
           attempted_at?: string | null
           id?: string
           passed?: boolean
+          question_id?: string | null
           quiz_id?: string
           score?: number
           user_id?: string
@@ -316,12 +1611,256 @@ export type Database = {
           },
         ]
       }
+      ussd_sessions: {
+        Row: {
+          created_at: string
+          gateway: string
+          phone_number: string
+          session_id: string
+          state: Json
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          gateway: string
+          phone_number: string
+          session_id: string
+          state: Json
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          gateway?: string
+          phone_number?: string
+          session_id?: string
+          state?: Json
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ussd_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      written_answer_grades: {
+        Row: {
+          ai_confidence: number | null
+          ai_feedback: string | null
+          ai_score: number | null
+          answer: string
+          attempt_id: string
+          created_at: string
+          criteria: Json
+          id: string
+          question_id: string
+          quiz_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          teacher_feedback: string | null
+          teacher_score: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ai_confidence?: number | null
+          ai_feedback?: string | null
+          ai_score?: number | null
+          answer: string
+          attempt_id: string
+          created_at?: string
+          criteria?: Json
+          id?: string
+          question_id: string
+          quiz_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          teacher_feedback?: string | null
+          teacher_score?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ai_confidence?: number | null
+          ai_feedback?: string | null
+          ai_score?: number | null
+          answer?: string
+          attempt_id?: string
+          created_at?: string
+          criteria?: Json
+          id?: string
+          question_id?: string
+          quiz_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          teacher_feedback?: string | null
+          teacher_score?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "written_answer_grades_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: true
+            referencedRelation: "user_quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "written_answer_grades_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "written_answer_grades_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "written_answer_grades_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      award_points: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_idempotency_key: string
+          p_module_id?: string
+          p_quiz_id?: string
+          p_reason: string
+          p_user_id: string
+        }
+        Returns: {
+          awarded: boolean
+          total_points: number
+        }[]
+      }
+      complete_module: {
+        Args: {
+          p_claimed_score?: number
+          p_module_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      generate_join_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      is_assigned_to_me: {
+        Args: {
+          p_assignment_id: string
+        }
+        Returns: boolean
+      }
+      is_enrolled_in: {
+        Args: {
+          p_class_id: string
+        }
+        Returns: boolean
+      }
+      is_lesson_live: {
+        Args: {
+          p_publish_at: string
+          p_status: string
+        }
+        Returns: boolean
+      }
+      is_teacher: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_valid_timezone: {
+        Args: {
+          p_timezone: string
+        }
+        Returns: boolean
+      }
+      leaderboard: {
+        Args: {
+          p_class_id?: string
+          p_limit?: number
+          p_period?: string
+          p_scope?: string
+          p_viewer_id: string
+        }
+        Returns: {
+          display_name: string
+          is_current_user: boolean
+          points: number
+          rank: number
+          user_id: string
+        }[]
+      }
+      leaderboard_display_name: {
+        Args: {
+          p_full_name: string
+          p_visibility: string
+        }
+        Returns: string
+      }
+      leaderboard_period_start: {
+        Args: {
+          p_period: string
+          p_timezone: string
+        }
+        Returns: string
+      }
+      record_activity: {
+        Args: {
+          p_at?: string
+          p_kind: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      restore_content_revision: {
+        Args: {
+          p_revision_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      teaches_student: {
+        Args: {
+          p_student_id: string
+        }
+        Returns: boolean
+      }
+      transition_lesson: {
+        Args: {
+          p_action: string
+          p_approval_required?: boolean
+          p_comment?: string
+          p_lesson_id: string
+          p_publish_at?: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       skill_level: "beginner" | "intermediate" | "advanced"
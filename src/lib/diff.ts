@@ -0,0 +1,73 @@
+export type DiffRowType = "same" | "added" | "removed" | "changed";
+
+// One row of a side-by-side diff; a side is null where the line does not exist in that version
+export interface DiffRow {
+  type: DiffRowType;
+  left: { number: number; text: string } | null;
+  right: { number: number; text: string } | null;
+}
+
+type Op = { kind: "same" | "removed" | "added"; leftIndex: number; rightIndex: number };
+
+// Longest common subsequence over lines, walked back into keep/remove/add operations
+function lineOps(left: string[], right: string[]): Op[] {
+  const lengths = Array.from({ length: left.length + 1 }, () => new Uint32Array(right.length + 1));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] = left[i] === right[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      ops.push({ kind: "same", leftIndex: i++, rightIndex: j++ });
+    } else if (j < right.length && (i === left.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      ops.push({ kind: "added", leftIndex: i, rightIndex: j++ });
+    } else {
+      ops.push({ kind: "removed", leftIndex: i++, rightIndex: j });
+    }
+  }
+  return ops;
+}
+
+// Compares two markdown documents line by line; removed and added runs are paired up as changed rows
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split("\n");
+  const right = after.split("\n");
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const l = removed[k];
+      const r = added[k];
+      rows.push({
+        type: l !== undefined && r !== undefined ? "changed" : l !== undefined ? "removed" : "added",
+        left: l !== undefined ? { number: l + 1, text: left[l] } : null,
+        right: r !== undefined ? { number: r + 1, text: right[r] } : null,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of lineOps(left, right)) {
+    if (op.kind === "removed") removed.push(op.leftIndex);
+    else if (op.kind === "added") added.push(op.rightIndex);
+    else {
+      flush();
+      rows.push({
+        type: "same",
+        left: { number: op.leftIndex + 1, text: left[op.leftIndex] },
+        right: { number: op.rightIndex + 1, text: right[op.rightIndex] },
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,110 @@
+import { createElement, Fragment, type ReactNode } from "react";
+import { format } from "date-fns";
+import en from "@/locales/en.json";
+import { DATE_LOCALES } from "@/locales/dateLocales";
+
+// A message with a form per plural category; `other` is required, the rest are as the language needs
+type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+interface Catalog {
+  [key: string]: string | Catalog;
+}
+
+export type Messages = typeof en;
+
+// Dotted paths to every message in the English catalog, e.g. "student.tabs.dashboard"
+type MessageKeys<T> = {
+  [K in keyof T & string]: T[K] extends string
+    ? K
+    : T[K] extends { other: string }
+      ? K
+      : `${K}.${MessageKeys<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessageKeys<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+// Every src/locales/<code>.json is a language; dropping in a catalog adds it to the language picker
+const CATALOGS: Record<string, Catalog> = Object.fromEntries(
+  Object.entries(import.meta.glob<Catalog>("../locales/*.json", { eager: true, import: "default" })).map(
+    ([path, catalog]) => [path.replace(/^.*\/([\w-]+)\.json$/, "$1"), catalog],
+  ),
+);
+
+export const DEFAULT_LANGUAGE = "en";
+const STORAGE_KEY = "language";
+
+export const LANGUAGES = Object.entries(CATALOGS).map(([code, catalog]) => ({
+  code,
+  name: lookup(catalog, "language.name") as string,
+}));
+
+export function isSupportedLanguage(language: string | null | undefined): language is string {
+  return !!language && language in CATALOGS;
+}
+
+function lookup(catalog: Catalog, key: string): unknown {
+  return key.split(".").reduce<unknown>((node, part) => (node as Catalog | undefined)?.[part], catalog);
+}
+
+function isPluralForms(message: unknown): message is PluralForms {
+  return !!message && typeof message === "object" && typeof (message as PluralForms).other === "string";
+}
+
+// The language chosen on this device, else the browser's if there is a catalog for it
+export function readStoredLanguage(): string {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isSupportedLanguage(stored)) return stored;
+  const browser = navigator.languages?.map((tag) => tag.split("-")[0]).find(isSupportedLanguage);
+  return browser ?? DEFAULT_LANGUAGE;
+}
+
+export function storeLanguage(language: string): void {
+  localStorage.setItem(STORAGE_KEY, language);
+}
+
+export function createTranslator(language: string) {
+  const catalog = CATALOGS[language] ?? CATALOGS[DEFAULT_LANGUAGE];
+  const locale = (lookup(catalog, "language.locale") as string | undefined) ?? language;
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+  const dateLocale = DATE_LOCALES[language] ?? DATE_LOCALES[DEFAULT_LANGUAGE];
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    options ? new Intl.NumberFormat(locale, options).format(value) : numbers.format(value);
+
+  // Picks the plural form for `count` and returns the raw message; a key missing here falls back to English
+  const message = (key: MessageKey, count: unknown): string => {
+    const found = lookup(catalog, key) ?? lookup(en, key);
+    if (isPluralForms(found)) return (typeof count === "number" && found[plurals.select(count)]) || found.other;
+    return typeof found === "string" ? found : key;
+  };
+
+  // Messages fill {{name}} from `params`, formatting numbers for the language
+  const t = (key: MessageKey, params: MessageParams = {}): string =>
+    message(key, params.count).replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+
+  // Like t, but placeholders can be filled with elements, e.g. a name in bold
+  const rich = (key: MessageKey, params: Record<string, ReactNode>): ReactNode => {
+    const parts = message(key, params.count).split(/\{\{\s*(\w+)\s*\}\}/);
+    // split puts the placeholder names at the odd indexes
+    const nodes = parts.map((part, index) => {
+      if (index % 2 === 0) return part;
+      const value = params[part];
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+    return createElement(Fragment, null, ...nodes);
+  };
+
+  const formatDate = (date: Date | string | number, pattern = "PP"): string =>
+    format(new Date(date), pattern, { locale: dateLocale });
+
+  return { language, locale, t, rich, formatNumber, formatDate };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
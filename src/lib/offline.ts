@@ -0,0 +1,177 @@
+import { apiFetch } from "@/lib/api";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+// Everything a student needs offline lives in IndexedDB: the last downloaded pack per student,
+// and the learning events recorded while offline, in the order they happened
+const DB_NAME = "ai-learn-offline";
+const DB_VERSION = 1;
+const PACKS = "packs";
+const EVENTS = "events";
+// Matches the server's batch limit for POST /api/offline/sync
+const SYNC_BATCH_SIZE = 50;
+// The student whose Supabase session this device holds
+const SESSION_USER_KEY = "ai-learn-offline-session-user";
+
+export interface OfflineQuestion {
+  id: string;
+  type: "mcq" | "written";
+  question: string;
+  options: string[];
+  rubric?: { criterion: string; points: number }[];
+}
+
+export interface OfflineModule extends Tables<"user_module_progress"> {
+  quiz: { quiz_id: string; passing_score: number; questions: OfflineQuestion[] } | null;
+}
+
+export interface OfflinePack {
+  id: string;
+  user_id: string;
+  downloaded_at: string;
+  profile: Tables<"profiles">;
+  modules: OfflineModule[];
+}
+
+export type OfflineEventInput =
+  | { kind: "answer"; quiz_id: string; question_id: string; answer: string }
+  | { kind: "progress"; module_id: string; progress_percentage: number }
+  | { kind: "complete"; module_id: string }
+  | { kind: "section_read" };
+
+export type OfflineEvent = OfflineEventInput & { id: string; occurred_at: string; pack_id?: string };
+
+interface QueuedEvent {
+  seq?: number;
+  user_id: string;
+  event: OfflineEvent;
+}
+
+export interface OfflineEventResult {
+  id: string;
+  kind: OfflineEvent["kind"];
+  status: "processing" | "applied" | "conflict";
+  result: Json | null;
+}
+
+export interface OfflineSyncSummary {
+  synced: number;
+  conflicts: OfflineEventResult[];
+  achievements: { id: string; title: string }[];
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PACKS, { keyPath: "user_id" });
+      const events = request.result.createObjectStore(EVENTS, { keyPath: "seq", autoIncrement: true });
+      events.createIndex("user_id", "user_id");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isOffline(): boolean {
+  return !navigator.onLine;
+}
+
+// fetch rejects with a TypeError when the request never reached the server, e.g. on a dropped 2G connection
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return message.includes("Failed to fetch") || message.includes("NetworkError");
+}
+
+export function saveOfflinePack(pack: OfflinePack): Promise<IDBValidKey> {
+  return run(PACKS, "readwrite", (store) => store.put(pack));
+}
+
+export async function readOfflinePack(userId: string): Promise<OfflinePack | null> {
+  return (await run<OfflinePack | undefined>(PACKS, "readonly", (store) => store.get(userId))) ?? null;
+}
+
+// An expired session cannot be refreshed offline, but Supabase keeps it stored until the student signs out.
+// Following it lets that student, and only that student, keep using their pack in the meantime.
+export function watchOfflineSession(): void {
+  supabase.auth.onAuthStateChange((event, session) => {
+    if (session) localStorage.setItem(SESSION_USER_KEY, session.user.id);
+    else if (event === "SIGNED_OUT") localStorage.removeItem(SESSION_USER_KEY);
+  });
+}
+
+export async function readSessionOfflinePack(): Promise<OfflinePack | null> {
+  const userId = localStorage.getItem(SESSION_USER_KEY);
+  return userId ? readOfflinePack(userId) : null;
+}
+
+// Signing out removes the student's downloaded content; answers they have not synced yet are kept for next time
+export async function clearOfflinePack(userId: string): Promise<void> {
+  await run(PACKS, "readwrite", (store) => store.delete(userId));
+}
+
+// Each event names the pack it was recorded with; the server dates it no earlier than that pack's download
+export async function queueOfflineEvent(userId: string, input: OfflineEventInput): Promise<OfflineEvent> {
+  const pack = await readOfflinePack(userId);
+  const event = {
+    ...input,
+    id: crypto.randomUUID(),
+    occurred_at: new Date().toISOString(),
+    pack_id: pack?.id,
+  } as OfflineEvent;
+  await run(EVENTS, "readwrite", (store) => store.add({ user_id: userId, event } satisfies QueuedEvent));
+  return event;
+}
+
+async function readQueue(userId: string): Promise<QueuedEvent[]> {
+  const queued = await run<QueuedEvent[]>(EVENTS, "readonly", (store) => store.index("user_id").getAll(userId));
+  return queued.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+export async function getQueuedEvents(userId: string): Promise<OfflineEvent[]> {
+  return (await readQueue(userId)).map((queued) => queued.event);
+}
+
+// Sends the queue oldest first. Events the server has applied, or turned down as conflicts, leave the
+// queue; one another sync is still applying stays for the next attempt. Resending is always safe.
+export async function syncOfflineEvents(userId: string): Promise<OfflineSyncSummary> {
+  const summary: OfflineSyncSummary = { synced: 0, conflicts: [], achievements: [] };
+  const queue = await readQueue(userId);
+
+  for (let start = 0; start < queue.length; start += SYNC_BATCH_SIZE) {
+    const batch = queue.slice(start, start + SYNC_BATCH_SIZE);
+    const response = await apiFetch<{ events: OfflineEventResult[]; achievements: OfflineSyncSummary["achievements"] }>(
+      "/api/offline/sync",
+      { method: "POST", body: JSON.stringify({ events: batch.map((queued) => queued.event) }) },
+    );
+
+    const done = new Set(response.events.filter((result) => result.status !== "processing").map((result) => result.id));
+    await Promise.all(
+      batch
+        .filter((queued) => done.has(queued.event.id))
+        .map((queued) => run(EVENTS, "readwrite", (store) => store.delete(queued.seq!))),
+    );
+
+    summary.synced += response.events.filter((result) => result.status === "applied").length;
+    summary.conflicts.push(...response.events.filter((result) => result.status === "conflict"));
+    summary.achievements.push(...response.achievements);
+
+    // Later events may depend on the ones still being applied, e.g. a completion on its answers
+    if (done.size < batch.length) break;
+  }
+
+  return summary;
+}
@@ -0,0 +1,74 @@
+import type { FormatDistanceToken, Locale } from "date-fns";
+import { enGB, fr } from "date-fns/locale";
+
+const MONTHS = [
+  "Januari", "Februari", "Machi", "Aprili", "Mei", "Juni",
+  "Julai", "Agosti", "Septemba", "Oktoba", "Novemba", "Desemba",
+];
+const SHORT_MONTHS = ["Jan", "Feb", "Mac", "Apr", "Mei", "Jun", "Jul", "Ago", "Sep", "Okt", "Nov", "Des"];
+const DAYS = ["Jumapili", "Jumatatu", "Jumanne", "Jumatano", "Alhamisi", "Ijumaa", "Jumamosi"];
+const SHORT_DAYS = ["Jpi", "Jtt", "Jnn", "Jtn", "Alh", "Iju", "Jmo"];
+
+// [one, other] for each unit, and the "ago" agreement for each, since Swahili nouns change it by class
+const DISTANCES: Record<FormatDistanceToken, { one: string; other: string; ago: [string, string] }> = {
+  lessThanXSeconds: { one: "chini ya sekunde 1", other: "chini ya sekunde {{count}}", ago: ["iliyopita", "zilizopita"] },
+  xSeconds: { one: "sekunde 1", other: "sekunde {{count}}", ago: ["iliyopita", "zilizopita"] },
+  halfAMinute: { one: "nusu dakika", other: "nusu dakika", ago: ["iliyopita", "iliyopita"] },
+  lessThanXMinutes: { one: "chini ya dakika 1", other: "chini ya dakika {{count}}", ago: ["iliyopita", "zilizopita"] },
+  xMinutes: { one: "dakika 1", other: "dakika {{count}}", ago: ["iliyopita", "zilizopita"] },
+  aboutXHours: { one: "takriban saa 1", other: "takriban saa {{count}}", ago: ["iliyopita", "zilizopita"] },
+  xHours: { one: "saa 1", other: "saa {{count}}", ago: ["iliyopita", "zilizopita"] },
+  xDays: { one: "siku 1", other: "siku {{count}}", ago: ["iliyopita", "zilizopita"] },
+  aboutXWeeks: { one: "takriban wiki 1", other: "takriban wiki {{count}}", ago: ["iliyopita", "zilizopita"] },
+  xWeeks: { one: "wiki 1", other: "wiki {{count}}", ago: ["iliyopita", "zilizopita"] },
+  aboutXMonths: { one: "takriban mwezi 1", other: "takriban miezi {{count}}", ago: ["uliopita", "iliyopita"] },
+  xMonths: { one: "mwezi 1", other: "miezi {{count}}", ago: ["uliopita", "iliyopita"] },
+  aboutXYears: { one: "takriban mwaka 1", other: "takriban miaka {{count}}", ago: ["uliopita", "iliyopita"] },
+  xYears: { one: "mwaka 1", other: "miaka {{count}}", ago: ["uliopita", "iliyopita"] },
+  overXYears: { one: "zaidi ya mwaka 1", other: "zaidi ya miaka {{count}}", ago: ["uliopita", "iliyopita"] },
+  almostXYears: { one: "karibu mwaka 1", other: "karibu miaka {{count}}", ago: ["uliopita", "iliyopita"] },
+};
+
+const DATE_FORMATS = { full: "EEEE, d MMMM y", long: "d MMMM y", medium: "d MMM y", short: "dd/MM/y" };
+const TIME_FORMATS = { full: "HH:mm:ss zzzz", long: "HH:mm:ss z", medium: "HH:mm:ss", short: "HH:mm" };
+const RELATIVE_FORMATS = {
+  lastWeek: "eeee 'iliyopita saa' p",
+  yesterday: "'jana saa' p",
+  today: "'leo saa' p",
+  tomorrow: "'kesho saa' p",
+  nextWeek: "eeee 'ijayo saa' p",
+  other: "P",
+};
+
+// date-fns has no Swahili locale. Parsing is never done in Swahili, so matching stays English.
+export const sw: Locale = {
+  ...enGB,
+  code: "sw",
+  formatDistance: (token, count, options) => {
+    const unit = DISTANCES[token];
+    const text = (count === 1 ? unit.one : unit.other).replace("{{count}}", String(count));
+    if (!options?.addSuffix) return text;
+    return options.comparison && options.comparison > 0 ? `baada ya ${text}` : `${text} ${unit.ago[count === 1 ? 0 : 1]}`;
+  },
+  formatRelative: (token) => RELATIVE_FORMATS[token],
+  localize: {
+    ...enGB.localize,
+    ordinalNumber: (value) => String(value),
+    era: (era, options) => (options?.width === "wide" ? ["Kabla ya Kristo", "Baada ya Kristo"] : ["KK", "BK"])[era],
+    quarter: (quarter, options) => (options?.width === "wide" ? `Robo ya ${quarter}` : `R${quarter}`),
+    month: (month, options) =>
+      options?.width === "wide" ? MONTHS[month] : options?.width === "narrow" ? MONTHS[month][0] : SHORT_MONTHS[month],
+    day: (day, options) => (options?.width === "wide" ? DAYS[day] : SHORT_DAYS[day]),
+    dayPeriod: (period) => (period === "am" || period === "pm" ? period.toUpperCase() : enGB.localize.dayPeriod(period)),
+  },
+  formatLong: {
+    date: (options) => DATE_FORMATS[options?.width ?? "full"],
+    time: (options) => TIME_FORMATS[options?.width ?? "full"],
+    dateTime: () => "{{date}} 'saa' {{time}}",
+  },
+  options: { weekStartsOn: 1, firstWeekContainsDate: 4 },
+};
+
+// The date-fns locale for each catalog. A new catalog uses its language's date-fns locale where
+// date-fns has one, and English dates until one is added here.
+export const DATE_LOCALES: Record<string, Locale> = { en: enGB, sw, fr };
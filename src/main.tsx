@@ -1,5 +1,14 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { watchOfflineSession } from "./lib/offline";
 import "./index.css";
 
+watchOfflineSession();
 createRoot(document.getElementById("root")!).render(<App />);
+
+// The service worker lets students open the app offline; the dev server's modules are not cacheable
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => console.error("Service worker registration failed:", err));
+  });
+}
@@ -8,52 +8,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { toast } from "sonner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { GraduationCap, Sparkles } from "lucide-react";
+import LanguageSwitcher from "@/components/ui/LanguageSwitcher";
+import { useI18n } from "@/hooks/useI18n";
+import { subjectsForForm, useSyllabusCatalog } from "@/hooks/useSyllabus";
 
 const Auth = () => {
   const navigate = useNavigate();
+  const { t, language } = useI18n();
   const [isLoading, setIsLoading] = useState(false);
   const [selectedRole, setSelectedRole] = useState<string>("");
   const [selectedForm, setSelectedForm] = useState<string>("");
-  const [availableSubjects, setAvailableSubjects] = useState<string[]>([]);
-
-  const primarySubjects = [
-    "English",
-    "Kiswahili",
-    "Mathematics",
-    "Science",
-    "Social Studies",
-    "Civics",
-    "Vocational Skills",
-    "Religion",
-  ];
-
-  const secondarySubjects = [
-    "English",
-    "Kiswahili",
-    "Mathematics",
-    "Biology",
-    "Physics",
-    "Chemistry",
-    "Geography",
-    "History",
-    "Civics",
-    "Commerce",
-    "Bookkeeping",
-  ];
-
-  const advancedSubjects = [
-    "General Studies",
-    "Physics",
-    "Chemistry",
-    "Biology",
-    "Mathematics",
-    "Geography",
-    "History",
-    "Economics",
-    "English Language",
-    "Kiswahili",
-    "Computer Studies",
-  ];
+  // Forms and the subjects taught in each come from the national syllabus
+  const { data: catalog } = useSyllabusCatalog();
+  const availableSubjects = subjectsForForm(catalog, selectedForm);
+  const stageForms = (stage: string) => (catalog?.forms ?? []).filter((item) => item.stage === stage);
+
+  const formLabel = (form: string) => {
+    const [, kind, number] = form.match(/^(Grade|Form) (\d+)$/) ?? [];
+    if (kind === "Grade") return t("auth.grade", { number });
+    if (kind === "Form") return t("auth.form", { number });
+    return form;
+  };
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -71,16 +46,6 @@ const Auth = () => {
     });
   }, [navigate]);
 
-  // Update subjects dynamically based on form selection
-  useEffect(() => {
-    if (selectedForm.startsWith("Grade")) setAvailableSubjects(primarySubjects);
-    else if (["Form 1", "Form 2", "Form 3", "Form 4"].includes(selectedForm))
-      setAvailableSubjects(secondarySubjects);
-    else if (["Form 5", "Form 6"].includes(selectedForm))
-      setAvailableSubjects(advancedSubjects);
-    else setAvailableSubjects([]);
-  }, [selectedForm]);
-
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
@@ -89,12 +54,11 @@ const Auth = () => {
     const fullName = formData.get("fullName") as string;
     const email = formData.get("email") as string;
     const password = formData.get("password") as string;
-    const skillLevel = formData.get("skillLevel") as string;
     const role = formData.get("role") as string;
     const form = formData.get("form") as string;
     const subject = formData.get("subject") as string;
 
-    console.log("Registration data:", { fullName, email, role, form, subject, skillLevel });
+    console.log("Registration data:", { fullName, email, role, form, subject });
 
     try {
       // First create the auth user
@@ -126,15 +90,16 @@ const Auth = () => {
         full_name: fullName,
         email: email,
         role: role,
-        skill_level: skillLevel,
+        // Students are placed by the placement test on their dashboard
+        skill_level: "beginner" as const,
         form: role === "student" ? form : null,
         subject: role === "student" ? subject : null,
         interests: null,
-        total_points: 0,
         streak_days: 0,
         avatar_url: null,
         current_form: null,
-        institution: null
+        institution: null,
+        language,
       };
 
       console.log("Saving profile data:", profileData);
@@ -164,7 +129,7 @@ const Auth = () => {
         }
       }
 
-      toast.success("Account created successfully!");
+      toast.success(t("auth.accountCreated"));
       
       // Wait a moment for the profile to be saved
       setTimeout(() => {
@@ -173,7 +138,7 @@ const Auth = () => {
       
     } catch (err: any) {
       console.error("Registration error:", err);
-      toast.error(err.message || "Failed to sign up");
+      toast.error(err.message || t("auth.signUpFailed"));
     } finally {
       setIsLoading(false);
     }
@@ -191,14 +156,14 @@ const Auth = () => {
       const { error, data: { user } } = await supabase.auth.signInWithPassword({ email, password });
       if (error) throw error;
 
-      toast.success("Signed in successfully!");
+      toast.success(t("auth.signedIn"));
       if (user) {
         const { data } = await supabase.from("profiles").select("role").eq("id", user.id).single();
         if (data?.role === "teacher") navigate("/teacher/dashboard");
         else navigate("/student/dashboard");
       }
     } catch (err: any) {
-      toast.error(err.message || "Failed to sign in");
+      toast.error(err.message || t("auth.signInFailed"));
     } finally {
       setIsLoading(false);
     }
@@ -208,6 +173,9 @@ const Auth = () => {
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-secondary/10 p-4">
       <Card className="w-full max-w-md shadow-strong">
         <CardHeader className="text-center">
+          <div className="flex justify-end">
+            <LanguageSwitcher />
+          </div>
           <div className="flex justify-center mb-4">
             <div className="p-3 rounded-2xl bg-gradient-to-br from-primary to-warning">
               <GraduationCap className="h-8 w-8 text-primary-foreground" />
@@ -216,30 +184,30 @@ const Auth = () => {
           <CardTitle className="text-3xl font-bold">AI Learn Tanzania</CardTitle>
           <CardDescription className="flex items-center justify-center gap-2">
             <Sparkles className="h-4 w-4" />
-            Personalized AI Learning for East Africa
+            {t("auth.tagline")}
           </CardDescription>
         </CardHeader>
 
         <CardContent>
           <Tabs defaultValue="signin" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="signin">Sign In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              <TabsTrigger value="signin">{t("auth.signIn")}</TabsTrigger>
+              <TabsTrigger value="signup">{t("auth.signUp")}</TabsTrigger>
             </TabsList>
 
             {/* SIGN IN */}
             <TabsContent value="signin">
               <form onSubmit={handleSignIn} className="space-y-4">
                 <div>
-                  <Label>Email</Label>
+                  <Label>{t("auth.email")}</Label>
                   <Input name="email" type="email" required placeholder="you@example.com" />
                 </div>
                 <div>
-                  <Label>Password</Label>
+                  <Label>{t("auth.password")}</Label>
                   <Input name="password" type="password" required placeholder="••••••••" />
                 </div>
                 <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Signing in..." : "Sign In"}
+                  {isLoading ? t("auth.signingIn") : t("auth.signIn")}
                 </Button>
               </form>
             </TabsContent>
@@ -248,20 +216,20 @@ const Auth = () => {
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
                 <div>
-                  <Label>Full Name</Label>
-                  <Input name="fullName" required placeholder="John Doe" />
+                  <Label>{t("auth.fullName")}</Label>
+                  <Input name="fullName" required placeholder={t("auth.fullNamePlaceholder")} />
                 </div>
                 <div>
-                  <Label>Email</Label>
+                  <Label>{t("auth.email")}</Label>
                   <Input name="email" type="email" required placeholder="you@example.com" />
                 </div>
                 <div>
-                  <Label>Password</Label>
+                  <Label>{t("auth.password")}</Label>
                   <Input name="password" type="password" required minLength={6} placeholder="••••••••" />
                 </div>
 
                 <div>
-                  <Label>Register As</Label>
+                  <Label>{t("auth.registerAs")}</Label>
                   <select 
                     name="role" 
                     className="w-full border rounded px-2 py-1" 
@@ -269,16 +237,16 @@ const Auth = () => {
                     value={selectedRole}
                     onChange={(e) => setSelectedRole(e.target.value)}
                   >
-                    <option value="">Select Role</option>
-                    <option value="teacher">Teacher</option>
-                    <option value="student">Student</option>
+                    <option value="">{t("auth.selectRole")}</option>
+                    <option value="teacher">{t("auth.teacher")}</option>
+                    <option value="student">{t("auth.student")}</option>
                   </select>
                 </div>
 
                 {selectedRole === "student" && (
                   <>
                     <div>
-                      <Label>Grade / Form</Label>
+                      <Label>{t("auth.gradeOrForm")}</Label>
                       <select
                         name="form"
                         className="w-full border rounded px-2 py-1"
@@ -286,33 +254,22 @@ const Auth = () => {
                         value={selectedForm}
                         onChange={(e) => setSelectedForm(e.target.value)}
                       >
-                        <option value="">Select Level</option>
-                        <optgroup label="Primary">
-                          <option value="Grade 1">Grade 1</option>
-                          <option value="Grade 2">Grade 2</option>
-                          <option value="Grade 3">Grade 3</option>
-                          <option value="Grade 4">Grade 4</option>
-                          <option value="Grade 5">Grade 5</option>
-                          <option value="Grade 6">Grade 6</option>
-                        </optgroup>
-                        <optgroup label="Secondary">
-                          <option value="Form 1">Form 1</option>
-                          <option value="Form 2">Form 2</option>
-                          <option value="Form 3">Form 3</option>
-                          <option value="Form 4">Form 4</option>
-                        </optgroup>
-                        <optgroup label="Advanced">
-                          <option value="Form 5">Form 5</option>
-                          <option value="Form 6">Form 6</option>
-                        </optgroup>
+                        <option value="">{t("auth.selectLevel")}</option>
+                        {(["primary", "secondary", "advanced"] as const).map((stage) => (
+                          <optgroup key={stage} label={t(`auth.${stage}`)}>
+                            {stageForms(stage).map((item) => (
+                              <option key={item.form} value={item.form}>{formLabel(item.form)}</option>
+                            ))}
+                          </optgroup>
+                        ))}
                       </select>
                     </div>
 
                     {availableSubjects.length > 0 && (
                       <div>
-                        <Label>Subject</Label>
+                        <Label>{t("auth.subject")}</Label>
                         <select name="subject" className="w-full border rounded px-2 py-1" required>
-                          <option value="">Select Subject</option>
+                          <option value="">{t("auth.selectSubject")}</option>
                           {availableSubjects.map((subj) => (
                             <option key={subj} value={subj}>
                               {subj}
@@ -324,18 +281,8 @@ const Auth = () => {
                   </>
                 )}
 
-                <div>
-                  <Label>Skill Level</Label>
-                  <select name="skillLevel" required className="w-full border rounded px-2 py-1">
-                    <option value="">Select Skill Level</option>
-                    <option value="beginner">Beginner</option>
-                    <option value="intermediate">Intermediate</option>
-                    <option value="advanced">Advanced</option>
-                  </select>
-                </div>
-
                 <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Creating account..." : "Create Account"}
+                  {isLoading ? t("auth.creatingAccount") : t("auth.createAccount")}
                 </Button>
               </form>
             </TabsContent>
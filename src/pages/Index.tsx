@@ -1,13 +1,20 @@
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import LanguageSwitcher from "@/components/ui/LanguageSwitcher";
 import { GraduationCap, Brain, Trophy, Sparkles, ArrowRight } from "lucide-react";
+import { useI18n } from "@/hooks/useI18n";
 
 const Index = () => {
   const navigate = useNavigate();
+  const { t } = useI18n();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-secondary/10">
+      <div className="container mx-auto px-4 pt-4 flex justify-end">
+        <LanguageSwitcher />
+      </div>
+
       {/* Hero Section */}
       <section className="container mx-auto px-4 py-20">
         <div className="max-w-4xl mx-auto text-center space-y-8">
@@ -22,7 +29,7 @@ const Index = () => {
           </h1>
           
           <p className="text-xl md:text-2xl text-muted-foreground max-w-2xl mx-auto">
-            Your personalized AI-powered learning platform for mastering AI tools and technologies across East Africa
+            {t("index.tagline")}
           </p>
 
           <div className="flex flex-col sm:flex-row gap-4 justify-center pt-6">
@@ -31,7 +38,7 @@ const Index = () => {
               onClick={() => navigate("/auth")}
               className="text-lg px-8 shadow-medium hover:shadow-strong transition-all group"
             >
-              Get Started
+              {t("index.getStarted")}
               <ArrowRight className="ml-2 h-5 w-5 group-hover:translate-x-1 transition-transform" />
             </Button>
             <Button
@@ -40,7 +47,7 @@ const Index = () => {
               onClick={() => navigate("/auth")}
               className="text-lg px-8"
             >
-              Sign In
+              {t("index.signIn")}
             </Button>
           </div>
         </div>
@@ -53,9 +60,9 @@ const Index = () => {
             <div className="p-3 rounded-xl bg-primary/10 w-fit mb-4">
               <Brain className="h-8 w-8 text-primary" />
             </div>
-            <h3 className="text-xl font-bold mb-2">Personalized Learning</h3>
+            <h3 className="text-xl font-bold mb-2">{t("index.personalizedTitle")}</h3>
             <p className="text-muted-foreground">
-              AI-powered assessment creates a custom learning journey tailored to your skill level
+              {t("index.personalizedText")}
             </p>
           </div>
 
@@ -63,9 +70,9 @@ const Index = () => {
             <div className="p-3 rounded-xl bg-secondary/10 w-fit mb-4">
               <Sparkles className="h-8 w-8 text-secondary" />
             </div>
-            <h3 className="text-xl font-bold mb-2">Interactive Modules</h3>
+            <h3 className="text-xl font-bold mb-2">{t("index.modulesTitle")}</h3>
             <p className="text-muted-foreground">
-              Engaging content with quizzes and hands-on exercises to reinforce your learning
+              {t("index.modulesText")}
             </p>
           </div>
 
@@ -73,9 +80,9 @@ const Index = () => {
             <div className="p-3 rounded-xl bg-warning/10 w-fit mb-4">
               <Trophy className="h-8 w-8 text-warning" />
             </div>
-            <h3 className="text-xl font-bold mb-2">Gamification</h3>
+            <h3 className="text-xl font-bold mb-2">{t("index.gamificationTitle")}</h3>
             <p className="text-muted-foreground">
-              Earn points, maintain streaks, and unlock achievements as you progress
+              {t("index.gamificationText")}
             </p>
           </div>
         </div>
@@ -85,17 +92,17 @@ const Index = () => {
       <section className="container mx-auto px-4 py-20">
         <div className="max-w-3xl mx-auto text-center bg-gradient-to-r from-primary/10 to-secondary/10 rounded-3xl p-12 shadow-medium">
           <h2 className="text-3xl md:text-4xl font-bold mb-4">
-            Ready to Start Your AI Journey?
+            {t("index.ctaTitle")}
           </h2>
           <p className="text-lg text-muted-foreground mb-8">
-            Join thousands of learners across East Africa mastering AI technologies
+            {t("index.ctaText")}
           </p>
           <Button
             size="lg"
             onClick={() => navigate("/auth")}
             className="text-lg px-12 shadow-medium hover:shadow-strong transition-all"
           >
-            Begin Learning Today
+            {t("index.ctaButton")}
           </Button>
         </div>
       </section>
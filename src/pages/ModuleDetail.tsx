@@ -5,12 +5,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
+import ReactMarkdown from "react-markdown";
+import { apiFetch } from "@/lib/api";
+import type { Tables } from "@/integrations/supabase/types";
+
+type ModuleRow = Tables<"learning_modules">;
+type ProgressRow = Tables<"user_module_progress">;
 
 const ModuleDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [module, setModule] = useState<any>(null);
-  const [progress, setProgress] = useState<any>(null);
+  const [module, setModule] = useState<ModuleRow | null>(null);
+  const [progress, setProgress] = useState<Partial<ProgressRow> | null>(null);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
 
@@ -22,7 +28,7 @@ const ModuleDetail = () => {
 
       // 1. Get module info
       const { data: moduleData, error: moduleError } = await supabase
-        .from("modules")
+        .from("learning_modules")
         .select("*")
         .eq("id", id)
         .single();
@@ -36,15 +42,18 @@ const ModuleDetail = () => {
 
       // 2. Get user progress for this module
       const { data: sessionData } = await supabase.auth.getSession();
-      const userId = sessionData?.data?.session?.user?.id;
-      if (!userId) return;
+      const userId = sessionData.session?.user?.id;
+      if (!userId) {
+        setLoading(false);
+        return;
+      }
 
       const { data: progressData } = await supabase
-        .from("progress")
+        .from("user_module_progress")
         .select("*")
         .eq("user_id", userId)
         .eq("module_id", id)
-        .single();
+        .maybeSingle();
 
       setProgress(progressData || { is_completed: false, progress_percentage: 0 });
       setLoading(false);
@@ -57,23 +66,15 @@ const ModuleDetail = () => {
     if (!module) return;
     setUpdating(true);
 
-    const { data: sessionData } = await supabase.auth.getSession();
-    const userId = sessionData?.data?.session?.user?.id;
-    if (!userId) return;
-
-    const { error } = await supabase.from("progress").upsert({
-      user_id: userId,
-      module_id: module.id,
-      is_completed: true,
-      progress_percentage: 100,
-    });
-
-    if (error) {
-      console.error("❌ Error updating progress:", error.message);
-      toast.error("Failed to mark complete");
-    } else {
+    // Completion goes through the server so the quiz score, points and badge are applied together
+    try {
+      await apiFetch(`/api/modules/${module.id}/complete`, { method: "POST" });
       toast.success("Module marked as complete!");
       setProgress({ ...progress, is_completed: true, progress_percentage: 100 });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("❌ Error updating progress:", message);
+      toast.error(`Failed to mark complete: ${message}`);
     }
 
     setUpdating(false);
@@ -151,15 +152,9 @@ const ModuleDetail = () => {
           <CardHeader>
             <CardTitle>Lessons / Content</CardTitle>
           </CardHeader>
-          <CardContent className="space-y-4">
-            {/* Example: loop over lessons if module.lessons exists */}
-            {module.lessons?.length ? (
-              module.lessons.map((lesson: any, index: number) => (
-                <Card key={lesson.id || index} className="shadow-sm p-4">
-                  <h3 className="font-semibold">{lesson.title}</h3>
-                  <p className="text-sm text-muted-foreground">{lesson.content}</p>
-                </Card>
-              ))
+          <CardContent className="prose max-w-none">
+            {progress?.detailed_content || module.content ? (
+              <ReactMarkdown>{progress?.detailed_content || module.content}</ReactMarkdown>
             ) : (
               <p className="text-muted-foreground">No lessons available yet.</p>
             )}
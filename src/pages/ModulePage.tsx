@@ -5,9 +5,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+import { isNetworkError, isOffline, readOfflinePack, readSessionOfflinePack } from "@/lib/offline";
+import { useQueueOfflineEvent } from "@/hooks/useOffline";
+import OfflineIndicator from "@/components/ui/OfflineIndicator";
+import LanguageSwitcher from "@/components/ui/LanguageSwitcher";
+import { useI18n } from "@/hooks/useI18n";
+import type { MessageKey } from "@/lib/i18n";
 
 interface Module {
   id: string;
+  module_id: string;
   title: string;
   description: string;
   difficulty: string;
@@ -21,22 +29,49 @@ interface Quiz {
   id: string;
   question: string;
   options: string[];
-  correct_answer: string;
+}
+
+interface ModuleQuiz {
+  quiz_id: string;
+  questions: Quiz[];
+}
+
+interface GradedAnswer {
+  correct: boolean;
+  explanation: string;
+  achievements: { title: string }[];
+}
+
+interface ModuleCompletion {
+  points_awarded: number;
+  badge: { name: string } | null;
+  level: { current: string; leveled_up: boolean };
+  achievements: { title: string }[];
 }
 
 const ModulePage = () => {
   const { moduleId } = useParams<{ moduleId: string }>();
   const navigate = useNavigate();
+  const { t, formatNumber } = useI18n();
 
+  const [userId, setUserId] = useState<string | null>(null);
   const [module, setModule] = useState<Module | null>(null);
   const [progress, setProgress] = useState(0);
   const [completed, setCompleted] = useState(false);
   const [loading, setLoading] = useState(true);
 
+  const [quizId, setQuizId] = useState<string | null>(null);
   const [quizList, setQuizList] = useState<Quiz[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState("");
   const [checking, setChecking] = useState(false);
+  const [feedback, setFeedback] = useState("");
+  // Set once work has been saved offline, so scoring and completion are left to the server when it syncs
+  const [savedOffline, setSavedOffline] = useState(false);
+  const { mutateAsync: queueOfflineEvent } = useQueueOfflineEvent(userId);
+
+  const announceAchievements = (achievements: { title: string }[]) =>
+    achievements.forEach((achievement) => toast.success(t("common.achievementUnlocked", { title: achievement.title })));
 
   useEffect(() => {
     if (!moduleId) return;
@@ -47,157 +82,239 @@ const ModulePage = () => {
     setLoading(true);
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      const user = session?.user;
-      if (!user) return navigate("/auth");
+      // An expired session cannot be refreshed offline; the student it belongs to can still open their download
+      const user = session?.user ?? (isOffline() ? { id: (await readSessionOfflinePack())?.user_id } : null);
+      if (!user?.id) return navigate("/auth");
+      setUserId(user.id);
 
-      // Fetch user module
-      const { data: moduleRow, error: moduleError } = await supabase
+      // Fetch user module, or the copy downloaded to this device when there is no connection
+      const { data: onlineRow, error: moduleError } = await supabase
         .from("user_module_progress")
         .select("*")
         .eq("module_id", moduleId)
         .eq("user_id", user.id)
         .maybeSingle();
+      const moduleRow = moduleError && isNetworkError(moduleError)
+        ? (await readOfflinePack(user.id))?.modules.find((offline) => offline.module_id === moduleId)
+        : onlineRow;
 
-      if (!moduleRow || moduleError) {
-        toast.error("Module not found");
-        return navigate("/dashboard");
+      if (!moduleRow || (moduleError && !isNetworkError(moduleError))) {
+        toast.error(t("modulePage.notFound"));
+        return navigate("/student/dashboard");
       }
 
       setModule(moduleRow);
       setProgress(moduleRow.progress_percentage || 0);
       setCompleted(moduleRow.is_completed || false);
 
-      // Fetch real quizzes from Supabase
-      fetchQuizzes(moduleRow.id);
+      // Opening an unfinished module counts as reading for today's streak
+      if (!moduleRow.is_completed) {
+        apiFetch("/api/streaks/activity", {
+          method: "POST",
+          body: JSON.stringify({ kind: "section_read" }),
+        }).catch((err) => {
+          if (isNetworkError(err)) return queueOfflineEvent({ kind: "section_read" });
+          console.error("[ModulePage] Failed to record reading:", err);
+        });
+      }
+
+      // Quizzes come from the API server, which keeps the answer keys
+      fetchQuizzes(user.id, moduleRow.module_id);
     } catch (err) {
       console.error("[ModulePage] Failed to load module:", err);
-      toast.error("Failed to load module");
-      navigate("/dashboard");
+      toast.error(t("modulePage.loadFailed"));
+      navigate("/student/dashboard");
     } finally {
       setLoading(false);
     }
   };
 
-  const fetchQuizzes = async (moduleId: string) => {
+  const fetchQuizzes = async (userId: string, moduleId: string) => {
     try {
-      const { data, error } = await supabase
-        .from("quizzes")
-        .select("*")
-        .eq("module_id", moduleId);
-
-      if (error || !data) throw error || new Error("No quizzes found");
-
-      // Parse options if stored as JSON string
-      const quizzes: Quiz[] = data.map((q: any) => ({
-        id: q.id,
-        question: q.question,
-        options: typeof q.options === "string" ? JSON.parse(q.options) : q.options,
-        correct_answer: q.correct_answer,
-      }));
+      const quiz = await apiFetch<ModuleQuiz>(`/api/quizzes/module/${moduleId}`).catch(async (err) => {
+        // Offline, the quiz downloaded with the module is answered without its keys
+        const saved = isNetworkError(err)
+          ? (await readOfflinePack(userId))?.modules.find((offline) => offline.module_id === moduleId)?.quiz
+          : null;
+        if (!saved) throw err;
+        return saved;
+      });
+      if (quiz.questions.length === 0) throw new Error("No quizzes found");
 
-      setQuizList(quizzes);
+      setQuizId(quiz.quiz_id);
+      setQuizList(quiz.questions);
       setCurrentQuestionIndex(0);
       setSelectedAnswer("");
     } catch (err) {
       console.error("[ModulePage] Failed to fetch quizzes:", err);
-      toast.error("No quizzes available for this module.");
+      toast.error(t("modulePage.noQuizzes"));
       setQuizList([]);
     }
   };
 
   const submitAnswer = async () => {
-    if (!quizList.length || !selectedAnswer) return;
+    if (!quizList.length || !selectedAnswer || !quizId) return;
     setChecking(true);
 
     try {
       const quiz = quizList[currentQuestionIndex];
-      const correct = selectedAnswer === quiz.correct_answer;
+      let graded: GradedAnswer;
+      try {
+        graded = await apiFetch<GradedAnswer>(`/api/quizzes/${quizId}/answers`, {
+          method: "POST",
+          body: JSON.stringify({ questionId: quiz.id, answer: selectedAnswer }),
+        });
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        await saveAnswerOffline(quiz);
+        return;
+      }
+      const { correct, explanation, achievements } = graded;
+      announceAchievements(achievements);
 
       if (correct) {
-        toast.success(`Correct! +${module?.points_reward ?? 100} points`);
-        await updateProgress(module?.points_reward ?? 100);
+        toast.success(t("modulePage.correct"));
+        await updateProgress(Math.round(((currentQuestionIndex + 1) / quizList.length) * 100));
 
         if (currentQuestionIndex + 1 < quizList.length) {
           setCurrentQuestionIndex(currentQuestionIndex + 1);
           setSelectedAnswer("");
+          setFeedback("");
         } else {
-          setCompleted(true);
-          toast.success("🎉 Module completed!");
+          await completeModule();
         }
       } else {
-        toast.error("Incorrect, try again!");
+        toast.error(t("modulePage.incorrect"));
+        setFeedback(explanation);
       }
     } catch (err) {
       console.error("[ModulePage] submitAnswer error:", err);
-      toast.error("Failed to check answer");
+      toast.error(t("modulePage.checkFailed"));
     } finally {
       setChecking(false);
     }
   };
 
-  const updateProgress = async (increment: number) => {
+  // Offline answers cannot be marked, so the student moves on and the server marks them when they sync
+  const saveAnswerOffline = async (quiz: Quiz) => {
+    if (!module || !quizId) return;
+    const percentage = Math.round(((currentQuestionIndex + 1) / quizList.length) * 100);
+
+    await queueOfflineEvent({ kind: "answer", quiz_id: quizId, question_id: quiz.id, answer: selectedAnswer });
+    await queueOfflineEvent({ kind: "progress", module_id: module.module_id, progress_percentage: percentage });
+    setSavedOffline(true);
+    setProgress((current) => Math.max(current, Math.min(percentage, 99)));
+    toast.info(t("common.savedOffline"));
+
+    if (currentQuestionIndex + 1 < quizList.length) {
+      setCurrentQuestionIndex(currentQuestionIndex + 1);
+      setSelectedAnswer("");
+      setFeedback("");
+    } else {
+      await completeModule(true);
+    }
+  };
+
+  const updateProgress = async (percentage: number) => {
     if (!module) return;
     try {
       const { data: { session } } = await supabase.auth.getSession();
       const user = session?.user;
       if (!user) return;
 
-      const newProgress = Math.min(progress + increment, 100);
-      const isComplete = newProgress === 100;
+      // Completion itself goes through the server so points and badges are applied with it
+      const newProgress = Math.max(progress, Math.min(percentage, 99));
 
       await supabase
         .from("user_module_progress")
-        .upsert({
-          user_id: user.id,
-          module_id: module.id,
-          progress_percentage: newProgress,
-          is_completed: isComplete,
-        });
+        .update({ progress_percentage: newProgress })
+        .eq("user_id", user.id)
+        .eq("module_id", module.module_id);
 
       setProgress(newProgress);
-      setCompleted(isComplete);
     } catch (err) {
       console.error("[ModulePage] Failed to update progress:", err);
-      toast.error("Failed to update progress");
+      toast.error(t("modulePage.progressFailed"));
+    }
+  };
+
+  const completeModule = async (offline = savedOffline) => {
+    if (!module) return;
+
+    // Queued behind the answers it depends on; complete_module scores them once they have synced
+    const completeLater = async () => {
+      await queueOfflineEvent({ kind: "complete", module_id: module.module_id });
+      setSavedOffline(true);
+      setCompleted(true);
+      toast.info(t("common.completeOffline"));
+    };
+
+    try {
+      if (offline) return await completeLater();
+
+      const result = await apiFetch<ModuleCompletion>(`/api/modules/${module.module_id}/complete`, {
+        method: "POST",
+      });
+
+      setProgress(100);
+      setCompleted(true);
+      toast.success(
+        result.points_awarded > 0
+          ? t("modulePage.completedWithPoints", { points: result.points_awarded })
+          : t("modulePage.completed")
+      );
+      if (result.badge) toast.success(t("modulePage.badgeEarned", { name: result.badge.name }));
+      if (result.level.leveled_up) toast.success(t("modulePage.levelUp", { level: result.level.current }));
+      announceAchievements(result.achievements);
+    } catch (err) {
+      if (isNetworkError(err)) return completeLater();
+      console.error("[ModulePage] Failed to complete module:", err);
+      toast.error(t("modulePage.completeFailed"));
     }
   };
 
   if (loading)
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-pulse text-2xl text-primary">Loading...</div>
+        <div className="animate-pulse text-2xl text-primary">{t("common.loading")}</div>
       </div>
     );
 
   if (!module)
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <p className="text-muted-foreground text-lg">Module not found.</p>
+        <p className="text-muted-foreground text-lg">{t("modulePage.notFoundFull")}</p>
       </div>
     );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5 p-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-end mb-4">
+          <LanguageSwitcher />
+        </div>
+        <OfflineIndicator userId={userId} />
+      </div>
       <Card className="max-w-3xl mx-auto shadow-soft hover:shadow-medium transition-shadow">
         <CardHeader>
           <CardTitle>{module.title}</CardTitle>
           <CardDescription>{module.description}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <p><strong>Difficulty:</strong> {module.difficulty}</p>
-          <p><strong>Estimated Duration:</strong> {module.estimated_duration} min</p>
-          <p><strong>Points Reward:</strong> {module.points_reward}</p>
+          <p><strong>{t("modulePage.difficulty")}</strong> {t(`difficulty.${module.difficulty}` as MessageKey)}</p>
+          <p><strong>{t("modulePage.duration")}</strong> {t("common.minutes", { minutes: module.estimated_duration })}</p>
+          <p><strong>{t("modulePage.pointsReward")}</strong> {formatNumber(module.points_reward)}</p>
 
           <div className="space-y-2">
             <Progress value={progress} />
-            <p className="text-xs text-center text-muted-foreground">{progress}% complete</p>
+            <p className="text-xs text-center text-muted-foreground">{t("modulePage.percentComplete", { percent: progress })}</p>
           </div>
 
           {/* Quiz Section */}
           {!completed && quizList.length > 0 && (
             <Card className="mt-4 p-4 bg-card/50 space-y-4">
               <p className="text-sm text-muted-foreground">
-                Question {currentQuestionIndex + 1} of {quizList.length}
+                {t("modulePage.questionOf", { number: currentQuestionIndex + 1, total: quizList.length })}
               </p>
               <p className="font-semibold mb-2">{quizList[currentQuestionIndex].question}</p>
               <div className="space-y-2">
@@ -220,28 +337,29 @@ const ModulePage = () => {
                   </label>
                 ))}
               </div>
+              {feedback && <p className="text-sm text-muted-foreground">{feedback}</p>}
               <Button
                 onClick={submitAnswer}
                 disabled={checking || !selectedAnswer}
                 className="w-full"
               >
-                {checking ? "Checking..." : "Submit Answer"}
+                {checking ? t("modulePage.checking") : t("modulePage.submitAnswer")}
               </Button>
             </Card>
           )}
 
           {completed && (
             <p className="text-center font-semibold text-green-600">
-              🎉 You have completed this module!
+              {savedOffline ? t("modulePage.savedOnDevice") : t("modulePage.youCompleted")}
             </p>
           )}
 
           <Button
             variant="outline"
-            onClick={() => navigate("/dashboard")}
+            onClick={() => navigate("/student/dashboard")}
             className="mt-4 w-full"
           >
-            Back to Dashboard
+            {t("modulePage.backToDashboard")}
           </Button>
         </CardContent>
       </Card>
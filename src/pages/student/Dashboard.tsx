@@ -23,19 +23,94 @@ import {
   Lock, 
   User, 
   Gem, 
-  TrendingUp 
+  TrendingUp,
+  Users,
+  ClipboardList,
+  Repeat,
+  Target,
+  Smartphone
 } from "lucide-react";
 import { toast } from "sonner";
 import ReactMarkdown from 'react-markdown';
 import Confetti from 'react-confetti';
 import UserBadges from "@/components/ui/UserBadges";
+import PointsHistory from "@/components/ui/PointsHistory";
+import Leaderboard, { type LeaderboardVisibility } from "@/components/ui/Leaderboard";
 import { useUserProgress } from "@/hooks/useUserProgress";
+import { useStreak, type Streak } from "@/hooks/useStreak";
+import ActivityHeatmap from "@/components/ui/ActivityHeatmap";
+import JoinClass from "@/components/ui/JoinClass";
+import AssignedToMe from "@/components/ui/AssignedToMe";
+import PlacementTest from "@/components/ui/PlacementTest";
+import { usePlacementSummary } from "@/hooks/usePlacement";
+import ReviewSession from "@/components/ui/ReviewSession";
+import SkillMasteryChart from "@/components/ui/SkillMasteryChart";
+import AchievementsGrid from "@/components/ui/AchievementsGrid";
+import type { EarnedAchievement } from "@/hooks/useAchievements";
+import OfflineIndicator from "@/components/ui/OfflineIndicator";
+import { useQueueOfflineEvent } from "@/hooks/useOffline";
+import { clearOfflinePack, isNetworkError, isOffline, readOfflinePack, readSessionOfflinePack } from "@/lib/offline";
+import WrittenQuestion from "@/components/ui/WrittenQuestion";
+import PhoneAccess from "@/components/ui/PhoneAccess";
+import LanguageSwitcher from "@/components/ui/LanguageSwitcher";
+import { useI18n } from "@/hooks/useI18n";
+import { useContentLanguages, useSetModuleLanguage } from "@/hooks/useModuleLanguage";
+import { LANGUAGES, type MessageKey } from "@/lib/i18n";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api";
+import type { WrittenGrade } from "@/hooks/useGrading";
 
 type QuizQuestion = {
   id: string;
+  type?: "mcq" | "written";
   question: string;
   options: string[];
-  correct_answer: string;
+  rubric?: { criterion: string; points: number }[];
+  // Only sent by the server once the module is read-only
+  correct_answer?: string;
+  model_answer?: string;
+  explanation?: string;
+};
+
+type ModuleQuiz = {
+  quiz_id: string;
+  module_id: string;
+  passing_score: number;
+  answers_revealed: boolean;
+  questions: QuizQuestion[];
+  previous_answers: Record<string, { answer: string; correct: boolean; grade?: WrittenGrade }>;
+};
+
+type GradedAnswer = {
+  question_id: string;
+  correct: boolean;
+  explanation: string;
+  points_awarded: number;
+  streak: StreakUpdate;
+  achievements: EarnedAchievement[];
+  // Present for written answers
+  grade?: WrittenGrade;
+};
+
+type StreakUpdate = Pick<Streak, 'streak_days' | 'longest_streak' | 'streak_freezes'> & {
+  freezes_used: number;
+  freeze_earned: boolean;
+};
+
+type ModuleCompletion = {
+  module_id: string;
+  already_completed: boolean;
+  score: number | null;
+  passed: boolean | null;
+  points_awarded: number;
+  badge: BadgeType | null;
+  streak: StreakUpdate | null;
+  achievements: EarnedAchievement[];
+  level: {
+    previous: string;
+    current: string;
+    leveled_up: boolean;
+  };
 };
 
 type Module = {
@@ -52,8 +127,11 @@ type Module = {
   detailed_content: string | null;
   interest?: string;
   quizzes?: QuizQuestion[];
+  quiz_id?: string;
   level?: number;
   is_read_only?: boolean;
+  // The language the student reads the module and answers its quiz in
+  language?: string;
 };
 
 type BadgeType = {
@@ -78,6 +156,7 @@ type Profile = {
   updated_at: string;
   email?: string;
   avatar_url?: string;
+  leaderboard_visibility?: string;
 };
 
 // Helper functions for avatar initials
@@ -124,17 +203,25 @@ const ColoredProgress = ({ value, className = "" }: { value: number; className?:
 
 const Dashboard = () => {
   const navigate = useNavigate();
+  const { t, rich, formatDate, formatNumber } = useI18n();
   const queryClient = useQueryClient();
   const [selectedModule, setSelectedModule] = useState<Module | null>(null);
+  const { data: contentLanguages = [] } = useContentLanguages();
+  const { mutateAsync: saveModuleLanguage, isPending: isTranslating } = useSetModuleLanguage();
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [quizResults, setQuizResults] = useState<Record<string, boolean>>({});
+  const [quizFeedback, setQuizFeedback] = useState<Record<string, string>>({});
+  const [writtenGrades, setWrittenGrades] = useState<Record<string, WrittenGrade>>({});
   const [completedQuizzes, setCompletedQuizzes] = useState<Set<string>>(new Set());
   const [loadingQuizzes, setLoadingQuizzes] = useState<boolean>(false);
   const [showBadgeModal, setShowBadgeModal] = useState(false);
   const [earnedBadge, setEarnedBadge] = useState<BadgeType | null>(null);
   const [showLevelUpModal, setShowLevelUpModal] = useState(false);
+  const [reachedLevel, setReachedLevel] = useState<string | null>(null);
   const [incorrectQuizzes, setIncorrectQuizzes] = useState<Set<string>>(new Set());
   const [isCompletingModule, setIsCompletingModule] = useState(false);
+  // Answers saved on the device while offline; they are marked once they sync
+  const [queuedAnswers, setQueuedAnswers] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState<'dashboard' | 'achievements'>('dashboard');
   const [userId, setUserId] = useState<string | null>(null);
 
@@ -143,6 +230,14 @@ const Dashboard = () => {
     queryKey: ['session'],
     queryFn: async () => {
       const { data, error } = await supabase.auth.getSession();
+      // An expired session cannot be refreshed offline, so the student it belongs to carries on with their pack
+      if ((error || !data.session) && isOffline()) {
+        const pack = await readSessionOfflinePack();
+        if (pack) {
+          setUserId(pack.user_id);
+          return null;
+        }
+      }
       if (error) throw error;
       if (!data.session) {
         navigate("/auth");
@@ -151,6 +246,7 @@ const Dashboard = () => {
       setUserId(data.session.user.id);
       return data.session;
     },
+    networkMode: 'always',
   });
 
   // Use the custom hook for user progress
@@ -161,6 +257,9 @@ const Dashboard = () => {
     refetch: refetchLevel 
   } = useUserProgress(userId);
 
+  const { data: streak } = useStreak(userId);
+  const { mutateAsync: queueOfflineEvent } = useQueueOfflineEvent(userId);
+
   // Fetch profile
   const { 
     data: profile, 
@@ -169,6 +268,8 @@ const Dashboard = () => {
   } = useQuery({
     queryKey: ['profile', userId],
     queryFn: async (): Promise<Profile | null> => {
+      if (isOffline()) return (await readOfflinePack(userId))?.profile ?? null;
+
       const { data, error } = await supabase
         .from("profiles")
         .select("*")
@@ -177,14 +278,23 @@ const Dashboard = () => {
       
       if (error) {
         console.error("Error fetching profile:", error);
+        const pack = isNetworkError(error) ? await readOfflinePack(userId) : null;
+        if (pack) return pack.profile;
         throw error;
       }
       
       return data;
     },
     enabled: !!userId,
+    networkMode: 'always',
   });
 
+  // Placement results per subject; students who were never placed are prompted to take the test
+  const { data: placement } = usePlacementSummary(!!userId);
+  const isPlaced = !!placement?.levels.some(
+    (level) => level.subject.toLowerCase() === profile?.subject?.toLowerCase()
+  );
+
   // Fetch user badges
   const { 
     data: userBadges = [], 
@@ -213,13 +323,20 @@ const Dashboard = () => {
   } = useQuery({
     queryKey: ['modules', userId],
     queryFn: async () => {
+      // Offline, the dashboard shows the modules downloaded to this device
+      if (isOffline()) return (await readOfflinePack(userId))?.modules ?? [];
+
       const { data, error } = await supabase
         .from("user_module_progress")
         .select("*")
         .eq("user_id", userId)
         .order('created_at', { ascending: false });
 
-      if (error) throw error;
+      if (error) {
+        const pack = isNetworkError(error) ? await readOfflinePack(userId) : null;
+        if (pack) return pack.modules;
+        throw error;
+      }
       if (!data) return [];
 
       // Remove duplicates by module_id
@@ -242,6 +359,7 @@ const Dashboard = () => {
       return uniqueModules;
     },
     enabled: !!userId,
+    networkMode: 'always',
   });
 
   // Calculate points reward
@@ -267,10 +385,10 @@ const Dashboard = () => {
 
   // Get status text based on progress
   const getStatusText = useCallback((module: Module) => {
-    if (module.is_completed) return 'Completed';
-    if (module.progress_percentage === 0) return 'Not Started';
-    return 'In Progress';
-  }, []);
+    if (module.is_completed) return t("student.status.completed");
+    if (module.progress_percentage === 0) return t("student.status.notStarted");
+    return t("student.status.inProgress");
+  }, [t]);
 
   // Get status color for badges
   const getStatusColor = useCallback((module: Module) => {
@@ -279,14 +397,14 @@ const Dashboard = () => {
     return 'bg-blue-100 text-blue-800 border-blue-200';
   }, []);
 
-  // Calculate quiz score percentage
-  const calculateQuizScore = useCallback((module: Module, currentAnswers: Record<string, string>) => {
+  // Calculate quiz score percentage from the server-graded results
+  const calculateQuizScore = useCallback((module: Module, results: Record<string, boolean>) => {
     const moduleQuizzes = module.quizzes || [];
     if (moduleQuizzes.length === 0) return 0;
 
     let correctCount = 0;
     moduleQuizzes.forEach(quiz => {
-      if (currentAnswers[quiz.id] === quiz.correct_answer) {
+      if (results[quiz.id]) {
         correctCount++;
       }
     });
@@ -294,228 +412,137 @@ const Dashboard = () => {
     return (correctCount / moduleQuizzes.length) * 100;
   }, []);
 
-  // Award badge mutation
-  const awardBadgeMutation = useMutation({
-    mutationFn: async ({ userId, module }: { userId: string; module: Module }) => {
-      const badgeName = `${module.difficulty.charAt(0).toUpperCase() + module.difficulty.slice(1)} Badge`;
-      const badgeDescription = `Completed ${module.title}`;
-      
-      const { data, error } = await supabase
-        .from("user_badges")
-        .insert({
-          user_id: userId,
-          name: badgeName,
-          description: badgeDescription,
-          icon: "star",
-          module_id: module.module_id,
-          earned_at: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
-    },
-    onSuccess: (badge) => {
-      queryClient.invalidateQueries({ queryKey: ['userBadges'] });
-      setEarnedBadge(badge);
-      setShowBadgeModal(true);
+  // Refresh streak views and tell the student when a freeze was earned or spent
+  const handleStreakUpdate = useCallback((update: StreakUpdate | null) => {
+    if (!update) return;
+    queryClient.invalidateQueries({ queryKey: ['streak'] });
+    queryClient.invalidateQueries({ queryKey: ['activity'] });
+    if (update.freezes_used > 0) {
+      toast.info(t("student.toast.freezesUsed", { count: update.freezes_used, days: update.streak_days }));
     }
-  });
+    if (update.freeze_earned) {
+      toast.success(t("student.toast.freezeEarned", { days: update.streak_days }));
+    }
+  }, [queryClient, t]);
 
-  // Check for level up
-  const checkLevelUp = useCallback((previousLevel: string, currentLevel: string) => {
-    return previousLevel !== currentLevel;
-  }, []);
+  // Each learning event reports the achievements it unlocked
+  const handleAchievements = useCallback((earned: EarnedAchievement[]) => {
+    if (earned.length === 0) return;
+    queryClient.invalidateQueries({ queryKey: ['achievements'] });
+    earned.forEach((achievement) => toast.success(t("common.achievementUnlocked", { title: achievement.title })));
+  }, [queryClient, t]);
 
-  // Complete module mutation
+  // Complete module mutation: the server applies progress, points and badge in one transaction
   const completeModuleMutation = useMutation({
     mutationFn: async ({ module, score }: { module: Module; score: number }) => {
       if (!profile) throw new Error("No profile found");
 
-      const previousLevel = levelProgression?.current_level || "Beginner Level 1";
-      const hasPassingScore = score >= 85;
-
-      // Update module to read-only and completed
-      const { error: completeError } = await supabase
-        .from("user_module_progress")
-        .update({ 
-          progress_percentage: 100, 
-          is_completed: true,
-          is_read_only: true
-        })
-        .eq("module_id", module.module_id)
-        .eq("user_id", profile.id);
-
-      if (completeError) throw completeError;
-
-      // Award module points regardless of score
-      const modulePoints = module.points_reward;
-      const totalPoints = (profile.total_points || 0) + modulePoints;
-      
-      await supabase
-        .from("profiles")
-        .update({ total_points: totalPoints })
-        .eq("id", profile.id);
-
-      let earnedBadge = null;
-
-      // Only award badge and progression if score is 85% or higher
-      if (hasPassingScore) {
-        // Award badge
-        const badgeResult = await awardBadgeMutation.mutateAsync({ 
-          userId: profile.id, 
-          module 
-        });
-        earnedBadge = badgeResult;
-
-        // Check for level up by refetching level progression
-        await refetchLevel();
-        const newLevelProgression = await queryClient.fetchQuery({
-          queryKey: ['userProgress', userId],
-          queryFn: () => fetch(`/api/levels/${userId}`).then(res => res.json())
-        });
-
-        if (newLevelProgression && checkLevelUp(previousLevel, newLevelProgression.current_level)) {
-          setTimeout(() => {
-            setShowLevelUpModal(true);
-          }, 1500);
-        }
-      }
-
-      return { earnedBadge, hasPassingScore, modulePoints };
+      return apiFetch<ModuleCompletion>(`/api/modules/${module.module_id}/complete`, {
+        method: "POST",
+        body: JSON.stringify({ score }),
+      });
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['modules'] });
       queryClient.invalidateQueries({ queryKey: ['profile'] });
+      queryClient.invalidateQueries({ queryKey: ['pointsHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['userBadges'] });
       refetchLevel(); // Refresh level progression
-      
-      if (result.hasPassingScore) {
-        toast.success(`Module completed! 🎉 +${result.modulePoints} points earned! Badge awarded!`);
+      handleStreakUpdate(result.streak);
+      handleAchievements(result.achievements);
+
+      if (result.already_completed) {
+        toast.info(t("student.toast.alreadyCompleted"));
+        return;
+      }
+
+      if (result.badge) {
+        setEarnedBadge(result.badge);
+        setShowBadgeModal(true);
+      }
+
+      if (result.level.leveled_up) {
+        setReachedLevel(result.level.current);
+        setTimeout(() => {
+          setShowLevelUpModal(true);
+        }, result.badge ? 1500 : 0);
+      }
+
+      // Retakes do not pay the module points again
+      const pointsText = result.points_awarded > 0 ? t("student.toast.pointsEarned", { points: result.points_awarded }) : "";
+      if (result.passed) {
+        toast.success(
+          t("student.toast.moduleCompletedPassed", { points: pointsText }) + (result.badge ? t("student.toast.badgeAwarded") : "")
+        );
       } else {
-        toast.success(`Module completed! +${result.modulePoints} points earned! Score below 85% - no badge awarded. You can retake the quiz to improve your score.`);
+        toast.success(t("student.toast.moduleCompletedBelow", { points: pointsText }));
       }
     },
     onError: (error: any) => {
-      toast.error(`Failed to complete module: ${error.message}`);
+      // handleCompleteModule saves the completion for later instead
+      if (isNetworkError(error)) return;
+      toast.error(t("student.toast.completeFailed", { message: error.message }));
     }
   });
 
   // Generate new modules mutation
   const generateModulesMutation = useMutation({
     mutationFn: async (userId: string) => {
-      const completedModules = modulesWithConsistentPoints.filter(m => m.is_completed).length;
-
-      const response = await fetch("/api/generateModules", {
+      // The server picks the level and difficulty from the level engine and stores the student's copies
+      const result = await apiFetch<{ modules: Module[] }>("/api/generateModules", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          userId,
-          currentLevel: levelProgression?.current_level || "Beginner Level 1",
-          completedModules: completedModules,
+        body: JSON.stringify({
           studentSubject: profile?.subject,
           studentForm: profile?.form
         }),
       });
-      
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      
-      const result = await response.json();
-      
-      if (result.modules && result.modules.length > 0) {
-        const modulesWithInitialState = result.modules.map((module: Module, index: number) => {
-          const consistentPoints = calculatePointsReward(module.estimated_duration, module.difficulty);
-          return {
-            ...module,
-            progress_percentage: 0,
-            is_completed: false,
-            points_reward: consistentPoints,
-            level: Math.floor(completedModules / 3) + 1,
-            is_read_only: false
-          };
-        });
-        
-        // Save to database
-        const modulesToInsert = modulesWithInitialState.map(module => ({
-          user_id: userId,
-          module_id: module.id,
-          title: module.title,
-          description: module.description,
-          difficulty: module.difficulty,
-          estimated_duration: module.estimated_duration,
-          points_reward: module.points_reward,
-          progress_percentage: 0,
-          is_completed: false,
-          detailed_content: module.detailed_content,
-          level: module.level,
-          is_read_only: false
-        }));
-
-        const { error } = await supabase
-          .from("user_module_progress")
-          .insert(modulesToInsert);
-
-        if (error) {
-          if (error.code === '23505') {
-            throw new Error("Modules already exist");
-          }
-          throw error;
-        }
 
-        return modulesWithInitialState;
+      if (result.modules && result.modules.length > 0) {
+        return result.modules;
       }
       throw new Error("No modules returned from API");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['modules'] });
-      toast.success("New learning modules generated for your level!");
+      toast.success(t("student.toast.modulesGenerated"));
     },
     onError: (error: any) => {
-      if (error.message === "Modules already exist") {
-        toast.info("Modules already exist, loading current progress");
-        queryClient.invalidateQueries({ queryKey: ['modules'] });
-      } else {
-        toast.error(`Failed to generate learning modules: ${error.message}`);
-      }
+      toast.error(t("student.toast.generateFailed", { message: error.message }));
     },
   });
 
-  // Generate quizzes for module - REMOVED FALLBACK QUIZZES
-  const generateQuizzesForModule = async (module: Module): Promise<QuizQuestion[]> => {
+  // Load the module's quiz; the server generates it on first use and keeps the answer keys
+  const loadModuleQuiz = async (module: Module): Promise<ModuleQuiz> => {
     setLoadingQuizzes(true);
     try {
-      const response = await fetch("/api/generateQuizzes", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          moduleTitle: module.title,
-          moduleContent: module.detailed_content || module.description,
-          difficulty: module.difficulty,
-          studentSubject: profile?.subject
-        }),
+      const quiz = await apiFetch<ModuleQuiz>(`/api/quizzes/module/${module.module_id}`).catch(async (err) => {
+        // Without a connection the quiz downloaded with the module is answered instead, without its keys
+        const saved = isNetworkError(err)
+          ? (await readOfflinePack(userId))?.modules.find((offline) => offline.module_id === module.module_id)?.quiz
+          : null;
+        if (!saved) throw err;
+        return { ...saved, module_id: module.module_id, answers_revealed: false, previous_answers: {} };
       });
-      
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      
-      const result = await response.json();
 
-      if (result.quizzes && result.quizzes.length > 0) {
-        return result.quizzes;
-      } else {
+      if (quiz.questions.length === 0) {
         throw new Error("No quizzes returned from API");
       }
+      return quiz;
     } catch (err: any) {
-      console.error("Error generating quizzes:", err);
-      throw new Error("Failed to generate quizzes. Please try again.");
+      console.error("Error loading quizzes:", err);
+      throw new Error(t("student.toast.quizzesFailed"));
     } finally {
       setLoadingQuizzes(false);
     }
   };
 
   // Module handlers
-  const openModule = useCallback(async (module: Module) => {
-    setSelectedModule(module);
-    
+  // Resets the quiz state and loads the module's quiz in the language it is read in
+  const showModuleQuiz = useCallback(async (module: Module) => {
+    setQuizFeedback({});
+    setQueuedAnswers(new Set());
+    setWrittenGrades({});
+
     // For completed/read-only modules, preserve the state
     if (!module.is_completed && !module.is_read_only) {
       setAnswers({});
@@ -524,17 +551,69 @@ const Dashboard = () => {
       setIncorrectQuizzes(new Set());
     }
 
-    // Generate quizzes if needed
-    if ((!module.quizzes || module.quizzes.length === 0) && !module.is_completed && !module.is_read_only) {
-      try {
-        const quizzes = await generateQuizzesForModule(module);
-        setSelectedModule(prev => prev ? { ...prev, quizzes } : null);
-      } catch (err) {
-        console.error("Failed to generate quizzes:", err);
-        toast.error("Failed to load quizzes. Please try again.");
+    try {
+      const quiz = await loadModuleQuiz(module);
+      setSelectedModule(prev => prev ? { ...prev, quizzes: quiz.questions, quiz_id: quiz.quiz_id } : null);
+
+      // Read-only modules show the answers the student gave against the revealed keys
+      if (quiz.answers_revealed) {
+        const previous = Object.entries(quiz.previous_answers);
+        setAnswers(Object.fromEntries(previous.map(([quizId, result]) => [quizId, result.answer])));
+        setQuizResults(Object.fromEntries(previous.map(([quizId, result]) => [quizId, result.correct])));
+        setCompletedQuizzes(new Set(previous.map(([quizId]) => quizId)));
+        setIncorrectQuizzes(new Set());
+        setWrittenGrades(Object.fromEntries(
+          previous.flatMap(([quizId, result]) => result.grade ? [[quizId, result.grade]] : [])
+        ));
       }
+    } catch (err) {
+      console.error("Failed to load quizzes:", err);
+      toast.error(t("student.toast.quizzesFailed"));
     }
-  }, []);
+  }, [t]);
+
+  const openModule = useCallback(async (module: Module) => {
+    setSelectedModule(module);
+
+    // Reading an unfinished module counts towards today's streak
+    if (!module.is_completed) {
+      apiFetch<StreakUpdate & { achievements: EarnedAchievement[] }>("/api/streaks/activity", {
+        method: "POST",
+        body: JSON.stringify({ kind: "section_read" }),
+      })
+        .then((update) => {
+          handleStreakUpdate(update);
+          handleAchievements(update.achievements);
+        })
+        .catch((err) => {
+          if (isNetworkError(err)) return queueOfflineEvent({ kind: "section_read" });
+          console.error("Failed to record reading:", err);
+        });
+    }
+
+    await showModuleQuiz(module);
+  }, [handleStreakUpdate, handleAchievements, queueOfflineEvent, showModuleQuiz]);
+
+  // Switching language swaps the module text and quiz; answers already marked stay marked
+  const changeModuleLanguage = useCallback(async (language: string) => {
+    if (!selectedModule || language === selectedModule.language) return;
+    try {
+      const content = await saveModuleLanguage({ moduleId: selectedModule.module_id, language });
+      const translated = {
+        ...selectedModule,
+        title: content.title,
+        description: content.description,
+        detailed_content: content.content,
+        language,
+        quizzes: undefined,
+      };
+      setSelectedModule(translated);
+      await showModuleQuiz(translated);
+    } catch (err) {
+      console.error("Failed to change module language:", err);
+      toast.error(t("student.toast.translateFailed"));
+    }
+  }, [selectedModule, saveModuleLanguage, showModuleQuiz, t]);
 
   const closeModule = useCallback(() => {
     setSelectedModule(null);
@@ -545,11 +624,11 @@ const Dashboard = () => {
   // Quiz handlers
   const handleAnswerSelect = useCallback((quizId: string, answer: string) => {
     if (selectedModule?.is_read_only || selectedModule?.is_completed) {
-      toast.info("This module is completed and in read-only mode.");
+      toast.info(t("student.toast.readOnly"));
       return;
     }
     setAnswers(prev => ({ ...prev, [quizId]: answer }));
-  }, [selectedModule]);
+  }, [selectedModule, t]);
 
   // Retry incorrect answers function
   const retryIncorrectAnswers = useCallback(() => {
@@ -558,21 +637,27 @@ const Dashboard = () => {
     // Clear only incorrect answers and their results
     const newAnswers = { ...answers };
     const newQuizResults = { ...quizResults };
+    const newQuizFeedback = { ...quizFeedback };
+    const newWrittenGrades = { ...writtenGrades };
     const newCompletedQuizzes = new Set(completedQuizzes);
     
     incorrectQuizzes.forEach(quizId => {
       delete newAnswers[quizId];
       delete newQuizResults[quizId];
+      delete newQuizFeedback[quizId];
+      delete newWrittenGrades[quizId];
       newCompletedQuizzes.delete(quizId);
     });
 
     setAnswers(newAnswers);
     setQuizResults(newQuizResults);
+    setQuizFeedback(newQuizFeedback);
+    setWrittenGrades(newWrittenGrades);
     setCompletedQuizzes(newCompletedQuizzes);
     setIncorrectQuizzes(new Set());
     
-    toast.info("Retry your incorrect answers!");
-  }, [selectedModule, answers, quizResults, completedQuizzes, incorrectQuizzes]);
+    toast.info(t("student.toast.retryIncorrect"));
+  }, [selectedModule, answers, quizResults, quizFeedback, writtenGrades, completedQuizzes, incorrectQuizzes, t]);
 
   // Retry all quizzes function
   const retryAllQuizzes = useCallback(() => {
@@ -580,26 +665,43 @@ const Dashboard = () => {
 
     setAnswers({});
     setQuizResults({});
+    setQuizFeedback({});
+    setWrittenGrades({});
     setCompletedQuizzes(new Set());
     setIncorrectQuizzes(new Set());
     
-    toast.info("Starting fresh with all quizzes!");
-  }, [selectedModule]);
+    toast.info(t("student.toast.retryAll"));
+  }, [selectedModule, t]);
 
   // Complete module handler
   const handleCompleteModule = useCallback(async () => {
     if (!selectedModule || !profile) return;
 
+    const completeLater = async () => {
+      await queueOfflineEvent({ kind: "complete", module_id: selectedModule.module_id });
+      toast.info(t("common.completeOffline"));
+      closeModule();
+    };
+
     setIsCompletingModule(true);
     try {
-      const score = calculateQuizScore(selectedModule, answers);
+      // Answers saved offline are only scored once they sync, so the completion waits in the queue behind them
+      if (queuedAnswers.size > 0) {
+        await completeLater();
+        return;
+      }
+      const score = calculateQuizScore(selectedModule, quizResults);
       await completeModuleMutation.mutateAsync({ module: selectedModule, score });
     } catch (error) {
-      console.error("Error completing module:", error);
+      if (isNetworkError(error)) {
+        await completeLater();
+      } else {
+        console.error("Error completing module:", error);
+      }
     } finally {
       setIsCompletingModule(false);
     }
-  }, [selectedModule, profile, answers, calculateQuizScore, completeModuleMutation]);
+  }, [selectedModule, profile, quizResults, queuedAnswers, calculateQuizScore, completeModuleMutation, queueOfflineEvent, closeModule, t]);
 
   // Reset module for retake
   const resetModuleForRetake = useCallback(async () => {
@@ -621,36 +723,82 @@ const Dashboard = () => {
       // Reset local state
       setAnswers({});
       setQuizResults({});
+      setQuizFeedback({});
+      setWrittenGrades({});
       setCompletedQuizzes(new Set());
       setIncorrectQuizzes(new Set());
       
       // Refresh module data
       queryClient.invalidateQueries({ queryKey: ['modules'] });
       refetchLevel(); // Refresh level progression
-      toast.success("Module reset! You can now retake the quiz.");
+      toast.success(t("student.toast.resetDone"));
     } catch (error: any) {
-      toast.error(`Failed to reset module: ${error.message}`);
+      toast.error(t("student.toast.resetFailed", { message: error.message }));
     }
-  }, [selectedModule, profile, queryClient, refetchLevel]);
+  }, [selectedModule, profile, queryClient, refetchLevel, t]);
 
   const submitQuizAnswer = useCallback(async (quiz: QuizQuestion) => {
     if (!selectedModule || selectedModule.is_read_only || selectedModule.is_completed) {
-      toast.info("This module is completed and in read-only mode.");
+      toast.info(t("student.toast.readOnly"));
       return;
     }
 
     const userAnswer = answers[quiz.id];
-    if (!userAnswer) {
-      toast.error("Please select an answer");
+    if (!userAnswer?.trim()) {
+      toast.error(quiz.type === "written" ? t("student.toast.writeAnswer") : t("student.toast.selectAnswer"));
       return;
     }
 
-    const isCorrect = userAnswer === quiz.correct_answer;
+    let graded: GradedAnswer;
+    try {
+      graded = await apiFetch<GradedAnswer>(`/api/quizzes/${selectedModule.quiz_id}/answers`, {
+        method: "POST",
+        body: JSON.stringify({ questionId: quiz.id, answer: userAnswer }),
+      });
+    } catch (error: unknown) {
+      if (!isNetworkError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        toast.error(t("student.toast.checkFailed", { message }));
+        return;
+      }
+
+      // Without a connection the answer waits on the device and is marked when it syncs
+      const answered = new Set(completedQuizzes).add(quiz.id);
+      await queueOfflineEvent({ kind: "answer", quiz_id: selectedModule.quiz_id, question_id: quiz.id, answer: userAnswer });
+      await queueOfflineEvent({
+        kind: "progress",
+        module_id: selectedModule.module_id,
+        progress_percentage: Math.floor((answered.size / (selectedModule.quizzes?.length || 1)) * 100),
+      });
+      setCompletedQuizzes(answered);
+      setQueuedAnswers(prev => new Set(prev).add(quiz.id));
+      toast.info(t("common.savedOffline"));
+      return;
+    }
+
+    const isCorrect = graded.correct;
     setQuizResults(prev => ({ ...prev, [quiz.id]: isCorrect }));
+    setQuizFeedback(prev => ({ ...prev, [quiz.id]: graded.explanation }));
+    if (graded.grade) {
+      const grade = graded.grade;
+      setWrittenGrades(prev => ({ ...prev, [quiz.id]: grade }));
+      if (grade.status === "needs_review") {
+        toast.info(t("student.toast.teacherWillCheck"));
+      }
+    }
     setCompletedQuizzes(prev => new Set(prev).add(quiz.id));
+    handleStreakUpdate(graded.streak);
+    handleAchievements(graded.achievements);
+    queryClient.invalidateQueries({ queryKey: ['mastery'] });
+    // Neither right nor wrong until the teacher has marked it
+    if (graded.grade?.status === "needs_review") return;
 
     if (isCorrect) {
-      toast.success("✅ Correct answer!");
+      toast.success(
+        graded.points_awarded > 0
+          ? t("student.toast.correctWithPoints", { points: graded.points_awarded })
+          : t("student.toast.correct")
+      );
       // Remove from incorrect quizzes if it was there
       setIncorrectQuizzes(prev => {
         const newSet = new Set(prev);
@@ -658,17 +806,10 @@ const Dashboard = () => {
         return newSet;
       });
       
-      // Award quiz points
-      const quizPoints = 5;
-      const newPoints = (profile?.total_points || 0) + quizPoints;
-      
-      const { error: profileError } = await supabase
-        .from("profiles")
-        .update({ total_points: newPoints })
-        .eq("id", profile?.id);
-
-      if (!profileError) {
+      // Quiz points are recorded by the server when it grades the answer
+      if (graded.points_awarded > 0) {
         queryClient.invalidateQueries({ queryKey: ['profile'] });
+        queryClient.invalidateQueries({ queryKey: ['pointsHistory'] });
       }
 
       // Update progress
@@ -689,11 +830,11 @@ const Dashboard = () => {
         queryClient.invalidateQueries({ queryKey: ['modules'] });
       }
     } else {
-      toast.error("❌ Incorrect answer. Try again!");
+      toast.error(t("student.toast.incorrect"));
       // Add to incorrect quizzes for retry functionality
       setIncorrectQuizzes(prev => new Set(prev).add(quiz.id));
     }
-  }, [selectedModule, answers, profile, completedQuizzes, queryClient]);
+  }, [selectedModule, answers, profile, completedQuizzes, queryClient, handleStreakUpdate, handleAchievements, queueOfflineEvent, t]);
 
   // Helper function for read-only quiz display
   const getReadOnlyOptionColor = useCallback((option: string, quiz: QuizQuestion, userAnswer: string | undefined) => {
@@ -702,7 +843,8 @@ const Dashboard = () => {
     return 'bg-gray-50 border-gray-200 text-gray-600';
   }, []);
 
-  const calculateDayStreak = useCallback(() => profile?.streak_days || 0, [profile]);
+  // Computed by the server from daily activity in the student's timezone
+  const calculateDayStreak = useCallback(() => streak?.streak_days ?? 0, [streak]);
 
   const getLevelIcon = useCallback((level: string) => {
     if (level.includes('Beginner')) return <Star className="h-4 w-4" />;
@@ -710,23 +852,29 @@ const Dashboard = () => {
     return <Crown className="h-4 w-4" />;
   }, []);
 
+  const modulesOf = t("student.stats.modulesOf", {
+    completed: levelProgression?.completed_modules ?? 0,
+    total: levelProgression?.total_modules_needed ?? 0,
+  });
+  const formatScore = (percent: number) => formatNumber(percent, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
   const loading = isProfileLoading || isModulesLoading || isLevelLoading;
 
   if (loading) return (
     <div className="min-h-screen flex items-center justify-center">
-      <div className="animate-pulse text-2xl text-primary">Loading...</div>
+      <div className="animate-pulse text-2xl text-primary">{t("common.loading")}</div>
     </div>
   );
 
   if (profileError || modulesError || levelError) return (
     <div className="min-h-screen flex items-center justify-center">
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-red-600 mb-4">Error Loading Data</h2>
+        <h2 className="text-2xl font-bold text-red-600 mb-4">{t("student.errorLoading")}</h2>
         <p className="text-muted-foreground mb-4">
           {profileError?.message || modulesError?.message || levelError?.message}
         </p>
         <Button onClick={() => window.location.reload()}>
-          Retry
+          {t("common.retry")}
         </Button>
       </div>
     </div>
@@ -739,7 +887,7 @@ const Dashboard = () => {
         <div className="flex items-center justify-center min-h-96">
           <div className="text-center">
             <Gem className="h-16 w-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-            <p className="text-gray-500 text-lg">Loading user info...</p>
+            <p className="text-gray-500 text-lg">{t("student.achievementsTab.loadingUser")}</p>
           </div>
         </div>
       );
@@ -753,10 +901,10 @@ const Dashboard = () => {
             <Award className="h-8 w-8 text-white" />
           </div>
           <h1 className="text-4xl font-bold bg-gradient-to-br from-purple-600 to-pink-600 bg-clip-text text-transparent mb-4">
-            Your Achievements
+            {t("student.achievementsTab.title")}
           </h1>
           <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-            Celebrate your learning journey! Each badge represents a milestone in your educational path.
+            {t("student.achievementsTab.intro")}
           </p>
         </div>
 
@@ -766,7 +914,7 @@ const Dashboard = () => {
             <CardContent className="pt-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm font-medium text-blue-600">Total Badges</p>
+                  <p className="text-sm font-medium text-blue-600">{t("student.achievementsTab.totalBadges")}</p>
                   <p className="text-3xl font-bold text-blue-900">{userBadges.length}</p>
                 </div>
                 <div className="p-3 rounded-full bg-blue-100 text-blue-600">
@@ -780,7 +928,7 @@ const Dashboard = () => {
             <CardContent className="pt-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm font-medium text-green-600">Completed Modules</p>
+                  <p className="text-sm font-medium text-green-600">{t("student.achievementsTab.completedModules")}</p>
                   <p className="text-3xl font-bold text-green-900">
                     {modulesWithConsistentPoints.filter(m => m.is_completed).length}
                   </p>
@@ -796,7 +944,7 @@ const Dashboard = () => {
             <CardContent className="pt-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm font-medium text-purple-600">Current Level</p>
+                  <p className="text-sm font-medium text-purple-600">{t("student.achievementsTab.currentLevel")}</p>
                   <p className="text-xl font-bold text-purple-900">
                     {levelProgression?.current_level}
                   </p>
@@ -809,6 +957,20 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Achievements earned from learning rules, with progress toward locked ones */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-yellow-500" />
+              {t("student.achievementsTab.achievements")}
+            </CardTitle>
+            <CardDescription>{t("student.achievementsTab.achievementsDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AchievementsGrid />
+          </CardContent>
+        </Card>
+
         {/* UserBadges Component */}
         <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-gray-50/50">
           <CardContent className="p-8">
@@ -816,23 +978,42 @@ const Dashboard = () => {
           </CardContent>
         </Card>
 
+        {/* Leaderboard */}
+        <Leaderboard userId={userId} visibility={profile?.leaderboard_visibility as LeaderboardVisibility | undefined} />
+
+        {/* Points History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Star className="h-5 w-5 text-yellow-500" />
+              {t("student.achievementsTab.pointsHistory")}
+            </CardTitle>
+            <CardDescription>{t("student.achievementsTab.pointsHistoryDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PointsHistory />
+          </CardContent>
+        </Card>
+
         {/* Learning Progress */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <TrendingUp className="h-5 w-5 text-green-600" />
-              Learning Progress
+              {t("student.achievementsTab.learningProgress")}
             </CardTitle>
             <CardDescription>
-              Your journey towards mastering {profile?.subject || "your chosen subject"}
+              {t("student.achievementsTab.learningProgressDescription", {
+                subject: profile?.subject || t("student.achievementsTab.yourSubject"),
+              })}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-6">
               <div className="flex items-center justify-between">
-                <span className="font-medium">Level Progression</span>
+                <span className="font-medium">{t("student.achievementsTab.levelProgression")}</span>
                 <span className="text-sm text-muted-foreground">
-                  {levelProgression?.completed_modules}/{levelProgression?.total_modules_needed} modules
+                  {modulesOf}
                 </span>
               </div>
               <ColoredProgress 
@@ -859,7 +1040,7 @@ const Dashboard = () => {
           <CardContent className="pt-6">
             <div className="flex items-center justify-between mb-4">
               <div>
-                <p className="text-sm text-muted-foreground">Student Information</p>
+                <p className="text-sm text-muted-foreground">{t("student.info.title")}</p>
                 <h3 className="text-lg font-semibold">{profile?.full_name}</h3>
                 {profile?.email && (
                   <p className="text-sm text-muted-foreground mt-1">{profile.email}</p>
@@ -869,7 +1050,7 @@ const Dashboard = () => {
                 {profile?.avatar_url ? (
                   <img 
                     src={profile.avatar_url} 
-                    alt="Profile" 
+                    alt={t("student.info.profileAlt")} 
                     className="w-12 h-12 rounded-full border-2 border-primary/20 object-cover"
                   />
                 ) : (
@@ -886,7 +1067,7 @@ const Dashboard = () => {
                 <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
                   <div className="flex items-center gap-2">
                     <BookOpen className="h-4 w-4 text-blue-600" />
-                    <span className="text-sm font-medium">Academic Level</span>
+                    <span className="text-sm font-medium">{t("student.info.academicLevel")}</span>
                   </div>
                   <Badge variant="default" className="bg-blue-100 text-blue-800">
                     {profile.form}
@@ -899,7 +1080,7 @@ const Dashboard = () => {
                 <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
                   <div className="flex items-center gap-2">
                     <GraduationCap className="h-4 w-4 text-green-600" />
-                    <span className="text-sm font-medium">Chosen Subject</span>
+                    <span className="text-sm font-medium">{t("student.info.chosenSubject")}</span>
                   </div>
                   <Badge variant="default" className="bg-green-100 text-green-800">
                     {profile.subject}
@@ -909,10 +1090,10 @@ const Dashboard = () => {
                 <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
                   <div className="flex items-center gap-2">
                     <GraduationCap className="h-4 w-4 text-yellow-600" />
-                    <span className="text-sm font-medium">Subject</span>
+                    <span className="text-sm font-medium">{t("student.info.subject")}</span>
                   </div>
                   <Badge variant="default" className="bg-yellow-100 text-yellow-800">
-                    Not Selected
+                    {t("student.info.notSelected")}
                   </Badge>
                 </div>
               )}
@@ -922,11 +1103,14 @@ const Dashboard = () => {
                 <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg">
                   <div className="flex items-center gap-2">
                     <Zap className="h-4 w-4 text-orange-600" />
-                    <span className="text-sm font-medium">Learning Level</span>
+                    <span className="text-sm font-medium">{t("student.info.learningLevel")}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="default" className="bg-orange-100 text-orange-800">
+                      {t(`difficulty.${profile.skill_level}` as MessageKey)}
+                    </Badge>
+                    {isPlaced && <PlacementTest subject={profile.subject} label={t("student.info.retakeTest")} variant="outline" />}
                   </div>
-                  <Badge variant="default" className="bg-orange-100 text-orange-800 capitalize">
-                    {profile.skill_level}
-                  </Badge>
                 </div>
               )}
             </div>
@@ -937,9 +1121,9 @@ const Dashboard = () => {
         <Card>
           <CardContent className="pt-6 flex items-center justify-between">
             <div>
-              <p className="text-sm text-muted-foreground">Total Points</p>
-              <p className="text-3xl font-bold text-primary">{profile?.total_points || 0}</p>
-              <p className="text-xs text-muted-foreground mt-1">Earned from modules & quizzes</p>
+              <p className="text-sm text-muted-foreground">{t("student.stats.totalPoints")}</p>
+              <p className="text-3xl font-bold text-primary">{formatNumber(profile?.total_points || 0)}</p>
+              <p className="text-xs text-muted-foreground mt-1">{t("student.stats.pointsSource")}</p>
             </div>
             <Trophy className="h-6 w-6 text-primary p-3 rounded-full bg-primary/10" />
           </CardContent>
@@ -949,9 +1133,12 @@ const Dashboard = () => {
         <Card>
           <CardContent className="pt-6 flex items-center justify-between">
             <div>
-              <p className="text-sm text-muted-foreground">Day Streak</p>
-              <p className="text-3xl font-bold text-warning">{calculateDayStreak()}</p>
-              <p className="text-xs text-muted-foreground mt-1">Consecutive learning days</p>
+              <p className="text-sm text-muted-foreground">{t("student.stats.dayStreak")}</p>
+              <p className="text-3xl font-bold text-warning">{formatNumber(calculateDayStreak())}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {streak?.active_today ? t("student.stats.learnedToday") : t("student.stats.consecutiveDays")}
+                {streak && streak.streak_freezes > 0 && t("student.stats.freezes", { count: streak.streak_freezes })}
+              </p>
             </div>
             <Flame className="h-6 w-6 text-warning p-3 rounded-full bg-warning/10" />
           </CardContent>
@@ -961,13 +1148,13 @@ const Dashboard = () => {
         <Card>
           <CardContent className="pt-6 flex items-center justify-between">
             <div>
-              <p className="text-sm text-muted-foreground">Progress Level</p>
+              <p className="text-sm text-muted-foreground">{t("student.stats.progressLevel")}</p>
               <div className="flex items-center gap-2">
                 {getLevelIcon(levelProgression?.current_level || "Beginner Level 1")}
                 <Badge variant="secondary">{levelProgression?.current_level}</Badge>
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                {levelProgression?.completed_modules}/{levelProgression?.total_modules_needed} modules
+                {modulesOf}
               </p>
             </div>
             <Award className="h-6 w-6 text-secondary p-3 rounded-full bg-secondary/10" />
@@ -975,15 +1162,101 @@ const Dashboard = () => {
         </Card>
       </div>
 
+      {/* Activity Heatmap */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Flame className="h-5 w-5 text-warning" />
+            {t("student.cards.activity")}
+          </CardTitle>
+          <CardDescription>
+            {t("student.cards.activityDescription", { count: streak?.longest_streak ?? 0 })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {userId && <ActivityHeatmap userId={userId} timezone={streak?.timezone ?? "Africa/Dar_es_Salaam"} />}
+        </CardContent>
+      </Card>
+
+      {/* Daily Review */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-primary" />
+            {t("student.cards.dailyReview")}
+          </CardTitle>
+          <CardDescription>{t("student.cards.dailyReviewDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {userId && <ReviewSession onStreakUpdate={handleStreakUpdate} onAchievements={handleAchievements} />}
+        </CardContent>
+      </Card>
+
+      {/* Feature Phone Access */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5 text-primary" />
+            {t("student.cards.phone")}
+          </CardTitle>
+          <CardDescription>{t("student.cards.phoneDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {userId && <PhoneAccess userId={userId} />}
+        </CardContent>
+      </Card>
+
+      {/* Skill Mastery */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            {t("student.cards.mastery")}
+          </CardTitle>
+          <CardDescription>{t("student.cards.masteryDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {userId && <SkillMasteryChart subject={profile?.subject} />}
+        </CardContent>
+      </Card>
+
+      {/* Assignments */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-primary" />
+            {t("student.cards.assigned")}
+          </CardTitle>
+          <CardDescription>{t("student.cards.assignedDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AssignedToMe userId={userId} />
+        </CardContent>
+      </Card>
+
+      {/* Classes */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            {t("student.cards.classes")}
+          </CardTitle>
+          <CardDescription>{t("student.cards.classesDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <JoinClass userId={userId} />
+        </CardContent>
+      </Card>
+
       {/* Progress Overview Section */}
       <Card className="mb-8">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="h-5 w-5 text-green-600" />
-            Learning Progress Overview
+            {t("student.overview.title")}
           </CardTitle>
           <CardDescription>
-            Track your progress and see how close you are to leveling up
+            {t("student.overview.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -991,9 +1264,9 @@ const Dashboard = () => {
             {/* Current Level Progress */}
             <div className="space-y-4">
               <div className="flex justify-between text-sm">
-                <span className="font-medium">Progress to {levelProgression?.next_level}</span>
+                <span className="font-medium">{t("student.overview.progressTo", { level: levelProgression?.next_level ?? "" })}</span>
                 <span className="font-semibold text-primary">
-                  {levelProgression?.completed_modules}/{levelProgression?.total_modules_needed} modules
+                  {modulesOf}
                 </span>
               </div>
               <ColoredProgress 
@@ -1015,25 +1288,25 @@ const Dashboard = () => {
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 border-t">
               <div className="text-center">
                 <p className="text-2xl font-bold text-primary">{levelProgression?.completed_modules || 0}</p>
-                <p className="text-xs text-muted-foreground">Completed</p>
+                <p className="text-xs text-muted-foreground">{t("student.overview.completed")}</p>
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-blue-600">
                   {modulesWithConsistentPoints.filter(m => m.progress_percentage > 0 && !m.is_completed).length}
                 </p>
-                <p className="text-xs text-muted-foreground">In Progress</p>
+                <p className="text-xs text-muted-foreground">{t("student.overview.inProgress")}</p>
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-yellow-600">
                   {modulesWithConsistentPoints.filter(m => m.progress_percentage === 0).length}
                 </p>
-                <p className="text-xs text-muted-foreground">Not Started</p>
+                <p className="text-xs text-muted-foreground">{t("student.overview.notStarted")}</p>
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-green-600">
                   {userBadges.length}
                 </p>
-                <p className="text-xs text-muted-foreground">Badges</p>
+                <p className="text-xs text-muted-foreground">{t("student.overview.badges")}</p>
               </div>
             </div>
           </div>
@@ -1045,10 +1318,10 @@ const Dashboard = () => {
         <CardContent className="pt-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-muted-foreground">Badges Earned</p>
+              <p className="text-sm text-muted-foreground">{t("student.badges.earned")}</p>
               <p className="text-3xl font-bold text-purple-600">{userBadges.length}</p>
               <p className="text-xs text-muted-foreground mt-1">
-                Complete modules with 85%+ score to earn badges
+                {t("student.badges.hint")}
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -1079,10 +1352,10 @@ const Dashboard = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Zap className="h-5 w-5 text-yellow-500" />
-            Level Progression Path
+            {t("student.path.title")}
           </CardTitle>
           <CardDescription>
-            Complete modules with 85% or higher score to level up and unlock new challenges
+            {t("student.path.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -1090,9 +1363,11 @@ const Dashboard = () => {
             {/* Main Progress Bar */}
             <div className="space-y-4">
               <div className="flex justify-between text-sm">
-                <span className="font-medium">Journey to {levelProgression?.next_level}</span>
+                <span className="font-medium">{t("student.path.journeyTo", { level: levelProgression?.next_level ?? "" })}</span>
                 <span className="font-semibold">
-                  {levelProgression ? Math.round((levelProgression.completed_modules / levelProgression.total_modules_needed) * 100) : 0}% Complete
+                  {t("student.path.percentComplete", {
+                    percent: levelProgression ? Math.round((levelProgression.completed_modules / levelProgression.total_modules_needed) * 100) : 0,
+                  })}
                 </span>
               </div>
               <ColoredProgress 
@@ -1111,44 +1386,64 @@ const Dashboard = () => {
                   ? 'bg-blue-50 border-blue-200' 
                   : 'bg-gray-50 border-gray-200'
               }`}>
-                <p className="text-xs font-medium">Beginner</p>
-                <p className="text-xs text-muted-foreground">0-3 modules</p>
+                <p className="text-xs font-medium">{t("difficulty.beginner")}</p>
+                <p className="text-xs text-muted-foreground">{t("student.path.beginnerRange")}</p>
               </div>
               <div className={`p-2 rounded-lg border ${
                 levelProgression?.current_level.includes('Intermediate') 
                   ? 'bg-green-50 border-green-200' 
                   : 'bg-gray-50 border-gray-200'
               }`}>
-                <p className="text-xs font-medium">Intermediate</p>
-                <p className="text-xs text-muted-foreground">3-6 modules</p>
+                <p className="text-xs font-medium">{t("difficulty.intermediate")}</p>
+                <p className="text-xs text-muted-foreground">{t("student.path.intermediateRange")}</p>
               </div>
               <div className={`p-2 rounded-lg border ${
                 levelProgression?.current_level.includes('Advanced') 
                   ? 'bg-purple-50 border-purple-200' 
                   : 'bg-gray-50 border-gray-200'
               }`}>
-                <p className="text-xs font-medium">Advanced</p>
-                <p className="text-xs text-muted-foreground">6+ modules</p>
+                <p className="text-xs font-medium">{t("difficulty.advanced")}</p>
+                <p className="text-xs text-muted-foreground">{t("student.path.advancedRange")}</p>
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Placement test prompt until the student has been placed in their subject */}
+      {profile?.subject && placement && !isPlaced && (
+        <Card className="border-blue-200 bg-blue-50">
+          <CardContent className="pt-6 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h3 className="font-semibold">{t("student.placement.title", { subject: profile.subject })}</h3>
+              <p className="text-sm text-muted-foreground">
+                {placement.in_progress
+                  ? t("student.placement.inProgress", { count: placement.in_progress.questions_answered })
+                  : t("student.placement.intro")}
+              </p>
+            </div>
+            <PlacementTest
+              subject={profile.subject}
+              label={placement.in_progress ? t("student.placement.continue") : t("student.placement.take")}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Learning Modules Section */}
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h2 className="text-2xl font-bold flex items-center gap-2">
             <BookOpen className="h-6 w-6 text-primary" /> 
-            Your Learning Path
+            {t("student.modules.title")}
             {profile?.subject && (
               <Badge variant="outline" className="ml-2 text-sm">
-                Focus: {profile.subject}
+                {t("student.modules.focus", { subject: profile.subject })}
               </Badge>
             )}
           </h2>
           <div className="text-sm text-muted-foreground">
-            {modulesWithConsistentPoints.length} module(s)
+            {t("common.modules", { count: modulesWithConsistentPoints.length })}
           </div>
         </div>
 
@@ -1156,13 +1451,16 @@ const Dashboard = () => {
           <Card>
             <CardContent className="pt-6 text-center py-12">
               <BookOpen className="h-16 w-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-              <h3 className="text-lg font-semibold mb-2">No Learning Modules Yet</h3>
+              <h3 className="text-lg font-semibold mb-2">{t("student.modules.emptyTitle")}</h3>
               <p className="text-muted-foreground mb-4 max-w-md mx-auto">
-                Get started by generating your personalized learning modules based on your subject and level.
+                {t("student.modules.emptyText")}
               </p>
               {profile?.subject && profile?.form && (
                 <p className="text-sm text-primary mb-6">
-                  Your focus: <strong>{profile.subject}</strong> for <strong>{profile.form}</strong>
+                  {rich("student.modules.yourFocus", {
+                    subject: <strong>{profile.subject}</strong>,
+                    form: <strong>{profile.form}</strong>,
+                  })}
                 </p>
               )}
               <Button 
@@ -1173,10 +1471,10 @@ const Dashboard = () => {
                 {generateModulesMutation.isPending ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Generating Modules...
+                    {t("student.modules.generating")}
                   </>
                 ) : (
-                  "Generate Learning Modules"
+                  t("student.modules.generate")
                 )}
               </Button>
             </CardContent>
@@ -1200,7 +1498,7 @@ const Dashboard = () => {
       {userBadges.length > 0 && (
         <div className="mt-12">
           <h2 className="text-2xl font-bold flex items-center gap-2 mb-6">
-            <Award className="h-6 w-6 text-purple-600" /> Your Badges
+            <Award className="h-6 w-6 text-purple-600" /> {t("student.badges.yourBadges")}
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {userBadges.map((badge) => (
@@ -1213,7 +1511,7 @@ const Dashboard = () => {
                     <h3 className="font-semibold">{badge.name}</h3>
                     <p className="text-sm text-muted-foreground">{badge.description}</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Earned {new Date(badge.earned_at).toLocaleDateString()}
+                      {t("student.badges.earnedOn", { date: formatDate(badge.earned_at) })}
                     </p>
                   </div>
                 </CardContent>
@@ -1244,12 +1542,12 @@ const Dashboard = () => {
                   <h1 className="text-xl font-bold">AI Learn Tanzania</h1>
                   <div className="flex items-center gap-2">
                     <p className="text-sm text-muted-foreground">
-                      Welcome, {profile?.full_name || 'User'}
+                      {t("student.welcome", { name: profile?.full_name || t("student.defaultName") })}
                     </p>
                     {profile?.avatar_url ? (
                       <img 
                         src={profile.avatar_url} 
-                        alt="Profile" 
+                        alt={t("student.info.profileAlt")} 
                         className="w-6 h-6 rounded-full border border-primary/20 object-cover"
                       />
                     ) : (
@@ -1266,13 +1564,14 @@ const Dashboard = () => {
                   )}
                   {profile?.skill_level && (
                     <p className="text-xs text-muted-foreground mt-1">
-                      Skill Level: <span className="capitalize">{profile.skill_level}</span>
+                      {t("student.skillLevel")} <span>{t(`difficulty.${profile.skill_level}` as MessageKey)}</span>
                     </p>
                   )}
                 </div>
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <LanguageSwitcher />
               <Button
                 variant="outline"
                 size="sm"
@@ -1283,14 +1582,18 @@ const Dashboard = () => {
                 disabled={isModulesLoading || isLevelLoading}
               >
                 <RefreshCw className={`h-4 w-4 mr-2 ${isModulesLoading || isLevelLoading ? 'animate-spin' : ''}`} />
-                Refresh
+                {t("common.refresh")}
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => supabase.auth.signOut().then(() => navigate("/auth"))}
+                onClick={() => {
+                  // Downloaded modules should not stay behind for the next person on a shared phone
+                  if (userId) clearOfflinePack(userId).catch((err) => console.error("Failed to clear offline data:", err));
+                  supabase.auth.signOut().then(() => navigate("/auth"));
+                }}
               >
-                <LogOut className="h-4 w-4 mr-2" /> Sign Out
+                <LogOut className="h-4 w-4 mr-2" /> {t("common.signOut")}
               </Button>
             </div>
           </div>
@@ -1303,7 +1606,7 @@ const Dashboard = () => {
               className="flex items-center gap-2"
             >
               <TrendingUp className="h-4 w-4" />
-              Dashboard
+              {t("student.tabs.dashboard")}
             </Button>
             <Button
               variant={activeTab === 'achievements' ? "default" : "ghost"}
@@ -1311,7 +1614,7 @@ const Dashboard = () => {
               className="flex items-center gap-2"
             >
               <Award className="h-4 w-4" />
-              Achievements
+              {t("student.tabs.achievements")}
             </Button>
           </div>
         </div>
@@ -1319,6 +1622,7 @@ const Dashboard = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        <OfflineIndicator userId={userId} />
         {activeTab === 'dashboard' ? renderDashboardTab() : renderAchievementsTab()}
       </main>
 
@@ -1330,21 +1634,21 @@ const Dashboard = () => {
               <div className="w-20 h-20 bg-gradient-to-br from-yellow-400 to-orange-500 rounded-full flex items-center justify-center animate-bounce">
                 <Star className="h-10 w-10 text-white" />
               </div>
-              <span className="text-2xl">Badge Earned! 🎉</span>
+              <span className="text-2xl">{t("student.badgeModal.title")}</span>
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <h3 className="text-xl font-bold text-primary">{earnedBadge?.name}</h3>
             <p className="text-muted-foreground">{earnedBadge?.description}</p>
             <p className="text-sm text-muted-foreground">
-              Great job! You've achieved 85% or higher and earned this badge!
+              {t("student.badgeModal.text")}
             </p>
             <Button 
               onClick={() => setShowBadgeModal(false)} 
               className="w-full"
               size="lg"
             >
-              Continue Learning
+              {t("student.badgeModal.continue")}
             </Button>
           </div>
         </DialogContent>
@@ -1358,18 +1662,18 @@ const Dashboard = () => {
               <div className="w-24 h-24 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center animate-pulse">
                 <Crown className="h-12 w-12 text-white" />
               </div>
-              <span className="text-3xl">Level Up! 🚀</span>
+              <span className="text-3xl">{t("student.levelModal.title")}</span>
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <h3 className="text-xl font-bold text-primary">
-              Congratulations!
+              {t("student.levelModal.congratulations")}
             </h3>
             <p className="text-lg">
-              You've reached <strong>{levelProgression?.current_level}</strong>
+              {rich("student.levelModal.reached", { level: <strong>{reachedLevel || levelProgression?.current_level}</strong> })}
             </p>
             <p className="text-muted-foreground">
-              You've completed modules with 85%+ scores and unlocked new challenges!
+              {t("student.levelModal.text")}
             </p>
             <div className="flex gap-2">
               <Button 
@@ -1377,7 +1681,7 @@ const Dashboard = () => {
                 className="flex-1"
                 variant="outline"
               >
-                Continue
+                {t("common.continue")}
               </Button>
               <Button 
                 onClick={() => {
@@ -1390,10 +1694,10 @@ const Dashboard = () => {
                 {generateModulesMutation.isPending ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Generating...
+                    {t("student.levelModal.generating")}
                   </>
                 ) : (
-                  "New Modules"
+                  t("student.levelModal.newModules")
                 )}
               </Button>
             </div>
@@ -1411,13 +1715,36 @@ const Dashboard = () => {
                 {selectedModule?.is_read_only && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     <Lock className="h-3 w-3" />
-                    Read Only
+                    {t("student.status.readOnly")}
                   </Badge>
                 )}
               </div>
-              <Button variant="ghost" size="icon" onClick={closeModule}>
-                <X className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center gap-2">
+                {isTranslating && (
+                  <span className="text-xs font-normal text-muted-foreground">{t("student.moduleDialog.translating")}</span>
+                )}
+                {contentLanguages.length > 1 && (
+                  <Select
+                    value={selectedModule?.language ?? "en"}
+                    onValueChange={changeModuleLanguage}
+                    disabled={isTranslating}
+                  >
+                    <SelectTrigger className="w-36" aria-label={t("student.moduleDialog.language")}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {contentLanguages.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {LANGUAGES.find((option) => option.code === code)?.name ?? code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="ghost" size="icon" onClick={closeModule}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             </DialogTitle>
           </DialogHeader>
 
@@ -1426,15 +1753,15 @@ const Dashboard = () => {
               {/* Module Info */}
               <div className="grid grid-cols-3 gap-4 text-sm">
                 <div className="text-center p-3 bg-muted rounded-lg">
-                  <p className="font-semibold">Duration</p>
-                  <p>{selectedModule.estimated_duration} min</p>
+                  <p className="font-semibold">{t("student.moduleDialog.duration")}</p>
+                  <p>{t("common.minutes", { minutes: selectedModule.estimated_duration })}</p>
                 </div>
                 <div className="text-center p-3 bg-muted rounded-lg">
-                  <p className="font-semibold">Points Reward</p>
-                  <p>{selectedModule.points_reward}</p>
+                  <p className="font-semibold">{t("student.moduleDialog.pointsReward")}</p>
+                  <p>{formatNumber(selectedModule.points_reward)}</p>
                 </div>
                 <div className="text-center p-3 bg-muted rounded-lg">
-                  <p className="font-semibold">Your Progress</p>
+                  <p className="font-semibold">{t("student.moduleDialog.yourProgress")}</p>
                   <p>{selectedModule.progress_percentage}%</p>
                 </div>
               </div>
@@ -1442,7 +1769,7 @@ const Dashboard = () => {
               {/* Progress Bar with Status */}
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Module Progress</span>
+                  <span>{t("student.moduleDialog.moduleProgress")}</span>
                   <span>{selectedModule.progress_percentage}%</span>
                 </div>
                 
@@ -1459,21 +1786,21 @@ const Dashboard = () => {
                       ? 'bg-yellow-100 text-yellow-800 font-medium' 
                       : 'text-muted-foreground'
                   }`}>
-                    Not Started
+                    {t("student.status.notStarted")}
                   </span>
                   <span className={`px-2 py-1 rounded ${
                     selectedModule.progress_percentage > 0 && selectedModule.progress_percentage < 100 
                       ? 'bg-blue-100 text-blue-800 font-medium' 
                       : 'text-muted-foreground'
                   }`}>
-                    In Progress
+                    {t("student.status.inProgress")}
                   </span>
                   <span className={`px-2 py-1 rounded ${
                     selectedModule.is_completed 
                       ? 'bg-green-100 text-green-800 font-medium' 
                       : 'text-muted-foreground'
                   }`}>
-                    Completed
+                    {t("student.status.completed")}
                   </span>
                 </div>
               </div>
@@ -1483,14 +1810,16 @@ const Dashboard = () => {
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <div className="flex justify-between items-center">
                     <div>
-                      <h4 className="font-semibold text-blue-800">Current Quiz Score</h4>
+                      <h4 className="font-semibold text-blue-800">{t("student.moduleDialog.currentScore")}</h4>
                       <p className="text-blue-600 text-sm">
-                        {((Object.values(quizResults).filter(Boolean).length / selectedModule.quizzes.length) * 100).toFixed(1)}% correct
+                        {t("student.moduleDialog.percentCorrect", {
+                          percent: formatScore((Object.values(quizResults).filter(Boolean).length / selectedModule.quizzes.length) * 100),
+                        })}
                       </p>
                     </div>
                     <div className="text-right">
-                      <h4 className="font-semibold text-blue-800">Required for Badge</h4>
-                      <p className="text-blue-600 text-sm">85% or higher</p>
+                      <h4 className="font-semibold text-blue-800">{t("student.moduleDialog.requiredForBadge")}</h4>
+                      <p className="text-blue-600 text-sm">{t("student.moduleDialog.badgeThreshold")}</p>
                     </div>
                   </div>
                 </div>
@@ -1505,11 +1834,10 @@ const Dashboard = () => {
                 ) : (
                   <div className="text-center text-muted-foreground py-8">
                     <BookOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p className="text-lg font-semibold mb-2">Learning Content</p>
+                    <p className="text-lg font-semibold mb-2">{t("student.moduleDialog.learningContent")}</p>
                     <p className="mb-4">{selectedModule.description}</p>
                     <p className="text-sm">
-                      This module focuses on {selectedModule.title.toLowerCase()}. 
-                      Work through the quizzes below to test your understanding.
+                      {t("student.moduleDialog.contentFallback", { title: selectedModule.title.toLowerCase() })}
                     </p>
                   </div>
                 )}
@@ -1519,7 +1847,7 @@ const Dashboard = () => {
               <div className="border-t pt-6">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-xl font-bold text-primary">
-                    Knowledge Check {selectedModule.is_completed && "(Completed)"}
+                    {t("student.moduleDialog.knowledgeCheck")} {selectedModule.is_completed && t("student.moduleDialog.completedSuffix")}
                   </h3>
                   
                   {/* Retry Buttons - Only show if there are incorrect answers and module is not read-only */}
@@ -1532,7 +1860,7 @@ const Dashboard = () => {
                         className="flex items-center gap-2"
                       >
                         <RotateCcw className="h-4 w-4" />
-                        Retry Incorrect ({incorrectQuizzes.size})
+                        {t("student.moduleDialog.retryIncorrectCount", { count: incorrectQuizzes.size })}
                       </Button>
                       <Button
                         onClick={retryAllQuizzes}
@@ -1541,7 +1869,7 @@ const Dashboard = () => {
                         className="flex items-center gap-2"
                       >
                         <RefreshCw className="h-4 w-4" />
-                        Retry All
+                        {t("student.moduleDialog.retryAll")}
                       </Button>
                     </div>
                   )}
@@ -1552,7 +1880,7 @@ const Dashboard = () => {
                   <div className="text-center py-8">
                     <div className="flex flex-col items-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-4"></div>
-                      <p className="text-muted-foreground">Loading quizzes...</p>
+                      <p className="text-muted-foreground">{t("student.moduleDialog.loadingQuizzes")}</p>
                     </div>
                   </div>
                 )}
@@ -1563,8 +1891,8 @@ const Dashboard = () => {
                     <BookOpen className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
                     <p className="text-muted-foreground">
                       {selectedModule.is_completed 
-                        ? "No quizzes available for this completed module." 
-                        : "No quizzes available yet. Complete the module content first."
+                        ? t("student.moduleDialog.noQuizzesCompleted")
+                        : t("student.moduleDialog.noQuizzesYet")
                       }
                     </p>
                   </div>
@@ -1579,10 +1907,20 @@ const Dashboard = () => {
                           {quiz.question}
                           {incorrectQuizzes.has(quiz.id) && (
                             <Badge variant="destructive" className="text-xs">
-                              Needs Retry
+                              {t("student.moduleDialog.needsRetry")}
                             </Badge>
                           )}
                         </h4>
+                        {quiz.type === "written" ? (
+                          <WrittenQuestion
+                            question={quiz}
+                            answer={answers[quiz.id] ?? ""}
+                            onAnswerChange={(answer) => handleAnswerSelect(quiz.id, answer)}
+                            grade={writtenGrades[quiz.id]}
+                            readOnly={selectedModule.is_read_only}
+                            disabled={loadingQuizzes}
+                          />
+                        ) : (
                         <div className="space-y-2">
                           {quiz.options.map((option, index) => (
                             <label 
@@ -1615,31 +1953,42 @@ const Dashboard = () => {
                             </label>
                           ))}
                         </div>
+                        )}
                         {!selectedModule.is_read_only && (
                           <Button
                             onClick={() => submitQuizAnswer(quiz)}
                             className="mt-3"
-                            disabled={!answers[quiz.id] || loadingQuizzes}
+                            disabled={!answers[quiz.id]?.trim() || loadingQuizzes || queuedAnswers.has(quiz.id)}
                             variant={incorrectQuizzes.has(quiz.id) ? "destructive" : "default"}
                           >
                             {quizResults[quiz.id] !== undefined 
-                              ? quizResults[quiz.id] 
-                                ? '✓ Correct - +5 points!' 
-                                : '✗ Incorrect - Try Again' 
-                              : 'Submit Answer'
+                              ? writtenGrades[quiz.id]
+                                ? t("student.moduleDialog.scored", { percent: Math.round(writtenGrades[quiz.id].score ?? 0) })
+                                : quizResults[quiz.id] 
+                                  ? t("student.moduleDialog.correctButton")
+                                  : t("student.moduleDialog.incorrectButton")
+                              : queuedAnswers.has(quiz.id)
+                                ? t("student.moduleDialog.savedOfflineButton")
+                                : t("student.moduleDialog.submitAnswer")
                             }
                           </Button>
                         )}
-                        {selectedModule.is_read_only && answers[quiz.id] && (
+                        {!selectedModule.is_read_only && quizResults[quiz.id] !== undefined && quizFeedback[quiz.id] && (
+                          <p className="mt-2 text-sm text-muted-foreground">{quizFeedback[quiz.id]}</p>
+                        )}
+                        {selectedModule.is_read_only && quiz.type !== "written" && answers[quiz.id] && (
                           <div className="mt-3 p-2 rounded bg-gray-50">
                             <p className="text-sm">
-                              <strong>Your answer:</strong> {answers[quiz.id]}
-                              {answers[quiz.id] === quiz.correct_answer ? (
-                                <span className="text-green-600 ml-2">✓ Correct</span>
+                              <strong>{t("student.moduleDialog.yourAnswer")}</strong> {answers[quiz.id]}
+                              {quizResults[quiz.id] ? (
+                                <span className="text-green-600 ml-2">{t("student.moduleDialog.correct")}</span>
                               ) : (
-                                <span className="text-red-600 ml-2">✗ Incorrect</span>
+                                <span className="text-red-600 ml-2">{t("student.moduleDialog.incorrect")}</span>
                               )}
                             </p>
+                            {quiz.explanation && (
+                              <p className="text-sm text-muted-foreground mt-1">{quiz.explanation}</p>
+                            )}
                           </div>
                         )}
                       </Card>
@@ -1654,18 +2003,18 @@ const Dashboard = () => {
                   <div className="text-center space-y-4">
                     <div className="flex items-center justify-center gap-2 text-green-600 mb-2">
                       <CheckCircle className="h-5 w-5" />
-                      <span className="font-semibold">Module Completed</span>
+                      <span className="font-semibold">{t("student.moduleDialog.moduleCompleted")}</span>
                     </div>
                     <p className="text-green-600">
-                      ✅ This module is completed and in read-only mode.
+                      {t("student.moduleDialog.readOnlyNotice")}
                     </p>
-                    {calculateQuizScore(selectedModule, answers) < 85 && (
+                    {calculateQuizScore(selectedModule, quizResults) < 85 && (
                       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                         <p className="text-yellow-800 font-semibold mb-2">
-                          Score: {calculateQuizScore(selectedModule, answers).toFixed(1)}%
+                          {t("student.moduleDialog.score", { percent: formatScore(calculateQuizScore(selectedModule, quizResults)) })}
                         </p>
                         <p className="text-yellow-700 text-sm mb-3">
-                          You scored below 85%. You can retake this module to try for a badge and progression.
+                          {t("student.moduleDialog.belowThreshold")}
                         </p>
                         <Button
                           onClick={resetModuleForRetake}
@@ -1673,7 +2022,7 @@ const Dashboard = () => {
                           className="flex items-center gap-2"
                         >
                           <RotateCcw className="h-4 w-4" />
-                          Retake Module
+                          {t("student.moduleDialog.retake")}
                         </Button>
                       </div>
                     )}
@@ -1683,8 +2032,8 @@ const Dashboard = () => {
                     <div className="text-center">
                       <p className="text-muted-foreground text-sm mb-2">
                         {incorrectQuizzes.size > 0 
-                          ? `You have ${incorrectQuizzes.size} incorrect answer(s) to retry. Complete all quizzes to finish this module.`
-                          : "Complete all quizzes above to finish this module"
+                          ? t("student.moduleDialog.incorrectToRetry", { count: incorrectQuizzes.size })
+                          : t("student.moduleDialog.completeAll")
                         }
                       </p>
                       {incorrectQuizzes.size > 0 && (
@@ -1696,7 +2045,7 @@ const Dashboard = () => {
                             className="flex items-center gap-2"
                           >
                             <RotateCcw className="h-4 w-4" />
-                            Retry Incorrect Answers
+                            {t("student.moduleDialog.retryIncorrectAnswers")}
                           </Button>
                           <Button
                             onClick={retryAllQuizzes}
@@ -1705,7 +2054,7 @@ const Dashboard = () => {
                             className="flex items-center gap-2"
                           >
                             <RefreshCw className="h-4 w-4" />
-                            Start Over
+                            {t("student.moduleDialog.startOver")}
                           </Button>
                         </div>
                       )}
@@ -1716,9 +2065,11 @@ const Dashboard = () => {
                       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                         <div className="flex items-center justify-between mb-3">
                           <div>
-                            <h4 className="font-semibold text-blue-800">Ready to Complete Module</h4>
+                            <h4 className="font-semibold text-blue-800">{t("student.moduleDialog.readyToComplete")}</h4>
                             <p className="text-blue-600 text-sm">
-                              Current score: {calculateQuizScore(selectedModule, answers).toFixed(1)}%
+                              {queuedAnswers.size > 0
+                                ? t("student.moduleDialog.scoreAfterSync")
+                                : t("student.moduleDialog.currentScoreValue", { percent: formatScore(calculateQuizScore(selectedModule, quizResults)) })}
                             </p>
                           </div>
                           <Button
@@ -1730,20 +2081,22 @@ const Dashboard = () => {
                             {isCompletingModule ? (
                               <>
                                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                                Completing...
+                                {t("student.moduleDialog.completing")}
                               </>
                             ) : (
                               <>
                                 <CheckCircle className="h-4 w-4" />
-                                Complete Module
+                                {t("student.moduleDialog.complete")}
                               </>
                             )}
                           </Button>
                         </div>
                         <p className="text-blue-700 text-sm">
-                          {calculateQuizScore(selectedModule, answers) >= 85 
-                            ? "🎉 Great job! You've achieved 85% or higher and will receive a badge and progression!"
-                            : "⚠️ Score below 85%. You can complete the module but won't receive a badge. Consider retaking quizzes to improve your score."
+                          {queuedAnswers.size > 0
+                            ? t("student.moduleDialog.completeOffline")
+                            : calculateQuizScore(selectedModule, quizResults) >= 85 
+                            ? t("student.moduleDialog.willEarnBadge")
+                            : t("student.moduleDialog.belowBadge")
                           }
                         </p>
                       </div>
@@ -1771,6 +2124,7 @@ const ModuleCard = ({
   getStatusText: (module: Module) => string;
   getStatusColor: (module: Module) => string;
 }) => {
+  const { t, formatNumber } = useI18n();
   const statusText = getStatusText(module);
   const statusColor = getStatusColor(module);
   
@@ -1784,7 +2138,7 @@ const ModuleCard = ({
           </div>
           <div className="flex flex-col items-end gap-2">
             <Badge variant={module.difficulty === "beginner" ? "secondary" : "default"}>
-              {module.difficulty}
+              {t(`difficulty.${module.difficulty}` as MessageKey)}
             </Badge>
             {module.is_completed && (
               <CheckCircle className="h-5 w-5 text-green-500" />
@@ -1809,18 +2163,18 @@ const ModuleCard = ({
         <div className="flex items-center justify-between mb-4">
           <div className={`px-2 py-1 rounded border text-xs font-medium ${statusColor}`}>
             {statusText}
-            {module.is_read_only && " (Read Only)"}
+            {module.is_read_only && ` (${t("student.status.readOnly")})`}
           </div>
         </div>
 
         <div className="grid grid-cols-2 gap-4 mb-4 text-sm">
           <div className="text-center p-2 bg-muted rounded-lg">
-            <p className="font-semibold">Duration</p>
-            <p>{module.estimated_duration} min</p>
+            <p className="font-semibold">{t("student.modules.duration")}</p>
+            <p>{t("common.minutes", { minutes: module.estimated_duration })}</p>
           </div>
           <div className="text-center p-2 bg-muted rounded-lg">
-            <p className="font-semibold">Points</p>
-            <p>{module.points_reward}</p>
+            <p className="font-semibold">{t("student.modules.points")}</p>
+            <p>{formatNumber(module.points_reward)}</p>
           </div>
         </div>
 
@@ -1831,7 +2185,7 @@ const ModuleCard = ({
           variant={module.is_completed ? "outline" : "default"}
         >
           <BookOpen className="h-4 w-4 mr-2" />
-          {module.is_completed ? "Review Module" : "Open Module"}
+          {module.is_completed ? t("student.modules.review") : t("student.modules.open")}
         </Button>
       </CardContent>
     </Card>
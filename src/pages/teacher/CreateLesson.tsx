@@ -13,6 +13,10 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { Upload } from "lucide-react";
+import LanguageSwitcher from "@/components/ui/LanguageSwitcher";
+import SyllabusPicker from "@/components/ui/SyllabusPicker";
+import { useI18n } from "@/hooks/useI18n";
+import { useSyllabusCatalog } from "@/hooks/useSyllabus";
 
 const CreateLesson = () => {
   const navigate = useNavigate();
@@ -24,43 +28,14 @@ const CreateLesson = () => {
   const [content, setContent] = useState("");
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
-  const [lang, setLang] = useState<"en" | "sw">("en"); // language toggle
-
-  // -------------------- TRANSLATIONS --------------------
-  const t = {
-    en: {
-      pageTitle: "Create a Lesson",
-      titlePlaceholder: "Lesson Title",
-      lessonType: "Lesson Type",
-      contentType: "Content Source",
-      pasteText: "Paste Text",
-      uploadPDF: "Upload PDF",
-      uploadPPT: "Upload Presentation",
-      pasteLesson: "Paste your lesson text or notes here...",
-      uploadPrompt: "Upload a file (PDF or PPT)",
-      saving: "Saving...",
-      create: "Create Lesson",
-      onlyTeachers: "Only teachers can create lessons",
-      mustLogin: "You must be logged in to create a lesson",
-      success: "Lesson created successfully!",
-    },
-    sw: {
-      pageTitle: "Unda Somo",
-      titlePlaceholder: "Kichwa cha Somo",
-      lessonType: "Aina ya Somo",
-      contentType: "Chanzo cha Maudhui",
-      pasteText: "Andika Maandishi",
-      uploadPDF: "Pakia PDF",
-      uploadPPT: "Pakia Uwasilishaji (PPT)",
-      pasteLesson: "Weka maandiko ya somo lako hapa...",
-      uploadPrompt: "Pakia faili (PDF au PPT)",
-      saving: "Inahifadhi...",
-      create: "Unda Somo",
-      onlyTeachers: "Walimu pekee ndio wanaweza kuunda masomo",
-      mustLogin: "Lazima uingie ili kuunda somo",
-      success: "Somo limeundwa kwa mafanikio!",
-    },
-  }[lang];
+  // The national syllabus topic the lesson is written for
+  const [syllabusSubject, setSyllabusSubject] = useState("");
+  const [syllabusForm, setSyllabusForm] = useState("");
+  const [syllabusNodeId, setSyllabusNodeId] = useState<string | null>(null);
+
+  const { t } = useI18n();
+  const { data: syllabusCatalog } = useSyllabusCatalog();
+  const syllabusSubjects = [...new Set((syllabusCatalog?.subjects ?? []).map((subject) => subject.name))];
 
   // -------------------- FILE UPLOAD --------------------
   const uploadLessonFile = async () => {
@@ -81,7 +56,7 @@ const CreateLesson = () => {
       return publicUrl;
     } catch (err) {
       console.error("File upload error:", err);
-      toast.error("Failed to upload file");
+      toast.error(t("createLesson.uploadFailed"));
       return null;
     }
   };
@@ -97,7 +72,7 @@ const CreateLesson = () => {
       } = await supabase.auth.getUser();
 
       if (!user) {
-        toast.error(t.mustLogin);
+        toast.error(t("createLesson.mustLogin"));
         return;
       }
 
@@ -108,7 +83,7 @@ const CreateLesson = () => {
         .single();
 
       if (profile?.role !== "teacher") {
-        toast.error(t.onlyTeachers);
+        toast.error(t("createLesson.onlyTeachers"));
         return;
       }
 
@@ -125,16 +100,17 @@ const CreateLesson = () => {
           content: contentType === "text" ? content : null,
           file_url: fileUrl,
           teacher_id: user.id,
+          syllabus_node_id: syllabusNodeId,
         },
       ]);
 
       if (error) throw error;
 
-      toast.success(t.success);
+      toast.success(t("createLesson.success"));
       navigate("/teacher/dashboard");
     } catch (err: any) {
       console.error(err);
-      toast.error(err.message || "Something went wrong");
+      toast.error(err.message || t("createLesson.failed"));
     } finally {
       setLoading(false);
     }
@@ -144,24 +120,16 @@ const CreateLesson = () => {
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-3xl mx-auto bg-card rounded-xl shadow-lg p-8 space-y-6">
-        {/* Language Toggle */}
         <div className="flex justify-end">
-          <Button
-            type="button"
-            variant="outline"
-            size="sm"
-            onClick={() => setLang(lang === "en" ? "sw" : "en")}
-          >
-            {lang === "en" ? "🇹🇿 Badili Kiswahili" : "🇬🇧 Switch to English"}
-          </Button>
+          <LanguageSwitcher />
         </div>
 
-        <h1 className="text-2xl font-bold text-center">{t.pageTitle}</h1>
+        <h1 className="text-2xl font-bold text-center">{t("createLesson.pageTitle")}</h1>
 
         <form onSubmit={handleSubmit} className="space-y-5">
           {/* Title */}
           <Input
-            placeholder={t.titlePlaceholder}
+            placeholder={t("createLesson.titlePlaceholder")}
             value={title}
             onChange={(e) => setTitle(e.target.value)}
             required
@@ -170,21 +138,21 @@ const CreateLesson = () => {
           {/* Lesson Type */}
           <div>
             <label className="block text-sm font-medium mb-2">
-              {t.lessonType}
+              {t("createLesson.lessonType")}
             </label>
             <Select value={lessonType} onValueChange={setLessonType}>
               <SelectTrigger>
-                <SelectValue placeholder="Select Type" />
+                <SelectValue placeholder={t("createLesson.selectType")} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="full_lesson">
-                  {lang === "en" ? "Full Lesson" : "Somo Kamili"}
+                  {t("createLesson.lessonTypes.full_lesson")}
                 </SelectItem>
                 <SelectItem value="quick_write">
-                  {lang === "en" ? "Quick Write" : "Uandishi Mfupi"}
+                  {t("createLesson.lessonTypes.quick_write")}
                 </SelectItem>
                 <SelectItem value="test_prep">
-                  {lang === "en" ? "Test Prep" : "Maandalizi ya Mtihani"}
+                  {t("createLesson.lessonTypes.test_prep")}
                 </SelectItem>
               </SelectContent>
             </Select>
@@ -193,24 +161,60 @@ const CreateLesson = () => {
           {/* Content Type */}
           <div>
             <label className="block text-sm font-medium mb-2">
-              {t.contentType}
+              {t("createLesson.contentType")}
             </label>
             <Select value={contentType} onValueChange={setContentType}>
               <SelectTrigger>
-                <SelectValue placeholder="Select Content Source" />
+                <SelectValue placeholder={t("createLesson.selectSource")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="text">{t.pasteText}</SelectItem>
-                <SelectItem value="pdf">{t.uploadPDF}</SelectItem>
-                <SelectItem value="ppt">{t.uploadPPT}</SelectItem>
+                <SelectItem value="text">{t("createLesson.pasteText")}</SelectItem>
+                <SelectItem value="pdf">{t("createLesson.uploadPDF")}</SelectItem>
+                <SelectItem value="ppt">{t("createLesson.uploadPPT")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {/* Syllabus Topic */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              {t("createLesson.syllabusTopic")}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <Select
+                value={syllabusSubject || undefined}
+                onValueChange={(value) => {
+                  setSyllabusSubject(value);
+                  setSyllabusNodeId(null);
+                }}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder={t("createLesson.syllabusSubject")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {syllabusSubjects.map((subject) => (
+                    <SelectItem key={subject} value={subject}>
+                      {subject}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <SyllabusPicker
+                subject={syllabusSubject}
+                form={syllabusForm}
+                nodeId={syllabusNodeId}
+                onChange={(selection) => {
+                  setSyllabusForm(selection.form);
+                  setSyllabusNodeId(selection.nodeId);
+                }}
+              />
+            </div>
+          </div>
+
           {/* Dynamic Input */}
           {contentType === "text" ? (
             <Textarea
-              placeholder={t.pasteLesson}
+              placeholder={t("createLesson.pasteLesson")}
               rows={8}
               value={content}
               onChange={(e) => setContent(e.target.value)}
@@ -220,7 +224,7 @@ const CreateLesson = () => {
             <div className="border-2 border-dashed border-muted p-6 rounded-xl flex flex-col items-center justify-center">
               <Upload className="h-8 w-8 text-primary mb-2" />
               <p className="text-sm text-muted-foreground mb-2">
-                {file ? file.name : t.uploadPrompt}
+                {file ? file.name : t("createLesson.uploadPrompt")}
               </p>
               <Input
                 type="file"
@@ -233,7 +237,7 @@ const CreateLesson = () => {
 
           {/* Submit */}
           <Button type="submit" disabled={loading} className="w-full">
-            {loading ? t.saving : t.create}
+            {loading ? t("createLesson.saving") : t("createLesson.create")}
           </Button>
         </form>
       </div>
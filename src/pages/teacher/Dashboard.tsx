@@ -9,10 +9,31 @@ import { toast } from "sonner";
 import MDEditor from "@uiw/react-md-editor";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import PointsHistory from "@/components/ui/PointsHistory";
+import ClassManager from "@/components/ui/ClassManager";
+import Gradebook from "@/components/ui/Gradebook";
+import ClassMastery from "@/components/ui/ClassMastery";
+import SyllabusCoverage from "@/components/ui/SyllabusCoverage";
+import SyllabusPicker from "@/components/ui/SyllabusPicker";
+import LessonWorkflowActions, { LessonStatusBadge } from "@/components/ui/LessonWorkflowActions";
+import LessonReviewQueue from "@/components/ui/LessonReviewQueue";
+import WrittenAnswerReviewQueue from "@/components/ui/WrittenAnswerReviewQueue";
+import QuestionBank from "@/components/ui/QuestionBank";
+import ContentEditor from "@/components/ui/ContentEditor";
+import RevisionHistory from "@/components/ui/RevisionHistory";
+import ContentTrash from "@/components/ui/ContentTrash";
+import LanguageSwitcher from "@/components/ui/LanguageSwitcher";
+import { useTrashContent, type ContentItem as SavedContent } from "@/hooks/useContentRevisions";
+import { useI18n } from "@/hooks/useI18n";
+import { useContentLanguages } from "@/hooks/useModuleLanguage";
+import { useSyllabusCatalog } from "@/hooks/useSyllabus";
+import { lessonDisplayStatus, useLessonWorkflowSettings, type LessonDisplayStatus, type LessonWorkflowState } from "@/hooks/useLessonWorkflow";
 
 type ContentType = "lesson" | "academic";
 type QuizType = "mcq" | "written" | "both";
-type Language = "en" | "sw";
+type StatusFilter = "all" | LessonDisplayStatus;
+
+const LESSON_STATUSES: LessonDisplayStatus[] = ["draft", "in_review", "scheduled", "published", "archived"];
 
 interface ContentItem {
   id: string;
@@ -23,11 +44,16 @@ interface ContentItem {
   material_type?: string;
   content_type?: string;
   length?: string;
+  status?: string;
+  publish_at?: string | null;
+  review_comment?: string | null;
+  syllabus_node_id?: string | null;
 }
 
 const TeacherPage = () => {
   const [loading, setLoading] = useState(true);
-  const [userProfile, setUserProfile] = useState<{ full_name: string } | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [userProfile, setUserProfile] = useState<{ full_name: string; is_head_of_department: boolean } | null>(null);
   const [lessons, setLessons] = useState<ContentItem[]>([]);
   const [academicContent, setAcademicContent] = useState<ContentItem[]>([]);
   const [contentType, setContentType] = useState<ContentType>("lesson");
@@ -41,58 +67,26 @@ const TeacherPage = () => {
   const [academicFormat, setAcademicFormat] = useState("Short Story");
   const [length, setLength] = useState("");
   const [aiContent, setAiContent] = useState("");
+  // The language the last generated content was written in; it is saved with it
+  const [aiContentLanguage, setAiContentLanguage] = useState("en");
+  // The national syllabus topic the content is written for; it is saved with it
+  const [syllabusSubject, setSyllabusSubject] = useState("");
+  const [syllabusForm, setSyllabusForm] = useState("");
+  const [syllabusNodeId, setSyllabusNodeId] = useState<string | null>(null);
   const [quizType, setQuizType] = useState<QuizType>("both");
   const [aiLoading, setAiLoading] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [previewingId, setPreviewingId] = useState<string | null>(null);
-  const [lang, setLang] = useState<Language>("en");
   const [includeQuiz, setIncludeQuiz] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const { data: workflowSettings } = useLessonWorkflowSettings();
+  const trashContent = useTrashContent();
 
-  const t = {
-    en: {
-      createLesson: "Create Lesson",
-      createAcademic: "Create Academic Content",
-      topicPlaceholder: "Enter topic...",
-      lessonType: "Lesson Type",
-      materialType: "Material Type",
-      academicFormat: "Content Type",
-      length: "Length / Prompt",
-      generateAI: "Generate with AI",
-      aiLoading: "Generating...",
-      previewMarkdown: "Toggle Preview",
-      save: "Save",
-      myLessons: "My Lessons",
-      myAcademic: "My Academic Content",
-      noLessons: "You haven't created any lessons yet.",
-      noAcademic: "You haven't created any academic content yet.",
-      deleteConfirm: "Are you sure you want to delete this content?",
-      copy: "Copy",
-      quizType: "Quiz Type",
-      includeQuiz: "Include Quiz",
-    },
-    sw: {
-      createLesson: "Unda Somo",
-      createAcademic: "Unda Maudhui ya Kitaaluma",
-      topicPlaceholder: "Weka mada...",
-      lessonType: "Aina ya Somo",
-      materialType: "Aina ya Nyenzo",
-      academicFormat: "Aina ya Maudhui",
-      length: "Urefu / Maelezo",
-      generateAI: "Tengeneza na AI",
-      aiLoading: "Inatengeneza...",
-      previewMarkdown: "Onyesha Muonekano",
-      save: "Hifadhi",
-      myLessons: "Masomo Yangu",
-      myAcademic: "Maudhui Yangu ya Kitaaluma",
-      noLessons: "Bado hujaunda somo lolote.",
-      noAcademic: "Bado hujaunda maudhui yoyote ya kitaaluma.",
-      deleteConfirm: "Una uhakika unataka kufuta maudhui haya?",
-      copy: "Nakili",
-      quizType: "Aina ya Maswali",
-      includeQuiz: "Weka Maswali",
-    },
-  }[lang];
+  const { t, language } = useI18n();
+  const { data: contentLanguages = [] } = useContentLanguages();
+  const { data: syllabusCatalog } = useSyllabusCatalog();
+  const syllabusSubjects = [...new Set((syllabusCatalog?.subjects ?? []).map((subject) => subject.name))];
 
   useEffect(() => {
     loadDashboardData();
@@ -102,15 +96,17 @@ const TeacherPage = () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setUserId(user.id);
 
-      const { data: profile } = await supabase.from("profiles").select("full_name").eq("id", user.id).single();
+      const { data: profile } = await supabase.from("profiles").select("full_name, is_head_of_department").eq("id", user.id).single();
       setUserProfile(profile);
 
       // Load lessons
       const { data: lessonData } = await supabase
         .from("lessons")
-        .select("id, title, content, quizzes, type, content_type, created_at")
+        .select("id, title, content, quizzes, type, content_type, status, publish_at, review_comment, syllabus_node_id, created_at")
         .eq("teacher_id", user.id)
+        .is("deleted_at", null)
         .order("created_at", { ascending: false });
 
       const mappedLessons = lessonData?.map(lesson => ({
@@ -119,14 +115,19 @@ const TeacherPage = () => {
         content: lesson.content,
         quizzes: lesson.quizzes,
         lesson_type: lesson.type,
-        material_type: lesson.content_type
+        material_type: lesson.content_type,
+        status: lesson.status,
+        publish_at: lesson.publish_at,
+        review_comment: lesson.review_comment,
+        syllabus_node_id: lesson.syllabus_node_id
       })) || [];
 
       // Load academic content
       const { data: academicData } = await supabase
         .from("academic")
-        .select("id, topic, content, content_type, length, created_at")
+        .select("id, topic, content, content_type, length, syllabus_node_id, created_at")
         .eq("teacher_id", user.id)
+        .is("deleted_at", null)
         .order("created_at", { ascending: false });
 
       const mappedAcademic = academicData?.map(academic => ({
@@ -134,14 +135,15 @@ const TeacherPage = () => {
         topic: academic.topic,
         content: academic.content,
         content_type: academic.content_type,
-        length: academic.length
+        length: academic.length,
+        syllabus_node_id: academic.syllabus_node_id
       })) || [];
 
       setLessons(mappedLessons);
       setAcademicContent(mappedAcademic);
     } catch (err: any) {
       console.error("Load error:", err);
-      toast.error(err.message || "Failed to load dashboard");
+      toast.error(err.message || t("teacher.toast.loadFailed"));
     } finally {
       setLoading(false);
     }
@@ -153,8 +155,9 @@ const TeacherPage = () => {
   };
 
   const generateAIContent = async () => {
-    if (!topic.trim()) return toast.error("Please enter a topic");
+    if (!topic.trim()) return toast.error(t("teacher.toast.enterTopic"));
     setAiLoading(true);
+    const contentLanguage = contentLanguages.includes(language) ? language : "en";
 
     try {
       const { data: sessionData } = await supabase.auth.getSession();
@@ -164,8 +167,10 @@ const TeacherPage = () => {
       // Prepare request body based on content type
       const requestBody: any = {
         topic,
-        grade: "Form 4",
-        lang,
+        grade: syllabusForm || undefined,
+        // Generated in the interface language when content is offered in it
+        lang: contentLanguage,
+        syllabusNodeId: syllabusNodeId ?? undefined,
       };
 
       if (contentType === "lesson") {
@@ -187,27 +192,25 @@ const TeacherPage = () => {
 
       console.log("Sending request:", requestBody);
 
-      const res = await fetch(
-        "https://bnfaxorbbakzxtudxwil.supabase.co/functions/v1/generate-lesson",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
-          body: JSON.stringify(requestBody),
-        }
-      );
+      const res = await fetch("/api/generateLesson", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(requestBody),
+      });
 
       if (!res.ok) {
         const text = await res.text();
-        console.error("Supabase function error:", text);
-        toast.error("Failed to generate AI content");
+        console.error("Lesson generation error:", text);
+        toast.error(t("teacher.toast.generateFailed"));
         return;
       }
 
       const data = await res.json();
       setAiContent(data.content || "");
-      toast.success("AI content generated successfully!");
+      setAiContentLanguage(contentLanguage);
+      toast.success(t("teacher.toast.generated"));
     } catch (err: any) {
-      toast.error(err.message || "Failed to generate AI content");
+      toast.error(err.message || t("teacher.toast.generateFailed"));
     } finally {
       setAiLoading(false);
     }
@@ -219,7 +222,7 @@ const TeacherPage = () => {
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return toast.error("You must be logged in");
+      if (!user) return toast.error(t("teacher.toast.mustLogin"));
 
       if (contentType === "lesson") {
         // Save as lesson
@@ -239,7 +242,9 @@ const TeacherPage = () => {
               type: lessonType,
               content_type: materialType,
               status: 'draft',
-              form: 'standard'
+              form: 'standard',
+              language: aiContentLanguage,
+              syllabus_node_id: syllabusNodeId
             }
           ])
           .select()
@@ -253,11 +258,15 @@ const TeacherPage = () => {
           content: data.content,
           quizzes: data.quizzes,
           lesson_type: data.type,
-          material_type: data.content_type
+          material_type: data.content_type,
+          status: data.status,
+          publish_at: data.publish_at,
+          review_comment: data.review_comment,
+          syllabus_node_id: data.syllabus_node_id
         };
 
         setLessons(prev => [newLesson, ...prev]);
-        toast.success("Lesson saved successfully!");
+        toast.success(t("teacher.toast.lessonSaved"));
 
       } else {
         // Save as academic content
@@ -269,7 +278,9 @@ const TeacherPage = () => {
               content: aiContent,
               teacher_id: user.id,
               content_type: academicFormat,
-              length: length
+              length: length,
+              language: aiContentLanguage,
+              syllabus_node_id: syllabusNodeId
             }
           ])
           .select()
@@ -282,15 +293,17 @@ const TeacherPage = () => {
           topic: data.topic,
           content: data.content,
           content_type: data.content_type,
-          length: data.length
+          length: data.length,
+          syllabus_node_id: data.syllabus_node_id
         };
 
         setAcademicContent(prev => [newAcademic, ...prev]);
-        toast.success("Academic content saved successfully!");
+        toast.success(t("teacher.toast.academicSaved"));
       }
 
       // Reset form
       setTopic("");
+      setSyllabusNodeId(null);
       setAiContent("");
       setQuizType("both");
       setLength("");
@@ -298,27 +311,26 @@ const TeacherPage = () => {
       
     } catch (err: any) {
       console.error("Save error:", err);
-      toast.error(err.message || "Failed to save content");
+      toast.error(err.message || t("teacher.toast.saveFailed"));
     } finally {
       setFormLoading(false);
     }
   };
 
   const handleDelete = async (table: "lessons" | "academic", id: string) => {
-    if (!confirm(t.deleteConfirm)) return;
+    if (!confirm(t("teacher.deleteConfirm"))) return;
     try {
-      const { error } = await supabase.from(table).delete().eq("id", id);
-      if (error) throw error;
-      
+      await trashContent.mutateAsync({ kind: table, id });
+
       if (table === "lessons") {
         setLessons(prev => prev.filter(l => l.id !== id));
       } else {
         setAcademicContent(prev => prev.filter(a => a.id !== id));
       }
       
-      toast.success("Deleted successfully!");
+      toast.success(t("teacher.toast.trashed"));
     } catch (err: any) {
-      toast.error(err.message || "Delete failed");
+      toast.error(err.message || t("teacher.toast.deleteFailed"));
     }
   };
 
@@ -337,15 +349,15 @@ const TeacherPage = () => {
         textArea.select();
         document.execCommand('copy');
         document.body.removeChild(textArea);
-        toast.success("Copied using fallback method!");
+        toast.success(t("teacher.toast.copiedFallback"));
         return;
       }
 
       await navigator.clipboard.writeText(text);
-      toast.success("Copied to clipboard!");
+      toast.success(t("teacher.toast.copied"));
     } catch (err) {
       console.error('Failed to copy: ', err);
-      prompt('Copy the following text manually:', text);
+      prompt(t("teacher.toast.copyManually"), text);
     }
   };
 
@@ -356,16 +368,41 @@ const TeacherPage = () => {
     return JSON.stringify(quizzes);
   };
 
+  const handleContentSaved = (table: "lessons" | "academic", saved: SavedContent) => {
+    const apply = (prev: ContentItem[]) =>
+      prev.map(item =>
+        item.id === saved.id
+          ? {
+              ...item,
+              topic: saved.title,
+              content: saved.content ?? "",
+              syllabus_node_id: saved.syllabus_node_id !== undefined ? saved.syllabus_node_id : item.syllabus_node_id
+            }
+          : item
+      );
+    if (table === "lessons") setLessons(apply);
+    else setAcademicContent(apply);
+  };
+
+  const handleLessonTransition = (state: LessonWorkflowState) => {
+    setLessons(prev => prev.map(lesson => (lesson.id === state.id ? { ...lesson, ...state } : lesson)));
+  };
+
+  const filteredLessons = statusFilter === "all"
+    ? lessons
+    : lessons.filter(lesson => lessonDisplayStatus(lesson) === statusFilter);
+
   const ContentList = ({ items, table }: { items: ContentItem[], table: "lessons" | "academic" }) => (
     <>
       {items.length === 0 ? (
-        <p>{table === "lessons" ? t.noLessons : t.noAcademic}</p>
+        <p>{table === "lessons" ? t("teacher.noLessons") : t("teacher.noAcademic")}</p>
       ) : (
         items.map(item => (
           <Card key={item.id} className="p-3 my-2">
             <div className="flex justify-between items-center">
-              <div className="font-semibold">
+              <div className="font-semibold flex items-center gap-2">
                 {item.topic} ({table === "lessons" ? item.lesson_type : item.content_type})
+                {table === "lessons" && <LessonStatusBadge lesson={item} />}
               </div>
               <div className="flex gap-2">
                 <Button 
@@ -379,6 +416,12 @@ const TeacherPage = () => {
                 >
                   <Copy className="w-4 h-4" />
                 </Button>
+                <ContentEditor
+                  kind={table}
+                  item={{ id: item.id, title: item.topic, content: item.content, syllabus_node_id: item.syllabus_node_id ?? null }}
+                  onSaved={(saved) => handleContentSaved(table, saved)}
+                />
+                <RevisionHistory kind={table} id={item.id} onRestored={(saved) => handleContentSaved(table, saved)} />
                 <Button 
                   variant="ghost" 
                   size="sm" 
@@ -394,14 +437,21 @@ const TeacherPage = () => {
               className="mt-2"
               onClick={() => setPreviewingId(previewingId === item.id ? null : item.id)}
             >
-              {previewingId === item.id ? "Hide Preview" : "Show Preview"}
+              {previewingId === item.id ? t("teacher.hidePreview") : t("teacher.showPreview")}
             </Button>
+            {table === "lessons" && (
+              <LessonWorkflowActions
+                lesson={item}
+                approvalRequired={workflowSettings?.approval_required ?? false}
+                onChange={handleLessonTransition}
+              />
+            )}
             {previewingId === item.id && (
               <Card className="p-2 bg-muted mt-2">
                 <MDEditor.Markdown source={item.content} />
                 {table === "lessons" && item.quizzes && (
                   <div className="mt-2">
-                    <strong>Quiz Type:</strong> {getQuizTypeDisplay(item.quizzes)}
+                    <strong>{t("teacher.quizTypeLabel")}</strong> {getQuizTypeDisplay(item.quizzes)}
                   </div>
                 )}
               </Card>
@@ -412,7 +462,7 @@ const TeacherPage = () => {
     </>
   );
 
-  if (loading) return <div>Loading...</div>;
+  if (loading) return <div>{t("common.loading")}</div>;
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
@@ -420,9 +470,10 @@ const TeacherPage = () => {
       <header className="border-b bg-card shadow-sm p-4 flex justify-between items-center">
         <div className="flex items-center gap-2">
           <BookOpen className="h-6 w-6 text-primary" />
-          <span className="text-xl font-bold">LearnHub Teacher</span>
+          <span className="text-xl font-bold">{t("teacher.brand")}</span>
         </div>
         <div className="flex items-center gap-2">
+          <LanguageSwitcher />
           <User className="h-4 w-4" />
           <span>{userProfile?.full_name}</span>
           <Button variant="ghost" onClick={handleLogout}>
@@ -435,59 +486,84 @@ const TeacherPage = () => {
         {/* Toggle Buttons */}
         <div className="flex gap-4">
           <Button onClick={() => setContentType("lesson")} variant={contentType === "lesson" ? "default" : "outline"}>
-            {t.createLesson}
+            {t("teacher.createLesson")}
           </Button>
           <Button onClick={() => setContentType("academic")} variant={contentType === "academic" ? "default" : "outline"}>
-            {t.createAcademic}
+            {t("teacher.createAcademic")}
           </Button>
         </div>
 
         {/* Content Creation Form */}
         <Card className="p-6">
           <form ref={lessonFormRef} onSubmit={handleSubmit} className="flex flex-col gap-4">
-            <Input placeholder={t.topicPlaceholder} value={topic} onChange={(e) => setTopic(e.target.value)} required />
+            <Input placeholder={t("teacher.topicPlaceholder")} value={topic} onChange={(e) => setTopic(e.target.value)} required />
+            <div className="flex flex-wrap gap-2">
+              <Select
+                value={syllabusSubject || undefined}
+                onValueChange={(value) => {
+                  setSyllabusSubject(value);
+                  setSyllabusNodeId(null);
+                }}
+              >
+                <SelectTrigger className="w-44"><SelectValue placeholder={t("teacher.syllabusSubject")} /></SelectTrigger>
+                <SelectContent>
+                  {syllabusSubjects.map((subject) => (
+                    <SelectItem key={subject} value={subject}>{subject}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <SyllabusPicker
+                subject={syllabusSubject}
+                form={syllabusForm}
+                nodeId={syllabusNodeId}
+                onChange={(selection) => {
+                  setSyllabusForm(selection.form);
+                  setSyllabusNodeId(selection.nodeId);
+                }}
+              />
+            </div>
 
             {contentType === "lesson" ? (
               <>
                 <Select value={lessonType} onValueChange={setLessonType}>
-                  <SelectTrigger className="w-44"><SelectValue placeholder={t.lessonType} /></SelectTrigger>
+                  <SelectTrigger className="w-44"><SelectValue placeholder={t("teacher.lessonType")} /></SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="full_lesson">Full Lesson</SelectItem>
-                    <SelectItem value="summary">Summary</SelectItem>
-                    <SelectItem value="quick_write">Quick Write</SelectItem>
+                    <SelectItem value="full_lesson">{t("teacher.lessonTypes.full_lesson")}</SelectItem>
+                    <SelectItem value="summary">{t("teacher.lessonTypes.summary")}</SelectItem>
+                    <SelectItem value="quick_write">{t("teacher.lessonTypes.quick_write")}</SelectItem>
                   </SelectContent>
                 </Select>
                 <Select value={materialType} onValueChange={setMaterialType}>
-                  <SelectTrigger className="w-44"><SelectValue placeholder={t.materialType} /></SelectTrigger>
+                  <SelectTrigger className="w-44"><SelectValue placeholder={t("teacher.materialType")} /></SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="text">Text</SelectItem>
-                    <SelectItem value="ppt">PPT/PDF</SelectItem>
-                    <SelectItem value="google">Google Drive</SelectItem>
+                    <SelectItem value="text">{t("teacher.materialTypes.text")}</SelectItem>
+                    <SelectItem value="ppt">{t("teacher.materialTypes.ppt")}</SelectItem>
+                    <SelectItem value="google">{t("teacher.materialTypes.google")}</SelectItem>
                   </SelectContent>
                 </Select>
                 
                 {/* Quiz Type for Lessons (always shown) */}
                 <Select value={quizType} onValueChange={(val) => setQuizType(val as QuizType)}>
-                  <SelectTrigger className="w-44"><SelectValue placeholder={t.quizType} /></SelectTrigger>
+                  <SelectTrigger className="w-44"><SelectValue placeholder={t("teacher.quizType")} /></SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="mcq">MCQ</SelectItem>
-                    <SelectItem value="written">Written</SelectItem>
-                    <SelectItem value="both">Both</SelectItem>
+                    <SelectItem value="mcq">{t("teacher.quizTypes.mcq")}</SelectItem>
+                    <SelectItem value="written">{t("teacher.quizTypes.written")}</SelectItem>
+                    <SelectItem value="both">{t("teacher.quizTypes.both")}</SelectItem>
                   </SelectContent>
                 </Select>
               </>
             ) : (
               <>
                 <Select value={academicFormat} onValueChange={setAcademicFormat}>
-                  <SelectTrigger className="w-44"><SelectValue placeholder={t.academicFormat} /></SelectTrigger>
+                  <SelectTrigger className="w-44"><SelectValue placeholder={t("teacher.academicFormat")} /></SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Short Story">Short Story</SelectItem>
-                    <SelectItem value="Procedural">Procedural</SelectItem>
-                    <SelectItem value="Persuasive">Persuasive</SelectItem>
-                    <SelectItem value="Textbook Page">Textbook Page</SelectItem>
+                    <SelectItem value="Short Story">{t("teacher.academicFormats.shortStory")}</SelectItem>
+                    <SelectItem value="Procedural">{t("teacher.academicFormats.procedural")}</SelectItem>
+                    <SelectItem value="Persuasive">{t("teacher.academicFormats.persuasive")}</SelectItem>
+                    <SelectItem value="Textbook Page">{t("teacher.academicFormats.textbookPage")}</SelectItem>
                   </SelectContent>
                 </Select>
-                <Input placeholder={t.length} value={length} onChange={(e) => setLength(e.target.value)} />
+                <Input placeholder={t("teacher.length")} value={length} onChange={(e) => setLength(e.target.value)} />
                 
                 {/* Quiz Toggle for Academic Content */}
                 <div className="flex items-center space-x-2">
@@ -496,17 +572,17 @@ const TeacherPage = () => {
                     checked={includeQuiz}
                     onCheckedChange={setIncludeQuiz}
                   />
-                  <Label htmlFor="include-quiz">{t.includeQuiz}</Label>
+                  <Label htmlFor="include-quiz">{t("teacher.includeQuiz")}</Label>
                 </div>
 
                 {/* Quiz Type for Academic (only shown when includeQuiz is true) */}
                 {includeQuiz && (
                   <Select value={quizType} onValueChange={(val) => setQuizType(val as QuizType)}>
-                    <SelectTrigger className="w-44"><SelectValue placeholder={t.quizType} /></SelectTrigger>
+                    <SelectTrigger className="w-44"><SelectValue placeholder={t("teacher.quizType")} /></SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="mcq">MCQ</SelectItem>
-                      <SelectItem value="written">Written</SelectItem>
-                      <SelectItem value="both">Both</SelectItem>
+                      <SelectItem value="mcq">{t("teacher.quizTypes.mcq")}</SelectItem>
+                      <SelectItem value="written">{t("teacher.quizTypes.written")}</SelectItem>
+                      <SelectItem value="both">{t("teacher.quizTypes.both")}</SelectItem>
                     </SelectContent>
                   </Select>
                 )}
@@ -515,13 +591,13 @@ const TeacherPage = () => {
 
             <div className="flex gap-2">
               <Button type="button" onClick={generateAIContent} disabled={aiLoading}>
-                {aiLoading ? t.aiLoading : t.generateAI}
+                {aiLoading ? t("teacher.aiLoading") : t("teacher.generateAI")}
               </Button>
               <Button type="submit" disabled={formLoading || !aiContent}>
-                {t.save}
+                {t("teacher.save")}
               </Button>
               <Button type="button" onClick={() => setShowPreview(p => !p)}>
-                {t.previewMarkdown}
+                {t("teacher.previewMarkdown")}
               </Button>
             </div>
           </form>
@@ -529,10 +605,10 @@ const TeacherPage = () => {
           {/* Moved preview outside the form to prevent accidental form submission */}
           {showPreview && (
             <Card className="p-3 bg-muted mt-4">
-              <MDEditor.Markdown source={aiContent || "AI content will appear here"} />
+              <MDEditor.Markdown source={aiContent || t("teacher.previewPlaceholder")} />
               {/* Show quiz type in preview based on content type and settings */}
               {(contentType === "lesson" || (contentType === "academic" && includeQuiz)) && quizType && (
-                <div className="mt-2"><strong>Quiz Type:</strong> {quizType}</div>
+                <div className="mt-2"><strong>{t("teacher.quizTypeLabel")}</strong> {t(`teacher.quizTypes.${quizType}`)}</div>
               )}
               <Button 
                 type="button"
@@ -540,22 +616,81 @@ const TeacherPage = () => {
                 onClick={(e) => handleCopy(aiContent, e)}
                 className="mt-2"
               >
-                <Copy className="inline h-4 w-4 mr-1" /> {t.copy}
+                <Copy className="inline h-4 w-4 mr-1" /> {t("teacher.copy")}
               </Button>
             </Card>
           )}
         </Card>
 
+        {userProfile?.is_head_of_department && (
+          <Card className="p-4">
+            <h2 className="font-bold mb-2">{t("teacher.reviewQueue")}</h2>
+            <LessonReviewQueue />
+          </Card>
+        )}
+
+        {/* Classes */}
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.myClasses")}</h2>
+          <ClassManager userId={userId} />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.gradebook")}</h2>
+          <Gradebook userId={userId} />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.classMastery")}</h2>
+          <ClassMastery userId={userId} />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.syllabusCoverage")}</h2>
+          <SyllabusCoverage userId={userId} />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.writtenReviews")}</h2>
+          <WrittenAnswerReviewQueue />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.questionBank")}</h2>
+          <QuestionBank userId={userId} />
+        </Card>
+
         {/* Saved Content */}
         <Card className="p-4">
-          <h2 className="font-bold mb-2">{t.myLessons} ({lessons.length})</h2>
-          <ContentList items={lessons} table="lessons" />
+          <div className="flex justify-between items-center mb-2">
+            <h2 className="font-bold">{t("teacher.myLessons")} ({filteredLessons.length})</h2>
+            <Select value={statusFilter} onValueChange={(val) => setStatusFilter(val as StatusFilter)}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("teacher.allStatuses")}</SelectItem>
+                {LESSON_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{t(`teacher.statusLabels.${status}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ContentList items={filteredLessons} table="lessons" />
         </Card>
 
         <Card className="p-4">
-          <h2 className="font-bold mb-2">{t.myAcademic} ({academicContent.length})</h2>
+          <h2 className="font-bold mb-2">{t("teacher.myAcademic")} ({academicContent.length})</h2>
           <ContentList items={academicContent} table="academic" />
         </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.trash")}</h2>
+          <ContentTrash onRestored={loadDashboardData} />
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="font-bold mb-2">{t("teacher.recentPoints")}</h2>
+          <PointsHistory recent />
+        </Card>
       </main>
     </div>
   );
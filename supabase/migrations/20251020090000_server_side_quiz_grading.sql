@@ -0,0 +1,14 @@
+-- Each graded answer is stored as its own attempt; question_id identifies the question inside quizzes.questions
+ALTER TABLE public.user_quiz_attempts ADD COLUMN IF NOT EXISTS question_id TEXT;
+
+CREATE INDEX IF NOT EXISTS user_quiz_attempts_user_quiz_idx
+  ON public.user_quiz_attempts (user_id, quiz_id, attempted_at);
+
+CREATE INDEX IF NOT EXISTS quizzes_module_id_idx
+  ON public.quizzes (module_id, created_at);
+
+-- quizzes.questions holds the answer keys, so only the API server (service role) may read it
+DROP POLICY IF EXISTS "Authenticated users can view quizzes" ON public.quizzes;
+
+-- Attempts are graded and recorded by the API server; students can still read their own
+DROP POLICY IF EXISTS "Users can insert their own quiz attempts" ON public.user_quiz_attempts;
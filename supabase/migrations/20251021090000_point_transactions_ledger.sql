@@ -0,0 +1,123 @@
+-- Append-only ledger of every point change; profiles.total_points is the running balance
+CREATE TABLE IF NOT EXISTS public.point_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL,
+  description TEXT,
+  source_module_id UUID REFERENCES public.learning_modules(id) ON DELETE SET NULL,
+  source_quiz_id UUID REFERENCES public.quizzes(id) ON DELETE SET NULL,
+  idempotency_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS point_transactions_user_created_idx
+  ON public.point_transactions (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS point_transactions_created_idx
+  ON public.point_transactions (created_at DESC);
+
+ALTER TABLE public.point_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Students read their own history; rows are only written through award_points
+DROP POLICY IF EXISTS "Users can view their own point transactions" ON public.point_transactions;
+CREATE POLICY "Users can view their own point transactions"
+  ON public.point_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Ledger rows are never edited or removed, except by the foreign key actions: a row goes with its
+-- user's profile, and loses a source module or quiz that has been deleted. Both run after the
+-- referenced row is gone, so only a change that matches a missing row is let through.
+CREATE OR REPLACE FUNCTION public.prevent_point_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = OLD.user_id) THEN
+      RETURN OLD;
+    END IF;
+  ELSIF (NEW.id, NEW.user_id, NEW.amount, NEW.reason, NEW.description, NEW.idempotency_key, NEW.created_at)
+          IS NOT DISTINCT FROM (OLD.id, OLD.user_id, OLD.amount, OLD.reason, OLD.description, OLD.idempotency_key, OLD.created_at)
+    AND (NEW.source_module_id IS NOT DISTINCT FROM OLD.source_module_id
+         OR (NEW.source_module_id IS NULL
+             AND NOT EXISTS (SELECT 1 FROM public.learning_modules m WHERE m.id = OLD.source_module_id)))
+    AND (NEW.source_quiz_id IS NOT DISTINCT FROM OLD.source_quiz_id
+         OR (NEW.source_quiz_id IS NULL
+             AND NOT EXISTS (SELECT 1 FROM public.quizzes q WHERE q.id = OLD.source_quiz_id)))
+    AND (NEW.source_module_id, NEW.source_quiz_id) IS DISTINCT FROM (OLD.source_module_id, OLD.source_quiz_id) THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'point_transactions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS point_transactions_append_only ON public.point_transactions;
+CREATE TRIGGER point_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.point_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_point_transaction_changes();
+
+-- Clients may still update their profile, but total_points only moves with the ledger
+CREATE OR REPLACE FUNCTION public.protect_total_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.total_points IS DISTINCT FROM OLD.total_points
+     AND current_setting('app.points_ledger', true) IS DISTINCT FROM 'on' THEN
+    NEW.total_points = OLD.total_points;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profiles_total_points ON public.profiles;
+CREATE TRIGGER protect_profiles_total_points
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_total_points();
+
+-- Records a transaction and moves the balance in one statement; replaying the same key is a no-op
+CREATE OR REPLACE FUNCTION public.award_points(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_reason TEXT,
+  p_idempotency_key TEXT,
+  p_module_id UUID DEFAULT NULL,
+  p_quiz_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS TABLE (awarded BOOLEAN, total_points INTEGER) AS $$
+DECLARE
+  v_id UUID;
+  v_total INTEGER;
+BEGIN
+  INSERT INTO public.point_transactions (user_id, amount, reason, description, source_module_id, source_quiz_id, idempotency_key)
+  VALUES (p_user_id, p_amount, p_reason, p_description, p_module_id, p_quiz_id, p_idempotency_key)
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT p.total_points INTO v_total FROM public.profiles p WHERE p.id = p_user_id;
+    RETURN QUERY SELECT false, COALESCE(v_total, 0);
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.points_ledger', 'on', true);
+  UPDATE public.profiles p
+  SET total_points = COALESCE(p.total_points, 0) + p_amount
+  WHERE p.id = p_user_id
+  RETURNING p.total_points INTO v_total;
+  PERFORM set_config('app.points_ledger', 'off', true);
+
+  RETURN QUERY SELECT true, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the API server (service role) awards points
+REVOKE EXECUTE ON FUNCTION public.award_points(UUID, INTEGER, TEXT, TEXT, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Carry existing balances into the ledger so the sum of transactions matches total_points
+INSERT INTO public.point_transactions (user_id, amount, reason, description, idempotency_key)
+SELECT id, total_points, 'opening_balance', 'Points earned before the ledger was introduced', 'opening-balance'
+FROM public.profiles
+WHERE COALESCE(total_points, 0) <> 0
+ON CONFLICT (user_id, idempotency_key) DO NOTHING;
@@ -0,0 +1,147 @@
+-- Completes a module in one transaction: progress, quiz result, points and badge either all apply or none do.
+-- The score is recomputed from the answers the API server graded, never taken from the client.
+CREATE OR REPLACE FUNCTION public.complete_module(
+  p_user_id UUID,
+  p_module_id UUID,
+  p_claimed_score NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_progress RECORD;
+  v_quiz RECORD;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_answers JSONB;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_completed_before INTEGER;
+  v_completed_after INTEGER;
+  v_points INTEGER := 0;
+  v_awarded BOOLEAN;
+  v_badge JSONB;
+BEGIN
+  -- Lock the progress row so a double click or a second tab waits for the first completion
+  SELECT ump.is_completed, ump.title, ump.difficulty, ump.points_reward
+  INTO v_progress
+  FROM public.user_module_progress ump
+  WHERE ump.user_id = p_user_id AND ump.module_id = p_module_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Module not found for this student' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT count(DISTINCT ump.module_id) INTO v_completed_before
+  FROM public.user_module_progress ump
+  WHERE ump.user_id = p_user_id AND ump.is_completed;
+
+  IF v_progress.is_completed THEN
+    RETURN jsonb_build_object(
+      'module_id', p_module_id,
+      'already_completed', true,
+      'score', NULL,
+      'passed', NULL,
+      'points_awarded', 0,
+      'badge', NULL,
+      'completed_before', v_completed_before,
+      'completed_after', v_completed_before
+    );
+  END IF;
+
+  SELECT q.id, q.questions INTO v_quiz
+  FROM public.quizzes q
+  WHERE q.module_id = p_module_id
+  ORDER BY q.created_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This module has no quiz yet' USING ERRCODE = '55000';
+  END IF;
+
+  v_total := jsonb_array_length(v_quiz.questions);
+
+  -- Latest graded answer per question of the stored quiz
+  SELECT count(*) FILTER (WHERE latest.passed),
+         COALESCE(jsonb_object_agg(latest.question_id, latest.answers -> latest.question_id), '{}'::jsonb)
+  INTO v_correct, v_answers
+  FROM (
+    SELECT DISTINCT ON (a.question_id) a.question_id, a.answers, a.passed
+    FROM public.user_quiz_attempts a
+    WHERE a.user_id = p_user_id
+      AND a.quiz_id = v_quiz.id
+      AND a.question_id IN (SELECT question ->> 'id' FROM jsonb_array_elements(v_quiz.questions) AS question)
+    ORDER BY a.question_id, a.attempted_at DESC
+  ) latest;
+
+  v_score := CASE WHEN v_total > 0 THEN round(v_correct * 100.0 / v_total) ELSE 0 END;
+
+  IF p_claimed_score IS NOT NULL AND round(p_claimed_score) > v_score THEN
+    RAISE EXCEPTION 'Submitted score % does not match the graded answers (%)', round(p_claimed_score), v_score
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_passed := v_score >= 85;
+
+  UPDATE public.user_module_progress
+  SET progress_percentage = 100, is_completed = true, is_read_only = true, completed_at = NOW()
+  WHERE user_id = p_user_id AND module_id = p_module_id;
+
+  -- Quiz-level attempt (no question_id) holding the final answers and score
+  INSERT INTO public.user_quiz_attempts (user_id, quiz_id, score, answers, passed)
+  VALUES (p_user_id, v_quiz.id, v_score, v_answers, v_passed);
+
+  -- Module points are paid regardless of score, once per module
+  IF COALESCE(v_progress.points_reward, 0) > 0 THEN
+    SELECT ap.awarded INTO v_awarded
+    FROM public.award_points(
+      p_user_id,
+      v_progress.points_reward,
+      'module_complete',
+      'module-complete:' || p_module_id,
+      p_module_id,
+      v_quiz.id,
+      'Completed ' || COALESCE(v_progress.title, 'a module')
+    ) ap;
+
+    IF v_awarded THEN
+      v_points := v_progress.points_reward;
+    END IF;
+  END IF;
+
+  -- A badge needs 85% or more and is only ever awarded once per module
+  IF v_passed AND NOT EXISTS (
+    SELECT 1 FROM public.user_badges b WHERE b.user_id = p_user_id AND b.module_id = p_module_id
+  ) THEN
+    INSERT INTO public.user_badges (user_id, name, description, icon, module_id, earned_at)
+    VALUES (
+      p_user_id,
+      initcap(COALESCE(v_progress.difficulty, 'beginner')) || ' Badge',
+      'Completed ' || COALESCE(v_progress.title, 'a module'),
+      'star',
+      p_module_id,
+      NOW()
+    )
+    RETURNING jsonb_build_object(
+      'id', id, 'name', name, 'description', description, 'icon', icon, 'module_id', module_id, 'earned_at', earned_at
+    ) INTO v_badge;
+  END IF;
+
+  SELECT count(DISTINCT ump.module_id) INTO v_completed_after
+  FROM public.user_module_progress ump
+  WHERE ump.user_id = p_user_id AND ump.is_completed;
+
+  RETURN jsonb_build_object(
+    'module_id', p_module_id,
+    'already_completed', false,
+    'score', v_score,
+    'passed', v_passed,
+    'points_awarded', v_points,
+    'badge', v_badge,
+    'completed_before', v_completed_before,
+    'completed_after', v_completed_after
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called only by the API server (service role)
+REVOKE EXECUTE ON FUNCTION public.complete_module(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,205 @@
+-- Brings the schema in line with what the app queries, so a fresh `supabase db reset` works end to end
+
+-- Profiles: role and the student details collected at sign-up
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role TEXT DEFAULT 'student';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS form TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS interests TEXT[];
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS current_form TEXT;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS institution TEXT;
+
+UPDATE public.profiles SET role = 'student' WHERE role IS NULL OR role NOT IN ('student', 'teacher');
+ALTER TABLE public.profiles ALTER COLUMN role SET NOT NULL;
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('student', 'teacher'));
+
+UPDATE public.profiles SET total_points = 0 WHERE total_points IS NULL;
+ALTER TABLE public.profiles ALTER COLUMN total_points SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS profiles_role_points_idx
+  ON public.profiles (role, total_points DESC);
+
+-- The signup trigger now records the role chosen on the sign-up form
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    NEW.email,
+    CASE WHEN NEW.raw_user_meta_data->>'role' = 'teacher' THEN 'teacher' ELSE 'student' END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Signed-in users may edit their profile but not change their own role
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.role() = 'authenticated' THEN
+    NEW.role = OLD.role;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profiles_role ON public.profiles;
+CREATE TRIGGER protect_profiles_role
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+-- Returns whether the signed-in user is a teacher; used by RLS policies
+CREATE OR REPLACE FUNCTION public.is_teacher()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'teacher');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Module progress: each student keeps a copy of the generated module alongside their progress
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS difficulty skill_level;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS estimated_duration INTEGER;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS points_reward INTEGER DEFAULT 0;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS detailed_content TEXT;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS level INTEGER DEFAULT 1;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS is_read_only BOOLEAN DEFAULT FALSE;
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+UPDATE public.user_module_progress ump
+SET title = COALESCE(ump.title, lm.title),
+    description = COALESCE(ump.description, lm.description),
+    difficulty = COALESCE(ump.difficulty, lm.difficulty),
+    estimated_duration = COALESCE(ump.estimated_duration, lm.estimated_duration),
+    points_reward = COALESCE(ump.points_reward, lm.points_reward, 0),
+    detailed_content = COALESCE(ump.detailed_content, lm.content)
+FROM public.learning_modules lm
+WHERE lm.id = ump.module_id AND ump.title IS NULL;
+
+UPDATE public.user_module_progress SET is_read_only = FALSE WHERE is_read_only IS NULL;
+UPDATE public.user_module_progress SET points_reward = 0 WHERE points_reward IS NULL;
+ALTER TABLE public.user_module_progress ALTER COLUMN is_read_only SET NOT NULL;
+ALTER TABLE public.user_module_progress ALTER COLUMN points_reward SET NOT NULL;
+
+ALTER TABLE public.user_module_progress DROP CONSTRAINT IF EXISTS user_module_progress_percentage_check;
+ALTER TABLE public.user_module_progress ADD CONSTRAINT user_module_progress_percentage_check
+  CHECK (progress_percentage BETWEEN 0 AND 100);
+ALTER TABLE public.user_module_progress DROP CONSTRAINT IF EXISTS user_module_progress_points_check;
+ALTER TABLE public.user_module_progress ADD CONSTRAINT user_module_progress_points_check
+  CHECK (points_reward >= 0);
+ALTER TABLE public.user_module_progress DROP CONSTRAINT IF EXISTS user_module_progress_level_check;
+ALTER TABLE public.user_module_progress ADD CONSTRAINT user_module_progress_level_check
+  CHECK (level >= 1);
+
+CREATE INDEX IF NOT EXISTS user_module_progress_user_created_idx
+  ON public.user_module_progress (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS user_module_progress_user_completed_idx
+  ON public.user_module_progress (user_id) WHERE is_completed;
+
+-- Badges earned by completing a module with 85% or more; written only by complete_module
+CREATE TABLE IF NOT EXISTS public.user_badges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon TEXT NOT NULL DEFAULT 'star',
+  module_id UUID REFERENCES public.learning_modules(id) ON DELETE SET NULL,
+  earned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(user_id, module_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_badges_user_earned_idx
+  ON public.user_badges (user_id, earned_at DESC);
+
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can insert their own badges" ON public.user_badges;
+DROP POLICY IF EXISTS "Users can view their own badges" ON public.user_badges;
+CREATE POLICY "Users can view their own badges"
+  ON public.user_badges FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Teacher lessons
+CREATE TABLE IF NOT EXISTS public.lessons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT,
+  quizzes JSONB,
+  type TEXT,
+  content_type TEXT,
+  file_url TEXT,
+  status TEXT NOT NULL DEFAULT 'draft',
+  form TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT lessons_status_check CHECK (status IN ('draft', 'published'))
+);
+
+CREATE INDEX IF NOT EXISTS lessons_teacher_created_idx
+  ON public.lessons (teacher_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS lessons_status_idx
+  ON public.lessons (status);
+
+DROP TRIGGER IF EXISTS update_lessons_updated_at ON public.lessons;
+CREATE TRIGGER update_lessons_updated_at
+  BEFORE UPDATE ON public.lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.lessons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can manage their own lessons" ON public.lessons;
+CREATE POLICY "Teachers can manage their own lessons"
+  ON public.lessons FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+DROP POLICY IF EXISTS "Authenticated users can view published lessons" ON public.lessons;
+CREATE POLICY "Authenticated users can view published lessons"
+  ON public.lessons FOR SELECT
+  TO authenticated
+  USING (status = 'published');
+
+-- Teacher academic writing (stories, procedures, textbook pages)
+CREATE TABLE IF NOT EXISTS public.academic (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  topic TEXT NOT NULL,
+  content TEXT NOT NULL,
+  content_type TEXT,
+  length TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS academic_teacher_created_idx
+  ON public.academic (teacher_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_academic_updated_at ON public.academic;
+CREATE TRIGGER update_academic_updated_at
+  BEFORE UPDATE ON public.academic
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.academic ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can manage their own academic content" ON public.academic;
+CREATE POLICY "Teachers can manage their own academic content"
+  ON public.academic FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+-- Files attached to lessons by CreateLesson
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('lesson_files', 'lesson_files', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Teachers can upload lesson files" ON storage.objects;
+CREATE POLICY "Teachers can upload lesson files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'lesson_files' AND public.is_teacher());
@@ -0,0 +1,158 @@
+-- Streaks are counted in the student's local calendar; East Africa Time unless they choose otherwise
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Africa/Dar_es_Salaam';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS streak_freezes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS longest_streak INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.profiles SET streak_days = 0 WHERE streak_days IS NULL;
+ALTER TABLE public.profiles ALTER COLUMN streak_days SET NOT NULL;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_streak_freezes_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_streak_freezes_check CHECK (streak_freezes >= 0);
+
+-- Rejects names Postgres does not know, so AT TIME ZONE never fails later
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_timezone_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_timezone_check CHECK (public.is_valid_timezone(timezone));
+
+-- One row per student per local day with what they did; freeze days are recorded with no activity
+CREATE TABLE IF NOT EXISTS public.daily_activity (
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  activity_date DATE NOT NULL,
+  quiz_answers INTEGER NOT NULL DEFAULT 0,
+  sections_read INTEGER NOT NULL DEFAULT 0,
+  modules_completed INTEGER NOT NULL DEFAULT 0,
+  freeze_used BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, activity_date)
+);
+
+ALTER TABLE public.daily_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own daily activity" ON public.daily_activity;
+CREATE POLICY "Users can view their own daily activity"
+  ON public.daily_activity FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Streak columns only move through record_activity
+CREATE OR REPLACE FUNCTION public.protect_streak_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.streaks', true) IS DISTINCT FROM 'on' THEN
+    NEW.streak_days = OLD.streak_days;
+    NEW.longest_streak = OLD.longest_streak;
+    NEW.streak_freezes = OLD.streak_freezes;
+    NEW.last_active_date = OLD.last_active_date;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profiles_streak ON public.profiles;
+CREATE TRIGGER protect_profiles_streak
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_streak_fields();
+
+-- Logs one learning activity on the student's local day and moves their streak.
+-- A gap is bridged by spending one freeze per missed day; every 7th day in a row earns a freeze (up to 2).
+CREATE OR REPLACE FUNCTION public.record_activity(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  c_freeze_every CONSTANT INTEGER := 7;
+  c_max_freezes CONSTANT INTEGER := 2;
+  v_profile RECORD;
+  v_today DATE;
+  v_missed INTEGER;
+  v_streak INTEGER;
+  v_freezes INTEGER;
+  v_freezes_used INTEGER := 0;
+  v_freeze_earned BOOLEAN := false;
+BEGIN
+  IF p_kind NOT IN ('quiz_answer', 'section_read', 'module_complete') THEN
+    RAISE EXCEPTION 'Unknown activity kind %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  SELECT p.timezone, p.streak_days, p.longest_streak, p.streak_freezes, p.last_active_date
+  INTO v_profile
+  FROM public.profiles p
+  WHERE p.id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_today := (p_at AT TIME ZONE v_profile.timezone)::date;
+
+  INSERT INTO public.daily_activity (user_id, activity_date, quiz_answers, sections_read, modules_completed)
+  VALUES (
+    p_user_id,
+    v_today,
+    CASE WHEN p_kind = 'quiz_answer' THEN 1 ELSE 0 END,
+    CASE WHEN p_kind = 'section_read' THEN 1 ELSE 0 END,
+    CASE WHEN p_kind = 'module_complete' THEN 1 ELSE 0 END
+  )
+  ON CONFLICT (user_id, activity_date) DO UPDATE SET
+    quiz_answers = daily_activity.quiz_answers + EXCLUDED.quiz_answers,
+    sections_read = daily_activity.sections_read + EXCLUDED.sections_read,
+    modules_completed = daily_activity.modules_completed + EXCLUDED.modules_completed,
+    freeze_used = false,
+    updated_at = NOW();
+
+  v_streak := v_profile.streak_days;
+  v_freezes := v_profile.streak_freezes;
+
+  IF v_profile.last_active_date IS NULL OR v_profile.last_active_date < v_today THEN
+    v_missed := CASE WHEN v_profile.last_active_date IS NULL THEN NULL ELSE v_today - v_profile.last_active_date - 1 END;
+
+    IF v_missed = 0 THEN
+      v_streak := v_streak + 1;
+    ELSIF v_missed IS NOT NULL AND v_streak > 0 AND v_missed <= v_freezes THEN
+      -- Freezes keep the streak alive but do not add to it
+      v_freezes_used := v_missed;
+      v_freezes := v_freezes - v_missed;
+      v_streak := v_streak + 1;
+
+      INSERT INTO public.daily_activity (user_id, activity_date, freeze_used)
+      SELECT p_user_id, missed_day::date, true
+      FROM generate_series(v_profile.last_active_date + 1, v_today - 1, INTERVAL '1 day') AS missed_day
+      ON CONFLICT (user_id, activity_date) DO NOTHING;
+    ELSE
+      v_streak := 1;
+    END IF;
+
+    IF v_streak % c_freeze_every = 0 AND v_freezes < c_max_freezes THEN
+      v_freezes := v_freezes + 1;
+      v_freeze_earned := true;
+    END IF;
+
+    PERFORM set_config('app.streaks', 'on', true);
+    UPDATE public.profiles
+    SET streak_days = v_streak,
+        longest_streak = GREATEST(longest_streak, v_streak),
+        streak_freezes = v_freezes,
+        last_active_date = v_today
+    WHERE id = p_user_id;
+    PERFORM set_config('app.streaks', 'off', true);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'activity_date', v_today,
+    'streak_days', v_streak,
+    'longest_streak', GREATEST(v_profile.longest_streak, v_streak),
+    'streak_freezes', v_freezes,
+    'freezes_used', v_freezes_used,
+    'freeze_earned', v_freeze_earned
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_activity(UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
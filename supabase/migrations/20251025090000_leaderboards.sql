@@ -0,0 +1,122 @@
+-- How a student's name appears on leaderboards to other students
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS leaderboard_visibility TEXT NOT NULL DEFAULT 'first_name';
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_leaderboard_visibility_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_leaderboard_visibility_check
+  CHECK (leaderboard_visibility IN ('full_name', 'first_name', 'initials', 'anonymous'));
+
+CREATE INDEX IF NOT EXISTS profiles_institution_idx ON public.profiles (institution) WHERE role = 'student';
+CREATE INDEX IF NOT EXISTS profiles_form_idx ON public.profiles (form) WHERE role = 'student';
+CREATE INDEX IF NOT EXISTS profiles_subject_idx ON public.profiles (subject) WHERE role = 'student';
+
+CREATE OR REPLACE FUNCTION public.leaderboard_display_name(p_full_name TEXT, p_visibility TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE p_visibility
+    WHEN 'full_name' THEN p_full_name
+    WHEN 'first_name' THEN split_part(p_full_name, ' ', 1)
+    WHEN 'initials' THEN (
+      SELECT string_agg(upper(left(word, 1)) || '.', '')
+      FROM regexp_split_to_table(trim(p_full_name), '\s+') AS word
+      WHERE word <> ''
+    )
+    ELSE 'Anonymous learner'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Start of a leaderboard period in the viewer's timezone; terms run January–June and July–December
+CREATE OR REPLACE FUNCTION public.leaderboard_period_start(p_period TEXT, p_timezone TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  v_local TIMESTAMP := NOW() AT TIME ZONE p_timezone;
+BEGIN
+  RETURN CASE p_period
+    WHEN 'weekly' THEN date_trunc('week', v_local) AT TIME ZONE p_timezone
+    WHEN 'monthly' THEN date_trunc('month', v_local) AT TIME ZONE p_timezone
+    WHEN 'term' THEN (date_trunc('year', v_local) + CASE WHEN extract(month FROM v_local) >= 7 THEN INTERVAL '6 months' ELSE INTERVAL '0' END) AT TIME ZONE p_timezone
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Ranks the students who share the viewer's school, form or subject (or everyone) by points in a period.
+-- Returns the top p_limit rows plus the viewer's own row when they fall outside it.
+CREATE OR REPLACE FUNCTION public.leaderboard(
+  p_viewer_id UUID,
+  p_scope TEXT DEFAULT 'all',
+  p_period TEXT DEFAULT 'all_time',
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  rank BIGINT,
+  user_id UUID,
+  display_name TEXT,
+  points BIGINT,
+  is_current_user BOOLEAN
+) AS $$
+DECLARE
+  v_viewer RECORD;
+  v_since TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_scope NOT IN ('all', 'school', 'form', 'subject') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope %', p_scope USING ERRCODE = '22023';
+  END IF;
+  IF p_period NOT IN ('weekly', 'monthly', 'term', 'all_time') THEN
+    RAISE EXCEPTION 'Unknown leaderboard period %', p_period USING ERRCODE = '22023';
+  END IF;
+
+  SELECT p.institution, p.form, p.subject, p.timezone INTO v_viewer
+  FROM public.profiles p
+  WHERE p.id = p_viewer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF (p_scope = 'school' AND v_viewer.institution IS NULL)
+     OR (p_scope = 'form' AND v_viewer.form IS NULL)
+     OR (p_scope = 'subject' AND v_viewer.subject IS NULL) THEN
+    RAISE EXCEPTION 'Add your % to your profile to see this leaderboard', p_scope USING ERRCODE = '55000';
+  END IF;
+
+  v_since := public.leaderboard_period_start(p_period, v_viewer.timezone);
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT p.id, p.full_name, p.leaderboard_visibility, p.total_points
+    FROM public.profiles p
+    WHERE p.role = 'student'
+      AND (p_scope <> 'school' OR p.institution = v_viewer.institution)
+      AND (p_scope <> 'form' OR p.form = v_viewer.form)
+      AND (p_scope <> 'subject' OR p.subject = v_viewer.subject)
+  ),
+  period_points AS (
+    SELECT t.user_id, SUM(t.amount) AS points
+    FROM public.point_transactions t
+    WHERE v_since IS NOT NULL
+      AND t.created_at >= v_since
+      AND t.reason <> 'opening_balance'
+      AND t.user_id IN (SELECT m.id FROM members m)
+    GROUP BY t.user_id
+  ),
+  ranked AS (
+    SELECT
+      RANK() OVER (ORDER BY COALESCE(CASE WHEN v_since IS NULL THEN m.total_points ELSE pp.points END, 0) DESC) AS rank,
+      m.id AS user_id,
+      CASE WHEN m.id = p_viewer_id THEN m.full_name ELSE public.leaderboard_display_name(m.full_name, m.leaderboard_visibility) END AS display_name,
+      COALESCE(CASE WHEN v_since IS NULL THEN m.total_points ELSE pp.points END, 0)::BIGINT AS points,
+      m.id = p_viewer_id AS is_current_user
+    FROM members m
+    LEFT JOIN period_points pp ON pp.user_id = m.id
+  )
+  -- Other students' ids stay in the database like their names, so only the viewer's row carries one
+  SELECT r.rank, CASE WHEN r.is_current_user THEN r.user_id END, r.display_name, r.points, r.is_current_user
+  FROM (
+    SELECT ranked.*, ROW_NUMBER() OVER (ORDER BY ranked.rank, ranked.user_id) AS position
+    FROM ranked
+  ) r
+  WHERE r.position <= p_limit OR r.is_current_user
+  ORDER BY r.rank, r.user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.leaderboard(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,225 @@
+-- Short join codes without look-alike characters (no 0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION public.generate_join_code()
+RETURNS TEXT AS $$
+DECLARE
+  c_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code TEXT := '';
+BEGIN
+  FOR i IN 1..6 LOOP
+    v_code := v_code || substr(c_alphabet, 1 + floor(random() * length(c_alphabet))::INTEGER, 1);
+  END LOOP;
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- A teacher's class for one form, subject and term
+CREATE TABLE IF NOT EXISTS public.classes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  form TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  term TEXT NOT NULL,
+  join_code TEXT NOT NULL UNIQUE DEFAULT public.generate_join_code(),
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT classes_join_code_check CHECK (join_code ~ '^[A-Z0-9]{6}$')
+);
+
+CREATE INDEX IF NOT EXISTS classes_teacher_created_idx
+  ON public.classes (teacher_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_classes_updated_at ON public.classes;
+CREATE TRIGGER update_classes_updated_at
+  BEFORE UPDATE ON public.classes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Students in a class; rows are written by the API server when a student joins with the code
+CREATE TABLE IF NOT EXISTS public.class_enrollments (
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS class_enrollments_student_idx
+  ON public.class_enrollments (student_id);
+
+-- Returns whether the signed-in teacher has the student in one of their classes; used by RLS policies
+CREATE OR REPLACE FUNCTION public.teaches_student(p_student_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_enrollments e
+    JOIN public.classes c ON c.id = e.class_id
+    WHERE e.student_id = p_student_id AND c.teacher_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Returns whether the signed-in student is enrolled in the class; used by RLS policies
+CREATE OR REPLACE FUNCTION public.is_enrolled_in(p_class_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.class_enrollments e WHERE e.class_id = p_class_id AND e.student_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can manage their own classes" ON public.classes;
+CREATE POLICY "Teachers can manage their own classes"
+  ON public.classes FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+DROP POLICY IF EXISTS "Students can view classes they are enrolled in" ON public.classes;
+CREATE POLICY "Students can view classes they are enrolled in"
+  ON public.classes FOR SELECT
+  USING (public.is_enrolled_in(id));
+
+-- Students only join with a join code through the API, so teachers cannot add enrollments themselves
+DROP POLICY IF EXISTS "Teachers can view and remove enrollments in their classes" ON public.class_enrollments;
+DROP POLICY IF EXISTS "Teachers can view enrollments in their classes" ON public.class_enrollments;
+CREATE POLICY "Teachers can view enrollments in their classes"
+  ON public.class_enrollments FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.classes c WHERE c.id = class_id AND c.teacher_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can remove enrollments in their classes" ON public.class_enrollments;
+CREATE POLICY "Teachers can remove enrollments in their classes"
+  ON public.class_enrollments FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.classes c WHERE c.id = class_id AND c.teacher_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Students can view their own enrollments" ON public.class_enrollments;
+CREATE POLICY "Students can view their own enrollments"
+  ON public.class_enrollments FOR SELECT
+  USING (auth.uid() = student_id);
+
+-- Teachers can read the profile and learning records of students in their classes
+DROP POLICY IF EXISTS "Teachers can view their students' profiles" ON public.profiles;
+CREATE POLICY "Teachers can view their students' profiles"
+  ON public.profiles FOR SELECT
+  USING (public.teaches_student(id));
+
+DROP POLICY IF EXISTS "Teachers can view their students' progress" ON public.user_module_progress;
+CREATE POLICY "Teachers can view their students' progress"
+  ON public.user_module_progress FOR SELECT
+  USING (public.teaches_student(user_id));
+
+DROP POLICY IF EXISTS "Teachers can view their students' quiz attempts" ON public.user_quiz_attempts;
+CREATE POLICY "Teachers can view their students' quiz attempts"
+  ON public.user_quiz_attempts FOR SELECT
+  USING (public.teaches_student(user_id));
+
+DROP POLICY IF EXISTS "Teachers can view their students' point transactions" ON public.point_transactions;
+CREATE POLICY "Teachers can view their students' point transactions"
+  ON public.point_transactions FOR SELECT
+  USING (public.teaches_student(user_id));
+
+DROP POLICY IF EXISTS "Teachers can view their students' daily activity" ON public.daily_activity;
+CREATE POLICY "Teachers can view their students' daily activity"
+  ON public.daily_activity FOR SELECT
+  USING (public.teaches_student(user_id));
+
+DROP POLICY IF EXISTS "Teachers can view their students' badges" ON public.user_badges;
+CREATE POLICY "Teachers can view their students' badges"
+  ON public.user_badges FOR SELECT
+  USING (public.teaches_student(user_id));
+
+-- Leaderboards gain a class scope: the students enrolled in one class, visible to its members and teacher
+DROP FUNCTION IF EXISTS public.leaderboard(UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.leaderboard(
+  p_viewer_id UUID,
+  p_scope TEXT DEFAULT 'all',
+  p_period TEXT DEFAULT 'all_time',
+  p_limit INTEGER DEFAULT 10,
+  p_class_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  rank BIGINT,
+  user_id UUID,
+  display_name TEXT,
+  points BIGINT,
+  is_current_user BOOLEAN
+) AS $$
+DECLARE
+  v_viewer RECORD;
+  v_since TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_scope NOT IN ('all', 'class', 'school', 'form', 'subject') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope %', p_scope USING ERRCODE = '22023';
+  END IF;
+  IF p_period NOT IN ('weekly', 'monthly', 'term', 'all_time') THEN
+    RAISE EXCEPTION 'Unknown leaderboard period %', p_period USING ERRCODE = '22023';
+  END IF;
+
+  SELECT p.institution, p.form, p.subject, p.timezone INTO v_viewer
+  FROM public.profiles p
+  WHERE p.id = p_viewer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_scope = 'class' THEN
+    IF p_class_id IS NULL THEN
+      RAISE EXCEPTION 'Choose a class to see its leaderboard' USING ERRCODE = '22023';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.classes c WHERE c.id = p_class_id AND c.teacher_id = p_viewer_id)
+       AND NOT EXISTS (SELECT 1 FROM public.class_enrollments e WHERE e.class_id = p_class_id AND e.student_id = p_viewer_id) THEN
+      RAISE EXCEPTION 'Class not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF (p_scope = 'school' AND v_viewer.institution IS NULL)
+     OR (p_scope = 'form' AND v_viewer.form IS NULL)
+     OR (p_scope = 'subject' AND v_viewer.subject IS NULL) THEN
+    RAISE EXCEPTION 'Add your % to your profile to see this leaderboard', p_scope USING ERRCODE = '55000';
+  END IF;
+
+  v_since := public.leaderboard_period_start(p_period, v_viewer.timezone);
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT p.id, p.full_name, p.leaderboard_visibility, p.total_points
+    FROM public.profiles p
+    WHERE p.role = 'student'
+      AND (p_scope <> 'class' OR p.id IN (SELECT e.student_id FROM public.class_enrollments e WHERE e.class_id = p_class_id))
+      AND (p_scope <> 'school' OR p.institution = v_viewer.institution)
+      AND (p_scope <> 'form' OR p.form = v_viewer.form)
+      AND (p_scope <> 'subject' OR p.subject = v_viewer.subject)
+  ),
+  period_points AS (
+    SELECT t.user_id, SUM(t.amount) AS points
+    FROM public.point_transactions t
+    WHERE v_since IS NOT NULL
+      AND t.created_at >= v_since
+      AND t.reason <> 'opening_balance'
+      AND t.user_id IN (SELECT m.id FROM members m)
+    GROUP BY t.user_id
+  ),
+  ranked AS (
+    SELECT
+      RANK() OVER (ORDER BY COALESCE(CASE WHEN v_since IS NULL THEN m.total_points ELSE pp.points END, 0) DESC) AS rank,
+      m.id AS user_id,
+      CASE WHEN m.id = p_viewer_id THEN m.full_name ELSE public.leaderboard_display_name(m.full_name, m.leaderboard_visibility) END AS display_name,
+      COALESCE(CASE WHEN v_since IS NULL THEN m.total_points ELSE pp.points END, 0)::BIGINT AS points,
+      m.id = p_viewer_id AS is_current_user
+    FROM members m
+    LEFT JOIN period_points pp ON pp.user_id = m.id
+  )
+  -- Other students' ids stay in the database like their names, so only the viewer's row carries one
+  SELECT r.rank, CASE WHEN r.is_current_user THEN r.user_id END, r.display_name, r.points, r.is_current_user
+  FROM (
+    SELECT ranked.*, ROW_NUMBER() OVER (ORDER BY ranked.rank, ranked.user_id) AS position
+    FROM ranked
+  ) r
+  WHERE r.position <= p_limit OR r.is_current_user
+  ORDER BY r.rank, r.user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.leaderboard(UUID, TEXT, TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
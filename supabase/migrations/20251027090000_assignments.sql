@@ -0,0 +1,113 @@
+-- A saved lesson or academic piece given to a class (or chosen students in it) with a window to complete it
+CREATE TABLE IF NOT EXISTS public.assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE NOT NULL,
+  lesson_id UUID REFERENCES public.lessons(id) ON DELETE CASCADE,
+  academic_id UUID REFERENCES public.academic(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  instructions TEXT,
+  open_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- NULL means unlimited attempts
+  max_attempts INTEGER,
+  allow_late BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT assignments_content_check CHECK ((lesson_id IS NULL) <> (academic_id IS NULL)),
+  CONSTRAINT assignments_window_check CHECK (due_at > open_at),
+  CONSTRAINT assignments_max_attempts_check CHECK (max_attempts IS NULL OR max_attempts >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS assignments_class_due_idx
+  ON public.assignments (class_id, due_at);
+CREATE INDEX IF NOT EXISTS assignments_teacher_created_idx
+  ON public.assignments (teacher_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_assignments_updated_at ON public.assignments;
+CREATE TRIGGER update_assignments_updated_at
+  BEFORE UPDATE ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Chosen students; an assignment without rows here goes to everyone in the class
+CREATE TABLE IF NOT EXISTS public.assignment_students (
+  assignment_id UUID REFERENCES public.assignments(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (assignment_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS assignment_students_student_idx
+  ON public.assignment_students (student_id);
+
+-- One row per attempt; written by the API server, which enforces the window and attempt policy
+CREATE TABLE IF NOT EXISTS public.assignment_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID REFERENCES public.assignments(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  attempt_number INTEGER NOT NULL,
+  response TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  late BOOLEAN NOT NULL DEFAULT FALSE,
+  UNIQUE(assignment_id, student_id, attempt_number),
+  CONSTRAINT assignment_submissions_attempt_check CHECK (attempt_number >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS assignment_submissions_student_idx
+  ON public.assignment_submissions (student_id, submitted_at DESC);
+
+-- Returns whether an assignment is given to the signed-in student; used by RLS policies
+CREATE OR REPLACE FUNCTION public.is_assigned_to_me(p_assignment_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.assignments a
+    JOIN public.class_enrollments e ON e.class_id = a.class_id AND e.student_id = auth.uid()
+    WHERE a.id = p_assignment_id
+      AND (
+        NOT EXISTS (SELECT 1 FROM public.assignment_students s WHERE s.assignment_id = a.id)
+        OR EXISTS (SELECT 1 FROM public.assignment_students s WHERE s.assignment_id = a.id AND s.student_id = auth.uid())
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assignment_students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assignment_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can manage their own assignments" ON public.assignments;
+CREATE POLICY "Teachers can manage their own assignments"
+  ON public.assignments FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+DROP POLICY IF EXISTS "Students can view their assignments" ON public.assignments;
+CREATE POLICY "Students can view their assignments"
+  ON public.assignments FOR SELECT
+  USING (public.is_assigned_to_me(id));
+
+DROP POLICY IF EXISTS "Teachers can view the students of their assignments" ON public.assignment_students;
+CREATE POLICY "Teachers can view the students of their assignments"
+  ON public.assignment_students FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.assignments a WHERE a.id = assignment_id AND a.teacher_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Teachers can view submissions to their assignments" ON public.assignment_submissions;
+CREATE POLICY "Teachers can view submissions to their assignments"
+  ON public.assignment_submissions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.assignments a WHERE a.id = assignment_id AND a.teacher_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Students can view their own submissions" ON public.assignment_submissions;
+CREATE POLICY "Students can view their own submissions"
+  ON public.assignment_submissions FOR SELECT
+  USING (auth.uid() = student_id);
+
+-- Assigned content is readable by its students whatever its publishing status
+DROP POLICY IF EXISTS "Students can view lessons assigned to them" ON public.lessons;
+CREATE POLICY "Students can view lessons assigned to them"
+  ON public.lessons FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.assignments a WHERE a.lesson_id = lessons.id AND public.is_assigned_to_me(a.id)));
+
+DROP POLICY IF EXISTS "Students can view academic content assigned to them" ON public.academic;
+CREATE POLICY "Students can view academic content assigned to them"
+  ON public.academic FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.assignments a WHERE a.academic_id = academic.id AND public.is_assigned_to_me(a.id)));
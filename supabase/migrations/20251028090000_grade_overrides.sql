@@ -0,0 +1,39 @@
+-- A teacher's grade for a student's module or assignment, replacing the computed score in the gradebook
+CREATE TABLE IF NOT EXISTS public.grade_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  module_id UUID REFERENCES public.learning_modules(id) ON DELETE CASCADE,
+  assignment_id UUID REFERENCES public.assignments(id) ON DELETE CASCADE,
+  score NUMERIC(5, 2) NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT grade_overrides_item_check CHECK ((module_id IS NULL) <> (assignment_id IS NULL)),
+  CONSTRAINT grade_overrides_score_check CHECK (score BETWEEN 0 AND 100)
+);
+
+-- One override per student and item; the latest teacher to edit it is recorded
+CREATE UNIQUE INDEX IF NOT EXISTS grade_overrides_student_module_idx
+  ON public.grade_overrides (student_id, module_id) WHERE module_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS grade_overrides_student_assignment_idx
+  ON public.grade_overrides (student_id, assignment_id) WHERE assignment_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_grade_overrides_updated_at ON public.grade_overrides;
+CREATE TRIGGER update_grade_overrides_updated_at
+  BEFORE UPDATE ON public.grade_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.grade_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can view grade overrides of their students" ON public.grade_overrides;
+CREATE POLICY "Teachers can view grade overrides of their students"
+  ON public.grade_overrides FOR SELECT
+  USING (public.teaches_student(student_id));
+
+DROP POLICY IF EXISTS "Students can view their own grade overrides" ON public.grade_overrides;
+CREATE POLICY "Students can view their own grade overrides"
+  ON public.grade_overrides FOR SELECT
+  USING (auth.uid() = student_id);
+
@@ -0,0 +1,181 @@
+-- Lessons move draft → in_review → published → archived; a published lesson with a future publish_at is scheduled
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+ALTER TABLE public.lessons DROP CONSTRAINT IF EXISTS lessons_status_check;
+ALTER TABLE public.lessons ADD CONSTRAINT lessons_status_check
+  CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+
+UPDATE public.lessons SET published_at = COALESCE(published_at, updated_at) WHERE status = 'published';
+
+CREATE INDEX IF NOT EXISTS lessons_in_review_idx
+  ON public.lessons (submitted_at) WHERE status = 'in_review';
+
+-- Heads of department review lessons submitted by teachers at their institution
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS is_head_of_department BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    NEW.role = OLD.role;
+    NEW.is_head_of_department = OLD.is_head_of_department;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Whether a lesson is visible to students right now
+CREATE OR REPLACE FUNCTION public.is_lesson_live(p_status TEXT, p_publish_at TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN AS $$
+  SELECT p_status = 'published' AND (p_publish_at IS NULL OR p_publish_at <= NOW());
+$$ LANGUAGE sql STABLE;
+
+DROP POLICY IF EXISTS "Authenticated users can view published lessons" ON public.lessons;
+CREATE POLICY "Authenticated users can view published lessons"
+  ON public.lessons FOR SELECT
+  TO authenticated
+  USING (public.is_lesson_live(status, publish_at));
+
+DROP POLICY IF EXISTS "Students can view lessons assigned to them" ON public.lessons;
+CREATE POLICY "Students can view lessons assigned to them"
+  ON public.lessons FOR SELECT
+  USING (
+    public.is_lesson_live(status, publish_at)
+    AND EXISTS (SELECT 1 FROM public.assignments a WHERE a.lesson_id = lessons.id AND public.is_assigned_to_me(a.id))
+  );
+
+-- Status and review fields only move through transition_lesson
+CREATE OR REPLACE FUNCTION public.protect_lesson_workflow()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.lesson_workflow', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status = 'draft';
+      NEW.publish_at = NULL;
+      NEW.published_at = NULL;
+      NEW.submitted_at = NULL;
+      NEW.reviewed_by = NULL;
+      NEW.reviewed_at = NULL;
+      NEW.review_comment = NULL;
+    ELSE
+      NEW.status = OLD.status;
+      NEW.publish_at = OLD.publish_at;
+      NEW.published_at = OLD.published_at;
+      NEW.submitted_at = OLD.submitted_at;
+      NEW.reviewed_by = OLD.reviewed_by;
+      NEW.reviewed_at = OLD.reviewed_at;
+      NEW.review_comment = OLD.review_comment;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_lessons_workflow ON public.lessons;
+CREATE TRIGGER protect_lessons_workflow
+  BEFORE INSERT OR UPDATE ON public.lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_lesson_workflow();
+
+-- Moves a lesson through its lifecycle for the user acting on it.
+-- Authors submit, withdraw, publish (unless approval is required), unpublish, archive and restore;
+-- a head of department at the author's institution approves or rejects lessons in review.
+CREATE OR REPLACE FUNCTION public.transition_lesson(
+  p_user_id UUID,
+  p_lesson_id UUID,
+  p_action TEXT,
+  p_publish_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_comment TEXT DEFAULT NULL,
+  p_approval_required BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_lesson RECORD;
+  v_actor RECORD;
+  v_author_institution TEXT;
+  v_from TEXT[];
+  v_to TEXT;
+BEGIN
+  SELECT l.id, l.teacher_id, l.status INTO v_lesson
+  FROM public.lessons l
+  WHERE l.id = p_lesson_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT p.role, p.institution, p.is_head_of_department INTO v_actor
+  FROM public.profiles p
+  WHERE p.id = p_user_id;
+
+  CASE p_action
+    WHEN 'submit' THEN v_from := ARRAY['draft']; v_to := 'in_review';
+    WHEN 'withdraw' THEN v_from := ARRAY['in_review']; v_to := 'draft';
+    WHEN 'publish' THEN v_from := ARRAY['draft']; v_to := 'published';
+    WHEN 'approve' THEN v_from := ARRAY['in_review']; v_to := 'published';
+    WHEN 'reject' THEN v_from := ARRAY['in_review']; v_to := 'draft';
+    WHEN 'unpublish' THEN v_from := ARRAY['published']; v_to := 'draft';
+    WHEN 'archive' THEN v_from := ARRAY['draft', 'published']; v_to := 'archived';
+    WHEN 'restore' THEN v_from := ARRAY['archived']; v_to := 'draft';
+    ELSE RAISE EXCEPTION 'Unknown lesson action %', p_action USING ERRCODE = '22023';
+  END CASE;
+
+  IF p_action IN ('approve', 'reject') THEN
+    SELECT p.institution INTO v_author_institution FROM public.profiles p WHERE p.id = v_lesson.teacher_id;
+    IF NOT COALESCE(v_actor.is_head_of_department, false)
+       OR v_lesson.teacher_id = p_user_id
+       OR v_actor.institution IS DISTINCT FROM v_author_institution THEN
+      RAISE EXCEPTION 'Only a head of department at the author''s institution can review this lesson' USING ERRCODE = '42501';
+    END IF;
+  ELSIF v_lesson.teacher_id <> p_user_id THEN
+    RAISE EXCEPTION 'Lesson not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_action = 'publish' AND p_approval_required THEN
+    RAISE EXCEPTION 'Lessons must be approved by a head of department before publishing' USING ERRCODE = '55000';
+  END IF;
+
+  IF NOT v_lesson.status = ANY (v_from) THEN
+    RAISE EXCEPTION 'Cannot % a lesson that is %', p_action, replace(v_lesson.status, '_', ' ') USING ERRCODE = '55000';
+  END IF;
+
+  IF p_action = 'reject' AND NULLIF(trim(COALESCE(p_comment, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Say what needs to change when sending a lesson back' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.lesson_workflow', 'on', true);
+  UPDATE public.lessons
+  SET status = v_to,
+      publish_at = CASE WHEN v_to = 'published' THEN p_publish_at ELSE NULL END,
+      published_at = CASE WHEN v_to = 'published' THEN GREATEST(NOW(), COALESCE(p_publish_at, NOW())) ELSE published_at END,
+      submitted_at = CASE WHEN p_action = 'submit' THEN NOW() ELSE submitted_at END,
+      reviewed_by = CASE WHEN p_action IN ('approve', 'reject') THEN p_user_id ELSE reviewed_by END,
+      reviewed_at = CASE WHEN p_action IN ('approve', 'reject') THEN NOW() ELSE reviewed_at END,
+      review_comment = CASE WHEN p_action IN ('approve', 'reject') THEN p_comment WHEN p_action = 'submit' THEN NULL ELSE review_comment END
+  WHERE id = p_lesson_id;
+  PERFORM set_config('app.lesson_workflow', 'off', true);
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', l.id,
+      'status', l.status,
+      'publish_at', l.publish_at,
+      'published_at', l.published_at,
+      'submitted_at', l.submitted_at,
+      'reviewed_by', l.reviewed_by,
+      'reviewed_at', l.reviewed_at,
+      'review_comment', l.review_comment
+    )
+    FROM public.lessons l
+    WHERE l.id = p_lesson_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transition_lesson(UUID, UUID, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,235 @@
+-- Every save of a lesson or academic piece is kept as a numbered revision
+CREATE TABLE IF NOT EXISTS public.content_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id UUID REFERENCES public.lessons(id) ON DELETE CASCADE,
+  academic_id UUID REFERENCES public.academic(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT,
+  -- The revision number this one was restored from, if it came from a restore
+  restored_from INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT content_revisions_item_check CHECK ((lesson_id IS NULL) <> (academic_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS content_revisions_lesson_number_idx
+  ON public.content_revisions (lesson_id, revision_number) WHERE lesson_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS content_revisions_academic_number_idx
+  ON public.content_revisions (academic_id, revision_number) WHERE academic_id IS NOT NULL;
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can view revisions of their own content" ON public.content_revisions;
+CREATE POLICY "Teachers can view revisions of their own content"
+  ON public.content_revisions FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.lessons l WHERE l.id = lesson_id AND l.teacher_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.academic a WHERE a.id = academic_id AND a.teacher_id = auth.uid())
+  );
+
+-- Records a revision when a row is created or its title or content changes
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_title TEXT := to_jsonb(NEW) ->> CASE WHEN TG_TABLE_NAME = 'lessons' THEN 'title' ELSE 'topic' END;
+  v_lesson_id UUID := CASE WHEN TG_TABLE_NAME = 'lessons' THEN NEW.id END;
+  v_academic_id UUID := CASE WHEN TG_TABLE_NAME = 'academic' THEN NEW.id END;
+  v_number INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.content IS NOT DISTINCT FROM OLD.content
+     AND v_title IS NOT DISTINCT FROM to_jsonb(OLD) ->> CASE WHEN TG_TABLE_NAME = 'lessons' THEN 'title' ELSE 'topic' END THEN
+    RETURN NULL;
+  END IF;
+
+  -- The row lock held by the update serializes concurrent saves, so the next number is free
+  SELECT COALESCE(MAX(r.revision_number), 0) + 1 INTO v_number
+  FROM public.content_revisions r
+  WHERE (v_lesson_id IS NOT NULL AND r.lesson_id = v_lesson_id)
+     OR (v_academic_id IS NOT NULL AND r.academic_id = v_academic_id);
+
+  INSERT INTO public.content_revisions (lesson_id, academic_id, revision_number, title, content, restored_from)
+  VALUES (
+    v_lesson_id,
+    v_academic_id,
+    v_number,
+    v_title,
+    NEW.content,
+    NULLIF(current_setting('app.restored_from_revision', true), '')::INTEGER
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_lessons_revision ON public.lessons;
+CREATE TRIGGER record_lessons_revision
+  AFTER INSERT OR UPDATE OF title, content ON public.lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_content_revision();
+
+DROP TRIGGER IF EXISTS record_academic_revision ON public.academic;
+CREATE TRIGGER record_academic_revision
+  AFTER INSERT OR UPDATE OF topic, content ON public.academic
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_content_revision();
+
+-- Existing content starts its history at revision 1
+INSERT INTO public.content_revisions (lesson_id, revision_number, title, content, created_at)
+SELECT l.id, 1, l.title, l.content, l.updated_at
+FROM public.lessons l
+WHERE NOT EXISTS (SELECT 1 FROM public.content_revisions r WHERE r.lesson_id = l.id);
+
+INSERT INTO public.content_revisions (academic_id, revision_number, title, content, created_at)
+SELECT a.id, 1, a.topic, a.content, a.updated_at
+FROM public.academic a
+WHERE NOT EXISTS (SELECT 1 FROM public.content_revisions r WHERE r.academic_id = a.id);
+
+-- Deleted content stays in the trash for 30 days before the API server purges it
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.academic ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS lessons_trash_idx
+  ON public.lessons (teacher_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS academic_trash_idx
+  ON public.academic (teacher_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Only the API server moves content in and out of the trash
+CREATE OR REPLACE FUNCTION public.protect_deleted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    NEW.deleted_at = CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.deleted_at END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_lessons_deleted_at ON public.lessons;
+CREATE TRIGGER protect_lessons_deleted_at
+  BEFORE INSERT OR UPDATE ON public.lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_deleted_at();
+
+DROP TRIGGER IF EXISTS protect_academic_deleted_at ON public.academic;
+CREATE TRIGGER protect_academic_deleted_at
+  BEFORE INSERT OR UPDATE ON public.academic
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_deleted_at();
+
+-- Teachers no longer delete rows directly; deleting moves content to the trash
+DROP POLICY IF EXISTS "Teachers can manage their own lessons" ON public.lessons;
+DROP POLICY IF EXISTS "Teachers can view their own lessons" ON public.lessons;
+CREATE POLICY "Teachers can view their own lessons"
+  ON public.lessons FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+DROP POLICY IF EXISTS "Teachers can create lessons" ON public.lessons;
+CREATE POLICY "Teachers can create lessons"
+  ON public.lessons FOR INSERT
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+DROP POLICY IF EXISTS "Teachers can update their own lessons" ON public.lessons;
+CREATE POLICY "Teachers can update their own lessons"
+  ON public.lessons FOR UPDATE
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+DROP POLICY IF EXISTS "Teachers can manage their own academic content" ON public.academic;
+DROP POLICY IF EXISTS "Teachers can view their own academic content" ON public.academic;
+CREATE POLICY "Teachers can view their own academic content"
+  ON public.academic FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+DROP POLICY IF EXISTS "Teachers can create academic content" ON public.academic;
+CREATE POLICY "Teachers can create academic content"
+  ON public.academic FOR INSERT
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+DROP POLICY IF EXISTS "Teachers can update their own academic content" ON public.academic;
+CREATE POLICY "Teachers can update their own academic content"
+  ON public.academic FOR UPDATE
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id AND public.is_teacher());
+
+-- Students never see content in the trash
+DROP POLICY IF EXISTS "Authenticated users can view published lessons" ON public.lessons;
+CREATE POLICY "Authenticated users can view published lessons"
+  ON public.lessons FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL AND public.is_lesson_live(status, publish_at));
+
+DROP POLICY IF EXISTS "Students can view lessons assigned to them" ON public.lessons;
+CREATE POLICY "Students can view lessons assigned to them"
+  ON public.lessons FOR SELECT
+  USING (
+    deleted_at IS NULL
+    AND public.is_lesson_live(status, publish_at)
+    AND EXISTS (SELECT 1 FROM public.assignments a WHERE a.lesson_id = lessons.id AND public.is_assigned_to_me(a.id))
+  );
+
+DROP POLICY IF EXISTS "Students can view academic content assigned to them" ON public.academic;
+CREATE POLICY "Students can view academic content assigned to them"
+  ON public.academic FOR SELECT
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (SELECT 1 FROM public.assignments a WHERE a.academic_id = academic.id AND public.is_assigned_to_me(a.id))
+  );
+
+-- Puts a lesson or academic piece back to one of its revisions, which records a new revision
+CREATE OR REPLACE FUNCTION public.restore_content_revision(p_user_id UUID, p_revision_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_revision RECORD;
+  v_deleted_at TIMESTAMP WITH TIME ZONE;
+  v_item JSONB;
+BEGIN
+  SELECT r.lesson_id, r.academic_id, r.revision_number, r.title, r.content INTO v_revision
+  FROM public.content_revisions r
+  WHERE r.id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_revision.lesson_id IS NOT NULL THEN
+    SELECT l.deleted_at INTO v_deleted_at
+    FROM public.lessons l
+    WHERE l.id = v_revision.lesson_id AND l.teacher_id = p_user_id
+    FOR UPDATE;
+  ELSE
+    SELECT a.deleted_at INTO v_deleted_at
+    FROM public.academic a
+    WHERE a.id = v_revision.academic_id AND a.teacher_id = p_user_id
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Restore this content from the trash first' USING ERRCODE = '55000';
+  END IF;
+
+  PERFORM set_config('app.restored_from_revision', v_revision.revision_number::TEXT, true);
+
+  IF v_revision.lesson_id IS NOT NULL THEN
+    UPDATE public.lessons
+    SET title = v_revision.title, content = v_revision.content
+    WHERE id = v_revision.lesson_id
+    RETURNING jsonb_build_object('id', id, 'title', title, 'content', content) INTO v_item;
+  ELSE
+    UPDATE public.academic
+    SET topic = v_revision.title, content = v_revision.content
+    WHERE id = v_revision.academic_id
+    RETURNING jsonb_build_object('id', id, 'title', topic, 'content', content) INTO v_item;
+  END IF;
+
+  PERFORM set_config('app.restored_from_revision', '', true);
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.restore_content_revision(UUID, UUID) FROM PUBLIC, anon, authenticated;
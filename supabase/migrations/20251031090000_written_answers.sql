@@ -0,0 +1,51 @@
+-- The AI marking of a written answer, and the teacher's review when the marking was uncertain.
+-- The attempt row keeps the effective score, so completing a module counts reviewed grades.
+CREATE TABLE IF NOT EXISTS public.written_answer_grades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id UUID REFERENCES public.user_quiz_attempts(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE NOT NULL,
+  question_id TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  -- NULL when the AI provider could not mark the answer
+  ai_score NUMERIC(5, 2),
+  ai_confidence NUMERIC(3, 2),
+  ai_feedback TEXT,
+  -- [{criterion, max_points, points_awarded, comment}] in rubric order
+  criteria JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'graded',
+  teacher_score NUMERIC(5, 2),
+  teacher_feedback TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT written_answer_grades_status_check CHECK (status IN ('graded', 'needs_review', 'reviewed')),
+  CONSTRAINT written_answer_grades_score_check CHECK (
+    (ai_score IS NULL OR ai_score BETWEEN 0 AND 100) AND (teacher_score IS NULL OR teacher_score BETWEEN 0 AND 100)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS written_answer_grades_review_idx
+  ON public.written_answer_grades (user_id, created_at) WHERE status = 'needs_review';
+CREATE INDEX IF NOT EXISTS written_answer_grades_user_quiz_idx
+  ON public.written_answer_grades (user_id, quiz_id);
+
+DROP TRIGGER IF EXISTS update_written_answer_grades_updated_at ON public.written_answer_grades;
+CREATE TRIGGER update_written_answer_grades_updated_at
+  BEFORE UPDATE ON public.written_answer_grades
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.written_answer_grades ENABLE ROW LEVEL SECURITY;
+
+-- Written by the API server only
+DROP POLICY IF EXISTS "Students can view grades of their written answers" ON public.written_answer_grades;
+CREATE POLICY "Students can view grades of their written answers"
+  ON public.written_answer_grades FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Teachers can view their students' written answer grades" ON public.written_answer_grades;
+CREATE POLICY "Teachers can view their students' written answer grades"
+  ON public.written_answer_grades FOR SELECT
+  USING (public.teaches_student(user_id));
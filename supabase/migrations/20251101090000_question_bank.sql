@@ -0,0 +1,355 @@
+-- Every quiz question, AI-generated or teacher-written, is stored once in the bank and
+-- quizzes list the bank questions they use.
+CREATE TABLE IF NOT EXISTS public.question_bank (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL DEFAULT 'mcq',
+  question TEXT NOT NULL,
+  -- Multiple choice only
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_answer TEXT,
+  -- Written only: [{criterion, points}]
+  model_answer TEXT,
+  rubric JSONB NOT NULL DEFAULT '[]'::jsonb,
+  explanation TEXT NOT NULL DEFAULT '',
+  skill_area TEXT NOT NULL,
+  difficulty skill_level NOT NULL DEFAULT 'beginner',
+  syllabus_topic TEXT,
+  language TEXT NOT NULL DEFAULT 'en',
+  source TEXT NOT NULL DEFAULT 'teacher',
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  times_used INTEGER NOT NULL DEFAULT 0,
+  times_answered INTEGER NOT NULL DEFAULT 0,
+  times_correct INTEGER NOT NULL DEFAULT 0,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  search TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('simple', question || ' ' || skill_area || ' ' || COALESCE(syllabus_topic, ''))
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CONSTRAINT question_bank_type_check CHECK (type IN ('mcq', 'written')),
+  CONSTRAINT question_bank_source_check CHECK (source IN ('ai', 'teacher', 'assessment')),
+  CONSTRAINT question_bank_language_check CHECK (language IN ('en', 'sw')),
+  CONSTRAINT question_bank_answer_check CHECK (
+    (type = 'mcq' AND correct_answer IS NOT NULL) OR (type = 'written' AND model_answer IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS question_bank_search_idx ON public.question_bank USING GIN (search);
+CREATE INDEX IF NOT EXISTS question_bank_tags_idx
+  ON public.question_bank (skill_area, difficulty, language) WHERE archived_at IS NULL;
+CREATE INDEX IF NOT EXISTS question_bank_author_idx ON public.question_bank (author_id);
+
+DROP TRIGGER IF EXISTS update_question_bank_updated_at ON public.question_bank;
+CREATE TRIGGER update_question_bank_updated_at
+  BEFORE UPDATE ON public.question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.quiz_questions (
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE CASCADE NOT NULL,
+  question_id UUID REFERENCES public.question_bank(id) ON DELETE RESTRICT NOT NULL,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (quiz_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS quiz_questions_question_idx ON public.quiz_questions (question_id);
+
+-- Teachers can assemble quizzes that do not belong to a module
+ALTER TABLE public.quizzes ALTER COLUMN module_id DROP NOT NULL;
+ALTER TABLE public.quizzes ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+
+-- Answer keys are in the bank, so students never read it directly; the API server serves their quizzes
+DROP POLICY IF EXISTS "Teachers can view the question bank" ON public.question_bank;
+CREATE POLICY "Teachers can view the question bank"
+  ON public.question_bank FOR SELECT
+  USING (public.is_teacher());
+
+DROP POLICY IF EXISTS "Teachers can view quiz questions" ON public.quiz_questions;
+CREATE POLICY "Teachers can view quiz questions"
+  ON public.quiz_questions FOR SELECT
+  USING (public.is_teacher());
+
+-- Usage statistics follow the quizzes and answers that reference a question
+CREATE OR REPLACE FUNCTION public.count_question_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.question_bank SET times_used = times_used + 1 WHERE id = NEW.question_id;
+  ELSE
+    UPDATE public.question_bank SET times_used = GREATEST(times_used - 1, 0) WHERE id = OLD.question_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS count_quiz_question_usage ON public.quiz_questions;
+CREATE TRIGGER count_quiz_question_usage
+  AFTER INSERT OR DELETE ON public.quiz_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_question_usage();
+
+-- A reviewed written answer can flip passed, so updates move the correct count too
+CREATE OR REPLACE FUNCTION public.count_question_answers()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.question_id IS NULL OR NEW.question_id !~* '^[0-9a-f-]{36}$' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.question_bank
+    SET times_answered = times_answered + 1,
+        times_correct = times_correct + CASE WHEN NEW.passed THEN 1 ELSE 0 END
+    WHERE id = NEW.question_id::UUID;
+  ELSIF NEW.passed IS DISTINCT FROM OLD.passed THEN
+    UPDATE public.question_bank
+    SET times_correct = GREATEST(times_correct + CASE WHEN NEW.passed THEN 1 ELSE -1 END, 0)
+    WHERE id = NEW.question_id::UUID;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS count_quiz_attempt_answers ON public.user_quiz_attempts;
+CREATE TRIGGER count_quiz_attempt_answers
+  AFTER INSERT OR UPDATE OF passed ON public.user_quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_question_answers();
+
+REVOKE EXECUTE ON FUNCTION public.count_question_usage() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.count_question_answers() FROM PUBLIC, anon, authenticated;
+
+-- Move the questions stored inside existing quizzes into the bank. Their ids become bank ids,
+-- so earlier answers, written grades and quiz point keys are rewritten to match.
+CREATE TEMP TABLE quiz_question_ids ON COMMIT DROP AS
+SELECT
+  q.id AS quiz_id,
+  m.category AS skill_area,
+  m.difficulty,
+  m.title AS syllabus_topic,
+  item.value AS question,
+  item.value ->> 'id' AS old_id,
+  item.ordinality - 1 AS position,
+  gen_random_uuid() AS new_id
+FROM public.quizzes q
+JOIN public.learning_modules m ON m.id = q.module_id
+CROSS JOIN LATERAL jsonb_array_elements(q.questions) WITH ORDINALITY AS item(value, ordinality)
+WHERE jsonb_typeof(q.questions) = 'array';
+
+INSERT INTO public.question_bank
+  (id, type, question, options, correct_answer, model_answer, rubric, explanation, skill_area, difficulty, syllabus_topic, source)
+SELECT
+  new_id,
+  COALESCE(question ->> 'type', 'mcq'),
+  question ->> 'question',
+  COALESCE(question -> 'options', '[]'::jsonb),
+  question ->> 'correct_answer',
+  question ->> 'model_answer',
+  COALESCE(question -> 'rubric', '[]'::jsonb),
+  COALESCE(question ->> 'explanation', ''),
+  skill_area,
+  difficulty,
+  syllabus_topic,
+  'ai'
+FROM quiz_question_ids;
+
+INSERT INTO public.quiz_questions (quiz_id, question_id, position)
+SELECT quiz_id, new_id, position FROM quiz_question_ids;
+
+UPDATE public.user_quiz_attempts a
+SET question_id = ids.new_id::TEXT, answers = jsonb_build_object(ids.new_id::TEXT, a.answers -> ids.old_id)
+FROM quiz_question_ids ids
+WHERE a.quiz_id = ids.quiz_id AND a.question_id = ids.old_id;
+
+UPDATE public.written_answer_grades g
+SET question_id = ids.new_id::TEXT
+FROM quiz_question_ids ids
+WHERE g.quiz_id = ids.quiz_id AND g.question_id = ids.old_id;
+
+-- The ledger is append-only, so its trigger is paused while the point keys follow the new question ids
+ALTER TABLE public.point_transactions DISABLE TRIGGER point_transactions_append_only;
+UPDATE public.point_transactions p
+SET idempotency_key = 'quiz:' || ids.quiz_id || ':' || ids.new_id
+FROM quiz_question_ids ids
+WHERE p.idempotency_key = 'quiz:' || ids.quiz_id || ':' || ids.old_id;
+ALTER TABLE public.point_transactions ENABLE TRIGGER point_transactions_append_only;
+
+-- Statistics for the migrated questions come from the answers already given
+UPDATE public.question_bank b
+SET times_answered = stats.answered, times_correct = stats.correct
+FROM (
+  SELECT question_id::UUID AS id, COUNT(*) AS answered, COUNT(*) FILTER (WHERE passed) AS correct
+  FROM public.user_quiz_attempts
+  WHERE question_id ~* '^[0-9a-f-]{36}$'
+  GROUP BY question_id
+) stats
+WHERE b.id = stats.id;
+
+-- The placement questions join the bank too
+INSERT INTO public.question_bank (type, question, options, correct_answer, skill_area, difficulty, source)
+SELECT 'mcq', question_text, options, correct_answer, skill_area, COALESCE(difficulty, 'beginner'), 'assessment'
+FROM public.assessment_questions;
+
+ALTER TABLE public.quizzes DROP COLUMN IF EXISTS questions;
+
+-- A module has one quiz. Racing first starts could store a second; the API server always served the
+-- oldest, so any later copy is detached from its module before the index holds it to one.
+UPDATE public.quizzes q
+SET module_id = NULL
+WHERE q.module_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.quizzes e
+    WHERE e.module_id = q.module_id AND (e.created_at, e.id) < (q.created_at, q.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS quizzes_module_idx ON public.quizzes (module_id) WHERE module_id IS NOT NULL;
+
+-- complete_module read the module quiz from quizzes.questions; count and grade it from quiz_questions instead
+CREATE OR REPLACE FUNCTION public.complete_module(
+  p_user_id UUID,
+  p_module_id UUID,
+  p_claimed_score NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_progress RECORD;
+  v_quiz RECORD;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_answers JSONB;
+  v_score INTEGER;
+  v_passed BOOLEAN;
+  v_completed_before INTEGER;
+  v_completed_after INTEGER;
+  v_points INTEGER := 0;
+  v_awarded BOOLEAN;
+  v_badge JSONB;
+BEGIN
+  -- Lock the progress row so a double click or a second tab waits for the first completion
+  SELECT ump.is_completed, ump.title, ump.difficulty, ump.points_reward
+  INTO v_progress
+  FROM public.user_module_progress ump
+  WHERE ump.user_id = p_user_id AND ump.module_id = p_module_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Module not found for this student' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT count(DISTINCT ump.module_id) INTO v_completed_before
+  FROM public.user_module_progress ump
+  WHERE ump.user_id = p_user_id AND ump.is_completed;
+
+  IF v_progress.is_completed THEN
+    RETURN jsonb_build_object(
+      'module_id', p_module_id,
+      'already_completed', true,
+      'score', NULL,
+      'passed', NULL,
+      'points_awarded', 0,
+      'badge', NULL,
+      'completed_before', v_completed_before,
+      'completed_after', v_completed_before
+    );
+  END IF;
+
+  SELECT q.id INTO v_quiz
+  FROM public.quizzes q
+  WHERE q.module_id = p_module_id
+  ORDER BY q.created_at ASC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This module has no quiz yet' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT count(*) INTO v_total FROM public.quiz_questions qq WHERE qq.quiz_id = v_quiz.id;
+
+  -- Latest graded answer per question of the stored quiz
+  SELECT count(*) FILTER (WHERE latest.passed),
+         COALESCE(jsonb_object_agg(latest.question_id, latest.answers -> latest.question_id), '{}'::jsonb)
+  INTO v_correct, v_answers
+  FROM (
+    SELECT DISTINCT ON (a.question_id) a.question_id, a.answers, a.passed
+    FROM public.user_quiz_attempts a
+    WHERE a.user_id = p_user_id
+      AND a.quiz_id = v_quiz.id
+      AND a.question_id IN (SELECT qq.question_id::TEXT FROM public.quiz_questions qq WHERE qq.quiz_id = v_quiz.id)
+    ORDER BY a.question_id, a.attempted_at DESC
+  ) latest;
+
+  v_score := CASE WHEN v_total > 0 THEN round(v_correct * 100.0 / v_total) ELSE 0 END;
+
+  IF p_claimed_score IS NOT NULL AND round(p_claimed_score) > v_score THEN
+    RAISE EXCEPTION 'Submitted score % does not match the graded answers (%)', round(p_claimed_score), v_score
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_passed := v_score >= 85;
+
+  UPDATE public.user_module_progress
+  SET progress_percentage = 100, is_completed = true, is_read_only = true, completed_at = NOW()
+  WHERE user_id = p_user_id AND module_id = p_module_id;
+
+  -- Quiz-level attempt (no question_id) holding the final answers and score
+  INSERT INTO public.user_quiz_attempts (user_id, quiz_id, score, answers, passed)
+  VALUES (p_user_id, v_quiz.id, v_score, v_answers, v_passed);
+
+  -- Module points are paid regardless of score, once per module
+  IF COALESCE(v_progress.points_reward, 0) > 0 THEN
+    SELECT ap.awarded INTO v_awarded
+    FROM public.award_points(
+      p_user_id,
+      v_progress.points_reward,
+      'module_complete',
+      'module-complete:' || p_module_id,
+      p_module_id,
+      v_quiz.id,
+      'Completed ' || COALESCE(v_progress.title, 'a module')
+    ) ap;
+
+    IF v_awarded THEN
+      v_points := v_progress.points_reward;
+    END IF;
+  END IF;
+
+  -- A badge needs 85% or more and is only ever awarded once per module
+  IF v_passed AND NOT EXISTS (
+    SELECT 1 FROM public.user_badges b WHERE b.user_id = p_user_id AND b.module_id = p_module_id
+  ) THEN
+    INSERT INTO public.user_badges (user_id, name, description, icon, module_id, earned_at)
+    VALUES (
+      p_user_id,
+      initcap(COALESCE(v_progress.difficulty, 'beginner')) || ' Badge',
+      'Completed ' || COALESCE(v_progress.title, 'a module'),
+      'star',
+      p_module_id,
+      NOW()
+    )
+    RETURNING jsonb_build_object(
+      'id', id, 'name', name, 'description', description, 'icon', icon, 'module_id', module_id, 'earned_at', earned_at
+    ) INTO v_badge;
+  END IF;
+
+  SELECT count(DISTINCT ump.module_id) INTO v_completed_after
+  FROM public.user_module_progress ump
+  WHERE ump.user_id = p_user_id AND ump.is_completed;
+
+  RETURN jsonb_build_object(
+    'module_id', p_module_id,
+    'already_completed', false,
+    'score', v_score,
+    'passed', v_passed,
+    'points_awarded', v_points,
+    'badge', v_badge,
+    'completed_before', v_completed_before,
+    'completed_after', v_completed_after
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called only by the API server (service role)
+REVOKE EXECUTE ON FUNCTION public.complete_module(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,55 @@
+-- Adaptive placement tests. A user_assessments row is one sitting of the test for a subject:
+-- in_progress while questions are being asked, then completed with the level it placed the student at.
+ALTER TABLE public.user_assessments ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE public.user_assessments ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed';
+ALTER TABLE public.user_assessments ADD COLUMN IF NOT EXISTS current_question_id UUID REFERENCES public.question_bank(id) ON DELETE SET NULL;
+ALTER TABLE public.user_assessments ADD COLUMN IF NOT EXISTS confidence NUMERIC(3, 2);
+ALTER TABLE public.user_assessments ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL;
+-- The level is only known once the test is completed
+ALTER TABLE public.user_assessments ALTER COLUMN skill_level DROP NOT NULL;
+ALTER TABLE public.user_assessments ALTER COLUMN completed_at DROP DEFAULT;
+
+ALTER TABLE public.user_assessments DROP CONSTRAINT IF EXISTS user_assessments_status_check;
+ALTER TABLE public.user_assessments ADD CONSTRAINT user_assessments_status_check CHECK (
+  (status = 'in_progress' AND completed_at IS NULL) OR (status = 'completed' AND skill_level IS NOT NULL)
+);
+
+-- One sitting at a time per subject; starting again resumes it
+CREATE UNIQUE INDEX IF NOT EXISTS user_assessments_in_progress_idx
+  ON public.user_assessments (user_id, lower(subject)) WHERE status = 'in_progress';
+
+-- The latest placement per subject. profiles.skill_level follows the student's main subject.
+CREATE TABLE IF NOT EXISTS public.student_skill_levels (
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  subject TEXT NOT NULL,
+  skill_level skill_level NOT NULL,
+  assessment_id UUID REFERENCES public.user_assessments(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, subject)
+);
+
+DROP TRIGGER IF EXISTS update_student_skill_levels_updated_at ON public.student_skill_levels;
+CREATE TRIGGER update_student_skill_levels_updated_at
+  BEFORE UPDATE ON public.student_skill_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.student_skill_levels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view their own skill levels" ON public.student_skill_levels;
+CREATE POLICY "Students can view their own skill levels"
+  ON public.student_skill_levels FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Teachers can view their students' skill levels" ON public.student_skill_levels;
+CREATE POLICY "Teachers can view their students' skill levels"
+  ON public.student_skill_levels FOR SELECT
+  USING (public.teaches_student(user_id));
+
+-- Results are scored by the API server, so students can no longer write their own
+DROP POLICY IF EXISTS "Users can insert their own assessments" ON public.user_assessments;
+
+DROP POLICY IF EXISTS "Teachers can view their students' assessments" ON public.user_assessments;
+CREATE POLICY "Teachers can view their students' assessments"
+  ON public.user_assessments FOR SELECT
+  USING (public.teaches_student(user_id));
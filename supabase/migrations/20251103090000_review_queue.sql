@@ -0,0 +1,142 @@
+-- Spaced-repetition review queue. Every question a student misses gets a review_items row that is
+-- rescheduled SM-2 style each time it is reviewed; due_on is a date in the student's local calendar.
+CREATE TABLE IF NOT EXISTS public.review_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  question_id UUID REFERENCES public.question_bank(id) ON DELETE CASCADE NOT NULL,
+  -- The quiz the question was first missed in
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE SET NULL,
+  easiness NUMERIC(4, 2) NOT NULL DEFAULT 2.5 CHECK (easiness >= 1.3),
+  interval_days INTEGER NOT NULL DEFAULT 1 CHECK (interval_days >= 1),
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  lapses INTEGER NOT NULL DEFAULT 0 CHECK (lapses >= 0),
+  due_on DATE NOT NULL,
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS review_items_due_idx ON public.review_items (user_id, due_on);
+
+DROP TRIGGER IF EXISTS update_review_items_updated_at ON public.review_items;
+CREATE TRIGGER update_review_items_updated_at
+  BEFORE UPDATE ON public.review_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+-- Scheduling is done by the API server; students and their teachers can only read the queue
+DROP POLICY IF EXISTS "Students can view their own review items" ON public.review_items;
+CREATE POLICY "Students can view their own review items"
+  ON public.review_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Teachers can view their students' review items" ON public.review_items;
+CREATE POLICY "Teachers can view their students' review items"
+  ON public.review_items FOR SELECT
+  USING (public.teaches_student(user_id));
+
+-- Reviews count towards the streak like any other learning activity
+ALTER TABLE public.daily_activity ADD COLUMN IF NOT EXISTS reviews_done INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.record_activity(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  c_freeze_every CONSTANT INTEGER := 7;
+  c_max_freezes CONSTANT INTEGER := 2;
+  v_profile RECORD;
+  v_today DATE;
+  v_missed INTEGER;
+  v_streak INTEGER;
+  v_freezes INTEGER;
+  v_freezes_used INTEGER := 0;
+  v_freeze_earned BOOLEAN := false;
+BEGIN
+  IF p_kind NOT IN ('quiz_answer', 'section_read', 'module_complete', 'review') THEN
+    RAISE EXCEPTION 'Unknown activity kind %', p_kind USING ERRCODE = '22023';
+  END IF;
+
+  SELECT p.timezone, p.streak_days, p.longest_streak, p.streak_freezes, p.last_active_date
+  INTO v_profile
+  FROM public.profiles p
+  WHERE p.id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_today := (p_at AT TIME ZONE v_profile.timezone)::date;
+
+  INSERT INTO public.daily_activity (user_id, activity_date, quiz_answers, sections_read, modules_completed, reviews_done)
+  VALUES (
+    p_user_id,
+    v_today,
+    CASE WHEN p_kind = 'quiz_answer' THEN 1 ELSE 0 END,
+    CASE WHEN p_kind = 'section_read' THEN 1 ELSE 0 END,
+    CASE WHEN p_kind = 'module_complete' THEN 1 ELSE 0 END,
+    CASE WHEN p_kind = 'review' THEN 1 ELSE 0 END
+  )
+  ON CONFLICT (user_id, activity_date) DO UPDATE SET
+    quiz_answers = daily_activity.quiz_answers + EXCLUDED.quiz_answers,
+    sections_read = daily_activity.sections_read + EXCLUDED.sections_read,
+    modules_completed = daily_activity.modules_completed + EXCLUDED.modules_completed,
+    reviews_done = daily_activity.reviews_done + EXCLUDED.reviews_done,
+    freeze_used = false,
+    updated_at = NOW();
+
+  v_streak := v_profile.streak_days;
+  v_freezes := v_profile.streak_freezes;
+
+  IF v_profile.last_active_date IS NULL OR v_profile.last_active_date < v_today THEN
+    v_missed := CASE WHEN v_profile.last_active_date IS NULL THEN NULL ELSE v_today - v_profile.last_active_date - 1 END;
+
+    IF v_missed = 0 THEN
+      v_streak := v_streak + 1;
+    ELSIF v_missed IS NOT NULL AND v_streak > 0 AND v_missed <= v_freezes THEN
+      -- Freezes keep the streak alive but do not add to it
+      v_freezes_used := v_missed;
+      v_freezes := v_freezes - v_missed;
+      v_streak := v_streak + 1;
+
+      INSERT INTO public.daily_activity (user_id, activity_date, freeze_used)
+      SELECT p_user_id, missed_day::date, true
+      FROM generate_series(v_profile.last_active_date + 1, v_today - 1, INTERVAL '1 day') AS missed_day
+      ON CONFLICT (user_id, activity_date) DO NOTHING;
+    ELSE
+      v_streak := 1;
+    END IF;
+
+    IF v_streak % c_freeze_every = 0 AND v_freezes < c_max_freezes THEN
+      v_freezes := v_freezes + 1;
+      v_freeze_earned := true;
+    END IF;
+
+    PERFORM set_config('app.streaks', 'on', true);
+    UPDATE public.profiles
+    SET streak_days = v_streak,
+        longest_streak = GREATEST(longest_streak, v_streak),
+        streak_freezes = v_freezes,
+        last_active_date = v_today
+    WHERE id = p_user_id;
+    PERFORM set_config('app.streaks', 'off', true);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'activity_date', v_today,
+    'streak_days', v_streak,
+    'longest_streak', GREATEST(v_profile.longest_streak, v_streak),
+    'streak_freezes', v_freezes,
+    'freezes_used', v_freezes_used,
+    'freeze_earned', v_freeze_earned
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_activity(UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
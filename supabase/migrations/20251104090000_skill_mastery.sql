@@ -0,0 +1,38 @@
+-- Every bank question tests one named skill within its skill area (the subject).
+-- Existing questions take their syllabus topic, or the skill area when they have none.
+ALTER TABLE public.question_bank ADD COLUMN IF NOT EXISTS skill TEXT;
+UPDATE public.question_bank SET skill = COALESCE(NULLIF(syllabus_topic, ''), skill_area) WHERE skill IS NULL;
+ALTER TABLE public.question_bank ALTER COLUMN skill SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS question_bank_skill_idx ON public.question_bank (lower(skill_area), lower(skill));
+
+-- Knowledge tracing: the estimated probability that the student knows each skill,
+-- updated by the API server after every graded answer
+CREATE TABLE IF NOT EXISTS public.skill_mastery (
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  subject TEXT NOT NULL,
+  skill TEXT NOT NULL,
+  p_known NUMERIC(5, 4) NOT NULL CHECK (p_known >= 0 AND p_known <= 1),
+  answers INTEGER NOT NULL DEFAULT 0 CHECK (answers >= 0),
+  correct_answers INTEGER NOT NULL DEFAULT 0 CHECK (correct_answers >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, subject, skill)
+);
+
+DROP TRIGGER IF EXISTS update_skill_mastery_updated_at ON public.skill_mastery;
+CREATE TRIGGER update_skill_mastery_updated_at
+  BEFORE UPDATE ON public.skill_mastery
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.skill_mastery ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view their own skill mastery" ON public.skill_mastery;
+CREATE POLICY "Students can view their own skill mastery"
+  ON public.skill_mastery FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Teachers can view their students' skill mastery" ON public.skill_mastery;
+CREATE POLICY "Teachers can view their students' skill mastery"
+  ON public.skill_mastery FOR SELECT
+  USING (public.teaches_student(user_id));
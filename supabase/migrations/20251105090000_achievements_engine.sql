@@ -0,0 +1,59 @@
+-- Achievements are declarative rules: one is earned once the student's `metric` reaches `threshold`
+-- (within `subject` for subject metrics). The API server evaluates them after each learning event.
+ALTER TABLE public.achievements ADD COLUMN IF NOT EXISTS code TEXT;
+ALTER TABLE public.achievements ADD COLUMN IF NOT EXISTS metric TEXT;
+ALTER TABLE public.achievements ADD COLUMN IF NOT EXISTS threshold INTEGER;
+ALTER TABLE public.achievements ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE public.achievements ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+-- Rows created before rules existed are points achievements
+UPDATE public.achievements SET metric = 'total_points' WHERE metric IS NULL;
+UPDATE public.achievements SET threshold = points_required WHERE threshold IS NULL;
+UPDATE public.achievements SET code = 'legacy-' || id WHERE code IS NULL;
+
+ALTER TABLE public.achievements ALTER COLUMN code SET NOT NULL;
+ALTER TABLE public.achievements ALTER COLUMN metric SET NOT NULL;
+ALTER TABLE public.achievements ALTER COLUMN threshold SET NOT NULL;
+-- Only meaningful for points achievements, where it matches the threshold
+ALTER TABLE public.achievements ALTER COLUMN points_required SET DEFAULT 0;
+
+ALTER TABLE public.achievements DROP CONSTRAINT IF EXISTS achievements_code_key;
+ALTER TABLE public.achievements ADD CONSTRAINT achievements_code_key UNIQUE (code);
+
+ALTER TABLE public.achievements DROP CONSTRAINT IF EXISTS achievements_rule_check;
+ALTER TABLE public.achievements ADD CONSTRAINT achievements_rule_check CHECK (
+  metric IN ('total_points', 'longest_streak', 'perfect_quizzes', 'modules_completed', 'subject_modules', 'reviews_done', 'skills_mastered')
+  AND threshold > 0
+);
+
+INSERT INTO public.achievements (code, title, description, icon, badge_color, metric, threshold, points_required, sort_order)
+VALUES
+  ('first-module', 'First Steps', 'Complete your first module', 'book-open', 'green', 'modules_completed', 1, 0, 10),
+  ('ten-modules', 'Dedicated Learner', 'Complete 10 modules', 'book-open', 'green', 'modules_completed', 10, 0, 11),
+  ('subject-specialist', 'Subject Specialist', 'Complete 5 modules in one subject', 'graduation-cap', 'blue', 'subject_modules', 5, 0, 12),
+  ('points-100', 'Century', 'Earn 100 points', 'trophy', 'yellow', 'total_points', 100, 100, 20),
+  ('points-500', 'Point Collector', 'Earn 500 points', 'trophy', 'yellow', 'total_points', 500, 500, 21),
+  ('points-1000', 'Point Master', 'Earn 1,000 points', 'crown', 'yellow', 'total_points', 1000, 1000, 22),
+  ('streak-3', 'On a Roll', 'Learn 3 days in a row', 'flame', 'orange', 'longest_streak', 3, 0, 30),
+  ('streak-7', 'Week Warrior', 'Learn 7 days in a row', 'flame', 'orange', 'longest_streak', 7, 0, 31),
+  ('streak-30', 'Unstoppable', 'Learn 30 days in a row', 'flame', 'red', 'longest_streak', 30, 0, 32),
+  ('perfect-quiz', 'Perfectionist', 'Finish a module quiz with every answer right', 'star', 'purple', 'perfect_quizzes', 1, 0, 40),
+  ('perfect-five', 'Flawless Five', 'Finish 5 module quizzes with every answer right', 'star', 'purple', 'perfect_quizzes', 5, 0, 41),
+  ('first-review', 'Back for More', 'Answer your first review question', 'repeat', 'blue', 'reviews_done', 1, 0, 50),
+  ('reviews-100', 'Memory Builder', 'Answer 100 review questions', 'repeat', 'blue', 'reviews_done', 100, 0, 51),
+  ('skills-5', 'Skilled', 'Master 5 skills', 'target', 'green', 'skills_mastered', 5, 0, 60)
+ON CONFLICT (code) DO UPDATE SET
+  title = EXCLUDED.title,
+  description = EXCLUDED.description,
+  icon = EXCLUDED.icon,
+  badge_color = EXCLUDED.badge_color,
+  metric = EXCLUDED.metric,
+  threshold = EXCLUDED.threshold,
+  points_required = EXCLUDED.points_required,
+  sort_order = EXCLUDED.sort_order;
+
+-- Achievements are awarded by the API server only
+DROP POLICY IF EXISTS "Users can insert their own achievements" ON public.user_achievements;
+
+UPDATE public.user_achievements SET earned_at = NOW() WHERE earned_at IS NULL;
+ALTER TABLE public.user_achievements ALTER COLUMN earned_at SET NOT NULL;
@@ -0,0 +1,42 @@
+-- Learning events recorded on a device while it was offline. The device names each event with its own
+-- UUID, so replaying a batch after a dropped connection applies every event exactly once.
+CREATE TABLE IF NOT EXISTS public.offline_events (
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  client_event_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('answer', 'progress', 'complete', 'section_read')),
+  -- When it happened on the device; streaks count it on that day
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- 'processing' while a sync applies it; 'conflict' when the server state no longer allowed it
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'applied', 'conflict')),
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, client_event_id)
+);
+
+DROP TRIGGER IF EXISTS update_offline_events_updated_at ON public.offline_events;
+CREATE TRIGGER update_offline_events_updated_at
+  BEFORE UPDATE ON public.offline_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.offline_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are applied by the API server; students can only read their own
+DROP POLICY IF EXISTS "Students can view their own offline events" ON public.offline_events;
+CREATE POLICY "Students can view their own offline events"
+  ON public.offline_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Each pack a device downloads. Events name the pack they were recorded with, and are never dated earlier
+-- than its download, so a device cannot claim activity from before it last had a connection.
+CREATE TABLE IF NOT EXISTS public.offline_packs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  downloaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_offline_packs_user_id ON public.offline_packs(user_id, downloaded_at);
+
+-- Only the API server reads and writes packs
+ALTER TABLE public.offline_packs ENABLE ROW LEVEL SECURITY;
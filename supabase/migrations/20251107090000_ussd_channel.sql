@@ -0,0 +1,60 @@
+-- Feature phones reach the quizzes over USSD. The gateway identifies the caller by phone number,
+-- which a student links to their account with a one-time code from the web dashboard.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS phone_number TEXT;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_phone_number_format;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_phone_number_format
+  CHECK (phone_number IS NULL OR phone_number ~ '^\+[1-9][0-9]{6,14}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_phone_number_key
+  ON public.profiles (phone_number) WHERE phone_number IS NOT NULL;
+
+-- A phone number is proof of who is calling, so only the API server may set it
+CREATE OR REPLACE FUNCTION public.protect_phone_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'authenticated' THEN
+    NEW.phone_number = CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.phone_number END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profiles_phone_number ON public.profiles;
+CREATE TRIGGER protect_profiles_phone_number
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_phone_number();
+
+-- One live link code per student; entering it from a phone links that phone's number
+CREATE TABLE IF NOT EXISTS public.phone_link_codes (
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[0-9]{6}$'),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.phone_link_codes ENABLE ROW LEVEL SECURITY;
+
+-- USSD gateways call back once per key press; the menu position between presses is kept here
+CREATE TABLE IF NOT EXISTS public.ussd_sessions (
+  gateway TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  phone_number TEXT NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  state JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (gateway, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS ussd_sessions_updated_at_idx ON public.ussd_sessions (updated_at);
+
+DROP TRIGGER IF EXISTS update_ussd_sessions_updated_at ON public.ussd_sessions;
+CREATE TRIGGER update_ussd_sessions_updated_at
+  BEFORE UPDATE ON public.ussd_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Both tables are used by the API server only
+ALTER TABLE public.ussd_sessions ENABLE ROW LEVEL SECURITY;
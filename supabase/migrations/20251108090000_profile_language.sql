@@ -0,0 +1,6 @@
+-- The interface language each user chose, as a catalog code such as 'en' or 'sw'. NULL until they choose,
+-- in which case the app keeps the language picked on the device before signing in.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_language_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_language_check CHECK (language ~ '^[a-z]{2,3}(-[A-Z]{2})?$');
@@ -0,0 +1,58 @@
+-- Learning content records the language it is written in. Content languages are the ones the
+-- question bank already allows; add a language to every check below to offer it.
+ALTER TABLE public.learning_modules ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE public.quizzes ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE public.lessons ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE public.academic ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+-- The language the student takes the module in; its title, description and content copies follow it
+ALTER TABLE public.user_module_progress ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE public.learning_modules DROP CONSTRAINT IF EXISTS learning_modules_language_check;
+ALTER TABLE public.learning_modules ADD CONSTRAINT learning_modules_language_check CHECK (language IN ('en', 'sw'));
+ALTER TABLE public.quizzes DROP CONSTRAINT IF EXISTS quizzes_language_check;
+ALTER TABLE public.quizzes ADD CONSTRAINT quizzes_language_check CHECK (language IN ('en', 'sw'));
+ALTER TABLE public.lessons DROP CONSTRAINT IF EXISTS lessons_language_check;
+ALTER TABLE public.lessons ADD CONSTRAINT lessons_language_check CHECK (language IN ('en', 'sw'));
+ALTER TABLE public.academic DROP CONSTRAINT IF EXISTS academic_language_check;
+ALTER TABLE public.academic ADD CONSTRAINT academic_language_check CHECK (language IN ('en', 'sw'));
+ALTER TABLE public.user_module_progress DROP CONSTRAINT IF EXISTS user_module_progress_language_check;
+ALTER TABLE public.user_module_progress ADD CONSTRAINT user_module_progress_language_check CHECK (language IN ('en', 'sw'));
+
+-- Translations are generated the first time a student asks for one and kept for everyone after
+CREATE TABLE IF NOT EXISTS public.module_translations (
+  module_id UUID NOT NULL REFERENCES public.learning_modules(id) ON DELETE CASCADE,
+  language TEXT NOT NULL CHECK (language IN ('en', 'sw')),
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (module_id, language)
+);
+
+-- Options and rubric criteria keep the order of the original, so answers map between languages by position
+CREATE TABLE IF NOT EXISTS public.question_translations (
+  question_id UUID NOT NULL REFERENCES public.question_bank(id) ON DELETE CASCADE,
+  language TEXT NOT NULL CHECK (language IN ('en', 'sw')),
+  question TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  model_answer TEXT,
+  rubric JSONB NOT NULL DEFAULT '[]'::jsonb,
+  explanation TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (question_id, language)
+);
+
+ALTER TABLE public.module_translations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_translations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view module translations" ON public.module_translations;
+CREATE POLICY "Authenticated users can view module translations"
+  ON public.module_translations FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Like the bank, translated questions hold answer keys and are served by the API server
+DROP POLICY IF EXISTS "Teachers can view question translations" ON public.question_translations;
+CREATE POLICY "Teachers can view question translations"
+  ON public.question_translations FOR SELECT
+  USING (public.is_teacher());
@@ -0,0 +1,187 @@
+-- The national syllabus as data: the forms of each stage of school, the subjects taught at each stage,
+-- and for every subject and form a tree of topics, sub-topics and competences
+CREATE TABLE IF NOT EXISTS public.syllabus_forms (
+  form TEXT PRIMARY KEY,
+  stage TEXT NOT NULL CHECK (stage IN ('primary', 'secondary', 'advanced')),
+  position INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.syllabus_subjects (
+  stage TEXT NOT NULL CHECK (stage IN ('primary', 'secondary', 'advanced')),
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (stage, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.syllabus_nodes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject TEXT NOT NULL,
+  form TEXT NOT NULL REFERENCES public.syllabus_forms(form) ON UPDATE CASCADE,
+  parent_id UUID REFERENCES public.syllabus_nodes(id) ON DELETE CASCADE,
+  level TEXT NOT NULL CHECK (level IN ('topic', 'subtopic', 'competence')),
+  -- Stable reference used by seeds and imports, e.g. MATH-F1-1.2
+  code TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- Topics are the roots; sub-topics sit under topics and competences under sub-topics
+  CONSTRAINT syllabus_nodes_parent_check CHECK ((level = 'topic') = (parent_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS syllabus_nodes_subject_form_idx
+  ON public.syllabus_nodes (lower(subject), form, position);
+CREATE INDEX IF NOT EXISTS syllabus_nodes_parent_idx
+  ON public.syllabus_nodes (parent_id);
+
+ALTER TABLE public.syllabus_forms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.syllabus_subjects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.syllabus_nodes ENABLE ROW LEVEL SECURITY;
+
+-- The syllabus is public reference data; the sign-up form reads it before anyone is signed in
+DROP POLICY IF EXISTS "Anyone can view syllabus forms" ON public.syllabus_forms;
+CREATE POLICY "Anyone can view syllabus forms"
+  ON public.syllabus_forms FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view syllabus subjects" ON public.syllabus_subjects;
+CREATE POLICY "Anyone can view syllabus subjects"
+  ON public.syllabus_subjects FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view syllabus nodes" ON public.syllabus_nodes;
+CREATE POLICY "Anyone can view syllabus nodes"
+  ON public.syllabus_nodes FOR SELECT
+  USING (true);
+
+-- Content is tagged with the most specific syllabus node it covers
+ALTER TABLE public.learning_modules
+  ADD COLUMN IF NOT EXISTS syllabus_node_id UUID REFERENCES public.syllabus_nodes(id) ON DELETE SET NULL;
+ALTER TABLE public.lessons
+  ADD COLUMN IF NOT EXISTS syllabus_node_id UUID REFERENCES public.syllabus_nodes(id) ON DELETE SET NULL;
+ALTER TABLE public.academic
+  ADD COLUMN IF NOT EXISTS syllabus_node_id UUID REFERENCES public.syllabus_nodes(id) ON DELETE SET NULL;
+ALTER TABLE public.question_bank
+  ADD COLUMN IF NOT EXISTS syllabus_node_id UUID REFERENCES public.syllabus_nodes(id) ON DELETE SET NULL;
+ALTER TABLE public.assignments
+  ADD COLUMN IF NOT EXISTS syllabus_node_id UUID REFERENCES public.syllabus_nodes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS learning_modules_syllabus_node_idx ON public.learning_modules (syllabus_node_id);
+CREATE INDEX IF NOT EXISTS question_bank_syllabus_node_idx ON public.question_bank (syllabus_node_id);
+CREATE INDEX IF NOT EXISTS assignments_syllabus_node_idx ON public.assignments (syllabus_node_id);
+
+-- Forms and subjects the sign-up form offered before the syllabus was stored
+INSERT INTO public.syllabus_forms (form, stage, position) VALUES
+  ('Grade 1', 'primary', 1),
+  ('Grade 2', 'primary', 2),
+  ('Grade 3', 'primary', 3),
+  ('Grade 4', 'primary', 4),
+  ('Grade 5', 'primary', 5),
+  ('Grade 6', 'primary', 6),
+  ('Form 1', 'secondary', 7),
+  ('Form 2', 'secondary', 8),
+  ('Form 3', 'secondary', 9),
+  ('Form 4', 'secondary', 10),
+  ('Form 5', 'advanced', 11),
+  ('Form 6', 'advanced', 12)
+ON CONFLICT (form) DO NOTHING;
+
+INSERT INTO public.syllabus_subjects (stage, name, position) VALUES
+  ('primary', 'English', 1),
+  ('primary', 'Kiswahili', 2),
+  ('primary', 'Mathematics', 3),
+  ('primary', 'Science', 4),
+  ('primary', 'Social Studies', 5),
+  ('primary', 'Civics', 6),
+  ('primary', 'Vocational Skills', 7),
+  ('primary', 'Religion', 8),
+  ('secondary', 'English', 1),
+  ('secondary', 'Kiswahili', 2),
+  ('secondary', 'Mathematics', 3),
+  ('secondary', 'Biology', 4),
+  ('secondary', 'Physics', 5),
+  ('secondary', 'Chemistry', 6),
+  ('secondary', 'Geography', 7),
+  ('secondary', 'History', 8),
+  ('secondary', 'Civics', 9),
+  ('secondary', 'Commerce', 10),
+  ('secondary', 'Bookkeeping', 11),
+  ('advanced', 'General Studies', 1),
+  ('advanced', 'Physics', 2),
+  ('advanced', 'Chemistry', 3),
+  ('advanced', 'Biology', 4),
+  ('advanced', 'Mathematics', 5),
+  ('advanced', 'Geography', 6),
+  ('advanced', 'History', 7),
+  ('advanced', 'Economics', 8),
+  ('advanced', 'English Language', 9),
+  ('advanced', 'Kiswahili', 10),
+  ('advanced', 'Computer Studies', 11)
+ON CONFLICT (stage, name) DO NOTHING;
+
+-- Secondary Mathematics topics, Forms 1 to 4
+INSERT INTO public.syllabus_nodes (subject, form, level, code, title, position) VALUES
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-1', 'Numbers', 1),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-2', 'Fractions', 2),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-3', 'Decimals and Percentages', 3),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-4', 'Units', 4),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-5', 'Approximations', 5),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-6', 'Geometry', 6),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-7', 'Algebra', 7),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-8', 'Numbers (II)', 8),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-9', 'Ratio, Profit and Loss', 9),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-10', 'Coordinate Geometry', 10),
+  ('Mathematics', 'Form 1', 'topic', 'MATH-F1-11', 'Perimeters and Areas', 11),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-1', 'Exponents and Radicals', 1),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-2', 'Algebra', 2),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-3', 'Quadratic Equations', 3),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-4', 'Logarithms', 4),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-5', 'Congruence', 5),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-6', 'Similarity', 6),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-7', 'Geometrical Transformations', 7),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-8', 'Pythagoras Theorem', 8),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-9', 'Trigonometry', 9),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-10', 'Sets', 10),
+  ('Mathematics', 'Form 2', 'topic', 'MATH-F2-11', 'Statistics', 11),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-1', 'Relations', 1),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-2', 'Functions', 2),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-3', 'Statistics', 3),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-4', 'Rates and Variations', 4),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-5', 'Sequences and Series', 5),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-6', 'Circles', 6),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-7', 'The Earth as a Sphere', 7),
+  ('Mathematics', 'Form 3', 'topic', 'MATH-F3-8', 'Accounts', 8),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-1', 'Coordinate Geometry', 1),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-2', 'Areas and Perimeters', 2),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-3', 'Three Dimensional Figures', 3),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-4', 'Probability', 4),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-5', 'Trigonometry', 5),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-6', 'Vectors', 6),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-7', 'Matrices and Transformations', 7),
+  ('Mathematics', 'Form 4', 'topic', 'MATH-F4-8', 'Linear Programming', 8)
+ON CONFLICT (code) DO NOTHING;
+
+-- Sub-topics and competences of Form 1 Numbers, as an example of the full depth
+INSERT INTO public.syllabus_nodes (subject, form, parent_id, level, code, title, position)
+SELECT parent.subject, parent.form, parent.id, 'subtopic', child.code, child.title, child.position
+FROM (VALUES
+  ('MATH-F1-1', 'MATH-F1-1.1', 'Whole numbers', 1),
+  ('MATH-F1-1', 'MATH-F1-1.2', 'Even and odd numbers', 2),
+  ('MATH-F1-1', 'MATH-F1-1.3', 'Prime numbers', 3),
+  ('MATH-F1-1', 'MATH-F1-1.4', 'Factors and multiples', 4),
+  ('MATH-F1-1', 'MATH-F1-1.5', 'Integers', 5)
+) AS child(parent_code, code, title, position)
+JOIN public.syllabus_nodes parent ON parent.code = child.parent_code
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.syllabus_nodes (subject, form, parent_id, level, code, title, position)
+SELECT parent.subject, parent.form, parent.id, 'competence', child.code, child.title, child.position
+FROM (VALUES
+  ('MATH-F1-1.1', 'MATH-F1-1.1.1', 'Read and write whole numbers up to one billion in figures and words', 1),
+  ('MATH-F1-1.1', 'MATH-F1-1.1.2', 'Give the place value of each digit in a whole number', 2),
+  ('MATH-F1-1.2', 'MATH-F1-1.2.1', 'Identify and use even and odd numbers', 1),
+  ('MATH-F1-1.3', 'MATH-F1-1.3.1', 'Identify prime numbers and write a number as a product of primes', 1),
+  ('MATH-F1-1.4', 'MATH-F1-1.4.1', 'Find the LCM and GCF of numbers', 1),
+  ('MATH-F1-1.5', 'MATH-F1-1.5.1', 'Add, subtract, multiply and divide integers', 1)
+) AS child(parent_code, code, title, position)
+JOIN public.syllabus_nodes parent ON parent.code = child.parent_code
+ON CONFLICT (code) DO NOTHING;
@@ -8,9 +8,9 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
-    // Proxy /api calls to backend
+    // Proxy /api calls to the API server (npm run start:server)
     proxy: {
-      "/api": "http://192.168.1.55:3000",
+      "/api": process.env.API_PROXY_TARGET || "http://localhost:3000",
     },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),